@@ -0,0 +1,45 @@
+/**
+ * Reminder Calendar Feed Route
+ *
+ * GET /api/calendar/:token.ics
+ * iCalendar feed of the user's open reminders, for subscribing in calendar
+ * clients. Calendar clients have no session, so the secret token in the URL
+ * identifies the user and the reminders are read with a service-role client.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getCalendarFeedUserId, getReminders } from "@/lib/supabase/queries";
+import { buildReminderCalendar } from "@/lib/jobs/reminders";
+import { NextResponse } from "next/server";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const supabase = createAdminClient();
+
+    const userId = await getCalendarFeedUserId(supabase, token.replace(/\.ics$/, ""));
+
+    if (!userId) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    const reminders = await getReminders(supabase, userId);
+
+    return new Response(buildReminderCalendar(reminders), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="job-reminders.ics"',
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Reminder calendar feed error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
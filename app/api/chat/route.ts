@@ -1,18 +1,114 @@
 /**
  * Job Discovery Agent API Route
  *
- * Handles job search requests using Firecrawl MCP tools and Adzuna API.
+ * Handles job search requests using Firecrawl MCP tools and the search tools of
+ * registered job sources (Adzuna, Greenhouse, Lever).
  * Agent autonomously decides which tools to use, when to refine searches,
- * and when to stop. Jobs are displayed temporarily until user saves them.
+ * and when to stop. Displayed jobs are checked against the user's deal-breaker
+ * rules and company lists first: blocklisted companies are removed and target
+ * companies shown first. Displayed jobs are kept in the user's inbox until they
+ * are saved, dismissed or snoozed; dismissed jobs are not displayed again.
  */
 
-import { JOB_DISCOVERY_SYSTEM_PROMPT } from "@/components/agent/prompts";
-import { searchAdzunaJobs, saveJobsToProfile, displayJobs } from "@/components/agent/tools";
+import { JOB_DISCOVERY_SYSTEM_PROMPT, buildCompanyListsPrompt } from "@/components/agent/prompts";
+import { saveJobsToProfile, displayJobs } from "@/components/agent/tools";
+import { getJobSourceTools } from "@/components/agent/sources";
 import { getFirecrawlMCPClient } from "@/lib/mcp";
+import { createClient } from "@/lib/supabase/server";
+import { getProfile, saveJobs } from "@/lib/supabase/queries";
+import { withDealBreakers } from "@/lib/jobs/deal-breakers";
+import { applyCompanyLists } from "@/lib/jobs/company-lists";
+import { canonicalizeUrl, computeJobFingerprint } from "@/lib/jobs/fingerprint";
+import type { Job } from "@/types/job";
+import type { UserProfile } from "@/types/profile";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import { openai } from "@ai-sdk/openai";
 import { streamText, convertToModelMessages, stepCountIs } from "ai";
 import { NextRequest } from "next/server";
 
+/**
+ * Keeps displayed jobs in the user's inbox and drops the ones they dismissed
+ *
+ * Jobs are saved with applicationStatus "inbox" (existing rows keep their
+ * status), so anything not saved during the chat can still be triaged later.
+ * Displayed jobs are replaced by their stored rows, which carry database IDs.
+ * If storing fails the jobs are displayed as they are.
+ */
+async function keepInInbox(
+  jobs: Job[],
+  supabase: SupabaseClient,
+  userId: string,
+  profile: UserProfile | null
+): Promise<Job[]> {
+  try {
+    const { jobs: storedJobs } = await saveJobs(
+      supabase,
+      userId,
+      jobs.map((job) => ({ ...job, applicationStatus: "inbox" as const })),
+      profile
+    );
+
+    const storedJobFor = (job: Job) => {
+      const fingerprint = computeJobFingerprint(job);
+      const canonicalUrl = canonicalizeUrl(job.url);
+      return storedJobs.find(
+        (stored) =>
+          computeJobFingerprint(stored) === fingerprint ||
+          (canonicalUrl !== "" && canonicalizeUrl(stored.url) === canonicalUrl)
+      );
+    };
+
+    const displayed = jobs.map((job) => {
+      const stored = storedJobFor(job);
+      return stored ? { ...stored, targetCompany: job.targetCompany } : job;
+    });
+    const remaining = displayed.filter((job) => job.applicationStatus !== "dismissed");
+
+    if (remaining.length < displayed.length) {
+      console.log(`   🙈 Removed ${displayed.length - remaining.length} job(s) the user dismissed`);
+    }
+
+    return remaining;
+  } catch (error) {
+    console.error("⚠️ Could not keep displayed jobs in the inbox:", error);
+    return jobs;
+  }
+}
+
+/**
+ * Applies the user's company lists and deal-breaker rules to the jobs of a
+ * tool result and keeps them in the inbox of a signed-in user
+ */
+async function prepareDisplayedJobs<T>(
+  result: T,
+  profile: UserProfile | null,
+  inbox: { supabase: SupabaseClient; userId: string } | null
+): Promise<T> {
+  const jobs = (result as { jobs?: Job[] } | null)?.jobs;
+  if (!Array.isArray(jobs) || (!profile && !inbox)) {
+    return result;
+  }
+
+  let displayed = jobs;
+  if (profile) {
+    const { jobs: allowedJobs, blockedCount } = applyCompanyLists(jobs, profile);
+    if (blockedCount > 0) {
+      console.log(`   🚫 Removed ${blockedCount} job(s) from blocklisted companies`);
+    }
+    displayed = allowedJobs;
+  }
+
+  if (inbox && displayed.length > 0) {
+    displayed = await keepInInbox(displayed, inbox.supabase, inbox.userId, profile);
+  }
+
+  return {
+    ...result,
+    jobs: displayed.map((job) => withDealBreakers(job, profile?.dealBreakerRules)),
+    ...(typeof (result as { count?: unknown }).count === "number" ? { count: displayed.length } : {}),
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { messages } = await request.json();
@@ -23,6 +119,14 @@ export async function POST(request: NextRequest) {
 
     const modelMessages = convertToModelMessages(messages);
 
+    // Company lists and deal-breaker rules of the signed-in user (anonymous users have none)
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const profile = user ? await getProfile(supabase, user.id) : null;
+    const inbox = user ? { supabase, userId: user.id } : null;
+
     // Initialize Firecrawl MCP client
     console.log("🚀 Initializing Firecrawl MCP client for Job Discovery Agent...");
     const firecrawlClient = getFirecrawlMCPClient();
@@ -56,17 +160,23 @@ export async function POST(request: NextRequest) {
       ])
     );
 
-    // Wrap custom tools to log when they are called
-    const wrappedSearchAdzuna = {
-      ...searchAdzunaJobs,
-      execute: async (args: any) => {
-        console.log(`\n🔧 Custom Tool called: searchAdzunaJobs`);
-        console.log(`   Input:`, JSON.stringify(args, null, 2));
-        const result = await searchAdzunaJobs.execute(args);
-        console.log(`   Output:`, JSON.stringify(result, null, 2));
-        return result;
-      },
-    };
+    // Wrap search tools from registered job sources to log when they are called
+    const sourceTools = getJobSourceTools();
+    const wrappedSourceTools = Object.fromEntries(
+      Object.entries(sourceTools).map(([toolName, toolDef]) => [
+        toolName,
+        {
+          ...toolDef,
+          execute: async (args: any) => {
+            console.log(`\n🔧 Custom Tool called: ${toolName}`);
+            console.log(`   Input:`, JSON.stringify(args, null, 2));
+            const result = await prepareDisplayedJobs(await toolDef.execute(args), profile, inbox);
+            console.log(`   Output:`, JSON.stringify(result, null, 2));
+            return result;
+          },
+        },
+      ])
+    );
 
     const cookieHeader = request.headers.get("cookie") ?? undefined;
 
@@ -88,7 +198,7 @@ export async function POST(request: NextRequest) {
       execute: async (args: any) => {
         console.log(`\n🔧 Custom Tool called: displayJobs`);
         console.log(`   Input:`, JSON.stringify(args, null, 2));
-        const result = await displayJobs.execute(args);
+        const result = await prepareDisplayedJobs(await displayJobs.execute(args), profile, inbox);
         console.log(`   Output:`, JSON.stringify(result, null, 2));
         return result;
       },
@@ -97,18 +207,22 @@ export async function POST(request: NextRequest) {
     // Combine Firecrawl MCP tools with our custom tools
     const allTools = {
       ...wrappedFirecrawlTools,
-      searchAdzunaJobs: wrappedSearchAdzuna,
+      ...wrappedSourceTools,
       saveJobsToProfile: wrappedSaveJobs,
       displayJobs: wrappedDisplayJobs,
     };
 
     console.log(
-      `✅ Total tools available: ${Object.keys(allTools).length} (${Object.keys(firecrawlTools).length} Firecrawl + 3 custom)`
+      `✅ Total tools available: ${Object.keys(allTools).length} (${Object.keys(firecrawlTools).length} Firecrawl + ${Object.keys(sourceTools).length + 2} custom)`
     );
 
+    const companyListsPrompt = profile ? buildCompanyListsPrompt(profile) : "";
+
     const result = streamText({
       model: openai("gpt-5"),
-      system: JOB_DISCOVERY_SYSTEM_PROMPT,
+      system: companyListsPrompt
+        ? `${JOB_DISCOVERY_SYSTEM_PROMPT}\n\n${companyListsPrompt}`
+        : JOB_DISCOVERY_SYSTEM_PROMPT,
       messages: modelMessages,
       tools: allTools,
       stopWhen: stepCountIs(10), // Allow up to 10 tool calls for discovery
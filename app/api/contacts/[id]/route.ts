@@ -0,0 +1,103 @@
+/**
+ * Contact Management API Route
+ *
+ * PATCH /api/contacts/:id - Update a contact (fields, job links, last contacted)
+ * DELETE /api/contacts/:id - Delete a contact
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { deleteContact, getOwnedJobIds, updateContact } from "@/lib/supabase/queries";
+import { contactUpdateSchema } from "@/lib/jobs/contacts";
+import { NextResponse } from "next/server";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: contactId } = await params;
+    const parsed = contactUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid contact" },
+        { status: 400 }
+      );
+    }
+
+    // Contacts can only be linked to the user's own jobs
+    const jobIds = Array.from(new Set(parsed.data.jobIds ?? []));
+    const ownedJobIds = await getOwnedJobIds(supabase, user.id, jobIds);
+
+    if (ownedJobIds.length < jobIds.length) {
+      return NextResponse.json({ error: "Unknown job" }, { status: 400 });
+    }
+
+    const contact = await updateContact(supabase, user.id, contactId, parsed.data);
+
+    if (!contact) {
+      return NextResponse.json(
+        { error: "Failed to update contact" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, contact });
+  } catch (error) {
+    console.error("Contact update API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: contactId } = await params;
+
+    const success = await deleteContact(supabase, user.id, contactId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete contact" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Contact delete API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Contacts API Route
+ *
+ * GET /api/contacts - List the user's contacts (?jobId= only those relevant to
+ *   the job: linked to it or at its company)
+ * POST /api/contacts - Create a contact
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import {
+  createContact,
+  getContacts,
+  getContactsForJob,
+  getJobById,
+  getOwnedJobIds,
+} from "@/lib/supabase/queries";
+import { contactInputSchema } from "@/lib/jobs/contacts";
+import { NextResponse } from "next/server";
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const jobId = new URL(request.url).searchParams.get("jobId");
+
+    if (!jobId) {
+      const contacts = await getContacts(supabase, user.id);
+      return NextResponse.json({ contacts });
+    }
+
+    const job = await getJobById(supabase, user.id, jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const contacts = await getContactsForJob(supabase, user.id, job);
+
+    return NextResponse.json({ contacts });
+  } catch (error) {
+    console.error("Contacts get API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = contactInputSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid contact" },
+        { status: 400 }
+      );
+    }
+
+    // Contacts can only be linked to the user's own jobs
+    const jobIds = Array.from(new Set(parsed.data.jobIds));
+    const ownedJobIds = await getOwnedJobIds(supabase, user.id, jobIds);
+
+    if (ownedJobIds.length < jobIds.length) {
+      return NextResponse.json({ error: "Unknown job" }, { status: 400 });
+    }
+
+    const contact = await createContact(supabase, user.id, parsed.data);
+
+    if (!contact) {
+      return NextResponse.json(
+        { error: "Failed to create contact" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, contact });
+  } catch (error) {
+    console.error("Contact create API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
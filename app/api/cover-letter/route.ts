@@ -0,0 +1,207 @@
+/**
+ * Cover Letter Agent API Route
+ *
+ * Handles cover letter requests for specific job opportunities.
+ * Agent takes a master resume and job posting, researches the company,
+ * then writes a letter in the requested tone and length from real
+ * experience only.
+ */
+
+import { COVER_LETTER_SYSTEM_PROMPT } from "@/components/agent/prompts";
+import { generateCoverLetterTool, getCoverLetterGenerationContext } from "@/components/agent/tools";
+import { getFirecrawlMCPClient } from "@/lib/mcp";
+import { createClient } from "@/lib/supabase/server";
+import { getContactsForJob, getInterviews } from "@/lib/supabase/queries";
+import {
+  DEFAULT_COVER_LETTER_LENGTH,
+  DEFAULT_COVER_LETTER_TONE,
+  isCoverLetterLength,
+  isCoverLetterTone,
+} from "@/lib/jobs/cover-letters";
+import { openai } from "@ai-sdk/openai";
+import { streamText, convertToModelMessages, stepCountIs } from "ai";
+import { NextRequest } from "next/server";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { messages, jobId, masterResumeId, job, masterResume, tone, length } = await request.json();
+
+    console.log('\n' + '═'.repeat(60));
+    console.log('✉️ COVER LETTER AGENT ACTIVATED');
+    console.log('═'.repeat(60));
+
+    // Validate required fields
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      console.log('❌ Validation failed: Messages array is required');
+      return new Response("Messages array is required", { status: 400 });
+    }
+
+    if (!jobId) {
+      console.log('❌ Validation failed: Job ID is required');
+      return new Response(
+        "Job ID is required. Please specify which job to write the cover letter for.",
+        { status: 400 }
+      );
+    }
+
+    if (!masterResumeId) {
+      console.log('❌ Validation failed: Master resume ID is required');
+      return new Response(
+        "Master resume ID is required. Please select a resume from your library.",
+        { status: 400 }
+      );
+    }
+
+    if (!job) {
+      console.log('❌ Validation failed: Job object is required');
+      return new Response(
+        "Job data is required. Please provide the job details.",
+        { status: 400 }
+      );
+    }
+
+    if (!masterResume) {
+      console.log('❌ Validation failed: Master resume object is required');
+      return new Response(
+        "Master resume data is required. Please provide the resume content.",
+        { status: 400 }
+      );
+    }
+
+    if (tone !== undefined && !isCoverLetterTone(tone)) {
+      console.log('❌ Validation failed: Unknown tone');
+      return new Response(`Unknown cover letter tone: ${tone}`, { status: 400 });
+    }
+
+    if (length !== undefined && !isCoverLetterLength(length)) {
+      console.log('❌ Validation failed: Unknown length');
+      return new Response(`Unknown cover letter length: ${length}`, { status: 400 });
+    }
+
+    const options = {
+      tone: tone ?? DEFAULT_COVER_LETTER_TONE,
+      length: length ?? DEFAULT_COVER_LETTER_LENGTH,
+    };
+
+    console.log(`✅ Validation passed:`);
+    console.log(`   - Job: ${job.title} at ${job.company}`);
+    console.log(`   - Master Resume: ${masterResume.name}`);
+    console.log(`   - Tone: ${options.tone}, Length: ${options.length}`);
+    console.log(`   - User messages: ${messages.length}`);
+
+    // Contacts at the company (hiring managers, referrals) and past interviews personalize the letter
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const contacts = user ? await getContactsForJob(supabase, user.id, job) : [];
+    const interviews = user ? await getInterviews(supabase, user.id, jobId) : [];
+
+    // Get context for the letter (job details + master resume + profile + contacts + interviews + options)
+    console.log('\n📋 Building context for cover letter generation...');
+    const context = getCoverLetterGenerationContext(job, masterResume, options, contacts, interviews);
+
+    if (context.startsWith('Error:')) {
+      console.log(`❌ ${context}`);
+      return new Response(context, { status: 400 });
+    }
+
+    console.log('✅ Context built successfully');
+
+    const modelMessages = convertToModelMessages(messages);
+
+    // Initialize Firecrawl MCP client (for company research)
+    console.log(
+      "\n🚀 Initializing Firecrawl MCP client for Cover Letter Agent..."
+    );
+    const firecrawlClient = getFirecrawlMCPClient();
+    await firecrawlClient.connect();
+
+    // Retrieve Firecrawl MCP tools
+    const firecrawlTools = await firecrawlClient.getTools();
+
+    console.log(
+      `🔧 Cover Letter Agent has access to ${Object.keys(firecrawlTools).length} Firecrawl MCP tools`
+    );
+
+    // Wrap Firecrawl tools to log when they are called
+    const wrappedFirecrawlTools = Object.fromEntries(
+      Object.entries(firecrawlTools).map(([toolName, toolDef]) => [
+        toolName,
+        {
+          ...toolDef,
+          execute: async (args: any) => {
+            console.log(`\n🔧 Firecrawl Tool called: ${toolName}`);
+            console.log(`   Input:`, JSON.stringify(args, null, 2));
+            const result = await toolDef.execute(args);
+            console.log(`   Output:`, JSON.stringify(result, null, 2));
+            return result;
+          },
+        },
+      ])
+    );
+
+    // Wrap generateCoverLetterTool to log when called
+    const wrappedCoverLetterTool = {
+      ...generateCoverLetterTool,
+      execute: async (args: any) => {
+        console.log(`\n🔧 Custom Tool called: generateCoverLetterTool`);
+        console.log(`   Job ID: ${args.jobId}`);
+        console.log(`   Master Resume ID: ${args.masterResumeId}`);
+        console.log(`   Addressed Requirements: ${args.addressedRequirements?.length || 0}`);
+        console.log(`   Remaining Gaps: ${args.remainingGaps?.length || 0}`);
+        const result = await generateCoverLetterTool.execute(args);
+        console.log(`   Output action: ${result.action}`);
+        return result;
+      },
+    };
+
+    // Combine tools
+    const allTools = {
+      ...wrappedFirecrawlTools,
+      generateCoverLetter: wrappedCoverLetterTool,
+    };
+
+    console.log(
+      `✅ Total tools available: ${Object.keys(allTools).length} (${Object.keys(firecrawlTools).length} Firecrawl + 1 custom)`
+    );
+
+    // Inject context into system prompt
+    const systemPromptWithContext = `${COVER_LETTER_SYSTEM_PROMPT}
+
+${context}`;
+
+    console.log('\n' + '─'.repeat(60));
+    console.log(`✉️ Starting cover letter generation:`);
+    console.log(`   - Writing a ${options.length} ${options.tone} letter for specific job`);
+    console.log(`   - Model: GPT-5 with medium reasoning effort (quality matters)`);
+    console.log(`   - Max steps: 5 (research, match, write, return)`);
+    console.log(`   - Focus: Authenticity + Specificity + Tone`);
+    console.log('─'.repeat(60) + '\n');
+
+    const result = streamText({
+      model: openai("gpt-5"),
+      system: systemPromptWithContext,
+      messages: modelMessages,
+      tools: allTools,
+      stopWhen: stepCountIs(5), // 5-step agent loop for cover letter generation
+      providerOptions: {
+        openai: {
+          reasoning_effort: "medium", // Quality matters for cover letters
+          textVerbosity: "low",
+          reasoningSummary: "detailed",
+        },
+      },
+    });
+
+    console.log('✅ Cover Letter Agent response stream started successfully\n');
+    return result.toUIMessageStreamResponse();
+  } catch (error) {
+    console.error('\n' + '═'.repeat(60));
+    console.error("💥 COVER LETTER AGENT ERROR");
+    console.error('═'.repeat(60));
+    console.error(error);
+    console.error('═'.repeat(60) + '\n');
+    return new Response("Failed to generate cover letter", { status: 500 });
+  }
+}
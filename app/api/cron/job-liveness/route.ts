@@ -0,0 +1,124 @@
+/**
+ * Scheduled Posting Liveness API Route
+ *
+ * GET /api/cron/job-liveness
+ * Re-fetches the postings of saved jobs that have not been checked recently
+ * (see lib/jobs/liveness.ts) and records which ones closed. Open postings from
+ * sources that can look up a single posting (Greenhouse, Lever) are also
+ * compared with the saved version to record edits (see lib/jobs/revisions.ts).
+ * Called hourly by the Vercel cron job in vercel.json (or any scheduler) with
+ * "Authorization: Bearer $CRON_SECRET"; checks use a service-role client since
+ * there is no signed-in user.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  applyJobContentChange,
+  getJobsDueForLivenessCheck,
+  getProfile,
+  recordJobLiveness,
+} from "@/lib/supabase/queries";
+import { getJobSource } from "@/components/agent/sources";
+import {
+  checkJobLiveness,
+  createFirecrawlScraper,
+  getLivenessCheckCutoff,
+  LIVENESS_CHECK_STATUSES,
+} from "@/lib/jobs/liveness";
+import type { UserProfile } from "@/types/profile";
+import type { JobContentField } from "@/types/job";
+import { NextResponse } from "next/server";
+
+/**
+ * Postings checked per invocation; the rest are picked up by the next one
+ * (least recently checked first)
+ */
+const MAX_CHECKS_PER_INVOCATION = 30;
+
+export async function GET(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+    const due = await getJobsDueForLivenessCheck(
+      supabase,
+      LIVENESS_CHECK_STATUSES,
+      getLivenessCheckCutoff(),
+      MAX_CHECKS_PER_INVOCATION
+    );
+
+    console.log(`⏰ Posting liveness: ${due.length} job(s) due`);
+
+    // Firecrawl is only connected when there is something to check
+    const scrape = due.length > 0 ? await createFirecrawlScraper() : undefined;
+
+    // Checks are sequential to avoid hammering job boards
+    const profiles = new Map<string, UserProfile | null>();
+    const checks = [];
+
+    for (const { userId, job } of due) {
+      const result = await checkJobLiveness(job, { scrape });
+      const checkedAt = new Date().toISOString();
+
+      await recordJobLiveness(supabase, userId, job.id, {
+        checkedAt,
+        ...(result.status === "closed"
+          ? { closedAt: checkedAt, closedReason: result.reason }
+          : {}),
+      });
+
+      if (result.status === "closed") {
+        console.log(`   🚪 Closed: ${job.title} at ${job.company} (${result.reason})`);
+      }
+
+      // Compare open postings with the saved version
+      let changedFields: JobContentField[] = [];
+      const fetchPosting = getJobSource(job.source)?.fetchPosting;
+      if (result.status === "open" && fetchPosting) {
+        try {
+          const current = await fetchPosting(job);
+          if (current) {
+            if (!profiles.has(userId)) {
+              profiles.set(userId, await getProfile(supabase, userId));
+            }
+            const change = await applyJobContentChange(
+              supabase,
+              userId,
+              job,
+              current,
+              profiles.get(userId)
+            );
+            changedFields = change?.changedFields ?? [];
+          }
+        } catch (error) {
+          console.error(`Error fetching current posting of job ${job.id}:`, error);
+        }
+
+        if (changedFields.length > 0) {
+          console.log(`   ✏️ Edited: ${job.title} at ${job.company} (${changedFields.join(", ")})`);
+        }
+      }
+
+      checks.push({ userId, jobId: job.id, ...result, changedFields });
+    }
+
+    return NextResponse.json({
+      success: true,
+      checkedCount: checks.length,
+      closedCount: checks.filter((check) => check.status === "closed").length,
+      unknownCount: checks.filter((check) => check.status === "unknown").length,
+      changedCount: checks.filter((check) => check.changedFields.length > 0).length,
+      checks,
+    });
+  } catch (error) {
+    console.error("Scheduled posting liveness API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
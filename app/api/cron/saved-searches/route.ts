@@ -0,0 +1,69 @@
+/**
+ * Scheduled Saved Searches API Route
+ *
+ * GET /api/cron/saved-searches
+ * Runs every enabled saved search that is due (see isSavedSearchDue) and
+ * reports the counts of each run. Called hourly by the Vercel cron job in
+ * vercel.json (or any scheduler) with "Authorization: Bearer $CRON_SECRET";
+ * runs use a service-role client since there is no signed-in user.
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { getEnabledSavedSearches, getProfile } from "@/lib/supabase/queries";
+import { runSavedSearch } from "@/lib/discovery/saved-searches";
+import type { UserProfile } from "@/types/profile";
+import { isSavedSearchDue } from "@/types/saved-search";
+import { NextResponse } from "next/server";
+
+/**
+ * Saved searches run per invocation; the rest are picked up by the next one
+ * (least recently run first)
+ */
+const MAX_RUNS_PER_INVOCATION = 25;
+
+export async function GET(request: Request) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const supabase = createAdminClient();
+    const now = new Date();
+
+    const due = (await getEnabledSavedSearches(supabase))
+      .filter(({ search }) => isSavedSearchDue(search, now))
+      .slice(0, MAX_RUNS_PER_INVOCATION);
+
+    console.log(`⏰ Scheduled saved searches: ${due.length} due`);
+
+    // Runs are sequential to stay within source API rate limits
+    const profiles = new Map<string, UserProfile | null>();
+    const runs = [];
+
+    for (const { userId, search } of due) {
+      if (!profiles.has(userId)) {
+        profiles.set(userId, await getProfile(supabase, userId));
+      }
+
+      const run = await runSavedSearch(supabase, userId, search, profiles.get(userId) ?? null, {
+        trigger: "scheduled",
+      });
+      runs.push({ userId, ...run });
+    }
+
+    return NextResponse.json({
+      success: true,
+      runCount: runs.length,
+      newCount: runs.reduce((sum, run) => sum + run.newCount, 0),
+      runs,
+    });
+  } catch (error) {
+    console.error("Scheduled saved searches API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Job Inbox API Route
+ *
+ * GET /api/inbox - List the jobs waiting for triage (snoozed jobs are counted, not listed)
+ * POST /api/inbox - Accept, dismiss or snooze inbox jobs
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getInboxJobs, triageInboxJobs } from "@/lib/supabase/queries";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const triageSchema = z.object({
+  jobIds: z.array(z.string()).min(1, "At least one job is required"),
+  action: z.enum(["accept", "dismiss", "snooze"], {
+    error: "Action must be accept, dismiss or snooze",
+  }),
+  snoozeDays: z.number().int().min(1).max(90).optional(),
+});
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { jobs, snoozedCount } = await getInboxJobs(supabase, user.id);
+
+    return NextResponse.json({ jobs, snoozedCount });
+  } catch (error) {
+    console.error("Inbox get API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = triageSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid triage request" },
+        { status: 400 }
+      );
+    }
+
+    const { jobIds, action, snoozeDays = 7 } = parsed.data;
+    const snoozedUntil =
+      action === "snooze"
+        ? new Date(Date.now() + snoozeDays * 24 * 60 * 60 * 1000).toISOString()
+        : undefined;
+
+    const success = await triageInboxJobs(supabase, user.id, jobIds, action, snoozedUntil);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to update inbox jobs" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, snoozedUntil });
+  } catch (error) {
+    console.error("Inbox triage API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Interview Prep Assistant API Route
+ *
+ * Handles interview preparation chats for a saved job.
+ * The assistant gets the job posting, the user's profile, the rounds already
+ * logged for the job and the questions asked in interviews for other jobs.
+ */
+
+import { INTERVIEW_PREP_SYSTEM_PROMPT } from "@/components/agent/prompts";
+import { createClient } from "@/lib/supabase/server";
+import { getInterviews, getJobById, getJobs, getProfile } from "@/lib/supabase/queries";
+import { formatInterviewsForPrompt } from "@/lib/jobs/interviews";
+import { APPLICATION_STATUS_LABELS } from "@/lib/jobs/pipeline";
+import { openai } from "@ai-sdk/openai";
+import { streamText, convertToModelMessages } from "ai";
+import { NextRequest } from "next/server";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Get user from Supabase auth
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      console.log('❌ Authentication failed');
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    const { messages, jobId } = await request.json();
+
+    console.log('\n' + '═'.repeat(60));
+    console.log('🎤 INTERVIEW PREP ASSISTANT ACTIVATED');
+    console.log('═'.repeat(60));
+
+    // Validate required fields
+    if (!messages || !Array.isArray(messages) || messages.length === 0) {
+      console.log('❌ Validation failed: Messages array is required');
+      return new Response("Messages array is required", { status: 400 });
+    }
+
+    if (!jobId) {
+      console.log('❌ Validation failed: Job ID is required');
+      return new Response("Job ID is required", { status: 400 });
+    }
+
+    const job = await getJobById(supabase, user.id, jobId);
+
+    if (!job) {
+      console.log('❌ Validation failed: Job not found');
+      return new Response("Job not found", { status: 404 });
+    }
+
+    const [profile, interviews, jobs] = await Promise.all([
+      getProfile(supabase, user.id),
+      getInterviews(supabase, user.id),
+      getJobs(supabase, user.id),
+    ]);
+
+    const jobInterviews = interviews.filter((interview) => interview.jobId === job.id);
+    // Interviews for other jobs are only useful for the questions they asked
+    const otherInterviews = interviews.filter(
+      (interview) => interview.jobId !== job.id && interview.questions.length > 0
+    );
+
+    console.log(`✅ Context loaded:`);
+    console.log(`   - Job: ${job.title} at ${job.company}`);
+    console.log(`   - Interviews for this job: ${jobInterviews.length}`);
+    console.log(`   - Interviews for other jobs: ${otherInterviews.length}`);
+
+    const context = `
+# Interview Prep Context
+
+## Target Job
+**Title:** ${job.title}
+**Company:** ${job.company}
+**Location:** ${job.location}
+**Stage:** ${APPLICATION_STATUS_LABELS[job.applicationStatus ?? "saved"]}
+
+**Job Description:**
+${job.description}
+
+**Requirements:**
+${job.requirements.map((req) => `- ${req}`).join("\n")}
+${
+  profile
+    ? `
+## Candidate Profile
+**Name:** ${profile.name}
+**Professional Background:** ${profile.professionalBackground}
+**Skills:** ${profile.skills.join(", ")}
+`
+    : ""
+}
+## Interviews for This Job
+${jobInterviews.length > 0 ? formatInterviewsForPrompt(jobInterviews) : "No interviews logged yet."}
+
+## Questions from Other Interviews
+${otherInterviews.length > 0 ? formatInterviewsForPrompt(otherInterviews, jobs) : "No other interviews logged."}
+`;
+
+    const result = streamText({
+      model: openai("gpt-5"),
+      system: `${INTERVIEW_PREP_SYSTEM_PROMPT}\n\n${context}`,
+      messages: convertToModelMessages(messages),
+      providerOptions: {
+        openai: {
+          reasoning_effort: "low",
+          textVerbosity: "low",
+        },
+      },
+    });
+
+    console.log('✅ Interview Prep Assistant response stream started successfully\n');
+    return result.toUIMessageStreamResponse();
+  } catch (error) {
+    console.error('\n' + '═'.repeat(60));
+    console.error("💥 INTERVIEW PREP ASSISTANT ERROR");
+    console.error('═'.repeat(60));
+    console.error(error);
+    console.error('═'.repeat(60) + '\n');
+    return new Response("Failed to start interview prep", { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Interview Management API Route
+ *
+ * PATCH /api/interviews/:id - Update an interview (questions, self-assessment, outcome, ...)
+ * DELETE /api/interviews/:id - Delete an interview
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { deleteInterview, updateInterview } from "@/lib/supabase/queries";
+import { interviewUpdateSchema } from "@/lib/jobs/interviews";
+import { NextResponse } from "next/server";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: interviewId } = await params;
+    const parsed = interviewUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid interview" },
+        { status: 400 }
+      );
+    }
+
+    const interview = await updateInterview(supabase, user.id, interviewId, parsed.data);
+
+    if (!interview) {
+      return NextResponse.json(
+        { error: "Failed to update interview" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, interview });
+  } catch (error) {
+    console.error("Interview update API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: interviewId } = await params;
+
+    const success = await deleteInterview(supabase, user.id, interviewId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete interview" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Interview delete API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
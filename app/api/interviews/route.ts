@@ -0,0 +1,86 @@
+/**
+ * Interviews API Route
+ *
+ * GET /api/interviews - List the user's interviews (?jobId= only those for the job)
+ * POST /api/interviews - Log an interview round for a job
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { createInterview, getInterviews, getJobById } from "@/lib/supabase/queries";
+import { interviewInputSchema } from "@/lib/jobs/interviews";
+import { NextResponse } from "next/server";
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const jobId = new URL(request.url).searchParams.get("jobId") || undefined;
+    const interviews = await getInterviews(supabase, user.id, jobId);
+
+    return NextResponse.json({ interviews });
+  } catch (error) {
+    console.error("Interviews get API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = interviewInputSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid interview" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJobById(supabase, user.id, parsed.data.jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const interview = await createInterview(supabase, user.id, parsed.data);
+
+    if (!interview) {
+      return NextResponse.json(
+        { error: "Failed to log interview" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, interview });
+  } catch (error) {
+    console.error("Interview create API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
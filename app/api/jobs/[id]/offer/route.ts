@@ -0,0 +1,101 @@
+/**
+ * Job Offer API Route
+ *
+ * PUT /api/jobs/:id/offer - Save the offer for a job (replaces the previous one)
+ * DELETE /api/jobs/:id/offer - Delete the offer for a job
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { deleteOffer, getJobById, saveOffer } from "@/lib/supabase/queries";
+import { offerInputSchema } from "@/lib/jobs/offers";
+import { NextResponse } from "next/server";
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+    const parsed = offerInputSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid offer" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJobById(supabase, user.id, jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const offer = await saveOffer(supabase, user.id, jobId, parsed.data);
+
+    if (!offer) {
+      return NextResponse.json(
+        { error: "Failed to save offer" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, offer });
+  } catch (error) {
+    console.error("Offer save API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+
+    const success = await deleteOffer(supabase, user.id, jobId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete offer" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Offer delete API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
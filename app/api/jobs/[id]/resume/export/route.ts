@@ -0,0 +1,82 @@
+/**
+ * Tailored Resume Export API Route
+ *
+ * GET /api/jobs/:id/resume/export?format=pdf|docx|html&template=classic|modern|compact
+ * Renders the job's tailored resume as a document for download. The number
+ * of pages is returned in X-Resume-Page-Count, and X-Resume-Page-Warning is
+ * set when the resume is longer than the recommended maximum.
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getJobById } from "@/lib/supabase/queries";
+import { RESUME_MAX_PAGES, exportResume, resumeExportQuerySchema } from "@/lib/resume-export";
+import { NextResponse } from "next/server";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+    const { searchParams } = new URL(request.url);
+    const parsed = resumeExportQuerySchema.safeParse({
+      format: searchParams.get("format") ?? undefined,
+      template: searchParams.get("template") ?? undefined,
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid export options" },
+        { status: 400 }
+      );
+    }
+
+    const job = await getJobById(supabase, user.id, jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (!job.tailoredResume?.content) {
+      return NextResponse.json(
+        { error: "This job has no tailored resume to export" },
+        { status: 404 }
+      );
+    }
+
+    const result = exportResume(job.tailoredResume.content, job, parsed.data);
+
+    const headers: Record<string, string> = {
+      "Content-Type": result.contentType,
+      "Content-Disposition": `attachment; filename="${result.filename}"`,
+      "Cache-Control": "no-store",
+      "X-Resume-Page-Count": String(result.pageCount),
+    };
+    if (result.exceedsMaxPages) {
+      headers["X-Resume-Page-Warning"] = `Resume is ${result.pageCount} pages; keep it to ${RESUME_MAX_PAGES} or fewer`;
+    }
+
+    return new Response(
+      typeof result.content === "string" ? result.content : new Uint8Array(result.content),
+      { headers }
+    );
+  } catch (error) {
+    console.error("Resume export error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
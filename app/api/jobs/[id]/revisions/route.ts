@@ -0,0 +1,49 @@
+/**
+ * Job Revision History API Route
+ *
+ * GET /api/jobs/:id/revisions - Edits detected on a saved posting (oldest first),
+ * and whether its source can detect edits at all (only sources with
+ * fetchPosting, i.e. Greenhouse and Lever)
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getJobById, getJobRevisions } from "@/lib/supabase/queries";
+import { getJobSource } from "@/components/agent/sources";
+import { NextResponse } from "next/server";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+
+    const [revisions, job] = await Promise.all([
+      getJobRevisions(supabase, user.id, jobId),
+      getJobById(supabase, user.id, jobId),
+    ]);
+
+    return NextResponse.json({
+      revisions,
+      tracksEdits: Boolean(job && getJobSource(job.source)?.fetchPosting),
+    });
+  } catch (error) {
+    console.error("Job revision history API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
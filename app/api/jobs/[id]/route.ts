@@ -2,11 +2,11 @@
  * Job Management API Route
  *
  * DELETE /api/jobs/:id - Delete a job
- * PATCH /api/jobs/:id - Update job (notes, resume, etc.)
+ * PATCH /api/jobs/:id - Update job (notes, resume, cover letter, etc.)
  */
 
 import { createClient } from "@/lib/supabase/server";
-import { deleteJob, updateJobNotes, saveJobResume } from "@/lib/supabase/queries";
+import { deleteJob, updateJobNotes, saveJobResume, saveJobCoverLetter } from "@/lib/supabase/queries";
 import type { Job } from "@/types/job";
 import { NextResponse } from "next/server";
 
@@ -67,7 +67,11 @@ export async function PATCH(
     }
 
     const { id: jobId } = await params;
-    const body: { notes?: string; tailoredResume?: Job["tailoredResume"] } = await request.json();
+    const body: {
+      notes?: string;
+      tailoredResume?: Job["tailoredResume"];
+      coverLetter?: Job["coverLetter"];
+    } = await request.json();
 
     // Update notes if provided
     if (body.notes !== undefined) {
@@ -91,6 +95,17 @@ export async function PATCH(
       }
     }
 
+    // Update cover letter if provided
+    if (body.coverLetter !== undefined) {
+      const success = await saveJobCoverLetter(supabase, user.id, jobId, body.coverLetter);
+      if (!success) {
+        return NextResponse.json(
+          { error: "Failed to save cover letter" },
+          { status: 500 }
+        );
+      }
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Job update API error:", error);
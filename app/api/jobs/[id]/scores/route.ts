@@ -0,0 +1,40 @@
+/**
+ * Job Score History API Route
+ *
+ * GET /api/jobs/:id/scores - Scoring history of a job (oldest first)
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getJobScoreHistory } from "@/lib/supabase/queries";
+import { NextResponse } from "next/server";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: jobId } = await params;
+
+    const scores = await getJobScoreHistory(supabase, user.id, jobId);
+
+    return NextResponse.json({ scores });
+  } catch (error) {
+    console.error("Job score history API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
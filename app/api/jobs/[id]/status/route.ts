@@ -2,11 +2,13 @@
  * Job Status Update API Route
  *
  * PATCH /api/jobs/:id/status
- * Updates job application status.
+ * Updates job application status and records the change in the job's status
+ * history.
  */
 
 import { createClient } from "@/lib/supabase/server";
 import { updateJobStatus } from "@/lib/supabase/queries";
+import { APPLICATION_STATUS_LABELS } from "@/lib/jobs/pipeline";
 import type { ApplicationStatus } from "@/types/job";
 import { NextResponse } from "next/server";
 
@@ -37,6 +39,14 @@ export async function PATCH(
       );
     }
 
+    // Own keys only, so inherited names like "constructor" are rejected
+    if (typeof status !== "string" || !Object.hasOwn(APPLICATION_STATUS_LABELS, status)) {
+      return NextResponse.json(
+        { error: `Unknown status: ${status}` },
+        { status: 400 }
+      );
+    }
+
     // Update job status
     const success = await updateJobStatus(supabase, user.id, jobId, status);
 
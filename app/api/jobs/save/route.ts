@@ -2,12 +2,13 @@
  * Jobs Save API Route
  *
  * POST /api/jobs/save
- * Saves jobs to Supabase database.
+ * Saves jobs to Supabase database, merging duplicates of already saved postings,
+ * and computes a baseline score for each against the user's profile.
  * Used by the save-jobs AI agent tool.
  */
 
 import { createClient } from "@/lib/supabase/server";
-import { saveJobs } from "@/lib/supabase/queries";
+import { getProfile, saveJobs } from "@/lib/supabase/queries";
 import type { Job } from "@/types/job";
 import { NextResponse } from "next/server";
 
@@ -32,13 +33,25 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Invalid jobs data" }, { status: 400 });
     }
 
-    // Save jobs to database
-    const savedJobs = await saveJobs(supabase, user.id, jobs);
+    // Profile is optional: without one, jobs are saved without a baseline score
+    const profile = await getProfile(supabase, user.id);
+
+    // Save jobs to database (duplicates are merged into existing rows)
+    const { jobs: savedJobs, inserted, movedFromInbox, alreadySaved } = await saveJobs(
+      supabase,
+      user.id,
+      jobs,
+      profile
+    );
 
     return NextResponse.json({
       success: true,
       count: savedJobs.length,
       jobs: savedJobs,
+      insertedCount: inserted.length,
+      movedFromInboxCount: movedFromInbox.length,
+      alreadySaved,
+      alreadySavedCount: alreadySaved.length,
     });
   } catch (error) {
     console.error("Jobs save API error:", error);
@@ -0,0 +1,87 @@
+/**
+ * Baseline Scoring API Route
+ *
+ * POST /api/jobs/score/baseline
+ * Scores jobs with the deterministic baseline scorer and saves the result as
+ * the job score. Used as a fallback when the Job Matching Agent is unavailable.
+ * Jobs violating deal-breaker rules are capped at low priority.
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getJobs, getProfile, updateJobsWithScores } from "@/lib/supabase/queries";
+import { computeBaselineScore } from "@/lib/jobs/baseline-score";
+import { applyDealBreakerCap, evaluateDealBreakers } from "@/lib/jobs/deal-breakers";
+import type { Job } from "@/types/job";
+import { NextResponse } from "next/server";
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Parse request body (omit jobIds to score all saved jobs)
+    const { jobIds }: { jobIds?: string[] } = await request.json();
+
+    if (jobIds !== undefined && !Array.isArray(jobIds)) {
+      return NextResponse.json({ error: "Invalid job IDs" }, { status: 400 });
+    }
+
+    const profile = await getProfile(supabase, user.id);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "User profile is required for job scoring" },
+        { status: 400 }
+      );
+    }
+
+    const allJobs = await getJobs(supabase, user.id);
+    const jobs = jobIds ? allJobs.filter((job) => jobIds.includes(job.id)) : allJobs;
+
+    const scoredJobs: Job[] = jobs.map((job) => {
+      const baseline = computeBaselineScore(job, profile);
+      return applyDealBreakerCap({
+        ...job,
+        score: baseline.score,
+        scoreBreakdown: baseline.scoreBreakdown,
+        scoreAdjustment: 0,
+        reasoning: `Baseline score from rule-based matching (AI analysis was unavailable). ${baseline.notes.join(". ")}.`,
+        gaps: baseline.gaps,
+        priority: baseline.priority,
+        baselineScore: baseline,
+        dealBreakerViolations: evaluateDealBreakers(job, profile.dealBreakerRules),
+      });
+    });
+
+    // Update jobs with scores in database
+    const success = await updateJobsWithScores(supabase, user.id, scoredJobs, {
+      method: "baseline",
+      scoringWeights: profile.scoringWeights,
+      profileVersion: profile.updatedAt,
+    });
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to update jobs with scores" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, count: scoredJobs.length, scoredJobs });
+  } catch (error) {
+    console.error("Baseline score API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,14 @@
  *
  * POST /api/jobs/score
  * Updates jobs with scoring data.
- * Used by the score-jobs AI agent tool.
+ * Used by the score-jobs AI agent tool. Breakdowns are sent as points
+ * (out of the user's weights) and stored as 0-1 ratings.
  */
 
 import { createClient } from "@/lib/supabase/server";
-import { updateJobsWithScores } from "@/lib/supabase/queries";
+import { getProfile, updateJobsWithScores } from "@/lib/supabase/queries";
+import { normalizeAgentScore } from "@/lib/jobs/scoring";
+import { DEFAULT_SCORING_WEIGHTS } from "@/types/profile";
 import type { Job } from "@/types/job";
 import { NextResponse } from "next/server";
 
@@ -26,7 +29,7 @@ export async function POST(request: Request) {
     }
 
     // Parse request body
-    const { scoredJobs }: { scoredJobs: Job[] } = await request.json();
+    const { scoredJobs, model }: { scoredJobs: Job[]; model?: string } = await request.json();
 
     if (!scoredJobs || !Array.isArray(scoredJobs)) {
       return NextResponse.json(
@@ -35,8 +38,23 @@ export async function POST(request: Request) {
       );
     }
 
+    // Snapshot the weights the scores were computed with for the history
+    const profile = await getProfile(supabase, user.id);
+    const weights = { ...DEFAULT_SCORING_WEIGHTS, ...profile?.scoringWeights };
+
+    const normalizedJobs = scoredJobs.map((job) =>
+      job.score !== undefined && job.scoreBreakdown
+        ? { ...job, ...normalizeAgentScore(job.score, job.scoreBreakdown, weights) }
+        : job
+    );
+
     // Update jobs with scores in database
-    const success = await updateJobsWithScores(supabase, user.id, scoredJobs);
+    const success = await updateJobsWithScores(supabase, user.id, normalizedJobs, {
+      method: "agent",
+      model,
+      scoringWeights: weights,
+      profileVersion: profile?.updatedAt,
+    });
 
     if (!success) {
       return NextResponse.json(
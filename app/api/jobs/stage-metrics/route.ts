@@ -0,0 +1,60 @@
+/**
+ * Pipeline Stage Metrics API Route
+ *
+ * GET /api/jobs/stage-metrics - How long saved jobs spend in each application
+ * stage (see lib/jobs/pipeline.ts), plus the applications that have stalled
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getAllJobStatusEvents, getJobs } from "@/lib/supabase/queries";
+import { computeStageMetrics, isStalled } from "@/lib/jobs/pipeline";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [jobs, events] = await Promise.all([
+      getJobs(supabase, user.id),
+      getAllJobStatusEvents(supabase, user.id),
+    ]);
+
+    // Inbox and dismissed jobs are not part of the pipeline
+    const jobsById = new Map(jobs.map((job) => [job.id, job]));
+    const metrics = computeStageMetrics(events.filter((event) => jobsById.has(event.jobId)));
+
+    const stages = metrics.map((stage) => ({
+      ...stage,
+      current: stage.current.map(({ jobId, days }) => {
+        const job = jobsById.get(jobId)!;
+        return { jobId, title: job.title, company: job.company, days };
+      }),
+    }));
+
+    const stalled = stages
+      .flatMap((stage) =>
+        stage.current
+          .filter(({ days }) => isStalled({ status: stage.status, days }))
+          .map((job) => ({ ...job, status: stage.status }))
+      )
+      .sort((a, b) => b.days - a.days);
+
+    return NextResponse.json({ stages, stalled });
+  } catch (error) {
+    console.error("Stage metrics API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
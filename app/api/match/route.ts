@@ -6,15 +6,31 @@
  * detailed reasoning, identifies gaps, and assigns priority levels.
  */
 
-import { JOB_MATCHING_SYSTEM_PROMPT } from "@/components/agent/prompts";
+import {
+  JOB_MATCHING_SYSTEM_PROMPT,
+  buildScoringCategoriesPrompt,
+} from "@/components/agent/prompts";
 import { scoreJobsTool } from "@/components/agent/tools";
 import { getFirecrawlMCPClient } from "@/lib/mcp";
 import { createClient } from "@/lib/supabase/server";
 import { getJobs, getProfile } from "@/lib/supabase/queries";
+import { withStructuredRequirements } from "@/lib/jobs/requirements";
+import { withSalaryRange } from "@/lib/jobs/salary";
+import { computeBaselineScore } from "@/lib/jobs/baseline-score";
+import { ratingsToPoints } from "@/lib/jobs/scoring";
+import { evaluateDealBreakers } from "@/lib/jobs/deal-breakers";
+import { isTargetCompany } from "@/lib/jobs/company-lists";
+import { DEFAULT_SCORING_WEIGHTS, getScoringCategories } from "@/types/profile";
+import type { Job } from "@/types/job";
 import { openai } from "@ai-sdk/openai";
 import { streamText, convertToModelMessages, stepCountIs } from "ai";
 import { NextRequest } from "next/server";
 
+/**
+ * Model used by the Job Matching Agent (recorded with every score)
+ */
+const MATCHING_MODEL = "gpt-5";
+
 export async function POST(request: NextRequest) {
   try {
     // Get user from Supabase auth
@@ -32,7 +48,10 @@ export async function POST(request: NextRequest) {
     const { messages, jobs: bodyJobs, profile: bodyProfile } = await request.json();
 
     // Use jobs/profile from body if provided (ScoreJobsDialog), otherwise fetch from Supabase (chat interface)
-    const jobs = bodyJobs && bodyJobs.length > 0 ? bodyJobs : await getJobs(supabase, user.id);
+    const sourceJobs: Job[] =
+      bodyJobs && bodyJobs.length > 0 ? bodyJobs : await getJobs(supabase, user.id);
+    // Jobs saved before requirement/salary parsing existed are parsed on the fly
+    const jobs = sourceJobs.map((job) => withSalaryRange(withStructuredRequirements(job)));
     const profile = bodyProfile || await getProfile(supabase, user.id);
 
     console.log('\n' + '═'.repeat(60));
@@ -61,6 +80,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const weights = { ...DEFAULT_SCORING_WEIGHTS, ...profile.scoringWeights };
+
+    // Deal-breaker rules are checked in code; violating jobs are forced to low priority
+    const dealBreakerViolations = Object.fromEntries(
+      jobs.map((job) => [job.id, evaluateDealBreakers(job, profile.dealBreakerRules)])
+    );
+
+    // Allowlisted companies get full Company Appeal
+    const targetCompanyJobIds = jobs
+      .filter((job) => isTargetCompany(job, profile))
+      .map((job) => job.id);
+
     console.log(`✅ Validation passed:`);
     console.log(`   - Profile: ${profile.name || 'Anonymous'}`);
     console.log(`   - Jobs to analyze: ${jobs.length} (from ${bodyJobs && bodyJobs.length > 0 ? 'selection' : 'Supabase'})`);
@@ -112,6 +143,14 @@ export async function POST(request: NextRequest) {
         const result = await scoreJobsTool.execute(args, {
           supabase,
           userId: user.id,
+          run: {
+            method: "agent",
+            model: MATCHING_MODEL,
+            scoringWeights: weights,
+            profileVersion: profile.updatedAt,
+          },
+          dealBreakerViolations,
+          targetCompanyJobIds,
         });
         console.log(`   Output:`, JSON.stringify(result, null, 2));
         return result;
@@ -128,6 +167,22 @@ export async function POST(request: NextRequest) {
       `✅ Total tools available: ${Object.keys(allTools).length} (${Object.keys(firecrawlTools).length} Firecrawl + 1 custom)`
     );
 
+    // Baselines are recomputed so they reflect the current profile and weights.
+    // Stored breakdowns are 0-1 ratings; the agent works in points, so convert them.
+    const jobsWithBaseline = jobs.map((job) => {
+      const baselineScore = computeBaselineScore(job, profile);
+      return {
+        ...job,
+        scoreBreakdown: job.scoreBreakdown ? ratingsToPoints(job.scoreBreakdown, weights) : undefined,
+        dealBreakerViolations: dealBreakerViolations[job.id],
+        targetCompany: targetCompanyJobIds.includes(job.id),
+        baselineScore: {
+          ...baselineScore,
+          scoreBreakdown: ratingsToPoints(baselineScore.scoreBreakdown, weights),
+        },
+      };
+    });
+
     // Inject jobs and profile into system prompt context
     const systemPromptWithContext = `${JOB_MATCHING_SYSTEM_PROMPT}
 
@@ -139,28 +194,30 @@ The user's profile information is provided below. Use this to analyze job fit:
 ${JSON.stringify(profile, null, 2)}
 \`\`\`
 
+${buildScoringCategoriesPrompt(getScoringCategories(profile), weights)}
+
 ## JOBS TO SCORE
 
 The following jobs have been saved by the user and need to be scored:
 
 \`\`\`json
-${JSON.stringify(jobs, null, 2)}
+${JSON.stringify(jobsWithBaseline, null, 2)}
 \`\`\`
 
 ## YOUR TASK
 
-Analyze each job against the user's profile. Calculate weighted scores based on the user's scoring weights. Provide detailed reasoning for each score. Identify gaps honestly. Assign priority levels. Return results using the scoreJobsTool.`;
+Analyze each job against the user's profile. Start from each job's baselineScore and calculate weighted scores based on the user's scoring weights, justifying any deviation from the baseline. Provide detailed reasoning for each score. Identify gaps honestly. Assign priority levels. Return results using the scoreJobsTool.`;
 
     console.log('\n' + '─'.repeat(60));
     console.log(`📊 Starting job analysis:`);
     console.log(`   - Analyzing ${jobs.length} job(s) against user profile`);
-    console.log(`   - Scoring weights: Salary ${profile.scoringWeights?.salaryMatch || 30}%, Location ${profile.scoringWeights?.locationFit || 20}%, Company ${profile.scoringWeights?.companyAppeal || 25}%, Role ${profile.scoringWeights?.roleMatch || 15}%, Requirements ${profile.scoringWeights?.requirementsFit || 10}%`);
+    console.log(`   - Scoring weights: ${Object.entries(weights).map(([category, weight]) => `${category} ${weight}%`).join(", ")}`);
     console.log(`   - Model: GPT-5 with medium reasoning effort`);
     console.log(`   - Max steps: 5`);
     console.log('─'.repeat(60) + '\n');
 
     const result = streamText({
-      model: openai("gpt-5"),
+      model: openai(MATCHING_MODEL),
       system: systemPromptWithContext,
       messages: modelMessages,
       tools: allTools,
@@ -0,0 +1,52 @@
+/**
+ * Offer Comparison API Route
+ *
+ * GET /api/offers - Jobs in an offer stage (or with an offer entered) and
+ *   their offers, for the side-by-side comparison
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getJobs, getOffers } from "@/lib/supabase/queries";
+import { OFFER_STAGES } from "@/lib/jobs/offers";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [jobs, offers] = await Promise.all([
+      getJobs(supabase, user.id),
+      getOffers(supabase, user.id),
+    ]);
+
+    // Jobs keep their offer after moving on (e.g. to rejected), but only
+    // jobs in an offer stage show up without one
+    const offerJobIds = new Set(offers.map((offer) => offer.jobId));
+    const offerJobs = jobs.filter(
+      (job) =>
+        offerJobIds.has(job.id) ||
+        (job.applicationStatus !== undefined && OFFER_STAGES.includes(job.applicationStatus))
+    );
+
+    return NextResponse.json({
+      jobs: offerJobs,
+      offers: offers.filter((offer) => offerJobs.some((job) => job.id === offer.jobId)),
+    });
+  } catch (error) {
+    console.error("Offers get API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,11 +3,20 @@
  *
  * POST /api/profile/save
  * Saves user profile to Supabase database.
+ * When the scoring weights change, stored job scores are re-weighted.
+ * When the deal-breaker rules change, saved jobs are re-evaluated against them.
  */
 
 import { createClient } from "@/lib/supabase/server";
-import { saveProfile } from "@/lib/supabase/queries";
+import {
+  getProfile,
+  reevaluateDealBreakers,
+  reweightJobScores,
+  saveProfile,
+} from "@/lib/supabase/queries";
+import { scoringWeightsChanged } from "@/lib/jobs/scoring";
 import type { UserProfile } from "@/types/profile";
+import { DEFAULT_SCORING_WEIGHTS, getScoringCategories, validateScoringWeights } from "@/types/profile";
 import { NextResponse } from "next/server";
 
 export async function POST(request: Request) {
@@ -28,6 +37,19 @@ export async function POST(request: Request) {
     const body = await request.json();
     const profile: UserProfile = body.profile || body;
 
+    // Weights must cover the built-in and custom categories and sum to 100
+    if (
+      profile.scoringWeights &&
+      !validateScoringWeights(profile.scoringWeights, getScoringCategories(profile))
+    ) {
+      return NextResponse.json(
+        { error: "Scoring weights must sum to 100 across your scoring categories" },
+        { status: 400 }
+      );
+    }
+
+    const previousProfile = await getProfile(supabase, user.id);
+
     // Save profile to database
     const success = await saveProfile(supabase, user.id, profile);
 
@@ -38,6 +60,36 @@ export async function POST(request: Request) {
       );
     }
 
+    // Re-evaluating deal breakers also re-weights, so the reweight below is skipped
+    const rulesChanged =
+      profile.dealBreakerRules !== undefined &&
+      JSON.stringify(profile.dealBreakerRules) !==
+        JSON.stringify(previousProfile?.dealBreakerRules || []);
+
+    if (rulesChanged) {
+      const reevaluated = await reevaluateDealBreakers(
+        supabase,
+        user.id,
+        profile.dealBreakerRules,
+        { ...DEFAULT_SCORING_WEIGHTS, ...(profile.scoringWeights || previousProfile?.scoringWeights) }
+      );
+      if (!reevaluated) {
+        console.error("Profile saved but jobs could not be re-evaluated against deal breakers");
+      }
+    }
+
+    // Scores are stored as category ratings, so new weights apply without rescoring
+    if (
+      !rulesChanged &&
+      profile.scoringWeights &&
+      scoringWeightsChanged(previousProfile?.scoringWeights, profile.scoringWeights)
+    ) {
+      const reweighted = await reweightJobScores(supabase, user.id, profile.scoringWeights);
+      if (!reweighted) {
+        console.error("Profile saved but job scores could not be re-weighted");
+      }
+    }
+
     return NextResponse.json({ success: true, profile });
   } catch (error) {
     console.error("Profile save API error:", error);
@@ -0,0 +1,95 @@
+/**
+ * Job Reminder Management API Route
+ *
+ * PATCH /api/reminders/:id - Edit a reminder (title, notes, due date) or mark it done
+ * DELETE /api/reminders/:id - Delete a reminder
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { deleteReminder, updateReminder } from "@/lib/supabase/queries";
+import { reminderUpdateSchema } from "@/lib/jobs/reminders";
+import { NextResponse } from "next/server";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: reminderId } = await params;
+    const parsed = reminderUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid reminder" },
+        { status: 400 }
+      );
+    }
+
+    const reminder = await updateReminder(supabase, user.id, reminderId, parsed.data);
+
+    if (!reminder) {
+      return NextResponse.json(
+        { error: "Failed to update reminder" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, reminder });
+  } catch (error) {
+    console.error("Reminder update API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: reminderId } = await params;
+
+    const success = await deleteReminder(supabase, user.id, reminderId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete reminder" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Reminder delete API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Reminder Calendar Feed Settings API Route
+ *
+ * GET /api/reminders/calendar - URL of the user's iCalendar feed (created on first use)
+ * POST /api/reminders/calendar - Replace the feed URL (the old one stops working)
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { getCalendarFeedToken } from "@/lib/supabase/queries";
+import { NextResponse } from "next/server";
+
+async function handleFeedRequest(request: Request, rotate: boolean) {
+  const supabase = await createClient();
+
+  // Check authentication
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const token = await getCalendarFeedToken(supabase, user.id, rotate);
+
+  if (!token) {
+    return NextResponse.json(
+      { error: "Failed to get calendar feed" },
+      { status: 500 }
+    );
+  }
+
+  const feedUrl = new URL(`/api/calendar/${token}.ics`, request.url).toString();
+
+  return NextResponse.json({ feedUrl });
+}
+
+export async function GET(request: Request) {
+  try {
+    return await handleFeedRequest(request, false);
+  } catch (error) {
+    console.error("Reminder calendar feed API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    return await handleFeedRequest(request, true);
+  } catch (error) {
+    console.error("Reminder calendar feed API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
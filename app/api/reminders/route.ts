@@ -0,0 +1,90 @@
+/**
+ * Job Reminders API Route
+ *
+ * GET /api/reminders - Open reminders of the user, soonest due first
+ *   (?includeCompleted=true also returns completed ones)
+ * POST /api/reminders - Add a reminder to one of the user's jobs
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { createReminder, getJobById, getReminders } from "@/lib/supabase/queries";
+import { reminderInputSchema } from "@/lib/jobs/reminders";
+import { NextResponse } from "next/server";
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const includeCompleted =
+      new URL(request.url).searchParams.get("includeCompleted") === "true";
+
+    const reminders = await getReminders(supabase, user.id, includeCompleted);
+
+    return NextResponse.json({ reminders });
+  } catch (error) {
+    console.error("Reminders get API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = reminderInputSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid reminder" },
+        { status: 400 }
+      );
+    }
+
+    // Reminders can only be added to the user's own jobs
+    const job = await getJobById(supabase, user.id, parsed.data.jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const reminder = await createReminder(supabase, user.id, parsed.data);
+
+    if (!reminder) {
+      return NextResponse.json(
+        { error: "Failed to create reminder" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, reminder });
+  } catch (error) {
+    console.error("Reminder create API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -9,6 +9,9 @@
 import { RESUME_GENERATOR_SYSTEM_PROMPT } from "@/components/agent/prompts";
 import { generateTailoredResumeTool, getResumeGenerationContext } from "@/components/agent/tools";
 import { getFirecrawlMCPClient } from "@/lib/mcp";
+import { createClient } from "@/lib/supabase/server";
+import { getContactsForJob, getInterviews } from "@/lib/supabase/queries";
+import { verifyTailoredResume } from "@/lib/jobs/fabrication-guard";
 import { openai } from "@ai-sdk/openai";
 import { streamText, convertToModelMessages, stepCountIs } from "ai";
 import { NextRequest } from "next/server";
@@ -64,9 +67,18 @@ export async function POST(request: NextRequest) {
     console.log(`   - Master Resume: ${masterResume.name}`);
     console.log(`   - User messages: ${messages.length}`);
 
-    // Get context for resume generation (job details + master resume + profile)
+    // Contacts at the company (recruiters, hiring managers, referrals) add team context
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    const contacts = user ? await getContactsForJob(supabase, user.id, job) : [];
+    // Notes from interviews already held for this job show what the team asks about
+    const interviews = user ? await getInterviews(supabase, user.id, jobId) : [];
+
+    // Get context for resume generation (job details + master resume + profile + contacts + interviews)
     console.log('\n📋 Building context for resume generation...');
-    const context = getResumeGenerationContext(job, masterResume);
+    const context = getResumeGenerationContext(job, masterResume, contacts, interviews);
 
     if (context.startsWith('Error:')) {
       console.log(`❌ ${context}`);
@@ -118,8 +130,21 @@ export async function POST(request: NextRequest) {
         console.log(`   Changes Count: ${args.changes?.length || 0}`);
         console.log(`   Alignment Score: ${args.matchAnalysis?.alignmentScore || 'N/A'}`);
         const result = await generateTailoredResumeTool.execute(args);
+
+        // Trace employers, titles, dates, degrees and metrics back to the master resume
+        const verification = verifyTailoredResume(args.tailoredResumeContent, masterResume.content || "");
+        console.log(
+          `   Verification: ${verification.checkedClaims} claims checked, ${verification.unverifiedClaims.length} unverified`
+        );
         console.log(`   Output action: ${result.action}`);
-        return result;
+        return {
+          ...result,
+          verification,
+          message:
+            verification.unverifiedClaims.length > 0
+              ? `${result.message}. ${verification.unverifiedClaims.length} claim(s) not found in the master resume: ${verification.unverifiedClaims.map((c) => c.claim).join("; ")}`
+              : result.message,
+        };
       },
     };
 
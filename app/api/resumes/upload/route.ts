@@ -3,11 +3,19 @@
  *
  * POST /api/resumes/upload
  * Uploads resume file to Supabase Storage and saves metadata.
+ * Markdown and text resumes send their content; PDF and DOCX resumes send the
+ * file, whose text is extracted to markdown and stored with the original.
  */
 
 import { createClient } from "@/lib/supabase/server";
 import { uploadResume } from "@/lib/supabase/queries";
+import { extractResumeMarkdown } from "@/lib/resume-import";
 import type { ResumeFormat } from "@/types/resume";
+import {
+  isDocumentResumeFormat,
+  validateResumeFileSize,
+  validateResumeSize,
+} from "@/types/resume";
 import { NextResponse } from "next/server";
 
 export async function POST(request: Request) {
@@ -27,8 +35,51 @@ export async function POST(request: Request) {
     // Parse form data
     const formData = await request.formData();
     const name = formData.get("name") as string;
-    const content = formData.get("content") as string;
     const format = formData.get("format") as ResumeFormat;
+    let content = formData.get("content") as string;
+
+    // PDF and DOCX: extract the uploaded file to markdown
+    const file = formData.get("file");
+    const originalFile = file instanceof File ? file : undefined;
+
+    if (format && isDocumentResumeFormat(format)) {
+      if (!originalFile) {
+        return NextResponse.json(
+          { error: "Missing required fields" },
+          { status: 400 }
+        );
+      }
+
+      if (!validateResumeFileSize(originalFile)) {
+        return NextResponse.json(
+          { error: "File too large. Maximum size for PDF and DOCX files is 5MB." },
+          { status: 400 }
+        );
+      }
+
+      const extracted = extractResumeMarkdown(
+        Buffer.from(await originalFile.arrayBuffer()),
+        format
+      );
+
+      if ("error" in extracted) {
+        return NextResponse.json({ error: extracted.error }, { status: 400 });
+      }
+
+      if (!validateResumeSize(extracted.content)) {
+        return NextResponse.json(
+          { error: "The extracted resume text is larger than 50KB" },
+          { status: 400 }
+        );
+      }
+
+      content = extracted.content;
+    } else if (format && format !== "markdown" && format !== "text") {
+      return NextResponse.json(
+        { error: "Unsupported resume format" },
+        { status: 400 }
+      );
+    }
 
     if (!name || !content || !format) {
       return NextResponse.json(
@@ -38,7 +89,14 @@ export async function POST(request: Request) {
     }
 
     // Upload resume
-    const resume = await uploadResume(supabase, user.id, name, content, format);
+    const resume = await uploadResume(
+      supabase,
+      user.id,
+      name,
+      content,
+      format,
+      isDocumentResumeFormat(format) ? originalFile : undefined
+    );
 
     if (!resume) {
       return NextResponse.json(
@@ -0,0 +1,95 @@
+/**
+ * Saved Search Management API Route
+ *
+ * PATCH /api/saved-searches/:id - Update a saved search (e.g. pause it)
+ * DELETE /api/saved-searches/:id - Delete a saved search (jobs it found are kept)
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { deleteSavedSearch, updateSavedSearch } from "@/lib/supabase/queries";
+import { savedSearchUpdateSchema } from "@/lib/discovery/saved-searches";
+import { NextResponse } from "next/server";
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: searchId } = await params;
+    const parsed = savedSearchUpdateSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid saved search" },
+        { status: 400 }
+      );
+    }
+
+    const savedSearch = await updateSavedSearch(supabase, user.id, searchId, parsed.data);
+
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: "Failed to update saved search" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, savedSearch });
+  } catch (error) {
+    console.error("Saved search update API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: searchId } = await params;
+
+    const success = await deleteSavedSearch(supabase, user.id, searchId);
+
+    if (!success) {
+      return NextResponse.json(
+        { error: "Failed to delete saved search" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Saved search delete API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Saved Search Runs API Route
+ *
+ * GET /api/saved-searches/:id/runs - Recent runs of a saved search with their counts
+ * POST /api/saved-searches/:id/runs - Run a saved search now; new jobs go to the inbox
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import {
+  getProfile,
+  getSavedSearchById,
+  getSavedSearchRuns,
+} from "@/lib/supabase/queries";
+import { runSavedSearch } from "@/lib/discovery/saved-searches";
+import { NextResponse } from "next/server";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: searchId } = await params;
+
+    const runs = await getSavedSearchRuns(supabase, user.id, searchId);
+
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Saved search runs API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: searchId } = await params;
+
+    const savedSearch = await getSavedSearchById(supabase, user.id, searchId);
+
+    if (!savedSearch) {
+      return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+    }
+
+    // Profile is optional: without one, no company lists or deal breakers apply
+    const profile = await getProfile(supabase, user.id);
+
+    const run = await runSavedSearch(supabase, user.id, savedSearch, profile, {
+      trigger: "manual",
+    });
+
+    return NextResponse.json({ success: true, run });
+  } catch (error) {
+    console.error("Saved search run API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Saved Searches API Route
+ *
+ * GET /api/saved-searches - List the user's saved searches
+ * POST /api/saved-searches - Create a saved search
+ */
+
+import { createClient } from "@/lib/supabase/server";
+import { createSavedSearch, getSavedSearches } from "@/lib/supabase/queries";
+import { savedSearchInputSchema } from "@/lib/discovery/saved-searches";
+import { NextResponse } from "next/server";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const savedSearches = await getSavedSearches(supabase, user.id);
+
+    return NextResponse.json({ savedSearches });
+  } catch (error) {
+    console.error("Saved searches get API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = savedSearchInputSchema.safeParse(await request.json());
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: parsed.error.issues[0]?.message || "Invalid saved search" },
+        { status: 400 }
+      );
+    }
+
+    const savedSearch = await createSavedSearch(supabase, user.id, parsed.data);
+
+    if (!savedSearch) {
+      return NextResponse.json(
+        { error: "Failed to create saved search" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, savedSearch });
+  } catch (error) {
+    console.error("Saved search create API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Header } from "@/components/layout/Header";
+import { InboxJobCard } from "@/components/jobs/InboxJobCard";
+import { SavedSearchesPanel } from "@/components/jobs/SavedSearchesPanel";
+import type { Job } from "@/types/job";
+import type { InboxTriageAction } from "@/lib/supabase/queries/inbox";
+import { Inbox, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+export default function InboxPage() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [snoozedCount, setSnoozedCount] = useState(0);
+  const [updatingJobIds, setUpdatingJobIds] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load inbox jobs from Supabase on mount
+  useEffect(() => {
+    loadInbox();
+  }, []);
+
+  const loadInbox = async (showLoading = true) => {
+    try {
+      setIsLoading(showLoading);
+      setError(null);
+
+      const response = await fetch("/api/inbox", {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          setError("Please log in to view your inbox");
+          return;
+        }
+        throw new Error("Failed to load inbox");
+      }
+
+      const data = await response.json();
+      setJobs(data.jobs || []);
+      setSnoozedCount(data.snoozedCount || 0);
+    } catch (err) {
+      console.error("Error loading inbox:", err);
+      setError("Failed to load inbox. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Accepts, dismisses or snoozes a job and removes it from the list
+   */
+  const handleTriage = async (job: Job, action: InboxTriageAction, snoozeDays?: number) => {
+    setUpdatingJobIds((prev) => new Set(prev).add(job.id));
+
+    try {
+      const response = await fetch("/api/inbox", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ jobIds: [job.id], action, snoozeDays }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update inbox job");
+      }
+
+      setJobs((prev) => prev.filter((j) => j.id !== job.id));
+
+      if (action === "accept") {
+        toast.success("Job saved!", {
+          description: `${job.title} at ${job.company} saved to your dashboard.`,
+        });
+      } else if (action === "dismiss") {
+        toast.info("Job dismissed", {
+          description: `${job.title} at ${job.company} won't be shown again.`,
+        });
+      } else {
+        setSnoozedCount((prev) => prev + 1);
+        toast.info("Job snoozed", {
+          description: `${job.title} at ${job.company} will be back in ${snoozeDays} ${snoozeDays === 1 ? "day" : "days"}.`,
+        });
+      }
+    } catch (err) {
+      console.error("Error updating inbox job:", err);
+      toast.error("Update failed", {
+        description: "Could not update the job. Please try again.",
+      });
+    } finally {
+      setUpdatingJobIds((prev) => {
+        const next = new Set(prev);
+        next.delete(job.id);
+        return next;
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <div className="flex items-center justify-center h-96">
+            <div className="text-center">
+              <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto mb-4" />
+              <p className="text-gray-600 text-lg">Loading your inbox...</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <div className="flex items-center justify-center h-96">
+            <div className="text-center">
+              <p className="text-red-600 text-lg mb-4">{error}</p>
+              <button
+                onClick={() => loadInbox()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Retry
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Inbox</h1>
+            <p className="text-gray-600">
+              Jobs from your chats and saved searches that you haven&apos;t decided on yet.
+              Save the ones worth pursuing; dismissed jobs won&apos;t be shown again.
+            </p>
+            <p className="text-sm text-gray-500 mt-1">
+              {jobs.length} {jobs.length === 1 ? "job" : "jobs"} to review
+              {snoozedCount > 0 && ` · ${snoozedCount} snoozed`}
+            </p>
+          </div>
+
+          {/* Reload quietly so the page keeps its place after a manual run */}
+          <SavedSearchesPanel onRun={() => loadInbox(false)} />
+
+          {jobs.length === 0 ? (
+            <div className="bg-white rounded-xl p-12 text-center border-2 border-dashed border-gray-300">
+              <Inbox className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">Inbox zero</h3>
+              <p className="text-gray-600 max-w-md mx-auto">
+                Jobs you discover in the chat or through saved searches show up here until you
+                save, dismiss or snooze them.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {jobs.map((job) => (
+                <InboxJobCard
+                  key={job.id}
+                  job={job}
+                  onTriage={handleTriage}
+                  isUpdating={updatingJobIds.has(job.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,43 @@
 "use client";
 
-import { useEffect, useState, useRef } from "react";
+import { useEffect, useMemo, useState, useRef } from "react";
 import { useChat } from "@ai-sdk/react";
 import { DefaultChatTransport } from "ai";
 import { Header } from "@/components/layout/Header";
 import { HeroSection } from "@/components/jobs/HeroSection";
 import { DashboardMetrics } from "@/components/jobs/DashboardMetrics";
 import { JobTable } from "@/components/jobs/JobTable";
+import { JobBoard } from "@/components/jobs/JobBoard";
+import { RemindersPanel } from "@/components/jobs/RemindersPanel";
 import { GenerateResumeDialog } from "@/components/jobs/GenerateResumeDialog";
+import { GenerateCoverLetterDialog } from "@/components/jobs/GenerateCoverLetterDialog";
 import { ViewResumeDialog } from "@/components/jobs/ViewResumeDialog";
+import { reweightJob, type ScoringWeights } from "@/lib/jobs/scoring";
 import type { Job, ApplicationStatus } from "@/types/job";
-import { Loader2 } from "lucide-react";
+import { withDealBreakers } from "@/lib/jobs/deal-breakers";
+import { APPLICATION_STATUS_LABELS } from "@/lib/jobs/pipeline";
+import {
+  getScoringCategories,
+  type DealBreakerRule,
+  type ScoringCategory,
+} from "@/types/profile";
+import { Button } from "@/components/ui/button";
+import { Loader2, Table2, Columns3 } from "lucide-react";
+import { toast } from "sonner";
 
 export default function JobsPage() {
   const [jobs, setJobs] = useState<Job[]>([]);
+  const [scoringWeights, setScoringWeights] = useState<ScoringWeights | undefined>();
+  const [scoringCategories, setScoringCategories] = useState<ScoringCategory[] | undefined>();
+  const [dealBreakerRules, setDealBreakerRules] = useState<DealBreakerRule[] | undefined>();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [generatingForJob, setGeneratingForJob] = useState<Job | null>(null);
   const [viewingResumeForJob, setViewingResumeForJob] = useState<Job | null>(null);
+  const [coverLetterForJob, setCoverLetterForJob] = useState<Job | null>(null);
   const [isScoring, setIsScoring] = useState(false);
+  const [view, setView] = useState<"table" | "board">("table");
+  const [remindersVersion, setRemindersVersion] = useState(0);
   const selectedJobIdsRef = useRef<string[]>([]);
 
   // Setup useChat for Matching Agent (for direct scoring)
@@ -59,11 +78,23 @@ export default function JobsPage() {
     }),
   });
 
-  // Load jobs from Supabase on mount
+  // Load jobs and scoring weights from Supabase on mount
   useEffect(() => {
     loadJobs();
+    loadScoringWeights();
   }, []);
 
+  // Scores are stored as category ratings, so totals always follow the current weights
+  // (deal breakers are re-checked against the current rules before the cap is applied)
+  const weightedJobs = useMemo(
+    () =>
+      jobs.map((job) => {
+        const flagged = dealBreakerRules ? withDealBreakers(job, dealBreakerRules) : job;
+        return scoringWeights ? reweightJob(flagged, scoringWeights) : flagged;
+      }),
+    [jobs, scoringWeights, dealBreakerRules]
+  );
+
   // Watch for scoring completion
   useEffect(() => {
     if (messages.length === 0 || !isScoring) return;
@@ -112,7 +143,41 @@ export default function JobsPage() {
     }
   };
 
+  const loadScoringWeights = async () => {
+    try {
+      const response = await fetch('/api/profile', {
+        credentials: 'include',
+      });
+
+      if (!response.ok) return;
+
+      const data = await response.json();
+      setScoringWeights(data.profile?.scoringWeights);
+      setScoringCategories(getScoringCategories(data.profile));
+      setDealBreakerRules(data.profile?.dealBreakerRules);
+    } catch (err) {
+      // Stored scores are shown as-is without the weights
+      console.error('Error loading scoring weights:', err);
+    }
+  };
+
   const handleStatusUpdate = async (jobId: string, status: ApplicationStatus) => {
+    const previous = jobs.find((job) => job.id === jobId);
+    if (!previous || previous.applicationStatus === status) return;
+
+    // Move the job right away; the move is rolled back if it cannot be saved
+    const setStatus = (
+      from: ApplicationStatus | undefined,
+      updates: Pick<Job, "applicationStatus" | "statusUpdatedAt">
+    ) =>
+      setJobs((current) =>
+        current.map((job) =>
+          job.id === jobId && job.applicationStatus === from ? { ...job, ...updates } : job
+        )
+      );
+
+    setStatus(previous.applicationStatus, { applicationStatus: status });
+
     try {
       const response = await fetch(`/api/jobs/${jobId}/status`, {
         method: 'PATCH',
@@ -127,12 +192,20 @@ export default function JobsPage() {
         throw new Error('Failed to update job status');
       }
 
-      // Reload jobs after status update
-      await loadJobs();
+      setStatus(status, { statusUpdatedAt: new Date().toISOString() });
+      // Status changes schedule follow-up reminders
+      setRemindersVersion((version) => version + 1);
     } catch (err) {
       console.error('Error updating job status:', err);
-      setError("Failed to update job status. Please try again.");
-      setTimeout(() => setError(null), 3000);
+      setStatus(status, {
+        applicationStatus: previous.applicationStatus,
+        statusUpdatedAt: previous.statusUpdatedAt,
+      });
+      toast.error("Failed to update job status", {
+        description: `${previous.title} was moved back to ${
+          APPLICATION_STATUS_LABELS[previous.applicationStatus || "saved"]
+        }.`,
+      });
     }
   };
 
@@ -207,6 +280,10 @@ export default function JobsPage() {
     setViewingResumeForJob(job);
   };
 
+  const handleGenerateCoverLetter = (job: Job) => {
+    setCoverLetterForJob(job);
+  };
+
   if (isLoading || isScoring) {
     return (
       <div className="min-h-screen bg-background">
@@ -256,19 +333,49 @@ export default function JobsPage() {
           <HeroSection />
 
           {/* Dashboard Metrics */}
-          <DashboardMetrics jobs={jobs} />
+          <DashboardMetrics jobs={weightedJobs} />
 
-          {/* Jobs Table */}
+          {/* Follow-up Reminders */}
+          <RemindersPanel refreshKey={remindersVersion} />
+
+          {/* Jobs Table / Pipeline Board */}
           <div>
-            <h2 className="text-lg font-semibold text-gray-900 mb-3">Your Jobs</h2>
-            <JobTable
-              jobs={jobs}
-              onStatusUpdate={handleStatusUpdate}
-              onBulkRemove={handleBulkJobRemove}
-              onBulkScore={handleBulkScore}
-              onGenerateResume={handleGenerateResume}
-              onViewResume={handleViewResume}
-            />
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-gray-900">Your Jobs</h2>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant={view === "table" ? "default" : "outline"}
+                  onClick={() => setView("table")}
+                >
+                  <Table2 className="w-4 h-4 mr-1" />
+                  Table
+                </Button>
+                <Button
+                  size="sm"
+                  variant={view === "board" ? "default" : "outline"}
+                  onClick={() => setView("board")}
+                >
+                  <Columns3 className="w-4 h-4 mr-1" />
+                  Board
+                </Button>
+              </div>
+            </div>
+            {view === "table" ? (
+              <JobTable
+                jobs={weightedJobs}
+                scoringWeights={scoringWeights}
+                scoringCategories={scoringCategories}
+                onStatusUpdate={handleStatusUpdate}
+                onBulkRemove={handleBulkJobRemove}
+                onBulkScore={handleBulkScore}
+                onGenerateResume={handleGenerateResume}
+                onViewResume={handleViewResume}
+                onGenerateCoverLetter={handleGenerateCoverLetter}
+              />
+            ) : (
+              <JobBoard jobs={weightedJobs} onStatusUpdate={handleStatusUpdate} />
+            )}
           </div>
         </div>
       </div>
@@ -286,6 +393,19 @@ export default function JobsPage() {
         }}
       />
 
+      {/* Cover Letter Dialog */}
+      <GenerateCoverLetterDialog
+        job={coverLetterForJob}
+        open={coverLetterForJob !== null}
+        onOpenChange={async (open) => {
+          if (!open) {
+            setCoverLetterForJob(null);
+            // Reload jobs to show newly saved cover letter
+            await loadJobs();
+          }
+        }}
+      />
+
       {/* View Resume Dialog */}
       <ViewResumeDialog
         job={viewingResumeForJob}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Header } from "@/components/layout/Header";
+import { OfferComparison } from "@/components/jobs/OfferComparison";
+import { OfferEditorDialog } from "@/components/jobs/OfferEditorDialog";
+import { getOfferFactorCategories } from "@/lib/jobs/offers";
+import type { ScoringWeights } from "@/lib/jobs/scoring";
+import type { Job } from "@/types/job";
+import type { JobOffer } from "@/types/offer";
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  getScoringCategories,
+  type ScoringCategory,
+} from "@/types/profile";
+import { Handshake, Loader2 } from "lucide-react";
+
+export default function OffersPage() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [offers, setOffers] = useState<JobOffer[]>([]);
+  const [factorCategories, setFactorCategories] = useState<ScoringCategory[]>([]);
+  const [weights, setWeights] = useState<ScoringWeights>({ ...DEFAULT_SCORING_WEIGHTS });
+  const [editingJob, setEditingJob] = useState<Job | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load offers and the profile's scoring categories on mount
+  useEffect(() => {
+    loadOffers();
+  }, []);
+
+  const loadOffers = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [offersResponse, profileResponse] = await Promise.all([
+        fetch("/api/offers", { credentials: "include" }),
+        fetch("/api/profile", { credentials: "include" }),
+      ]);
+
+      if (!offersResponse.ok) {
+        if (offersResponse.status === 401) {
+          setError("Please log in to compare your offers");
+          return;
+        }
+        throw new Error("Failed to load offers");
+      }
+
+      const data = await offersResponse.json();
+      setJobs(data.jobs || []);
+      setOffers(data.offers || []);
+
+      // Factor weights start from the profile's scoring weights
+      const profile = profileResponse.ok ? (await profileResponse.json()).profile : null;
+      setFactorCategories(getOfferFactorCategories(getScoringCategories(profile)));
+      if (profile?.scoringWeights) {
+        setWeights(profile.scoringWeights);
+      }
+    } catch (err) {
+      console.error("Error loading offers:", err);
+      setError("Failed to load offers. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaved = (offer: JobOffer) => {
+    setOffers((prev) => [...prev.filter((o) => o.jobId !== offer.jobId), offer]);
+  };
+
+  const handleDeleted = (jobId: string) => {
+    setOffers((prev) => prev.filter((o) => o.jobId !== jobId));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+          <div className="flex items-center justify-center h-96">
+            <div className="text-center">
+              <Loader2 className="w-12 h-12 animate-spin text-blue-600 mx-auto mb-4" />
+              <p className="text-gray-600 text-lg">Loading your offers...</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+          <div className="flex items-center justify-center h-96">
+            <div className="text-center">
+              <p className="text-red-600 text-lg mb-4">{error}</p>
+              <button
+                onClick={loadOffers}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Retry
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-4 py-8 max-w-6xl">
+        <div className="space-y-6">
+          {/* Page Header */}
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Offers</h1>
+            <p className="text-gray-600">
+              Compare the offers for jobs in the offer stage side by side: total compensation over the
+              first year and four years, and how each rates on the factors you care about.
+            </p>
+          </div>
+
+          {jobs.length === 0 ? (
+            <div className="bg-white rounded-xl p-12 text-center border-2 border-dashed border-gray-300">
+              <Handshake className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No offers yet</h3>
+              <p className="text-gray-600 max-w-md mx-auto">
+                Jobs you move to the Offer stage on the jobs dashboard show up here, ready for their
+                offer details.
+              </p>
+            </div>
+          ) : (
+            <OfferComparison
+              jobs={jobs}
+              offers={offers}
+              factorCategories={factorCategories}
+              weights={weights}
+              onWeightsChange={setWeights}
+              onEditOffer={setEditingJob}
+            />
+          )}
+        </div>
+      </div>
+
+      <OfferEditorDialog
+        job={editingJob}
+        offer={offers.find((offer) => offer.jobId === editingJob?.id)}
+        factorCategories={factorCategories}
+        open={editingJob !== null}
+        onOpenChange={(open) => !open && setEditingJob(null)}
+        onSaved={handleSaved}
+        onDeleted={handleDeleted}
+      />
+    </div>
+  );
+}
@@ -4,6 +4,8 @@
  * Central export point for all agent system prompts.
  */
 
-export { JOB_DISCOVERY_SYSTEM_PROMPT } from "./job-discovery-prompt";
-export { JOB_MATCHING_SYSTEM_PROMPT } from "./job-matching-prompt";
+export { JOB_DISCOVERY_SYSTEM_PROMPT, buildCompanyListsPrompt } from "./job-discovery-prompt";
+export { JOB_MATCHING_SYSTEM_PROMPT, buildScoringCategoriesPrompt } from "./job-matching-prompt";
 export { RESUME_GENERATOR_SYSTEM_PROMPT } from "./resume-generator-prompt";
+export { INTERVIEW_PREP_SYSTEM_PROMPT } from "./interview-prep-prompt";
+export { COVER_LETTER_SYSTEM_PROMPT } from "./cover-letter-prompt";
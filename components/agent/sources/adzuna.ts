@@ -0,0 +1,15 @@
+/**
+ * Adzuna Job Source
+ *
+ * Job board aggregator searched through the Adzuna Job Search API.
+ */
+
+import { searchAdzunaJobs, mapAdzunaJobToJob, type AdzunaJob } from "../tools/adzuna";
+import type { JobSourceProvider } from "./types";
+
+export const adzunaSource: JobSourceProvider<"adzuna", AdzunaJob> = {
+  id: "adzuna",
+  label: "Adzuna",
+  tools: { searchAdzunaJobs },
+  mapToJob: mapAdzunaJobToJob,
+};
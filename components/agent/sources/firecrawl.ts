@@ -0,0 +1,14 @@
+/**
+ * Firecrawl Job Source
+ *
+ * Career pages scraped through the Firecrawl MCP server. The scraping tools are
+ * provided by the MCP client at request time, and the agent maps scraped
+ * postings to jobs itself before calling displayJobs.
+ */
+
+import type { JobSourceProvider } from "./types";
+
+export const firecrawlSource: JobSourceProvider<"firecrawl"> = {
+  id: "firecrawl",
+  label: "Firecrawl",
+};
@@ -0,0 +1,21 @@
+/**
+ * Greenhouse Job Source
+ *
+ * Company job boards hosted on Greenhouse, read through the public Job Board API.
+ */
+
+import {
+  searchGreenhouseJobs,
+  mapGreenhouseJobToJob,
+  fetchGreenhousePosting,
+  type GreenhouseJob,
+} from "../tools/greenhouse";
+import type { JobSourceProvider } from "./types";
+
+export const greenhouseSource: JobSourceProvider<"greenhouse", GreenhouseJob> = {
+  id: "greenhouse",
+  label: "Greenhouse",
+  tools: { searchGreenhouseJobs },
+  mapToJob: mapGreenhouseJobToJob,
+  fetchPosting: fetchGreenhousePosting,
+};
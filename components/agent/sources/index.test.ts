@@ -0,0 +1,20 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { JOB_SOURCE_IDS } from "./index";
+
+/**
+ * Sources allowed by a jobs.source CHECK (source IN (...)) constraint in SQL
+ */
+function allowedSources(sql: string): string[] {
+  const list = sql.match(/CHECK \(source IN \(([^)]*)\)\)/)?.[1] ?? "";
+  return Array.from(list.matchAll(/'([^']+)'/g), (match) => match[1]);
+}
+
+describe("JOB_SOURCE_IDS", () => {
+  it("matches the sources the database schema allows", () => {
+    const schema = readFileSync(join(process.cwd(), "supabase/schema.sql"), "utf8");
+
+    expect(allowedSources(schema).sort()).toEqual([...JOB_SOURCE_IDS].sort());
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Job Source Registry
+ *
+ * Central registration point for job source providers. To add a new source,
+ * create a provider module in this directory, add it to JOB_SOURCE_PROVIDERS
+ * and allow its id in the jobs.source CHECK (supabase/schema.sql and a
+ * migration).
+ * Job["source"], the zod source enum used by agent tools, the save-time
+ * validation and the discovery agent's search tools all derive from this list.
+ */
+
+import { z } from "zod";
+import { adzunaSource } from "./adzuna";
+import { firecrawlSource } from "./firecrawl";
+import { greenhouseSource } from "./greenhouse";
+import { leverSource } from "./lever";
+import { manualSource } from "./manual";
+import type { JobSourceProvider, JobSourceTool } from "./types";
+
+export type { JobSourceProvider, JobSourceTool } from "./types";
+
+/**
+ * Registered job source providers
+ */
+export const JOB_SOURCE_PROVIDERS = [
+  firecrawlSource,
+  adzunaSource,
+  greenhouseSource,
+  leverSource,
+  manualSource,
+] as const;
+
+/**
+ * Union of registered source identifiers (e.g. "firecrawl" | "adzuna" | "manual")
+ */
+export type JobSourceId = (typeof JOB_SOURCE_PROVIDERS)[number]["id"];
+
+/**
+ * Registered source identifiers
+ */
+export const JOB_SOURCE_IDS = JOB_SOURCE_PROVIDERS.map((provider) => provider.id) as [
+  JobSourceId,
+  ...JobSourceId[],
+];
+
+/**
+ * Zod schema for Job.source, shared by agent tool input schemas
+ */
+export const jobSourceSchema = z.enum(JOB_SOURCE_IDS);
+
+/**
+ * Checks if a value is a registered source identifier
+ */
+export function isJobSourceId(value: unknown): value is JobSourceId {
+  return typeof value === "string" && (JOB_SOURCE_IDS as string[]).includes(value);
+}
+
+/**
+ * Gets a registered provider by identifier
+ */
+export function getJobSource(id: string): JobSourceProvider | undefined {
+  return (JOB_SOURCE_PROVIDERS as readonly JobSourceProvider[]).find(
+    (provider) => provider.id === id
+  );
+}
+
+/**
+ * Collects the search tools of all registered providers, keyed by tool name
+ */
+export function getJobSourceTools(): Record<string, JobSourceTool> {
+  return Object.assign(
+    {},
+    ...JOB_SOURCE_PROVIDERS.map((provider) => provider.tools ?? {})
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * Lever Job Source
+ *
+ * Company job sites hosted on Lever, read through the public Postings API.
+ */
+
+import {
+  searchLeverJobs,
+  mapLeverPostingToJob,
+  fetchLeverPosting,
+  type LeverPosting,
+} from "../tools/lever";
+import type { JobSourceProvider } from "./types";
+
+export const leverSource: JobSourceProvider<"lever", LeverPosting> = {
+  id: "lever",
+  label: "Lever",
+  tools: { searchLeverJobs },
+  mapToJob: mapLeverPostingToJob,
+  fetchPosting: fetchLeverPosting,
+};
@@ -0,0 +1,12 @@
+/**
+ * Manual Job Source
+ *
+ * Jobs entered or pasted in by the user.
+ */
+
+import type { JobSourceProvider } from "./types";
+
+export const manualSource: JobSourceProvider<"manual"> = {
+  id: "manual",
+  label: "Manual",
+};
@@ -0,0 +1,51 @@
+/**
+ * Job Source Provider Types
+ *
+ * Contract implemented by every job source (job board API, ATS, scraper).
+ * Providers are registered in ./index.ts, which is the single source of truth
+ * for the Job["source"] union and the zod schemas used by agent tools.
+ */
+
+import type { z } from "zod";
+import type { Job } from "@/types/job";
+
+/**
+ * Agent tool shape used by custom tools in components/agent/tools
+ */
+export interface JobSourceTool {
+  description: string;
+  inputSchema: z.ZodTypeAny;
+  execute: (args: any) => Promise<unknown>;
+}
+
+/**
+ * Job Source Provider Interface
+ *
+ * @typeParam TId - Literal source identifier stored in Job.source and jobs.source
+ * @typeParam TRaw - Raw posting shape returned by the source's API
+ */
+export interface JobSourceProvider<TId extends string = string, TRaw = any> {
+  /** Identifier stored on jobs discovered through this source (lowercase, e.g. "adzuna") */
+  id: TId;
+
+  /** Human-readable name (e.g. "Adzuna") */
+  label: string;
+
+  /** Search tools exposed to the Job Discovery Agent, keyed by tool name */
+  tools?: Record<string, JobSourceTool>;
+
+  /**
+   * Maps a raw posting from this source to our Job interface
+   *
+   * companyName is the board's company, for sources whose postings omit it.
+   */
+  mapToJob?: (raw: TRaw, companyName: string) => Job;
+
+  /**
+   * Re-fetches the current version of a saved posting (used to detect edits)
+   *
+   * Resolves to null if the job's URL is not a posting this source can look
+   * up, or the posting no longer exists; rejects on other API errors.
+   */
+  fetchPosting?: (job: Job) => Promise<Job | null>;
+}
@@ -7,12 +7,13 @@
 
 import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
-import type { Job } from "@/types/job";
+import type { Job, SalaryRange } from "@/types/job";
+import { extractJobRequirements, flattenRequirements } from "@/lib/jobs/requirements";
 
 /**
  * Adzuna API response interfaces
  */
-interface AdzunaJob {
+export interface AdzunaJob {
   id: string;
   title: string;
   company: {
@@ -25,6 +26,8 @@ interface AdzunaJob {
   description: string;
   salary_min?: number;
   salary_max?: number;
+  /** "1" when the salary is Adzuna's estimate rather than posted by the employer */
+  salary_is_predicted?: string;
   redirect_url: string;
   category?: {
     label: string;
@@ -42,18 +45,9 @@ interface AdzunaResponse {
 /**
  * Maps Adzuna job to our Job interface
  */
-function mapAdzunaJobToJob(adzunaJob: AdzunaJob): Job {
-  // Extract requirements from description (simple heuristic)
-  const requirements: string[] = [];
-  const descLower = adzunaJob.description.toLowerCase();
-
-  // Look for common requirement indicators
-  if (descLower.includes("bachelor") || descLower.includes("degree")) {
-    requirements.push("Bachelor's degree or equivalent experience");
-  }
-  if (descLower.includes("experience")) {
-    requirements.push("Relevant professional experience");
-  }
+export function mapAdzunaJobToJob(adzunaJob: AdzunaJob): Job {
+  // Parse requirements out of the description snippet
+  const structuredRequirements = extractJobRequirements(adzunaJob.description);
 
   // Format salary if available
   let salary: string | undefined;
@@ -63,14 +57,27 @@ function mapAdzunaJobToJob(adzunaJob: AdzunaJob): Job {
     salary = `$${adzunaJob.salary_min.toLocaleString()}+`;
   }
 
+  const salaryRange: SalaryRange | undefined =
+    adzunaJob.salary_min || adzunaJob.salary_max
+      ? {
+          min: adzunaJob.salary_min,
+          max: adzunaJob.salary_max,
+          currency: "USD",
+          period: "year",
+          source: adzunaJob.salary_is_predicted === "1" ? "estimated" : "posted",
+        }
+      : undefined;
+
   return {
     id: uuidv4(),
     title: adzunaJob.title,
     company: adzunaJob.company.display_name,
     location: adzunaJob.location.display_name,
     salary,
+    salaryRange,
     description: adzunaJob.description,
-    requirements,
+    requirements: flattenRequirements(structuredRequirements),
+    structuredRequirements,
     url: adzunaJob.redirect_url,
     source: "adzuna",
     discoveredAt: new Date().toISOString(),
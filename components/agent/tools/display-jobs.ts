@@ -8,6 +8,9 @@
 
 import { z } from "zod";
 import type { Job } from "@/types/job";
+import { jobSourceSchema } from "../sources";
+import { withStructuredRequirements } from "@/lib/jobs/requirements";
+import { withSalaryRange } from "@/lib/jobs/salary";
 
 /**
  * Display Jobs Tool
@@ -33,9 +36,8 @@ export const displayJobs = {
             .array(z.string())
             .describe("List of job requirements/qualifications"),
           url: z.string().describe("Link to job posting"),
-          source: z
-            .enum(["firecrawl", "adzuna", "manual"])
-            .describe("Source of the job listing"),
+          department: z.string().optional().describe("Department or team"),
+          source: jobSourceSchema.describe("Source of the job listing"),
           discoveredAt: z.string().describe("ISO timestamp when job was discovered"),
         })
       )
@@ -72,6 +74,11 @@ export const displayJobs = {
       return isValid;
     });
 
+    // Parse requirements and salary for jobs structured by the agent (e.g. Firecrawl scrapes)
+    const enrichedJobs = validJobs.map((job) =>
+      withSalaryRange(withStructuredRequirements(job))
+    );
+
     const endTime = performance.now();
     const executionTime = (endTime - startTime).toFixed(2);
 
@@ -79,7 +86,7 @@ export const displayJobs = {
 
     return {
       action: "display",
-      jobs: validJobs,
+      jobs: enrichedJobs,
       count: validJobs.length,
       message: `Displaying ${validJobs.length} jobs in carousel`,
     };
@@ -0,0 +1,183 @@
+/**
+ * Generate Cover Letter Tool
+ *
+ * Allows the Cover Letter Agent to return a cover letter written for a
+ * specific job from a master resume. Takes a job ID and master resume ID,
+ * returns the letter with the requirements it addresses and the gaps it
+ * leaves alone.
+ */
+
+import { z } from "zod";
+import type { CoverLetterLength, CoverLetterTone, Job } from "@/types/job";
+import type { Resume } from "@/types/resume";
+import type { Contact } from "@/types/contact";
+import type { Interview } from "@/types/interview";
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES } from "@/lib/jobs/cover-letters";
+import { getApplicationContext } from "./generate-resume";
+
+/**
+ * Generate Cover Letter Tool
+ *
+ * Used by the Cover Letter Agent to return the letter it wrote. The agent
+ * writes the letter through LLM reasoning; the tool packages it with the
+ * options it was written for so the client can save it on the job.
+ */
+export const generateCoverLetterTool = {
+  description:
+    "Return a cover letter written for a specific job opportunity. Provide the job ID and master resume ID from the context, the complete letter, the job requirements it addresses, the company facts it refers to and the requirements left out because the master resume has no experience for them. The letter must only use real experience from the master resume.",
+
+  inputSchema: z.object({
+    jobId: z
+      .string()
+      .describe("ID of the job the letter is for (use exact ID from context)"),
+    masterResumeId: z
+      .string()
+      .describe("ID of the master resume the letter draws on (use exact ID from context)"),
+    jobTitle: z
+      .string()
+      .describe("Job title from the context"),
+    jobCompany: z
+      .string()
+      .describe("Company name from the context"),
+    masterResumeName: z
+      .string()
+      .describe("Master resume name from the context"),
+    tone: z
+      .enum(Object.keys(COVER_LETTER_TONES) as [CoverLetterTone, ...CoverLetterTone[]])
+      .describe("Tone the letter was written in (from the context)"),
+    length: z
+      .enum(Object.keys(COVER_LETTER_LENGTHS) as [CoverLetterLength, ...CoverLetterLength[]])
+      .describe("Length the letter was written at (from the context)"),
+    coverLetterContent: z
+      .string()
+      .describe(
+        "The complete cover letter in markdown format, from greeting to sign-off"
+      ),
+    addressedRequirements: z
+      .array(z.string())
+      .describe(
+        "Job requirements the letter addresses, each with the master resume experience used (e.g. 'Kubernetes: migrated 40 services at Acme')"
+      ),
+    companyResearch: z
+      .array(z.string())
+      .describe(
+        "Facts about the company the letter refers to, each with its source (posting or URL researched)"
+      ),
+    remainingGaps: z
+      .array(z.string())
+      .describe(
+        "Job requirements the master resume has no experience for (left out of the letter)"
+      ),
+  }),
+
+  execute: async ({
+    jobId,
+    masterResumeId,
+    jobTitle,
+    jobCompany,
+    masterResumeName,
+    tone,
+    length,
+    coverLetterContent,
+    addressedRequirements,
+    companyResearch,
+    remainingGaps,
+  }: {
+    jobId: string;
+    masterResumeId: string;
+    jobTitle: string;
+    jobCompany: string;
+    masterResumeName: string;
+    tone: CoverLetterTone;
+    length: CoverLetterLength;
+    coverLetterContent: string;
+    addressedRequirements: string[];
+    companyResearch: string[];
+    remainingGaps: string[];
+  }) => {
+    console.log(`✉️ Generate Cover Letter Tool called`);
+    console.log(`   Job: ${jobTitle} at ${jobCompany}`);
+    console.log(`   Job ID: ${jobId}`);
+    console.log(`   Master Resume: ${masterResumeName}`);
+    console.log(`   Master Resume ID: ${masterResumeId}`);
+    console.log(`   Tone: ${tone}, Length: ${length}`);
+    console.log(`   Words: ${coverLetterContent.split(/\s+/).filter(Boolean).length}`);
+
+    return {
+      action: "generated",
+      coverLetter: {
+        content: coverLetterContent,
+        masterResumeName,
+        tone,
+        length,
+        generatedAt: new Date().toISOString(),
+        addressedRequirements,
+        companyResearch,
+        remainingGaps,
+      } satisfies NonNullable<Job["coverLetter"]>,
+      targetJob: {
+        title: jobTitle,
+        company: jobCompany,
+        id: jobId,
+      },
+      message: `Generated ${tone} cover letter for ${jobTitle} at ${jobCompany}`,
+    };
+  },
+};
+
+/**
+ * Helper function to provide job, resume and option context to the agent
+ *
+ * Uses the same job, resume, profile, contacts and interview sections as the
+ * Resume Generator (see getApplicationContext), plus the tone and length.
+ */
+export function getCoverLetterGenerationContext(
+  job: Job,
+  masterResume: Resume,
+  options: { tone: CoverLetterTone; length: CoverLetterLength },
+  contacts: Contact[] = [],
+  interviews: Interview[] = []
+): string {
+  if (!job) {
+    return `Error: Job data is required. Please provide job details.`;
+  }
+
+  if (!masterResume) {
+    return `Error: Master resume data is required. Please provide resume content.`;
+  }
+
+  const tone = COVER_LETTER_TONES[options.tone];
+  const length = COVER_LETTER_LENGTHS[options.length];
+  const referrals = contacts.filter((contact) => contact.relationship === "referral");
+
+  return `
+# Cover Letter Generation Context
+
+## IMPORTANT: Use These IDs When Calling generateCoverLetter Tool
+**Job ID:** ${job.id}
+**Master Resume ID:** ${masterResume.id}
+
+## Letter Options
+**Tone:** ${options.tone} - ${tone.guidance}
+**Length:** ${options.length} - ${length.minWords}-${length.maxWords} words
+${getApplicationContext(job, masterResume, contacts, interviews)}
+---
+
+## Instructions
+
+Now, write a cover letter for this job. Remember:
+- ONLY claim experience that is in the master resume
+- Lead with the 2-3 requirements where the master resume is strongest
+- Do not mention the identified gaps or apologize for missing experience
+- Refer to the company specifically (product, mission, recent news) only with facts from the posting or your research
+- Stay within ${length.minWords}-${length.maxWords} words in a ${options.tone} tone
+${referrals.length > 0 ? `- Mention the referral by name (${referrals.map((contact) => contact.name).join(", ")}) in the opening\n` : ""}${interviews.length > 0 ? "- The letter follows up on past interviews: you may build on topics discussed there\n" : ""}
+**CRITICAL:** When calling the generateCoverLetter tool, you MUST use the EXACT IDs provided above:
+- jobId: "${job.id}"
+- masterResumeId: "${masterResume.id}"
+
+Do NOT create your own IDs or modify these values. Use them exactly as shown.
+
+Use the generateCoverLetter tool to return your cover letter.
+`;
+}
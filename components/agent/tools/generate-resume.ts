@@ -9,6 +9,10 @@ import { z } from "zod";
 import { getProfile } from "@/lib/storage/profile";
 import type { Job } from "@/types/job";
 import type { Resume } from "@/types/resume";
+import type { Contact } from "@/types/contact";
+import { CONTACT_RELATIONSHIP_LABELS } from "@/lib/jobs/contacts";
+import type { Interview } from "@/types/interview";
+import { formatInterviewsForPrompt } from "@/lib/jobs/interviews";
 
 /**
  * Generate Tailored Resume Tool
@@ -152,10 +156,10 @@ export const generateTailoredResumeTool = {
  */
 export function getResumeGenerationContext(
   job: Job,
-  masterResume: Resume
+  masterResume: Resume,
+  contacts: Contact[] = [],
+  interviews: Interview[] = []
 ): string {
-  const userProfile = getProfile();
-
   if (!job) {
     return `Error: Job data is required. Please provide job details.`;
   }
@@ -170,7 +174,44 @@ export function getResumeGenerationContext(
 ## IMPORTANT: Use These IDs When Calling generateTailoredResume Tool
 **Job ID:** ${job.id}
 **Master Resume ID:** ${masterResume.id}
+${getApplicationContext(job, masterResume, contacts, interviews)}
+---
+
+## Instructions
+
+Now, tailor the master resume for this specific job opportunity. Remember:
+- ONLY use real experience from the master resume
+- Reorder content to emphasize job-relevant experience
+- Integrate job description keywords naturally
+- Maintain the candidate's authentic voice
+- Keep to 1-2 pages
+- Document all changes made
+${contacts.length > 0 ? "- Use the contacts to understand the team and who will read the resume (e.g. what a hiring manager's team works on), but do not mention them in the resume itself\n" : ""}${interviews.length > 0 ? "- Use the past interviews to see what the interviewers care about and emphasize real experience that answers it, but do not mention the interviews in the resume itself\n" : ""}
+**CRITICAL:** When calling the generateTailoredResume tool, you MUST use the EXACT IDs provided above:
+- jobId: "${job.id}"
+- masterResumeId: "${masterResume.id}"
+
+Do NOT create your own IDs or modify these values. Use them exactly as shown.
+
+Use the generateTailoredResume tool to return your tailored resume with change analysis.
+`;
+}
 
+/**
+ * Builds the job, master resume, profile, contacts and interview sections
+ * shared by the document generators (resume and cover letter)
+ *
+ * Each generator adds its own heading, IDs and instructions around it.
+ */
+export function getApplicationContext(
+  job: Job,
+  masterResume: Resume,
+  contacts: Contact[] = [],
+  interviews: Interview[] = []
+): string {
+  const userProfile = getProfile();
+
+  return `
 ## Target Job
 **Title:** ${job.title}
 **Company:** ${job.company}
@@ -190,12 +231,10 @@ ${
 ${
   job.scoreBreakdown
     ? `
-**Score Breakdown:**
-- Salary Match: ${job.scoreBreakdown.salaryMatch}
-- Location Fit: ${job.scoreBreakdown.locationFit}
-- Company Appeal: ${job.scoreBreakdown.companyAppeal}
-- Role Match: ${job.scoreBreakdown.roleMatch}
-- Requirements Fit: ${job.scoreBreakdown.requirementsFit}
+**Score Breakdown (share of each category earned):**
+${Object.entries(job.scoreBreakdown)
+  .map(([category, rating]) => `- ${category}: ${Math.round(rating * 100)}%`)
+  .join("\n")}
 `
     : ""
 }
@@ -239,25 +278,29 @@ ${userProfile.dealBreakers ? `**Deal Breakers:** ${userProfile.dealBreakers}` :
 `
     : ""
 }
+${
+  contacts.length > 0
+    ? `
+## Contacts at ${job.company}
+${contacts
+  .map(
+    (contact) =>
+      `- ${contact.name}${contact.role ? `, ${contact.role}` : ""} (${CONTACT_RELATIONSHIP_LABELS[contact.relationship]})${
+        contact.notes ? `: ${contact.notes}` : ""
+      }`
+  )
+  .join("\n")}
+`
+    : ""
+}
+${
+  interviews.length > 0
+    ? `
+## Past Interviews at ${job.company}
+${formatInterviewsForPrompt(interviews)}
+`
+    : ""
+}
 
----
-
-## Instructions
-
-Now, tailor the master resume for this specific job opportunity. Remember:
-- ONLY use real experience from the master resume
-- Reorder content to emphasize job-relevant experience
-- Integrate job description keywords naturally
-- Maintain the candidate's authentic voice
-- Keep to 1-2 pages
-- Document all changes made
-
-**CRITICAL:** When calling the generateTailoredResume tool, you MUST use the EXACT IDs provided above:
-- jobId: "${job.id}"
-- masterResumeId: "${masterResume.id}"
-
-Do NOT create your own IDs or modify these values. Use them exactly as shown.
-
-Use the generateTailoredResume tool to return your tailored resume with change analysis.
 `;
 }
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import fixture from "./__fixtures__/greenhouse-jobs.json";
+import { type GreenhouseJob, mapGreenhouseJobToJob } from "./greenhouse";
+
+const [fullJob, sparseJob] = fixture.jobs as GreenhouseJob[];
+
+describe("mapGreenhouseJobToJob", () => {
+  it("maps the posting's identity fields", () => {
+    const job = mapGreenhouseJobToJob(fullJob, "Acme Corp");
+
+    expect(job.title).toBe("Senior Backend Engineer");
+    expect(job.company).toBe("Acme");
+    expect(job.url).toBe("https://boards.greenhouse.io/acme/jobs/4012345006");
+    expect(job.source).toBe("greenhouse");
+    expect(job.department).toBe("Engineering, Payments");
+  });
+
+  it("formats every pay range and merges same-currency ranges into the salary range", () => {
+    const job = mapGreenhouseJobToJob(fullJob, "Acme Corp");
+
+    expect(job.salary).toBe(
+      "$180,000 - $210,000 (Zone A); $160,000 - $190,000 (Zone B); CAD 140,000 - CAD 160,000 (Canada)"
+    );
+    expect(job.salaryRange).toEqual({
+      min: 160000,
+      max: 210000,
+      currency: "USD",
+      period: "year",
+      source: "posted",
+    });
+  });
+
+  it("decodes the escaped content into a plain-text description", () => {
+    const job = mapGreenhouseJobToJob(fullJob, "Acme Corp");
+
+    expect(job.description).toContain("Acme builds payment infrastructure for small businesses.");
+    expect(job.description).toContain("What you'll do\n- Design and operate the ledger service");
+    expect(job.description).not.toMatch(/<|&lt;|&amp;/);
+  });
+
+  it("takes requirements from the lists under requirement headings, nice-to-haves as preferred", () => {
+    const job = mapGreenhouseJobToJob(fullJob, "Acme Corp");
+
+    expect(job.structuredRequirements?.required).toEqual([
+      "5+ years of experience building backend services",
+      "Strong experience with Go or Java",
+      "Experience with PostgreSQL",
+    ]);
+    expect(job.structuredRequirements?.preferred).toEqual(["Experience with Kafka"]);
+    expect(job.requirements).toContain("Experience with Kafka (preferred)");
+    expect(job.requirements).not.toContain("Design and operate the ledger service");
+    expect(job.structuredRequirements?.yearsOfExperience).toEqual({ min: 5 });
+  });
+
+  it("falls back for missing fields", () => {
+    const job = mapGreenhouseJobToJob(sparseJob, "Acme Corp");
+
+    expect(job.company).toBe("Acme Corp");
+    expect(job.location).toBe("London");
+    expect(job.salary).toBeUndefined();
+    expect(job.salaryRange).toBeUndefined();
+    expect(job.description).toBe("");
+    expect(job.requirements).toEqual([]);
+    expect(job.department).toBeUndefined();
+  });
+
+  it("uses the location name when present", () => {
+    expect(mapGreenhouseJobToJob(fullJob, "Acme Corp").location).toBe("San Francisco, CA");
+    expect(
+      mapGreenhouseJobToJob({ ...sparseJob, offices: [] }, "Acme Corp").location
+    ).toBe("Not specified");
+  });
+});
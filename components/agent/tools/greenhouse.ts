@@ -0,0 +1,282 @@
+/**
+ * Greenhouse Job Board Tool
+ *
+ * Searches a company's public Greenhouse job board (boards-api.greenhouse.io).
+ * Returns jobs with action: "display" for temporary viewing.
+ */
+
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import type { Job, SalaryRange } from "@/types/job";
+import { filterAtsJobs } from "@/lib/jobs/filter";
+import {
+  decodeHtmlEntities,
+  extractListItemsUnderHeading,
+  htmlToText,
+} from "@/lib/jobs/html";
+import { extractJobRequirements, flattenRequirements } from "@/lib/jobs/requirements";
+
+/**
+ * Greenhouse Job Board API response interfaces
+ */
+export interface GreenhouseJob {
+  id: number;
+  title: string;
+  absolute_url: string;
+  updated_at?: string;
+  company_name?: string;
+  location: {
+    name: string;
+  };
+  /** HTML-escaped job description (present when requested with content=true) */
+  content?: string;
+  departments?: Array<{
+    id: number;
+    name: string;
+  }>;
+  offices?: Array<{
+    id: number;
+    name: string;
+    location?: string | null;
+  }>;
+  /** Posted pay ranges (present when requested with pay_transparency=true) */
+  pay_input_ranges?: Array<{
+    min_cents: number;
+    max_cents: number;
+    currency_type: string;
+    title?: string;
+  }>;
+}
+
+interface GreenhouseJobsResponse {
+  jobs: GreenhouseJob[];
+  meta?: {
+    total: number;
+  };
+}
+
+interface GreenhouseBoardResponse {
+  name: string;
+}
+
+/**
+ * Section headings whose lists hold the posting's requirements
+ */
+const REQUIREMENT_HEADINGS =
+  /requirement|qualification|what you('|’)?ll (need|bring)|who you are|you (have|bring)|about you|must have|nice to have/i;
+
+/**
+ * Formats Greenhouse pay ranges the same way as other sources (e.g. "$120,000 - $150,000")
+ */
+function formatGreenhousePay(ranges: GreenhouseJob["pay_input_ranges"]): string | undefined {
+  if (!ranges || ranges.length === 0) {
+    return undefined;
+  }
+
+  return ranges
+    .map((range) => {
+      const symbol = range.currency_type === "USD" ? "$" : `${range.currency_type} `;
+      const min = Math.round(range.min_cents / 100).toLocaleString("en-US");
+      const max = Math.round(range.max_cents / 100).toLocaleString("en-US");
+      const label = ranges.length > 1 && range.title ? ` (${range.title})` : "";
+      return `${symbol}${min} - ${symbol}${max}${label}`;
+    })
+    .join("; ");
+}
+
+/**
+ * Converts Greenhouse pay ranges to a single numeric range
+ *
+ * Multiple ranges (e.g. per location tier) are merged into their overall
+ * min and max; ranges in a different currency than the first are ignored.
+ */
+function toGreenhouseSalaryRange(
+  ranges: GreenhouseJob["pay_input_ranges"]
+): SalaryRange | undefined {
+  const currency = ranges?.[0]?.currency_type;
+  const sameCurrency = (ranges || []).filter((range) => range.currency_type === currency);
+  if (!currency || sameCurrency.length === 0) {
+    return undefined;
+  }
+
+  return {
+    min: Math.round(Math.min(...sameCurrency.map((range) => range.min_cents)) / 100),
+    max: Math.round(Math.max(...sameCurrency.map((range) => range.max_cents)) / 100),
+    currency,
+    period: "year",
+    source: "posted",
+  };
+}
+
+/**
+ * Maps a Greenhouse job to our Job interface
+ *
+ * @param greenhouseJob - Job from the Greenhouse Job Board API
+ * @param companyName - Company name of the board (used if the job omits it)
+ */
+export function mapGreenhouseJobToJob(greenhouseJob: GreenhouseJob, companyName: string): Job {
+  // Greenhouse returns content HTML-escaped, so decode before parsing tags
+  const html = decodeHtmlEntities(greenhouseJob.content || "");
+
+  const description = htmlToText(html);
+  const structuredRequirements = extractJobRequirements(
+    description,
+    extractListItemsUnderHeading(html, REQUIREMENT_HEADINGS)
+  );
+
+  const department = greenhouseJob.departments
+    ?.map((dept) => dept.name)
+    .filter(Boolean)
+    .join(", ");
+
+  return {
+    id: uuidv4(),
+    title: greenhouseJob.title.trim(),
+    company: greenhouseJob.company_name || companyName,
+    location: greenhouseJob.location?.name || greenhouseJob.offices?.[0]?.name || "Not specified",
+    salary: formatGreenhousePay(greenhouseJob.pay_input_ranges),
+    salaryRange: toGreenhouseSalaryRange(greenhouseJob.pay_input_ranges),
+    description,
+    requirements: flattenRequirements(structuredRequirements),
+    structuredRequirements,
+    url: greenhouseJob.absolute_url,
+    source: "greenhouse",
+    department: department || undefined,
+    discoveredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Greenhouse Job Board Search Tool
+ *
+ * Fetches structured postings from a single company's Greenhouse board.
+ */
+export const searchGreenhouseJobs = {
+  description:
+    "Search a company's public Greenhouse job board. Use this when a company hosts its careers page on Greenhouse (URLs like boards.greenhouse.io/{boardToken} or job-boards.greenhouse.io/{boardToken}). Much faster and more accurate than scraping. Results are displayed temporarily and must be explicitly saved by the user.",
+
+  inputSchema: z.object({
+    boardToken: z
+      .string()
+      .describe(
+        "Greenhouse board token, usually the company slug in the board URL (e.g., 'airbnb' for boards.greenhouse.io/airbnb)"
+      ),
+    query: z
+      .string()
+      .optional()
+      .describe(
+        "Optional keywords to filter by job title or department (e.g., 'engineer', 'product'). Leave empty for all jobs."
+      ),
+    location: z
+      .string()
+      .optional()
+      .describe("Optional location filter (e.g., 'Remote', 'New York'). Leave empty for all locations."),
+    resultsCount: z
+      .number()
+      .min(1)
+      .max(50)
+      .default(20)
+      .describe("Number of results to return (max 50, default 20)"),
+  }),
+
+  execute: async ({
+    boardToken,
+    query,
+    location,
+    resultsCount = 20,
+  }: {
+    boardToken: string;
+    query?: string;
+    location?: string;
+    resultsCount?: number;
+  }) => {
+    console.log(`🔍 Greenhouse Tool called for board: "${boardToken}"`);
+
+    try {
+      const baseUrl = `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(boardToken)}`;
+
+      console.log(`📡 Fetching from Greenhouse Job Board API...`);
+
+      const [jobsResponse, boardResponse] = await Promise.all([
+        fetch(`${baseUrl}/jobs?content=true&pay_transparency=true`),
+        fetch(baseUrl),
+      ]);
+
+      if (!jobsResponse.ok) {
+        console.error(`❌ Greenhouse API error: ${jobsResponse.status} ${jobsResponse.statusText}`);
+        return {
+          action: "error",
+          error:
+            jobsResponse.status === 404
+              ? `No Greenhouse job board found for "${boardToken}"`
+              : `Greenhouse API returned error: ${jobsResponse.status} ${jobsResponse.statusText}`,
+          jobs: [],
+        };
+      }
+
+      const data: GreenhouseJobsResponse = await jobsResponse.json();
+      const board: GreenhouseBoardResponse | null = boardResponse.ok
+        ? await boardResponse.json()
+        : null;
+
+      console.log(`✅ Greenhouse returned ${data.jobs.length} jobs`);
+
+      const jobs: Job[] = filterAtsJobs(
+        data.jobs.map((job) => mapGreenhouseJobToJob(job, board?.name || boardToken)),
+        query,
+        location
+      ).slice(0, resultsCount);
+
+      return {
+        action: "display",
+        jobs,
+        count: jobs.length,
+        query: query || "all jobs",
+        location: location || "all locations",
+        message: `Found ${jobs.length} jobs on the ${board?.name || boardToken} Greenhouse board${query ? ` matching "${query}"` : ""}${location ? ` in ${location}` : ""}`,
+      };
+    } catch (error) {
+      console.error("💥 Greenhouse tool error:", error);
+
+      return {
+        action: "error",
+        error:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred while searching Greenhouse",
+        jobs: [],
+      };
+    }
+  },
+};
+
+/**
+ * Fetches the current version of a saved Greenhouse posting
+ *
+ * Works for postings saved with a Greenhouse-hosted URL
+ * (boards.greenhouse.io/{boardToken}/jobs/{id}); postings on a company's own
+ * domain do not carry the board token needed for the lookup.
+ *
+ * @returns The posting mapped to a Job, or null if it cannot be looked up or is gone
+ */
+export async function fetchGreenhousePosting(job: Job): Promise<Job | null> {
+  const match = job.url.match(/greenhouse\.io\/([^/?#]+)\/jobs\/(\d+)/i);
+  if (!match || match[1] === "embed") {
+    return null;
+  }
+
+  const [, boardToken, jobId] = match;
+  const response = await fetch(
+    `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(boardToken)}/jobs/${jobId}?pay_transparency=true`
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Greenhouse API returned error: ${response.status} ${response.statusText}`);
+  }
+
+  const greenhouseJob: GreenhouseJob = await response.json();
+  return mapGreenhouseJobToJob(greenhouseJob, job.company);
+}
@@ -6,9 +6,12 @@
  */
 
 export { searchAdzunaJobs } from "./adzuna";
+export { searchGreenhouseJobs } from "./greenhouse";
+export { searchLeverJobs } from "./lever";
 export { saveJobsToProfile } from "./save-jobs";
 export { scoreJobsTool } from "./score-jobs";
 export { generateTailoredResumeTool, getResumeGenerationContext } from "./generate-resume";
+export { generateCoverLetterTool, getCoverLetterGenerationContext } from "./generate-cover-letter";
 export { displayJobs } from "./display-jobs";
 
 /**
@@ -19,15 +22,21 @@ export { displayJobs } from "./display-jobs";
  *   const result = streamText({ tools: agentTools, ... });
  */
 import { searchAdzunaJobs } from "./adzuna";
+import { searchGreenhouseJobs } from "./greenhouse";
+import { searchLeverJobs } from "./lever";
 import { saveJobsToProfile } from "./save-jobs";
 import { scoreJobsTool } from "./score-jobs";
 import { generateTailoredResumeTool } from "./generate-resume";
+import { generateCoverLetterTool } from "./generate-cover-letter";
 import { displayJobs } from "./display-jobs";
 
 export const agentTools = {
   searchAdzunaJobs,
+  searchGreenhouseJobs,
+  searchLeverJobs,
   saveJobsToProfile,
   scoreJobsTool,
   generateTailoredResumeTool,
+  generateCoverLetterTool,
   displayJobs,
 };
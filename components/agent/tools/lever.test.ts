@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import fixture from "./__fixtures__/lever-postings.json";
+import { type LeverPosting, mapLeverPostingToJob } from "./lever";
+
+const [remotePosting, hourlyPosting, sparsePosting] = fixture as LeverPosting[];
+
+describe("mapLeverPostingToJob", () => {
+  it("maps the posting's identity fields", () => {
+    const job = mapLeverPostingToJob(remotePosting, "Globex");
+
+    expect(job.title).toBe("Platform Engineer");
+    expect(job.company).toBe("Globex");
+    expect(job.url).toBe("https://jobs.lever.co/globex/5ac21346-8e0c-4494-8e7a-3eb92ff77902");
+    expect(job.source).toBe("lever");
+    expect(job.department).toBe("Engineering / Platform");
+  });
+
+  it("maps a posted salary range", () => {
+    const job = mapLeverPostingToJob(remotePosting, "Globex");
+
+    expect(job.salary).toBe("$150,000 - $185,000");
+    expect(job.salaryRange).toEqual({
+      min: 150000,
+      max: 185000,
+      currency: "USD",
+      period: "year",
+      source: "posted",
+    });
+  });
+
+  it("parses the salary description when there is no salary range", () => {
+    const job = mapLeverPostingToJob(hourlyPosting, "Globex");
+
+    expect(job.salary).toBe("The pay for this role is $28 - $34 per hour.");
+    expect(job.salaryRange).toMatchObject({ min: 28, max: 34, currency: "USD", period: "hour" });
+  });
+
+  it("flags remote and hybrid postings in the location", () => {
+    expect(mapLeverPostingToJob(remotePosting, "Globex").location).toBe(
+      "Remote (New York, NY / Boston, MA)"
+    );
+    expect(mapLeverPostingToJob(hourlyPosting, "Globex").location).toBe("Austin, TX (Hybrid)");
+  });
+
+  it("joins the description, lists and additional sections", () => {
+    const job = mapLeverPostingToJob(remotePosting, "Globex");
+
+    expect(job.description).toBe(
+      [
+        "Globex is hiring a platform engineer to scale our API.",
+        "What you'll do\n- Own the deployment pipeline\n- Improve API latency",
+        "Requirements\n- 4+ years of experience with TypeScript\n- Experience with Kubernetes",
+        "Nice to have\n- Terraform",
+        "We offer equity and a yearly learning budget.",
+      ].join("\n\n")
+    );
+  });
+
+  it("falls back to the HTML description when the plain one is empty", () => {
+    expect(mapLeverPostingToJob(hourlyPosting, "Globex").description).toBe(
+      "Help our customers get started with Globex."
+    );
+  });
+
+  it("takes requirements from requirement lists and marks nice-to-haves as preferred", () => {
+    const job = mapLeverPostingToJob(remotePosting, "Globex");
+
+    expect(job.structuredRequirements?.required).toEqual([
+      "4+ years of experience with TypeScript",
+      "Experience with Kubernetes",
+    ]);
+    expect(job.structuredRequirements?.preferred).toEqual(["Terraform"]);
+    expect(job.requirements).toContain("Terraform (preferred)");
+  });
+
+  it("falls back for missing fields", () => {
+    const job = mapLeverPostingToJob(sparsePosting, "Globex");
+
+    expect(job.location).toBe("Not specified");
+    expect(job.salary).toBeUndefined();
+    expect(job.salaryRange).toBeUndefined();
+    expect(job.description).toBe("");
+    expect(job.requirements).toEqual([]);
+    expect(job.department).toBeUndefined();
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Lever Postings Tool
+ *
+ * Searches a company's public Lever job postings (api.lever.co/v0/postings).
+ * Returns jobs with action: "display" for temporary viewing.
+ */
+
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import type { Job, SalaryPeriod } from "@/types/job";
+import { filterAtsJobs } from "@/lib/jobs/filter";
+import { extractListItems, htmlToText } from "@/lib/jobs/html";
+import { extractJobRequirements, flattenRequirements } from "@/lib/jobs/requirements";
+import { parseSalary } from "@/lib/jobs/salary";
+
+/**
+ * Lever Postings API response interfaces
+ */
+export interface LeverPosting {
+  id: string;
+  /** Job title */
+  text: string;
+  hostedUrl: string;
+  applyUrl?: string;
+  createdAt?: number;
+  categories: {
+    team?: string;
+    department?: string;
+    location?: string;
+    commitment?: string;
+    allLocations?: string[];
+  };
+  description?: string;
+  descriptionPlain?: string;
+  /** Titled sections, e.g. { text: "Requirements", content: "<li>...</li>" } */
+  lists?: Array<{
+    text: string;
+    content: string;
+  }>;
+  additional?: string;
+  additionalPlain?: string;
+  workplaceType?: "remote" | "hybrid" | "onsite" | "unspecified";
+  salaryRange?: {
+    min: number;
+    max: number;
+    currency: string;
+    interval: string;
+  };
+  salaryDescriptionPlain?: string;
+}
+
+/**
+ * List titles that hold the posting's requirements
+ */
+const REQUIREMENT_LISTS =
+  /requirement|qualification|what you('|’)?ll (need|bring)|who you are|you (have|bring)|about you|must have|nice to have/i;
+
+/**
+ * Human-readable suffixes for Lever salary intervals
+ */
+const SALARY_INTERVALS: Record<string, string> = {
+  "per-year-salary": "",
+  "per-month-salary": " per month",
+  "per-week-salary": " per week",
+  "per-day-wage": " per day",
+  "per-hour-wage": " per hour",
+  "one-time": " one-time",
+};
+
+/**
+ * Pay periods of Lever salary intervals (one-time amounts have none)
+ */
+const SALARY_PERIODS: Record<string, SalaryPeriod> = {
+  "per-year-salary": "year",
+  "per-month-salary": "month",
+  "per-week-salary": "week",
+  "per-day-wage": "day",
+  "per-hour-wage": "hour",
+};
+
+/**
+ * Formats a Lever salary range the same way as other sources (e.g. "$120,000 - $150,000")
+ */
+function formatLeverSalary(posting: LeverPosting): string | undefined {
+  const range = posting.salaryRange;
+
+  if (!range || (!range.min && !range.max)) {
+    return posting.salaryDescriptionPlain?.trim() || undefined;
+  }
+
+  const symbol = range.currency === "USD" ? "$" : `${range.currency} `;
+  const suffix = SALARY_INTERVALS[range.interval] ?? "";
+  const min = range.min ? `${symbol}${range.min.toLocaleString("en-US")}` : "";
+  const max = range.max ? `${symbol}${range.max.toLocaleString("en-US")}` : "";
+
+  if (min && max && range.min !== range.max) {
+    return `${min} - ${max}${suffix}`;
+  }
+  return `${min || max}${suffix}`;
+}
+
+/**
+ * Builds the display location, flagging remote and hybrid postings
+ */
+function formatLeverLocation(posting: LeverPosting): string {
+  const locations = posting.categories.allLocations?.length
+    ? posting.categories.allLocations
+    : posting.categories.location
+      ? [posting.categories.location]
+      : [];
+  const location = locations.join(" / ");
+
+  if (posting.workplaceType === "remote" && !/remote/i.test(location)) {
+    return location ? `Remote (${location})` : "Remote";
+  }
+  if (posting.workplaceType === "hybrid" && !/hybrid/i.test(location)) {
+    return location ? `${location} (Hybrid)` : "Hybrid";
+  }
+  return location || "Not specified";
+}
+
+/**
+ * Maps a Lever posting to our Job interface
+ *
+ * @param posting - Posting from the Lever Postings API
+ * @param companyName - Company name to display (Lever postings do not include it)
+ */
+export function mapLeverPostingToJob(posting: LeverPosting, companyName: string): Job {
+  // Items keep their list title, so those under "Nice to have" are preferred
+  const listedRequirements = (posting.lists || []).flatMap((list) =>
+    REQUIREMENT_LISTS.test(list.text)
+      ? extractListItems(list.content).map((text) => ({ text, section: list.text }))
+      : []
+  );
+
+  const sections = [
+    posting.descriptionPlain?.trim() || htmlToText(posting.description || ""),
+    ...(posting.lists || []).map(
+      (list) => `${list.text}\n${htmlToText(list.content)}`
+    ),
+    posting.additionalPlain?.trim() || htmlToText(posting.additional || ""),
+  ].filter(Boolean);
+
+  const description = sections.join("\n\n");
+  const structuredRequirements = extractJobRequirements(description, listedRequirements);
+
+  const department = [posting.categories.department, posting.categories.team]
+    .filter(Boolean)
+    .join(" / ");
+
+  return {
+    id: uuidv4(),
+    title: posting.text.trim(),
+    company: companyName,
+    location: formatLeverLocation(posting),
+    salary: formatLeverSalary(posting),
+    salaryRange:
+      posting.salaryRange && SALARY_PERIODS[posting.salaryRange.interval]
+        ? {
+            min: posting.salaryRange.min || undefined,
+            max: posting.salaryRange.max || undefined,
+            currency: posting.salaryRange.currency,
+            period: SALARY_PERIODS[posting.salaryRange.interval],
+            source: "posted",
+          }
+        : parseSalary(posting.salaryDescriptionPlain),
+    description,
+    requirements: flattenRequirements(structuredRequirements),
+    structuredRequirements,
+    url: posting.hostedUrl,
+    source: "lever",
+    department: department || undefined,
+    discoveredAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Lever Postings Search Tool
+ *
+ * Fetches structured postings from a single company's Lever job site.
+ */
+export const searchLeverJobs = {
+  description:
+    "Search a company's public Lever job postings. Use this when a company hosts its careers page on Lever (URLs like jobs.lever.co/{companySlug}). Much faster and more accurate than scraping. Results are displayed temporarily and must be explicitly saved by the user.",
+
+  inputSchema: z.object({
+    companySlug: z
+      .string()
+      .describe(
+        "Lever company slug from the job site URL (e.g., 'netflix' for jobs.lever.co/netflix)"
+      ),
+    companyName: z
+      .string()
+      .optional()
+      .describe("Display name of the company (e.g., 'Netflix'). Defaults to the slug."),
+    query: z
+      .string()
+      .optional()
+      .describe(
+        "Optional keywords to filter by job title or department (e.g., 'engineer', 'product'). Leave empty for all jobs."
+      ),
+    location: z
+      .string()
+      .optional()
+      .describe("Optional location filter (e.g., 'Remote', 'New York'). Leave empty for all locations."),
+    resultsCount: z
+      .number()
+      .min(1)
+      .max(50)
+      .default(20)
+      .describe("Number of results to return (max 50, default 20)"),
+  }),
+
+  execute: async ({
+    companySlug,
+    companyName,
+    query,
+    location,
+    resultsCount = 20,
+  }: {
+    companySlug: string;
+    companyName?: string;
+    query?: string;
+    location?: string;
+    resultsCount?: number;
+  }) => {
+    console.log(`🔍 Lever Tool called for company: "${companySlug}"`);
+
+    try {
+      const url = `https://api.lever.co/v0/postings/${encodeURIComponent(companySlug)}?mode=json`;
+
+      console.log(`📡 Fetching from Lever Postings API...`);
+
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        console.error(`❌ Lever API error: ${response.status} ${response.statusText}`);
+        return {
+          action: "error",
+          error:
+            response.status === 404
+              ? `No Lever job site found for "${companySlug}"`
+              : `Lever API returned error: ${response.status} ${response.statusText}`,
+          jobs: [],
+        };
+      }
+
+      const postings: LeverPosting[] = await response.json();
+      const displayName = companyName || companySlug;
+
+      console.log(`✅ Lever returned ${postings.length} postings`);
+
+      const jobs: Job[] = filterAtsJobs(
+        postings.map((posting) => mapLeverPostingToJob(posting, displayName)),
+        query,
+        location
+      ).slice(0, resultsCount);
+
+      return {
+        action: "display",
+        jobs,
+        count: jobs.length,
+        query: query || "all jobs",
+        location: location || "all locations",
+        message: `Found ${jobs.length} jobs on the ${displayName} Lever site${query ? ` matching "${query}"` : ""}${location ? ` in ${location}` : ""}`,
+      };
+    } catch (error) {
+      console.error("💥 Lever tool error:", error);
+
+      return {
+        action: "error",
+        error:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred while searching Lever",
+        jobs: [],
+      };
+    }
+  },
+};
+
+/**
+ * Fetches the current version of a saved Lever posting
+ *
+ * @returns The posting mapped to a Job, or null if the URL is not a Lever
+ *          posting (jobs.lever.co/{companySlug}/{id}) or the posting is gone
+ */
+export async function fetchLeverPosting(job: Job): Promise<Job | null> {
+  const match = job.url.match(/jobs\.(eu\.)?lever\.co\/([^/?#]+)\/([0-9a-f-]{36})/i);
+  if (!match) {
+    return null;
+  }
+
+  const [, euRegion, companySlug, postingId] = match;
+  const response = await fetch(
+    `https://api.${euRegion || ""}lever.co/v0/postings/${encodeURIComponent(companySlug)}/${postingId}`
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Lever API returned error: ${response.status} ${response.statusText}`);
+  }
+
+  const posting: LeverPosting = await response.json();
+  return mapLeverPostingToJob(posting, job.company);
+}
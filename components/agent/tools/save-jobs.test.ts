@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "@/types/job";
+import { saveJobsToProfile } from "./save-jobs";
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: crypto.randomUUID(),
+    title: "Backend Engineer",
+    company: "Acme",
+    location: "Remote",
+    description: "",
+    requirements: [],
+    url: "https://boards.greenhouse.io/acme/jobs/1",
+    source: "greenhouse",
+    discoveredAt: "2026-10-19T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function stubSaveApi(body: Record<string, unknown>) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify({ success: true, ...body }), { status: 200 }))
+  );
+}
+
+describe("saveJobsToProfile", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("counts jobs moved out of the inbox as new saves", async () => {
+    const jobs = [makeJob(), makeJob({ title: "Data Engineer" })];
+    stubSaveApi({ jobs, insertedCount: 0, movedFromInboxCount: 2, alreadySaved: [], alreadySavedCount: 0 });
+
+    const result = await saveJobsToProfile.execute({ jobs, criteria: "top 2" });
+
+    expect(result.count).toBe(2);
+    expect(result.movedFromInboxCount).toBe(2);
+    expect(result.alreadySavedCount).toBe(0);
+    expect(result.message).toBe("Saved 2 jobs (top 2) to your profile.");
+  });
+
+  it("reports jobs merged into saved ones as already saved", async () => {
+    const saved = makeJob({ applicationStatus: "saved" });
+    const fresh = makeJob({ title: "Data Engineer" });
+    stubSaveApi({
+      jobs: [fresh, saved],
+      insertedCount: 1,
+      movedFromInboxCount: 0,
+      alreadySaved: [saved],
+      alreadySavedCount: 1,
+    });
+
+    const result = await saveJobsToProfile.execute({ jobs: [fresh, saved] });
+
+    expect(result.count).toBe(1);
+    expect(result.alreadySavedCount).toBe(1);
+    expect(result.message).toBe(
+      "Saved 1 job to your profile. 1 was already saved: Backend Engineer at Acme."
+    );
+  });
+});
@@ -7,6 +7,8 @@
 
 import { z } from "zod";
 import type { Job } from "@/types/job";
+import { jobSourceSchema } from "../sources";
+import { salaryRangeSchema } from "@/lib/jobs/salary";
 
 /**
  * Save Jobs to Profile Tool
@@ -16,7 +18,7 @@ import type { Job } from "@/types/job";
  */
 export const saveJobsToProfile = {
   description:
-    "Save selected jobs to the user's profile in the database. Use this ONLY when the user explicitly requests to save jobs (e.g., 'save the top 5', 'save jobs 2, 5, and 12', 'save all remote ones'). NEVER auto-save jobs without user request. Jobs must be marked with applicationStatus: 'saved'.",
+    "Save selected jobs to the user's profile in the database. Use this ONLY when the user explicitly requests to save jobs (e.g., 'save the top 5', 'save jobs 2, 5, and 12', 'save all remote ones'). NEVER auto-save jobs without user request. Jobs must be marked with applicationStatus: 'saved'. Jobs that match a posting the user already saved (same company, title and location, or same URL) are merged into the existing entry and reported back as already saved. Jobs the user had only in their inbox are moved to saved and count as new saves.",
 
   inputSchema: z.object({
     jobs: z
@@ -27,10 +29,14 @@ export const saveJobsToProfile = {
           company: z.string(),
           location: z.string(),
           salary: z.string().optional(),
+          salaryRange: salaryRangeSchema
+            .optional()
+            .describe("Parsed salary range, passed through unchanged from the search results"),
           description: z.string(),
           requirements: z.array(z.string()),
           url: z.string(),
-          source: z.enum(["firecrawl", "adzuna", "manual"]),
+          department: z.string().optional(),
+          source: jobSourceSchema,
           discoveredAt: z.string(),
         })
       )
@@ -91,15 +97,35 @@ export const saveJobsToProfile = {
 
       const result = await response.json();
       const persistedJobs: Job[] = result.jobs || jobsToSave;
-      console.log(`✅ Successfully saved ${persistedJobs.length} jobs to database`);
+      const alreadySaved: Job[] = result.alreadySaved || [];
+      // Jobs moved out of the inbox are new saves too, so only merges into saved jobs are excluded
+      const newCount = persistedJobs.length - alreadySaved.length;
+      const movedFromInboxCount: number = result.movedFromInboxCount || 0;
+      console.log(
+        `✅ Successfully saved ${newCount} new job(s) to database (${movedFromInboxCount} from the inbox, ${alreadySaved.length} already saved)`
+      );
+
+      const alreadySavedNote =
+        alreadySaved.length > 0
+          ? ` ${alreadySaved.length} ${alreadySaved.length === 1 ? "was" : "were"} already saved: ${alreadySaved
+              .map((job) => `${job.title} at ${job.company}`)
+              .join("; ")}.`
+          : "";
 
       return {
         action: "saved",
         savedJobs: persistedJobs,
         savedIds: persistedJobs.map((job) => job.id),
-        count: persistedJobs.length,
+        count: newCount,
+        movedFromInboxCount,
+        alreadySaved: alreadySaved.map((job) => ({
+          id: job.id,
+          title: job.title,
+          company: job.company,
+        })),
+        alreadySavedCount: alreadySaved.length,
         criteria: criteria || "selected jobs",
-        message: `Saved ${persistedJobs.length} job${persistedJobs.length === 1 ? "" : "s"}${criteria ? ` (${criteria})` : ""} to your profile`,
+        message: `Saved ${newCount} job${newCount === 1 ? "" : "s"}${criteria ? ` (${criteria})` : ""} to your profile.${alreadySavedNote}`,
       };
     } catch (error) {
       console.error('💥 Save Jobs Tool error:', error);
@@ -7,7 +7,12 @@
 
 import { z } from "zod";
 import { updateJobsWithScores } from "@/lib/supabase/queries";
+import { normalizeAgentScore } from "@/lib/jobs/scoring";
+import { applyDealBreakerCap } from "@/lib/jobs/deal-breakers";
+import { applyTargetCompanyBoost } from "@/lib/jobs/company-lists";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import type { DealBreakerViolation, ScoringRun } from "@/types/job";
+import { DEFAULT_SCORING_WEIGHTS } from "@/types/profile";
 
 /**
  * Score Jobs Tool
@@ -18,7 +23,7 @@ import type { SupabaseClient } from "@supabase/supabase-js";
  */
 export const scoreJobsTool = {
   description:
-    "Return scored jobs with detailed fit analysis. Use this to provide job scores with breakdowns by category (salary, location, company, role, requirements), reasoning for the score, identified gaps, and priority level. Only score saved jobs - reject requests to score unsaved/temporary jobs.",
+    "Return scored jobs with detailed fit analysis. Use this to provide job scores with breakdowns by scoring category (salary, location, company, role, requirements and any custom categories), reasoning for the score, identified gaps, and priority level. Only score saved jobs - reject requests to score unsaved/temporary jobs.",
 
   inputSchema: z.object({
     scoredJobs: z
@@ -31,24 +36,10 @@ export const scoreJobsTool = {
             .max(100)
             .describe("Overall fit score (0-100)"),
           scoreBreakdown: z
-            .object({
-              salaryMatch: z
-                .number()
-                .describe("Points for salary match (out of user's weight)"),
-              locationFit: z
-                .number()
-                .describe("Points for location fit (out of user's weight)"),
-              companyAppeal: z
-                .number()
-                .describe("Points for company appeal (out of user's weight)"),
-              roleMatch: z
-                .number()
-                .describe("Points for role match (out of user's weight)"),
-              requirementsFit: z
-                .number()
-                .describe("Points for requirements fit (out of user's weight)"),
-            })
-            .describe("Breakdown of score by category"),
+            .record(z.string(), z.number())
+            .describe(
+              "Points per scoring category id (out of the user's weight for that category). Include every category from SCORING CATEGORIES, built-in (salaryMatch, locationFit, companyAppeal, roleMatch, requirementsFit) and custom."
+            ),
           reasoning: z
             .string()
             .describe(
@@ -72,7 +63,15 @@ export const scoreJobsTool = {
 
   execute: async (
     { scoredJobs }: { scoredJobs: any[] },
-    context?: { supabase?: SupabaseClient; userId?: string }
+    context?: {
+      supabase?: SupabaseClient;
+      userId?: string;
+      run?: ScoringRun;
+      /** Deal-breaker violations per job ID, evaluated in code before scoring */
+      dealBreakerViolations?: Record<string, DealBreakerViolation[]>;
+      /** IDs of jobs at companies on the user's allowlist */
+      targetCompanyJobIds?: string[];
+    }
   ) => {
     console.log(`🎯 Score Jobs Tool called for ${scoredJobs.length} job(s)`);
 
@@ -82,20 +81,42 @@ export const scoreJobsTool = {
       throw new Error('Supabase client and userId required');
     }
 
+    // Breakdowns are stored as 0-1 ratings so they can be re-weighted later
+    const run: ScoringRun = context.run ?? { method: "agent" };
+    const weights = { ...DEFAULT_SCORING_WEIGHTS, ...run.scoringWeights };
+
+    // Target companies get full Company Appeal, and jobs violating deal breakers
+    // are capped at low priority whatever the agent scored
+    const normalizedJobs = scoredJobs.map((job: any) =>
+      applyDealBreakerCap(
+        applyTargetCompanyBoost(
+          {
+            ...job,
+            ...normalizeAgentScore(job.score, job.scoreBreakdown, weights),
+            ...(context.dealBreakerViolations
+              ? { dealBreakerViolations: context.dealBreakerViolations[job.id] ?? [] }
+              : {}),
+            targetCompany: context.targetCompanyJobIds?.includes(job.id),
+          },
+          weights
+        )
+      )
+    );
+
     // Log score summary
-    scoredJobs.forEach((job: any) => {
+    normalizedJobs.forEach((job: any) => {
       console.log(`   Job ID ${job.id}: ${job.score}/100 (${job.priority} priority)`);
     });
 
     // Calculate average score
     const avgScore =
-      scoredJobs.reduce((sum: number, job: any) => sum + job.score, 0) / scoredJobs.length;
+      normalizedJobs.reduce((sum: number, job: any) => sum + job.score, 0) / normalizedJobs.length;
 
     // Count by priority
     const priorityCounts = {
-      high: scoredJobs.filter((j: any) => j.priority === "high").length,
-      medium: scoredJobs.filter((j: any) => j.priority === "medium").length,
-      low: scoredJobs.filter((j: any) => j.priority === "low").length,
+      high: normalizedJobs.filter((j: any) => j.priority === "high").length,
+      medium: normalizedJobs.filter((j: any) => j.priority === "medium").length,
+      low: normalizedJobs.filter((j: any) => j.priority === "low").length,
     };
 
     console.log(`✅ Scoring complete. Average: ${avgScore.toFixed(1)}/100`);
@@ -108,7 +129,8 @@ export const scoreJobsTool = {
       const success = await updateJobsWithScores(
         context.supabase,
         context.userId,
-        scoredJobs
+        normalizedJobs,
+        run
       );
 
       if (!success) {
@@ -120,7 +142,13 @@ export const scoreJobsTool = {
 
       return {
         action: "scored",
-        scoredJobs,
+        // Breakdowns stay in points for the agent; scores reflect deal-breaker caps
+        scoredJobs: scoredJobs.map((job: any, index: number) => ({
+          ...job,
+          score: normalizedJobs[index].score,
+          priority: normalizedJobs[index].priority,
+          gaps: normalizedJobs[index].gaps,
+        })),
         count: scoredJobs.length,
         averageScore: Math.round(avgScore),
         priorityCounts,
@@ -0,0 +1,579 @@
+"use client";
+
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useChat } from "@ai-sdk/react";
+import { DefaultChatTransport } from "ai";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Download, Mail, Sparkles, CheckCircle, AlertCircle } from "lucide-react";
+import {
+  COVER_LETTER_LENGTHS,
+  COVER_LETTER_TONES,
+  DEFAULT_COVER_LETTER_LENGTH,
+  DEFAULT_COVER_LETTER_TONE,
+} from "@/lib/jobs/cover-letters";
+import type { CoverLetter, CoverLetterLength, CoverLetterTone, Job } from "@/types/job";
+import type { Resume } from "@/types/resume";
+
+interface GenerateCoverLetterDialogProps {
+  job: Job | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * GenerateCoverLetterDialog Component
+ *
+ * Writes a cover letter for a job with the Cover Letter Agent from a master
+ * resume, in the chosen tone and length, and saves it on the job. Opens on
+ * the saved letter when the job already has one.
+ */
+export function GenerateCoverLetterDialog({
+  job,
+  open,
+  onOpenChange,
+}: GenerateCoverLetterDialogProps) {
+  const [resumes, setResumes] = useState<Resume[]>([]);
+  const [resumeCache, setResumeCache] = useState<Record<string, Resume>>({});
+  const [isLoadingResumes, setIsLoadingResumes] = useState(false);
+  const [resumeError, setResumeError] = useState<string | null>(null);
+  const [selectedResumeId, setSelectedResumeId] = useState<string>("");
+  const [tone, setTone] = useState<CoverLetterTone>(DEFAULT_COVER_LETTER_TONE);
+  const [length, setLength] = useState<CoverLetterLength>(DEFAULT_COVER_LETTER_LENGTH);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [coverLetter, setCoverLetter] = useState<CoverLetter | null>(null);
+  const [copySuccess, setCopySuccess] = useState(false);
+
+  // Use refs to store current values for the transport (avoid stale closure)
+  const selectedResumeIdRef = useRef<string>("");
+  const toneRef = useRef<CoverLetterTone>(DEFAULT_COVER_LETTER_TONE);
+  const lengthRef = useRef<CoverLetterLength>(DEFAULT_COVER_LETTER_LENGTH);
+  const jobIdRef = useRef<string | undefined>(undefined);
+  const jobRef = useRef<Job | null>(null);
+  const resumeCacheRef = useRef<Record<string, Resume>>({});
+  const processedToolCallsRef = useRef<Set<string>>(new Set());
+
+  // Update refs when values change
+  useEffect(() => {
+    selectedResumeIdRef.current = selectedResumeId;
+  }, [selectedResumeId]);
+
+  useEffect(() => {
+    toneRef.current = tone;
+    lengthRef.current = length;
+  }, [tone, length]);
+
+  useEffect(() => {
+    jobIdRef.current = job?.id;
+    jobRef.current = job || null;
+  }, [job?.id, job]);
+
+  useEffect(() => {
+    resumeCacheRef.current = resumeCache;
+  }, [resumeCache]);
+
+  const loadResumes = useCallback(async () => {
+    setIsLoadingResumes(true);
+    setResumeError(null);
+
+    try {
+      const response = await fetch("/api/resumes", {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          setResumes([]);
+          setResumeError("Please sign in to access your resumes.");
+          return;
+        }
+        throw new Error("Failed to load resumes");
+      }
+
+      const data = await response.json();
+      setResumes((data.resumes || []) as Resume[]);
+    } catch (error) {
+      console.error("Error loading resumes:", error);
+      setResumes([]);
+      setResumeError(
+        error instanceof Error
+          ? error.message
+          : "An unexpected error occurred while loading resumes."
+      );
+    } finally {
+      setIsLoadingResumes(false);
+    }
+  }, []);
+
+  const loadResumeContent = useCallback(
+    async (resumeId: string): Promise<Resume | null> => {
+      if (resumeCacheRef.current[resumeId]?.content) {
+        return resumeCacheRef.current[resumeId];
+      }
+
+      const resumeMeta = resumes.find((resume) => resume.id === resumeId);
+
+      if (!resumeMeta) {
+        console.warn(`Resume metadata not found for id ${resumeId}`);
+        return null;
+      }
+
+      try {
+        const response = await fetch(`/api/resumes/${resumeId}`, {
+          credentials: "include",
+        });
+
+        if (!response.ok) {
+          throw new Error("Failed to load resume content");
+        }
+
+        const data = await response.json();
+        const resumeWithContent: Resume = {
+          ...resumeMeta,
+          content: data.content || "",
+        };
+
+        setResumeCache((prev) => ({
+          ...prev,
+          [resumeId]: resumeWithContent,
+        }));
+
+        return resumeWithContent;
+      } catch (error) {
+        console.error("Error loading resume content:", error);
+        setResumeError(
+          error instanceof Error
+            ? error.message
+            : "Failed to load resume content. Please try again."
+        );
+        return null;
+      }
+    },
+    [resumes]
+  );
+
+  // Load resumes when dialog opens, starting from the saved letter if any
+  useEffect(() => {
+    if (open) {
+      loadResumes();
+      setSelectedResumeId("");
+      setCoverLetter(jobRef.current?.coverLetter ?? null);
+      setTone(jobRef.current?.coverLetter?.tone ?? DEFAULT_COVER_LETTER_TONE);
+      setLength(jobRef.current?.coverLetter?.length ?? DEFAULT_COVER_LETTER_LENGTH);
+      setCopySuccess(false);
+      setResumeCache({});
+      setResumeError(null);
+      processedToolCallsRef.current.clear();
+    }
+  }, [open, loadResumes]);
+
+  const handleResumeSelect = (value: string) => {
+    setSelectedResumeId(value);
+    setResumeError(null);
+    void loadResumeContent(value);
+  };
+
+  // Setup useChat for Cover Letter Agent with custom transport
+  const { messages, sendMessage, setMessages } = useChat({
+    transport: new DefaultChatTransport({
+      api: "/api/cover-letter",
+      fetch: async (input: RequestInfo | URL, init?: RequestInit) => {
+        // Get current values from refs (not closure)
+        const currentJobId = jobIdRef.current;
+        const currentResumeId = selectedResumeIdRef.current;
+
+        const resumeObject = currentResumeId
+          ? resumeCacheRef.current[currentResumeId]
+          : null;
+
+        if (!resumeObject) {
+          throw new Error("Selected resume content is not available.");
+        }
+
+        // Parse existing body and inject job data and letter options
+        const body = JSON.parse((init?.body as string) || "{}");
+        const enhancedBody = {
+          ...body,
+          jobId: currentJobId,
+          masterResumeId: currentResumeId,
+          job: currentJobId ? jobRef.current : null,
+          masterResume: resumeObject,
+          tone: toneRef.current,
+          length: lengthRef.current,
+        };
+
+        return fetch(input, {
+          ...init,
+          body: JSON.stringify(enhancedBody),
+        });
+      },
+    }),
+  });
+
+  // Watch for tool results (generated cover letter)
+  useEffect(() => {
+    if (messages.length === 0) return;
+
+    const lastMessage = messages[messages.length - 1];
+    if (lastMessage.role !== "assistant") return;
+
+    const parts = (lastMessage as any).parts || [];
+
+    parts.forEach((part: any, partIndex: number) => {
+      const toolOutput = part.result || part.output;
+      const toolCallId =
+        part?.toolCallId ||
+        part?.id ||
+        `${lastMessage.id ?? "message"}-${part.type ?? "tool"}-${partIndex}`;
+
+      if (processedToolCallsRef.current.has(toolCallId)) {
+        return;
+      }
+
+      if (toolOutput?.action === "generated" && toolOutput.coverLetter) {
+        processedToolCallsRef.current.add(toolCallId);
+
+        const letter = toolOutput.coverLetter as CoverLetter;
+        setCoverLetter(letter);
+        setIsGenerating(false);
+
+        // Save cover letter to job in Supabase
+        if (job?.id) {
+          fetch(`/api/jobs/${job.id}`, {
+            method: "PATCH",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            credentials: "include",
+            body: JSON.stringify({ coverLetter: letter }),
+          }).catch((error) => {
+            console.error("Failed to save cover letter to Supabase:", error);
+          });
+        }
+      }
+    });
+  }, [messages, job?.id]);
+
+  const handleGenerate = async () => {
+    if (!selectedResumeId || !job?.id) {
+      return;
+    }
+
+    setIsGenerating(true);
+    setMessages([]); // Clear previous conversation
+
+    const resumeWithContent = await loadResumeContent(selectedResumeId);
+
+    if (!resumeWithContent || !resumeWithContent.content) {
+      setIsGenerating(false);
+      return;
+    }
+
+    // Send message to trigger cover letter generation
+    sendMessage({
+      text: `Write a ${length} cover letter in a ${tone} tone for this job using the selected master resume.`,
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!coverLetter?.content) return;
+
+    try {
+      await navigator.clipboard.writeText(coverLetter.content);
+      setCopySuccess(true);
+      setTimeout(() => setCopySuccess(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy:", err);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!coverLetter?.content) return;
+
+    const blob = new Blob([coverLetter.content], {
+      type: "text/markdown",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${job?.company}_${job?.title}_Cover_Letter.md`.replace(/[^a-zA-Z0-9_-]/g, "_");
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRegenerate = () => {
+    setCoverLetter(null);
+    setIsGenerating(false);
+  };
+
+  if (!job) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        {!coverLetter ? (
+          <>
+            {/* Selection Phase */}
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Mail className="w-5 h-5 text-blue-600" />
+                Write Cover Letter
+              </DialogTitle>
+              <DialogDescription>
+                Write a cover letter for {job.title} at {job.company} from one of your resumes
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex-1 overflow-y-auto space-y-6 py-4">
+              {/* Closed posting warning */}
+              {job.closedAt && (
+                <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <p>
+                    This posting looks closed ({job.closedReason || "found closed"} on{" "}
+                    {new Date(job.closedAt).toLocaleDateString()}). Check it is still open before
+                    writing a cover letter.
+                  </p>
+                </div>
+              )}
+
+              {/* Resume Selection */}
+              <div className="space-y-3">
+                <Label htmlFor="cover-letter-resume-select">
+                  Select Master Resume <span className="text-red-500">*</span>
+                </Label>
+                {resumeError ? (
+                  <div className="p-6 border border-red-200 rounded-lg bg-red-50 text-center text-sm text-red-700 flex flex-col items-center gap-2">
+                    <AlertCircle className="w-5 h-5" />
+                    <p>{resumeError}</p>
+                  </div>
+                ) : isLoadingResumes ? (
+                  <div className="p-6 border border-gray-200 rounded-lg text-center text-sm text-gray-600">
+                    Loading resumes...
+                  </div>
+                ) : resumes.length === 0 ? (
+                  <div className="p-6 border-2 border-dashed border-gray-300 rounded-lg text-center">
+                    <AlertCircle className="w-10 h-10 text-gray-400 mx-auto mb-2" />
+                    <p className="text-gray-600 mb-2">No resumes in your library</p>
+                    <p className="text-sm text-gray-500">
+                      Upload a resume first to write cover letters from it
+                    </p>
+                  </div>
+                ) : (
+                  <Select value={selectedResumeId} onValueChange={handleResumeSelect}>
+                    <SelectTrigger id="cover-letter-resume-select">
+                      <SelectValue placeholder="Choose a resume to draw on" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {resumes.map((resume) => (
+                        <SelectItem key={resume.id} value={resume.id}>
+                          📄 {resume.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <p className="text-xs text-gray-500">
+                  The letter only uses experience from this resume
+                </p>
+              </div>
+
+              {/* Tone and Length */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="cover-letter-tone">Tone</Label>
+                  <Select value={tone} onValueChange={(value) => setTone(value as CoverLetterTone)}>
+                    <SelectTrigger id="cover-letter-tone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(COVER_LETTER_TONES) as CoverLetterTone[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {COVER_LETTER_TONES[value].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500">{COVER_LETTER_TONES[tone].guidance}</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="cover-letter-length">Length</Label>
+                  <Select value={length} onValueChange={(value) => setLength(value as CoverLetterLength)}>
+                    <SelectTrigger id="cover-letter-length">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(COVER_LETTER_LENGTHS) as CoverLetterLength[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {COVER_LETTER_LENGTHS[value].label} ({COVER_LETTER_LENGTHS[value].minWords}-
+                          {COVER_LETTER_LENGTHS[value].maxWords} words)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isGenerating}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleGenerate}
+                disabled={
+                  !selectedResumeId ||
+                  isGenerating ||
+                  resumes.length === 0 ||
+                  Boolean(resumeError)
+                }
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+              >
+                {isGenerating ? (
+                  <>
+                    <Sparkles className="w-4 h-4 mr-2 animate-spin" />
+                    Writing...
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    Write Cover Letter
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            {/* Cover Letter Display */}
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <CheckCircle className="w-5 h-5 text-green-600" />
+                Cover Letter
+              </DialogTitle>
+              <DialogDescription>
+                Based on {coverLetter.masterResumeName} for {job.title} at {job.company} ·{" "}
+                {new Date(coverLetter.generatedAt).toLocaleDateString()}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="flex-1 overflow-y-auto space-y-6 py-4">
+              <div className="flex gap-2">
+                <Badge variant="outline">{COVER_LETTER_TONES[coverLetter.tone]?.label ?? coverLetter.tone}</Badge>
+                <Badge variant="outline">{COVER_LETTER_LENGTHS[coverLetter.length]?.label ?? coverLetter.length}</Badge>
+              </div>
+
+              {/* Letter Content */}
+              <div className="border border-gray-200 rounded-lg">
+                <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 flex items-center justify-between">
+                  <h3 className="font-semibold text-gray-900">Letter</h3>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={handleCopy} className="text-xs">
+                      {copySuccess ? (
+                        <>
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Copied!
+                        </>
+                      ) : (
+                        <>
+                          <Copy className="w-3 h-3 mr-1" />
+                          Copy
+                        </>
+                      )}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={handleDownload} className="text-xs">
+                      <Download className="w-3 h-3 mr-1" />
+                      Download
+                    </Button>
+                  </div>
+                </div>
+                <div className="p-6 max-h-96 overflow-y-auto">
+                  <pre className="text-sm text-gray-700 whitespace-pre-wrap font-sans leading-relaxed">
+                    {coverLetter.content}
+                  </pre>
+                </div>
+              </div>
+
+              {/* Addressed Requirements and Gaps */}
+              {(coverLetter.addressedRequirements.length > 0 || coverLetter.remainingGaps.length > 0) && (
+                <div className="bg-blue-50 border-l-4 border-blue-500 p-4 rounded-lg">
+                  {coverLetter.addressedRequirements.length > 0 && (
+                    <div className="mb-3">
+                      <p className="text-sm font-medium text-gray-700 mb-1">
+                        ✅ Addressed Requirements:
+                      </p>
+                      <ul className="text-sm text-gray-600 space-y-1">
+                        {coverLetter.addressedRequirements.map((req, i) => (
+                          <li key={i}>• {req}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  {coverLetter.remainingGaps.length > 0 && (
+                    <div>
+                      <p className="text-sm font-medium text-gray-700 mb-1">
+                        ⚠️ Left Out (no matching experience):
+                      </p>
+                      <ul className="text-sm text-gray-600 space-y-1">
+                        {coverLetter.remainingGaps.map((gap, i) => (
+                          <li key={i}>• {gap}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Company Research */}
+              {coverLetter.companyResearch.length > 0 && (
+                <div className="bg-green-50 border-l-4 border-green-500 p-4 rounded-lg">
+                  <h3 className="font-semibold text-gray-900 mb-2">🔎 Company Facts Used</h3>
+                  <ul className="space-y-2">
+                    {coverLetter.companyResearch.map((fact, i) => (
+                      <li key={i} className="text-sm text-gray-700">
+                        • {fact}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button variant="outline" onClick={handleRegenerate}>
+                <Sparkles className="w-4 h-4 mr-2" />
+                Write Another
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,8 +21,10 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Download, Sparkles, CheckCircle, AlertCircle } from "lucide-react";
-import type { Job } from "@/types/job";
+import { Copy, Sparkles, CheckCircle, AlertCircle, ShieldAlert } from "lucide-react";
+import { ResumeExportMenu } from "./ResumeExportMenu";
+import { RESUME_CLAIM_TYPE_LABELS } from "@/lib/jobs/fabrication-guard";
+import type { Job, ResumeVerification } from "@/types/job";
 import type { Resume } from "@/types/resume";
 
 interface GenerateResumeDialogProps {
@@ -44,6 +46,7 @@ export function GenerateResumeDialog({
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedResume, setGeneratedResume] = useState<any>(null);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [saveState, setSaveState] = useState<"saved" | "needs_review" | "error" | null>(null);
 
   // Use refs to store current values for the transport (avoid stale closure)
   const selectedResumeIdRef = useRef<string>("");
@@ -162,6 +165,7 @@ export function GenerateResumeDialog({
       setSelectedResumeId("");
       setGeneratedResume(null);
       setCopySuccess(false);
+      setSaveState(null);
       setResumeCache({});
       setResumeError(null);
       processedToolCallsRef.current.clear();
@@ -210,6 +214,44 @@ export function GenerateResumeDialog({
     }),
   });
 
+  // Save resume to job in Supabase
+  const saveResume = useCallback(
+    async (toolOutput: any) => {
+      if (!job?.id) return;
+
+      const resumeData: Job["tailoredResume"] = {
+        content: toolOutput.tailoredResume.content,
+        masterResumeName: toolOutput.tailoredResume.masterResumeName,
+        generatedAt: toolOutput.tailoredResume.generatedAt,
+        changes: toolOutput.changes || [],
+        matchAnalysis:
+          toolOutput.matchAnalysis || {
+            alignmentScore: 0,
+            addressedRequirements: [],
+            remainingGaps: [],
+            recommendations: [],
+          },
+        verification: toolOutput.verification,
+      };
+
+      try {
+        const response = await fetch(`/api/jobs/${job.id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({ tailoredResume: resumeData }),
+        });
+        setSaveState(response.ok ? "saved" : "error");
+      } catch (error) {
+        console.error("Failed to save tailored resume to Supabase:", error);
+        setSaveState("error");
+      }
+    },
+    [job?.id]
+  );
+
   // Watch for tool results (generated resume)
   useEffect(() => {
     if (messages.length === 0) return;
@@ -236,36 +278,16 @@ export function GenerateResumeDialog({
         setGeneratedResume(toolOutput);
         setIsGenerating(false);
 
-        // Save resume to job in Supabase
-        if (job?.id) {
-          const resumeData: Job["tailoredResume"] = {
-            content: toolOutput.tailoredResume.content,
-            masterResumeName: toolOutput.tailoredResume.masterResumeName,
-            generatedAt: toolOutput.tailoredResume.generatedAt,
-            changes: toolOutput.changes || [],
-            matchAnalysis:
-              toolOutput.matchAnalysis || {
-                alignmentScore: 0,
-                addressedRequirements: [],
-                remainingGaps: [],
-                recommendations: [],
-              },
-          };
-
-          fetch(`/api/jobs/${job.id}`, {
-            method: "PATCH",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            credentials: "include",
-            body: JSON.stringify({ tailoredResume: resumeData }),
-          }).catch((error) => {
-            console.error("Failed to save tailored resume to Supabase:", error);
-          });
+        // Claims missing from the master resume are reviewed before saving
+        const verification = toolOutput.verification as ResumeVerification | undefined;
+        if (verification && verification.unverifiedClaims.length > 0) {
+          setSaveState("needs_review");
+        } else {
+          void saveResume(toolOutput);
         }
       }
     });
-  }, [messages, job?.id]);
+  }, [messages, saveResume]);
 
   const handleGenerate = async () => {
     if (!selectedResumeId || !job?.id) {
@@ -274,6 +296,7 @@ export function GenerateResumeDialog({
 
     setIsGenerating(true);
     setGeneratedResume(null);
+    setSaveState(null);
     setMessages([]); // Clear previous conversation
 
     const resumeWithContent = await loadResumeContent(selectedResumeId);
@@ -362,6 +385,18 @@ export function GenerateResumeDialog({
                 </div>
               </div>
 
+              {/* Closed posting warning */}
+              {job.closedAt && (
+                <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <p>
+                    This posting looks closed ({job.closedReason || "found closed"} on{" "}
+                    {new Date(job.closedAt).toLocaleDateString()}). Check it is still open before
+                    tailoring a resume.
+                  </p>
+                </div>
+              )}
+
               {/* Resume Selection */}
               <div className="space-y-3">
                 <Label htmlFor="resume-select">
@@ -454,6 +489,57 @@ export function GenerateResumeDialog({
             </DialogHeader>
 
             <div className="flex-1 overflow-y-auto space-y-6 py-4">
+              {/* Fabrication Guard */}
+              {generatedResume.verification?.unverifiedClaims?.length > 0 && (
+                <div className="bg-amber-50 border-l-4 border-amber-500 p-4 rounded-lg">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div>
+                      <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                        <ShieldAlert className="w-4 h-4 text-amber-600" />
+                        {generatedResume.verification.unverifiedClaims.length} claim
+                        {generatedResume.verification.unverifiedClaims.length === 1 ? "" : "s"} not found in{" "}
+                        {generatedResume.tailoredResume.masterResumeName}
+                      </h3>
+                      <p className="text-sm text-gray-600 mt-1">
+                        Check these against your experience before using this resume. Reworded facts
+                        can show up here too.
+                      </p>
+                    </div>
+                    {saveState === "needs_review" && (
+                      <Button size="sm" variant="outline" onClick={() => saveResume(generatedResume)}>
+                        Save anyway
+                      </Button>
+                    )}
+                  </div>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    {generatedResume.verification.unverifiedClaims.map(
+                      (claim: ResumeVerification["unverifiedClaims"][number], i: number) => (
+                        <li key={i}>
+                          <span className="font-medium">{RESUME_CLAIM_TYPE_LABELS[claim.type]}:</span>{" "}
+                          {claim.claim}
+                          {claim.line !== claim.claim && (
+                            <span className="block text-xs text-gray-500">in &ldquo;{claim.line}&rdquo;</span>
+                          )}
+                        </li>
+                      )
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              {saveState === "saved" && (
+                <p className="text-sm text-green-700 flex items-center gap-1">
+                  <CheckCircle className="w-4 h-4" />
+                  Saved to this job
+                </p>
+              )}
+              {saveState === "error" && (
+                <p className="text-sm text-red-600 flex items-center gap-1">
+                  <AlertCircle className="w-4 h-4" />
+                  Could not save the resume to this job. Please try again.
+                </p>
+              )}
+
               {/* Match Analysis */}
               {generatedResume.matchAnalysis && (
                 <div className="bg-blue-50 border-l-4 border-blue-500 p-4 rounded-lg">
@@ -536,15 +622,11 @@ export function GenerateResumeDialog({
                         </>
                       )}
                     </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={handleDownload}
-                      className="text-xs"
-                    >
-                      <Download className="w-3 h-3 mr-1" />
-                      Download
-                    </Button>
+                    <ResumeExportMenu
+                      jobId={job.id}
+                      onDownloadMarkdown={handleDownload}
+                      canExport={saveState === "saved"}
+                    />
                   </div>
                 </div>
                 <div className="p-6 max-h-96 overflow-y-auto">
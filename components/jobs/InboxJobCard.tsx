@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import type { Job } from "@/types/job";
+import type { InboxTriageAction } from "@/lib/supabase/queries/inbox";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Check, X, Clock, MapPin, DollarSign, ExternalLink, Ban } from "lucide-react";
+
+interface InboxJobCardProps {
+  job: Job;
+  onTriage: (job: Job, action: InboxTriageAction, snoozeDays?: number) => void;
+  isUpdating?: boolean;
+}
+
+/**
+ * Snooze durations offered for inbox jobs
+ */
+const SNOOZE_OPTIONS = [
+  { days: 1, label: "1 day" },
+  { days: 3, label: "3 days" },
+  { days: 7, label: "1 week" },
+  { days: 30, label: "1 month" },
+];
+
+/**
+ * InboxJobCard Component
+ *
+ * Compact card for a job waiting in the inbox, with accept (save to the
+ * dashboard), dismiss (never show again) and snooze actions.
+ */
+export function InboxJobCard({ job, onTriage, isUpdating = false }: InboxJobCardProps) {
+  const [showFullDescription, setShowFullDescription] = useState(false);
+
+  const truncatedDescription =
+    job.description.length > 200
+      ? job.description.slice(0, 200) + "..."
+      : job.description;
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          <h3 className="text-lg font-semibold leading-tight">{job.title}</h3>
+          <p className="text-sm text-gray-600">{job.company}</p>
+        </div>
+        {job.baselineScore && (
+          <Badge variant="outline" className="flex-shrink-0" title="Baseline score">
+            {job.baselineScore.score}
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 my-3">
+        <Badge variant="secondary" className="flex items-center gap-1">
+          <MapPin className="w-3 h-3" />
+          {job.location}
+        </Badge>
+        {job.salary && (
+          <Badge variant="secondary" className="flex items-center gap-1">
+            <DollarSign className="w-3 h-3" />
+            {job.salary}
+          </Badge>
+        )}
+        {job.dealBreakerViolations && job.dealBreakerViolations.length > 0 && (
+          <Badge
+            variant="destructive"
+            className="flex items-center gap-1"
+            title={job.dealBreakerViolations.map((violation) => violation.message).join("\n")}
+          >
+            <Ban className="w-3 h-3" />
+            Deal breaker
+          </Badge>
+        )}
+      </div>
+
+      <p className="text-sm text-muted-foreground leading-relaxed">
+        {showFullDescription ? job.description : truncatedDescription}
+      </p>
+      {job.description.length > 200 && (
+        <button
+          onClick={() => setShowFullDescription(!showFullDescription)}
+          className="text-sm text-blue-600 hover:underline mt-1 font-medium"
+        >
+          {showFullDescription ? "Show less" : "Show more"}
+        </button>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <Button
+          size="sm"
+          className="bg-green-600 hover:bg-green-700 text-white"
+          onClick={() => onTriage(job, "accept")}
+          disabled={isUpdating}
+        >
+          <Check className="w-4 h-4 mr-1" />
+          Save
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => onTriage(job, "dismiss")}
+          disabled={isUpdating}
+        >
+          <X className="w-4 h-4 mr-1" />
+          Dismiss
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="ghost" disabled={isUpdating}>
+              <Clock className="w-4 h-4 mr-1" />
+              Snooze
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {SNOOZE_OPTIONS.map(({ days, label }) => (
+              <DropdownMenuItem key={days} onClick={() => onTriage(job, "snooze", days)}>
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <a
+          href={job.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="ml-auto flex items-center gap-1 text-sm text-blue-600 hover:underline"
+        >
+          View posting
+          <ExternalLink className="w-3 h-3" />
+        </a>
+      </div>
+    </Card>
+  );
+}
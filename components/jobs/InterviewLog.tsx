@@ -0,0 +1,411 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MessagesSquare, Pencil, Plus, Sparkles, Star, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { InterviewPrepDialog } from "@/components/jobs/InterviewPrepDialog";
+import { INTERVIEW_FORMAT_LABELS, INTERVIEW_OUTCOME_LABELS } from "@/lib/jobs/interviews";
+import type {
+  Interview,
+  InterviewFormat,
+  InterviewOutcome,
+  InterviewQuestion,
+} from "@/types/interview";
+import type { Job } from "@/types/job";
+
+interface InterviewLogProps {
+  job: Job;
+  className?: string;
+}
+
+interface InterviewForm {
+  round: string;
+  scheduledAt: string;
+  format: InterviewFormat;
+  interviewers: string;
+  questions: InterviewQuestion[];
+  selfAssessment: string;
+  rating: string;
+  outcome: InterviewOutcome;
+  notes: string;
+}
+
+/**
+ * Formats a timestamp as the value of a datetime-local input (local time)
+ */
+function toDateTimeInputValue(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function toForm(interview?: Interview): InterviewForm {
+  return {
+    round: interview?.round ?? "",
+    scheduledAt: toDateTimeInputValue(interview?.scheduledAt ?? new Date().toISOString()),
+    format: interview?.format ?? "video",
+    interviewers: interview?.interviewers.join(", ") ?? "",
+    questions: interview?.questions ?? [],
+    selfAssessment: interview?.selfAssessment ?? "",
+    rating: interview?.rating ? String(interview.rating) : "",
+    outcome: interview?.outcome ?? "pending",
+    notes: interview?.notes ?? "",
+  };
+}
+
+/**
+ * InterviewLog Component
+ *
+ * Interview rounds logged for a job, shown in the job's expanded row: date,
+ * interviewers, format, questions asked, self-assessment and outcome. Also
+ * opens the Interview Prep assistant for the job.
+ */
+export function InterviewLog({ job, className = "" }: InterviewLogProps) {
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  // "new" while adding a round, the interview ID while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<InterviewForm>(toForm());
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPrepOpen, setIsPrepOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadInterviews = async () => {
+      try {
+        const response = await fetch(`/api/interviews?jobId=${job.id}`, {
+          credentials: "include",
+        });
+        const data = await response.json();
+        if (!cancelled) {
+          setInterviews(data.interviews || []);
+        }
+      } catch (error) {
+        console.error("Error loading interviews:", error);
+      }
+    };
+
+    loadInterviews();
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id]);
+
+  const startEditing = (interview?: Interview) => {
+    setEditingId(interview?.id ?? "new");
+    setForm(toForm(interview));
+  };
+
+  const updateQuestion = (index: number, updates: Partial<InterviewQuestion>) => {
+    setForm({
+      ...form,
+      questions: form.questions.map((q, i) => (i === index ? { ...q, ...updates } : q)),
+    });
+  };
+
+  const handleSave = async () => {
+    const isNew = editingId === "new";
+    const body = {
+      ...(isNew ? { jobId: job.id } : {}),
+      round: form.round,
+      scheduledAt: new Date(form.scheduledAt).toISOString(),
+      format: form.format,
+      interviewers: form.interviewers
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean),
+      questions: form.questions
+        .filter((q) => q.question.trim())
+        .map((q) => ({ question: q.question, answer: q.answer || undefined })),
+      selfAssessment: form.selfAssessment,
+      rating: form.rating ? Number(form.rating) : null,
+      outcome: form.outcome,
+      notes: form.notes,
+    };
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(isNew ? "/api/interviews" : `/api/interviews/${editingId}`, {
+        method: isNew ? "POST" : "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save interview");
+      }
+
+      setInterviews((current) =>
+        (isNew
+          ? [data.interview, ...current]
+          : current.map((i) => (i.id === editingId ? data.interview : i))
+        ).sort((a: Interview, b: Interview) => b.scheduledAt.localeCompare(a.scheduledAt))
+      );
+      setEditingId(null);
+    } catch (error) {
+      console.error("Error saving interview:", error);
+      toast.error("Failed to save interview", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (interview: Interview) => {
+    try {
+      const response = await fetch(`/api/interviews/${interview.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete interview");
+      }
+
+      setInterviews((current) => current.filter((i) => i.id !== interview.id));
+    } catch (error) {
+      console.error("Error deleting interview:", error);
+      toast.error("Failed to delete interview");
+    }
+  };
+
+  const outcomeColor: Record<InterviewOutcome, string> = {
+    pending: "bg-gray-100 text-gray-700",
+    passed: "bg-green-100 text-green-800",
+    rejected: "bg-red-100 text-red-800",
+    cancelled: "bg-gray-100 text-gray-500",
+  };
+
+  return (
+    <div className={`bg-white rounded-lg p-6 border border-gray-200 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <MessagesSquare className="w-5 h-5" />
+          Interviews
+        </h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => setIsPrepOpen(true)}>
+            <Sparkles className="w-4 h-4 mr-1" />
+            Prep
+          </Button>
+          {editingId === null && (
+            <Button size="sm" variant="outline" onClick={() => startEditing()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Log interview
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {interviews.length === 0 && editingId === null && (
+        <p className="text-sm text-gray-600">
+          No interviews logged yet. Record each round&apos;s questions and how it went to prepare for the next one.
+        </p>
+      )}
+
+      {editingId !== null && (
+        <div className="space-y-3 mb-4 rounded-md border border-gray-200 p-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Input
+              placeholder="Round (e.g. Recruiter screen, System design)"
+              value={form.round}
+              onChange={(e) => setForm({ ...form, round: e.target.value })}
+            />
+            <Input
+              type="datetime-local"
+              value={form.scheduledAt}
+              onChange={(e) => setForm({ ...form, scheduledAt: e.target.value })}
+            />
+            <Select
+              value={form.format}
+              onValueChange={(value) => setForm({ ...form, format: value as InterviewFormat })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(INTERVIEW_FORMAT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Interviewers (comma-separated)"
+              value={form.interviewers}
+              onChange={(e) => setForm({ ...form, interviewers: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Questions asked</p>
+            {form.questions.map((question, index) => (
+              <div key={index} className="flex gap-2">
+                <div className="flex-1 space-y-1">
+                  <Input
+                    placeholder="Question"
+                    value={question.question}
+                    onChange={(e) => updateQuestion(index, { question: e.target.value })}
+                  />
+                  <Textarea
+                    placeholder="Your answer (or what you'd answer next time)"
+                    value={question.answer ?? ""}
+                    onChange={(e) => updateQuestion(index, { answer: e.target.value })}
+                  />
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  aria-label="Remove question"
+                  onClick={() =>
+                    setForm({ ...form, questions: form.questions.filter((_, i) => i !== index) })
+                  }
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setForm({ ...form, questions: [...form.questions, { question: "" }] })}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add question
+            </Button>
+          </div>
+
+          <Textarea
+            placeholder="Self-assessment: what went well, what to improve"
+            value={form.selfAssessment}
+            onChange={(e) => setForm({ ...form, selfAssessment: e.target.value })}
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Select
+              value={form.rating || "none"}
+              onValueChange={(value) => setForm({ ...form, rating: value === "none" ? "" : value })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No rating</SelectItem>
+                {[1, 2, 3, 4, 5].map((rating) => (
+                  <SelectItem key={rating} value={String(rating)}>
+                    {rating}/5
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={form.outcome}
+              onValueChange={(value) => setForm({ ...form, outcome: value as InterviewOutcome })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(INTERVIEW_OUTCOME_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Textarea
+            placeholder="Notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" onClick={() => setEditingId(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!form.scheduledAt || isSaving}>
+              Save interview
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <ul className="space-y-4">
+        {interviews.map((interview) => (
+          <li key={interview.id} className="text-sm">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium text-gray-900">
+                  {interview.round || INTERVIEW_FORMAT_LABELS[interview.format]}
+                </span>
+                <span className="text-gray-500">
+                  {new Date(interview.scheduledAt).toLocaleDateString()}
+                  {interview.round && ` · ${INTERVIEW_FORMAT_LABELS[interview.format]}`}
+                </span>
+                <Badge className={outcomeColor[interview.outcome]}>
+                  {INTERVIEW_OUTCOME_LABELS[interview.outcome]}
+                </Badge>
+                {interview.rating && (
+                  <span className="flex items-center gap-0.5 text-xs text-gray-600">
+                    <Star className="w-3 h-3" />
+                    {interview.rating}/5
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-shrink-0 gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  aria-label="Edit interview"
+                  onClick={() => startEditing(interview)}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  aria-label="Delete interview"
+                  onClick={() => handleDelete(interview)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            {interview.interviewers.length > 0 && (
+              <p className="text-gray-600">With {interview.interviewers.join(", ")}</p>
+            )}
+            {interview.questions.length > 0 && (
+              <ul className="mt-1 list-disc pl-5 text-gray-700">
+                {interview.questions.map((question, index) => (
+                  <li key={index}>{question.question}</li>
+                ))}
+              </ul>
+            )}
+            {interview.selfAssessment && (
+              <p className="mt-1 text-gray-600 italic">{interview.selfAssessment}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <InterviewPrepDialog job={job} open={isPrepOpen} onOpenChange={setIsPrepOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useChat } from "@ai-sdk/react";
+import { DefaultChatTransport } from "ai";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Response } from "@/components/ai-elements/response";
+import { Send, Sparkles } from "lucide-react";
+import type { Job } from "@/types/job";
+
+interface InterviewPrepDialogProps {
+  job: Job;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STARTER_PROMPTS = [
+  "Make me a prep plan for the next round",
+  "Which questions have I been asked before, and how can I answer them better?",
+  "Run a mock interview with me",
+];
+
+/**
+ * InterviewPrepDialog Component
+ *
+ * Chat with the Interview Prep Assistant about a job. The assistant sees the
+ * job posting and the user's interview log (this job's rounds and questions
+ * asked elsewhere), so past questions are prepared for instead of re-answered
+ * blind.
+ */
+export function InterviewPrepDialog({ job, open, onOpenChange }: InterviewPrepDialogProps) {
+  const [input, setInput] = useState("");
+  const jobIdRef = useRef(job.id);
+
+  useEffect(() => {
+    jobIdRef.current = job.id;
+  }, [job.id]);
+
+  const { messages, sendMessage, setMessages, status } = useChat({
+    transport: new DefaultChatTransport({
+      api: "/api/interview-prep",
+      prepareSendMessagesRequest: ({ messages }) => ({
+        body: { messages, jobId: jobIdRef.current },
+      }),
+    }),
+  });
+
+  // Each opening starts a fresh session (the interview log may have changed)
+  useEffect(() => {
+    if (open) {
+      setMessages([]);
+      setInput("");
+    }
+  }, [open, setMessages]);
+
+  const isBusy = status === "submitted" || status === "streaming";
+
+  const send = (text: string) => {
+    if (!text.trim() || isBusy) return;
+    sendMessage({ text });
+    setInput("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" />
+            Interview Prep
+          </DialogTitle>
+          <DialogDescription>
+            {job.title} at {job.company}. The assistant knows the rounds you logged and the questions you were asked elsewhere.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 min-h-48">
+          {messages.length === 0 && (
+            <div className="flex flex-col gap-2">
+              {STARTER_PROMPTS.map((prompt) => (
+                <Button
+                  key={prompt}
+                  variant="outline"
+                  className="justify-start text-left h-auto whitespace-normal"
+                  onClick={() => send(prompt)}
+                >
+                  {prompt}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {messages.map((message) => {
+            const text = message.parts
+              .map((part) => (part.type === "text" ? part.text : ""))
+              .join("");
+
+            if (!text) return null;
+
+            return message.role === "user" ? (
+              <div key={message.id} className="ml-auto max-w-[80%] rounded-lg bg-blue-50 px-3 py-2 text-sm text-gray-900">
+                {text}
+              </div>
+            ) : (
+              <div key={message.id} className="text-sm text-gray-800">
+                <Response>{text}</Response>
+              </div>
+            );
+          })}
+
+          {status === "submitted" && (
+            <p className="text-sm text-gray-500">Thinking...</p>
+          )}
+        </div>
+
+        <form
+          className="flex gap-2 pt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            send(input);
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Ask about the next round, or answer a mock question..."
+          />
+          <Button type="submit" disabled={!input.trim() || isBusy}>
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal } from "lucide-react";
+import { PostingClosedBadge } from "@/components/jobs/PostingClosedBadge";
+import { APPLICATION_STATUS_LABELS, PIPELINE_STATUSES } from "@/lib/jobs/pipeline";
+import type { Job, ApplicationStatus } from "@/types/job";
+
+interface JobBoardProps {
+  jobs: Job[];
+  onStatusUpdate: (jobId: string, status: ApplicationStatus) => void;
+}
+
+const PRIORITY_BADGE_CLASSES: Record<NonNullable<Job["priority"]>, string> = {
+  high: "bg-green-100 text-green-800 border-green-200",
+  medium: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  low: "bg-gray-100 text-gray-800 border-gray-200",
+};
+
+/**
+ * Column a job is shown in (jobs saved before statuses existed count as saved)
+ */
+function getColumnStatus(job: Job): ApplicationStatus {
+  return job.applicationStatus || "saved";
+}
+
+function JobBoardCard({
+  job,
+  onStatusUpdate,
+  onDragStart,
+}: {
+  job: Job;
+  onStatusUpdate: (jobId: string, status: ApplicationStatus) => void;
+  onDragStart: (event: React.DragEvent, job: Job) => void;
+}) {
+  const score = job.score ?? job.baselineScore?.score;
+
+  return (
+    <div
+      draggable
+      onDragStart={(event) => onDragStart(event, job)}
+      className="bg-white rounded-lg border border-gray-200 p-3 shadow-sm cursor-grab active:cursor-grabbing hover:border-blue-300 transition-colors"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-gray-900 leading-tight">{job.title}</p>
+          <p className="text-xs text-gray-600 truncate">{job.company}</p>
+        </div>
+
+        {/* Moving without dragging (touch devices, keyboard) */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 flex-shrink-0" aria-label="Move job">
+              <MoreHorizontal className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {PIPELINE_STATUSES.filter((status) => status !== getColumnStatus(job)).map((status) => (
+              <DropdownMenuItem key={status} onClick={() => onStatusUpdate(job.id, status)}>
+                Move to {APPLICATION_STATUS_LABELS[status]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5 mt-2">
+        {score !== undefined && (
+          <Badge
+            variant="outline"
+            className="text-xs"
+            title={job.score === undefined ? "Baseline score" : "Score"}
+          >
+            {score}
+            {job.score === undefined && " (baseline)"}
+          </Badge>
+        )}
+        {job.priority && (
+          <Badge className={`${PRIORITY_BADGE_CLASSES[job.priority]} border text-xs capitalize`}>
+            {job.priority}
+          </Badge>
+        )}
+        <PostingClosedBadge job={job} className="text-xs" />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * JobBoard Component
+ *
+ * Kanban view of the application pipeline: one column per stage. Dragging a
+ * card to another column (or using its menu) changes the job's status.
+ */
+export function JobBoard({ jobs, onStatusUpdate }: JobBoardProps) {
+  const [draggedJobId, setDraggedJobId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+
+  const handleDragStart = (event: React.DragEvent, job: Job) => {
+    event.dataTransfer.setData("text/plain", job.id);
+    event.dataTransfer.effectAllowed = "move";
+    setDraggedJobId(job.id);
+  };
+
+  const handleDrop = (event: React.DragEvent, status: ApplicationStatus) => {
+    event.preventDefault();
+    const jobId = event.dataTransfer.getData("text/plain") || draggedJobId;
+    const job = jobs.find((j) => j.id === jobId);
+
+    if (job && getColumnStatus(job) !== status) {
+      onStatusUpdate(job.id, status);
+    }
+
+    setDraggedJobId(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div className="flex gap-3 min-w-max">
+        {PIPELINE_STATUSES.map((status) => {
+          const columnJobs = jobs
+            .filter((job) => getColumnStatus(job) === status)
+            .sort((a, b) => (b.score ?? b.baselineScore?.score ?? 0) - (a.score ?? a.baselineScore?.score ?? 0));
+
+          return (
+            <div
+              key={status}
+              onDragOver={(event) => {
+                event.preventDefault();
+                event.dataTransfer.dropEffect = "move";
+                setDropTarget(status);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === status ? null : current))}
+              onDrop={(event) => handleDrop(event, status)}
+              className={`w-64 flex-shrink-0 rounded-xl p-3 transition-colors ${
+                dropTarget === status ? "bg-blue-50 ring-2 ring-blue-300" : "bg-gray-100"
+              }`}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-gray-900">
+                  {APPLICATION_STATUS_LABELS[status]}
+                </h3>
+                <span className="text-xs text-gray-500">{columnJobs.length}</span>
+              </div>
+
+              <div className="space-y-2 min-h-16">
+                {columnJobs.map((job) => (
+                  <JobBoardCard
+                    key={job.id}
+                    job={job}
+                    onStatusUpdate={onStatusUpdate}
+                    onDragStart={handleDragStart}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { MapPin, DollarSign, ExternalLink, Bookmark } from "lucide-react";
 import { ScoreBreakdown } from "./ScoreBreakdown";
+import { PostingClosedBadge } from "./PostingClosedBadge";
 import type { Job } from "@/types/job";
 
 interface JobCardProps {
@@ -103,6 +104,7 @@ export function JobCard({
               Unsaved
             </Badge>
           )}
+          <PostingClosedBadge job={job} className="rounded-full px-3 py-1" />
           {getPriorityBadge()}
         </div>
       </div>
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { ChevronLeft, ChevronRight, CheckCircle, Search, X } from "lucide-react";
 import { toast } from "sonner";
+import { hasDealBreakers } from "@/lib/jobs/deal-breakers";
 
 interface JobCarouselProps {
   jobs: Job[];
@@ -23,12 +24,17 @@ interface JobCarouselProps {
  * Shows one job at a time with navigation, immediate save functionality,
  * and progress tracking.
  */
-export function JobCarousel({ jobs, onJobSaved, onComplete, onClose }: JobCarouselProps) {
+export function JobCarousel({ jobs: allJobs, onJobSaved, onComplete, onClose }: JobCarouselProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
+  const [showFlagged, setShowFlagged] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [savedJobIds, setSavedJobIds] = useState<Set<string>>(new Set());
   const [direction, setDirection] = useState<1 | -1>(1); // For animation direction
 
+  // Jobs violating the user's deal breakers are hidden unless revealed
+  const flaggedCount = allJobs.filter(hasDealBreakers).length;
+  const jobs = showFlagged ? allJobs : allJobs.filter((job) => !hasDealBreakers(job));
+
   const currentJob = jobs[currentIndex];
   const isLastJob = currentIndex === jobs.length - 1;
   const isFirstJob = currentIndex === 0;
@@ -52,21 +58,31 @@ export function JobCarousel({ jobs, onJobSaved, onComplete, onClose }: JobCarous
         method: "POST",
         headers: { "Content-Type": "application/json" },
         credentials: "include",
-        body: JSON.stringify({ jobs: [job] }),
+        body: JSON.stringify({ jobs: [{ ...job, applicationStatus: "saved" }] }),
       });
 
       if (!response.ok) {
         throw new Error("Failed to save job");
       }
 
+      const result = await response.json();
+
       // Mark as saved
       setSavedJobIds((prev) => new Set(prev).add(job.id));
 
-      // Show success toast
-      toast.success("Job saved!", {
-        description: `${job.title} at ${job.company} saved to your dashboard.`,
-        duration: 3000,
-      });
+      // Show success toast (duplicates of saved postings are merged server-side;
+      // displayed jobs wait in the inbox, and moving one out of it is a new save)
+      if (result.alreadySavedCount > 0) {
+        toast.info("Already saved", {
+          description: `${job.title} at ${job.company} is already on your dashboard.`,
+          duration: 3000,
+        });
+      } else {
+        toast.success("Job saved!", {
+          description: `${job.title} at ${job.company} saved to your dashboard.`,
+          duration: 3000,
+        });
+      }
 
       // Notify parent
       onJobSaved(job);
@@ -140,7 +156,7 @@ export function JobCarousel({ jobs, onJobSaved, onComplete, onClose }: JobCarous
       } else if (e.key === "ArrowRight") {
         e.preventDefault();
         handleNext();
-      } else if (e.key === "Enter" && !isSaving) {
+      } else if (e.key === "Enter" && !isSaving && currentJob) {
         e.preventDefault();
         handleSave(currentJob);
       } else if (e.key === "Escape") {
@@ -153,6 +169,34 @@ export function JobCarousel({ jobs, onJobSaved, onComplete, onClose }: JobCarous
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [currentIndex, currentJob, isSaving]);
 
+  /**
+   * Keep the index in range when flagged jobs are hidden again
+   */
+  useEffect(() => {
+    if (currentIndex > 0 && currentIndex >= jobs.length) {
+      setCurrentIndex(Math.max(0, jobs.length - 1));
+    }
+  }, [currentIndex, jobs.length]);
+
+  /**
+   * Toggle between hiding and showing jobs flagged by deal breakers
+   */
+  const handleToggleFlagged = () => {
+    setShowFlagged((prev) => !prev);
+    setCurrentIndex(0);
+  };
+
+  const flaggedToggle = flaggedCount > 0 && (
+    <div className="text-center text-xs text-muted-foreground">
+      {showFlagged
+        ? `Showing ${flaggedCount} job${flaggedCount === 1 ? "" : "s"} flagged by your deal breakers · `
+        : `${flaggedCount} job${flaggedCount === 1 ? "" : "s"} hidden by your deal breakers · `}
+      <button onClick={handleToggleFlagged} className="text-blue-600 hover:underline">
+        {showFlagged ? "Hide" : "Show"}
+      </button>
+    </div>
+  );
+
   // Slide animation variants
   const slideVariants = {
     enter: (direction: number) => ({
@@ -196,17 +240,30 @@ export function JobCarousel({ jobs, onJobSaved, onComplete, onClose }: JobCarous
                 <Search className="w-8 h-8 text-blue-600" />
               </div>
             </div>
-            <h3 className="text-lg font-semibold mb-2">Ready to Discover Jobs</h3>
-            <p className="text-sm text-muted-foreground leading-relaxed">
-              Start a conversation in the chat to find your perfect opportunities.
-              I'll search across multiple job boards and display the best matches here.
-            </p>
-            <div className="mt-6 p-3 bg-blue-50 rounded-lg border border-blue-100">
-              <p className="text-xs text-blue-900">
-                <strong>Try asking:</strong> "Find software engineer jobs in Seattle" or
-                "Show me remote data analyst positions"
-              </p>
-            </div>
+            {flaggedCount > 0 ? (
+              <>
+                <h3 className="text-lg font-semibold mb-2">All Jobs Hidden</h3>
+                <p className="text-sm text-muted-foreground leading-relaxed">
+                  Every job found violates one of your deal breakers. Try a different
+                  search in the chat or show the flagged jobs anyway.
+                </p>
+              </>
+            ) : (
+              <>
+                <h3 className="text-lg font-semibold mb-2">Ready to Discover Jobs</h3>
+                <p className="text-sm text-muted-foreground leading-relaxed">
+                  Start a conversation in the chat to find your perfect opportunities.
+                  I'll search across multiple job boards and display the best matches here.
+                </p>
+                <div className="mt-6 p-3 bg-blue-50 rounded-lg border border-blue-100">
+                  <p className="text-xs text-blue-900">
+                    <strong>Try asking:</strong> "Find software engineer jobs in Seattle" or
+                    "Show me remote data analyst positions"
+                  </p>
+                </div>
+              </>
+            )}
+            {flaggedToggle && <div className="mt-4">{flaggedToggle}</div>}
           </div>
         </div>
       </div>
@@ -315,6 +372,8 @@ export function JobCarousel({ jobs, onJobSaved, onComplete, onClose }: JobCarous
           )}
         </div>
 
+        {flaggedToggle}
+
         {/* Bottom row: Saved counter + Keyboard hints */}
         <div className="flex justify-between items-center text-xs text-muted-foreground">
           <div className="flex items-center gap-1.5">
@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Linkedin, Link2, Mail, MessageSquare, Plus, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { CONTACT_RELATIONSHIP_LABELS } from "@/lib/jobs/contacts";
+import type { Contact, ContactRelationship } from "@/types/contact";
+import type { Job } from "@/types/job";
+
+interface JobContactsProps {
+  job: Job;
+  className?: string;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  role: "",
+  email: "",
+  linkedinUrl: "",
+  relationship: "recruiter" as ContactRelationship,
+};
+
+/**
+ * JobContacts Component
+ *
+ * Contacts relevant to a job (linked to it or at its company), shown in the
+ * job's expanded row. New contacts are linked to the job and its company.
+ */
+export function JobContacts({ job, className = "" }: JobContactsProps) {
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadContacts = async () => {
+      try {
+        const response = await fetch(`/api/contacts?jobId=${job.id}`, {
+          credentials: "include",
+        });
+        const data = await response.json();
+        if (!cancelled) {
+          setContacts(data.contacts || []);
+        }
+      } catch (error) {
+        console.error("Error loading contacts:", error);
+      }
+    };
+
+    loadContacts();
+    return () => {
+      cancelled = true;
+    };
+  }, [job.id]);
+
+  const saveContact = async (
+    request: { url: string; method: "POST" | "PATCH"; body: Record<string, unknown> },
+    errorMessage: string
+  ): Promise<Contact | null> => {
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(request.body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || errorMessage);
+      }
+
+      return data.contact;
+    } catch (error) {
+      console.error("Error saving contact:", error);
+      toast.error(errorMessage, {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+      return null;
+    }
+  };
+
+  const handleAdd = async () => {
+    const contact = await saveContact(
+      {
+        url: "/api/contacts",
+        method: "POST",
+        body: { ...form, company: job.company, jobIds: [job.id] },
+      },
+      "Failed to add contact"
+    );
+
+    if (contact) {
+      setContacts((current) => [contact, ...current]);
+      setForm(EMPTY_FORM);
+      setIsAdding(false);
+    }
+  };
+
+  const handleUpdate = async (contact: Contact, updates: Partial<Contact>) => {
+    const updated = await saveContact(
+      { url: `/api/contacts/${contact.id}`, method: "PATCH", body: updates },
+      "Failed to update contact"
+    );
+
+    if (updated) {
+      setContacts((current) => current.map((c) => (c.id === contact.id ? updated : c)));
+    }
+  };
+
+  const handleDelete = async (contact: Contact) => {
+    try {
+      const response = await fetch(`/api/contacts/${contact.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete contact");
+      }
+
+      setContacts((current) => current.filter((c) => c.id !== contact.id));
+    } catch (error) {
+      console.error("Error deleting contact:", error);
+      toast.error("Failed to delete contact");
+    }
+  };
+
+  return (
+    <div className={`bg-white rounded-lg p-6 border border-gray-200 ${className}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Contacts
+        </h3>
+        {!isAdding && (
+          <Button size="sm" variant="outline" onClick={() => setIsAdding(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add contact
+          </Button>
+        )}
+      </div>
+
+      {contacts.length === 0 && !isAdding && (
+        <p className="text-sm text-gray-600">
+          No contacts at {job.company} yet. Add recruiters, hiring managers or referrals to keep track of them here.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {contacts.map((contact) => {
+          const isLinked = contact.jobIds.includes(job.id);
+
+          return (
+            <li key={contact.id} className="flex items-start justify-between gap-4 text-sm">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-gray-900">{contact.name}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {CONTACT_RELATIONSHIP_LABELS[contact.relationship]}
+                  </Badge>
+                  {!isLinked && contact.company && (
+                    <span className="text-xs text-gray-500">at {contact.company}</span>
+                  )}
+                </div>
+                {contact.role && <p className="text-gray-600">{contact.role}</p>}
+                <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+                  {contact.email && (
+                    <a href={`mailto:${contact.email}`} className="flex items-center gap-1 hover:text-blue-700">
+                      <Mail className="w-3 h-3" />
+                      {contact.email}
+                    </a>
+                  )}
+                  {contact.linkedinUrl && (
+                    <a
+                      href={contact.linkedinUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 hover:text-blue-700"
+                    >
+                      <Linkedin className="w-3 h-3" />
+                      LinkedIn
+                    </a>
+                  )}
+                  <span>
+                    {contact.lastContactedAt
+                      ? `Last contacted ${new Date(contact.lastContactedAt).toLocaleDateString()}`
+                      : "Not contacted yet"}
+                  </span>
+                </div>
+              </div>
+
+              <div className="flex flex-shrink-0 gap-1">
+                {!isLinked && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Link to this job"
+                    onClick={() => handleUpdate(contact, { jobIds: [...contact.jobIds, job.id] })}
+                  >
+                    <Link2 className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Mark as contacted today"
+                  onClick={() => handleUpdate(contact, { lastContactedAt: new Date().toISOString() })}
+                >
+                  <MessageSquare className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Delete contact"
+                  onClick={() => handleDelete(contact)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {isAdding && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-3">
+          <Input
+            placeholder="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <Input
+            placeholder="Role (e.g. Engineering Manager)"
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value })}
+          />
+          <Input
+            type="email"
+            placeholder="Email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+          />
+          <Input
+            placeholder="LinkedIn URL"
+            value={form.linkedinUrl}
+            onChange={(e) => setForm({ ...form, linkedinUrl: e.target.value })}
+          />
+          <Select
+            value={form.relationship}
+            onValueChange={(value) => setForm({ ...form, relationship: value as ContactRelationship })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(CONTACT_RELATIONSHIP_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex gap-2 justify-end">
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setIsAdding(false);
+                setForm(EMPTY_FORM);
+              }}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={!form.name.trim()}>
+              Save contact
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import type { Job } from "@/types/job";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Check, X, MapPin, DollarSign, Briefcase } from "lucide-react";
+import { Check, X, MapPin, DollarSign, Briefcase, Users, Ban, Star } from "lucide-react";
 
 interface JobDiscoveryCardProps {
   job: Job;
@@ -45,13 +45,19 @@ export function JobDiscoveryCard({ job, onSave, onSkip, isSaving = false }: JobD
           </div>
           <div className="min-w-0 flex-1">
             <h3 className="text-lg font-semibold truncate">{job.company}</h3>
+            {job.targetCompany && (
+              <p className="flex items-center gap-1 text-xs font-medium text-amber-600">
+                <Star className="w-3 h-3 fill-amber-400" />
+                Target company
+              </p>
+            )}
           </div>
         </div>
 
         {/* Job title */}
         <h2 className="text-2xl font-bold mb-1 leading-tight">{job.title}</h2>
 
-        {/* Badges for location, salary */}
+        {/* Badges for location, salary, department */}
         <div className="flex flex-wrap gap-2 mb-4">
           <Badge variant="secondary" className="flex items-center gap-1">
             <MapPin className="w-3 h-3" />
@@ -63,8 +69,29 @@ export function JobDiscoveryCard({ job, onSave, onSkip, isSaving = false }: JobD
               {job.salary}
             </Badge>
           )}
+          {job.department && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <Users className="w-3 h-3" />
+              {job.department}
+            </Badge>
+          )}
         </div>
 
+        {/* Deal-breaker violations (only shown when flagged jobs are revealed) */}
+        {job.dealBreakerViolations && job.dealBreakerViolations.length > 0 && (
+          <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+            <div className="flex items-center gap-1.5 font-semibold mb-1">
+              <Ban className="w-4 h-4" />
+              Violates your deal breakers
+            </div>
+            <ul className="list-disc pl-5 space-y-0.5">
+              {job.dealBreakerViolations.map((violation) => (
+                <li key={violation.rule}>{violation.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Job description */}
         <div className="mb-4">
           <p className="text-sm text-muted-foreground leading-relaxed">
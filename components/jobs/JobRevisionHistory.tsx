@@ -0,0 +1,197 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, RefreshCw } from "lucide-react";
+import {
+  diffText,
+  isMaterialChange,
+  JOB_CONTENT_FIELD_LABELS,
+  MATERIAL_CONTENT_FIELDS,
+} from "@/lib/jobs/revisions";
+import type { JobContentField, JobRevision } from "@/types/job";
+
+interface JobRevisionHistoryProps {
+  jobId: string;
+  /** Reloads the history when a new edit is detected */
+  contentChangedAt?: string;
+  /** Re-scores the job; offered when the latest edit is material */
+  onRescore?: () => void;
+  className?: string;
+}
+
+/**
+ * Shows what changed in one field between two revisions
+ */
+function FieldDiff({
+  field,
+  previous,
+  current,
+}: {
+  field: JobContentField;
+  previous: JobRevision;
+  current: JobRevision;
+}) {
+  if (field === "salary" || field === "location") {
+    return (
+      <p className="text-sm">
+        <span className="text-red-700 line-through">{previous[field] || "Not specified"}</span>
+        {" → "}
+        <span className="text-green-700 font-medium">{current[field] || "Not specified"}</span>
+      </p>
+    );
+  }
+
+  const segments =
+    field === "requirements"
+      ? diffText(previous.requirements.join("\n"), current.requirements.join("\n"))
+      : diffText(previous.description, current.description);
+
+  return (
+    <div className="max-h-64 overflow-y-auto space-y-0.5 text-sm">
+      {segments.map((segment, index) =>
+        segment.type === "same" ? (
+          // Unchanged text is only shown for context around requirement edits
+          field === "requirements" ? (
+            <p key={index} className="text-gray-500">
+              {segment.text}
+            </p>
+          ) : null
+        ) : (
+          <p
+            key={index}
+            className={
+              segment.type === "added"
+                ? "bg-green-50 text-green-800 px-1 rounded"
+                : "bg-red-50 text-red-800 line-through px-1 rounded"
+            }
+          >
+            {segment.type === "added" ? "+ " : "− "}
+            {segment.text}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+export function JobRevisionHistory({
+  jobId,
+  contentChangedAt,
+  onRescore,
+  className = "",
+}: JobRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<JobRevision[]>([]);
+  const [tracksEdits, setTracksEdits] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRevisions = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/revisions`, {
+          credentials: "include",
+        });
+        const data = await response.json();
+        if (!cancelled) {
+          setRevisions(data.revisions || []);
+          setTracksEdits(data.tracksEdits !== false);
+          // Show the latest edit by default
+          setExpandedId(data.revisions?.[data.revisions.length - 1]?.id ?? null);
+        }
+      } catch (error) {
+        console.error("Error loading job revisions:", error);
+      }
+    };
+
+    loadRevisions();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, contentChangedAt]);
+
+  // The first revision is the posting as saved; only later ones are edits
+  const edits = revisions
+    .map((revision, index) => ({ revision, previous: revisions[index - 1] }))
+    .slice(1)
+    .reverse();
+
+  if (edits.length === 0) {
+    return tracksEdits ? null : (
+      <p className={`text-xs text-gray-500 ${className}`}>
+        Edits to this posting are not tracked: only Greenhouse and Lever postings are re-checked
+        for changes. Postings from other sources are only checked for being taken down.
+      </p>
+    );
+  }
+
+  const latestIsMaterial = isMaterialChange(edits[0].revision.changedFields);
+
+  return (
+    <div className={`bg-white rounded-lg p-6 border border-gray-200 space-y-3 ${className}`}>
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-lg font-semibold text-gray-900">
+          Posting Changes ({edits.length} edit{edits.length === 1 ? "" : "s"})
+        </h3>
+        {onRescore && latestIsMaterial && (
+          <Button size="sm" variant="outline" onClick={onRescore}>
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Re-score with changes
+          </Button>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {edits.map(({ revision, previous }) => {
+          const isExpanded = expandedId === revision.id;
+
+          return (
+            <li key={revision.id} className="border border-gray-100 rounded-md">
+              <button
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-left text-sm"
+                onClick={() => setExpandedId(isExpanded ? null : revision.id)}
+              >
+                <span className="flex flex-wrap items-center gap-2">
+                  <span className="text-gray-600">
+                    {new Date(revision.detectedAt).toLocaleDateString()}
+                  </span>
+                  {revision.changedFields.map((field) => (
+                    <Badge
+                      key={field}
+                      variant="outline"
+                      className={
+                        MATERIAL_CONTENT_FIELDS.includes(field)
+                          ? "border-amber-200 bg-amber-50 text-amber-800"
+                          : "text-gray-600"
+                      }
+                    >
+                      {JOB_CONTENT_FIELD_LABELS[field]}
+                    </Badge>
+                  ))}
+                </span>
+                <ChevronDown
+                  className={`w-4 h-4 text-gray-500 transition-transform ${isExpanded ? "rotate-180" : ""}`}
+                />
+              </button>
+
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-3">
+                  {revision.changedFields.map((field) => (
+                    <div key={field}>
+                      <p className="text-xs font-semibold uppercase text-gray-500 mb-1">
+                        {JOB_CONTENT_FIELD_LABELS[field]}
+                      </p>
+                      <FieldDiff field={field} previous={previous} current={revision} />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
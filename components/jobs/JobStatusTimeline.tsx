@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  APPLICATION_STATUS_LABELS,
+  CLOSED_STATUSES,
+  getStageDurations,
+  isStalled,
+} from "@/lib/jobs/pipeline";
+import type { JobStatusEvent } from "@/types/job";
+
+interface JobStatusTimelineProps {
+  jobId: string;
+  /** ISO timestamp the job was discovered, shown as the start of the timeline */
+  discoveredAt: string;
+  /** Reloads the timeline when the status changes */
+  statusUpdatedAt?: string;
+  className?: string;
+}
+
+function formatDays(days: number): string {
+  if (days < 1) return "less than a day";
+  const rounded = Math.round(days);
+  return `${rounded} day${rounded === 1 ? "" : "s"}`;
+}
+
+export function JobStatusTimeline({
+  jobId,
+  discoveredAt,
+  statusUpdatedAt,
+  className = "",
+}: JobStatusTimelineProps) {
+  const [events, setEvents] = useState<JobStatusEvent[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEvents = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/status-events`, {
+          credentials: "include",
+        });
+        const data = await response.json();
+        if (!cancelled) {
+          setEvents(data.events || []);
+        }
+      } catch (error) {
+        console.error("Error loading job status history:", error);
+      }
+    };
+
+    loadEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, statusUpdatedAt]);
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  // Newest stage first
+  const stages = getStageDurations(events).reverse();
+
+  return (
+    <div className={`bg-white rounded-lg p-6 border border-gray-200 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Application Timeline</h3>
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {stages.map((stage, index) => {
+          const stalled = !stage.leftAt && isStalled(stage);
+
+          return (
+            <li key={`${stage.status}-${stage.enteredAt}`} className="ml-4">
+              <span
+                className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${
+                  index === 0 ? "bg-blue-600" : "bg-gray-300"
+                }`}
+              />
+              <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+                <span className="font-semibold text-gray-900">
+                  {APPLICATION_STATUS_LABELS[stage.status]}
+                </span>
+                <span className="text-gray-500">
+                  {new Date(stage.enteredAt).toLocaleDateString()}
+                </span>
+              </div>
+              {stage.leftAt ? (
+                <p className="text-xs text-gray-600">{formatDays(stage.days)} in this stage</p>
+              ) : (
+                // Outcomes have no duration; open stages show the time waited so far
+                !CLOSED_STATUSES.includes(stage.status) && (
+                  <p className={`text-xs ${stalled ? "text-amber-700" : "text-gray-600"}`}>
+                    {formatDays(stage.days)} so far{stalled && " — no change in a while"}
+                  </p>
+                )
+              )}
+            </li>
+          );
+        })}
+
+        <li className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white bg-gray-300" />
+          <div className="flex flex-wrap items-baseline gap-x-2 text-sm">
+            <span className="font-semibold text-gray-900">Discovered</span>
+            <span className="text-gray-500">{new Date(discoveredAt).toLocaleDateString()}</span>
+          </div>
+        </li>
+      </ol>
+    </div>
+  );
+}
@@ -22,10 +22,31 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Send, Briefcase, Trash2, Sparkles, ChevronDown, AlertCircle, FileText } from "lucide-react";
+import { Send, Briefcase, Trash2, Sparkles, ChevronDown, AlertCircle, FileText, Mail } from "lucide-react";
 import { ScoreBreakdown } from "@/components/jobs/ScoreBreakdown";
+import { RequirementsSummary } from "@/components/jobs/RequirementsSummary";
+import { PostingClosedBadge } from "@/components/jobs/PostingClosedBadge";
+import { JobRevisionHistory } from "@/components/jobs/JobRevisionHistory";
+import { JobStatusTimeline } from "@/components/jobs/JobStatusTimeline";
+import { JobContacts } from "@/components/jobs/JobContacts";
+import { InterviewLog } from "@/components/jobs/InterviewLog";
+import { annualizeSalary, formatSalaryRange } from "@/lib/jobs/salary";
+import { DEAL_BREAKER_LABELS } from "@/lib/jobs/deal-breakers";
+import { APPLICATION_STATUS_LABELS, PIPELINE_STATUSES } from "@/lib/jobs/pipeline";
+import type { ScoringWeights } from "@/lib/jobs/scoring";
+import type { ScoringCategory } from "@/types/profile";
 import type { Job, ApplicationStatus } from "@/types/job";
 
+/**
+ * Annualized USD salary used for sorting and filtering (undefined if unknown
+ * or in another currency, so those jobs sort last and never pass a filter)
+ */
+function getAnnualSalary(job: Job, bound: "min" | "max"): number | undefined {
+  if (!job.salaryRange || job.salaryRange.currency !== "USD") return undefined;
+  const annual = annualizeSalary(job.salaryRange);
+  return bound === "min" ? annual.min ?? annual.max : annual.max ?? annual.min;
+}
+
 interface JobTableProps {
   jobs: Job[];
   onStatusUpdate: (jobId: string, status: ApplicationStatus) => void;
@@ -33,11 +54,17 @@ interface JobTableProps {
   onBulkScore?: (jobIds: string[]) => void;
   onGenerateResume?: (job: Job) => void;
   onViewResume?: (job: Job) => void;
+  onGenerateCoverLetter?: (job: Job) => void;
+  /** The user's current scoring weights, used to show points per category */
+  scoringWeights?: ScoringWeights;
+  /** The user's scoring categories (built-in and custom) */
+  scoringCategories?: ScoringCategory[];
 }
 
-export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGenerateResume, onViewResume }: JobTableProps) {
+export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGenerateResume, onViewResume, onGenerateCoverLetter, scoringWeights, scoringCategories }: JobTableProps) {
   const [filterPriority, setFilterPriority] = useState<string>("all");
   const [filterStatus, setFilterStatus] = useState<string>("all");
+  const [filterSalary, setFilterSalary] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("score-desc");
   const [expandedJobs, setExpandedJobs] = useState<Set<string>>(new Set());
   const [selectedJobIds, setSelectedJobIds] = useState<Set<string>>(new Set());
@@ -107,6 +134,12 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
       filtered = filtered.filter((j) => j.applicationStatus === filterStatus);
     }
 
+    // Apply salary filter (top of the annualized range must reach the threshold)
+    if (filterSalary !== "all") {
+      const threshold = Number(filterSalary);
+      filtered = filtered.filter((j) => (getAnnualSalary(j, "max") ?? 0) >= threshold);
+    }
+
     // Apply sorting
     filtered.sort((a, b) => {
       switch (sortBy) {
@@ -124,6 +157,12 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
             new Date(a.discoveredAt).getTime() -
             new Date(b.discoveredAt).getTime()
           );
+        case "salary-desc":
+          return (getAnnualSalary(b, "max") ?? -1) - (getAnnualSalary(a, "max") ?? -1);
+        case "salary-asc":
+          return (
+            (getAnnualSalary(a, "min") ?? Infinity) - (getAnnualSalary(b, "min") ?? Infinity)
+          );
         case "company":
           return a.company.localeCompare(b.company);
         default:
@@ -132,7 +171,7 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
     });
 
     return filtered;
-  }, [jobs, filterPriority, filterStatus, sortBy]);
+  }, [jobs, filterPriority, filterStatus, filterSalary, sortBy]);
 
   // Check if all visible jobs are selected
   const allVisibleSelected = useMemo(() => {
@@ -228,11 +267,30 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="saved">Saved</SelectItem>
-                <SelectItem value="applied">Applied</SelectItem>
-                <SelectItem value="interviewing">Interviewing</SelectItem>
-                <SelectItem value="offer">Offer</SelectItem>
-                <SelectItem value="rejected">Rejected</SelectItem>
+                {PIPELINE_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {APPLICATION_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="min-w-[200px]">
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Filter by Salary
+            </label>
+            <Select value={filterSalary} onValueChange={setFilterSalary}>
+              <SelectTrigger>
+                <SelectValue placeholder="Any salary" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Salary</SelectItem>
+                <SelectItem value="50000">$50k+</SelectItem>
+                <SelectItem value="75000">$75k+</SelectItem>
+                <SelectItem value="100000">$100k+</SelectItem>
+                <SelectItem value="150000">$150k+</SelectItem>
+                <SelectItem value="200000">$200k+</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -250,6 +308,8 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                 <SelectItem value="score-asc">Score (Low to High)</SelectItem>
                 <SelectItem value="date-desc">Date (Newest First)</SelectItem>
                 <SelectItem value="date-asc">Date (Oldest First)</SelectItem>
+                <SelectItem value="salary-desc">Salary (High to Low)</SelectItem>
+                <SelectItem value="salary-asc">Salary (Low to High)</SelectItem>
                 <SelectItem value="company">Company (A-Z)</SelectItem>
               </SelectContent>
             </Select>
@@ -357,6 +417,16 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                               <div className="font-semibold text-gray-900 text-sm">
                                 {job.title}
                               </div>
+                              <PostingClosedBadge job={job} className="text-xs" />
+                              {job.contentChangedAt && (
+                                <Badge
+                                  variant="outline"
+                                  className="border-amber-200 bg-amber-50 text-amber-800 text-xs"
+                                  title={`Posting edited on ${new Date(job.contentChangedAt).toLocaleDateString()}`}
+                                >
+                                  Edited
+                                </Badge>
+                              )}
                             </div>
                           </td>
                           <td className="px-6 py-4 text-sm text-gray-600">
@@ -366,7 +436,11 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                             {job.location}
                           </td>
                           <td className="px-6 py-4 text-sm text-gray-600">
-                            {job.salary || "Not specified"}
+                            {job.salaryRange ? (
+                              <span title={job.salary}>{formatSalaryRange(job.salaryRange)}</span>
+                            ) : (
+                              job.salary || "Not specified"
+                            )}
                           </td>
                           <td className="px-6 py-4 text-center">
                             <div
@@ -376,9 +450,30 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                             >
                               {job.score !== undefined ? job.score : "—"}
                             </div>
+                            {job.score === undefined && job.baselineScore && (
+                              <div
+                                className="text-xs text-gray-500"
+                                title="Rule-based baseline score. Use Score Jobs for a full analysis."
+                              >
+                                Baseline {job.baselineScore.score}
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4 text-center">
                             {getPriorityBadge(job.priority)}
+                            {job.dealBreakerViolations && job.dealBreakerViolations.length > 0 && (
+                              <Badge
+                                variant="outline"
+                                className="mt-1 border-red-200 bg-red-50 text-red-700 text-xs"
+                                title={job.dealBreakerViolations
+                                  .map((violation) => violation.message)
+                                  .join("\n")}
+                              >
+                                {DEAL_BREAKER_LABELS[job.dealBreakerViolations[0].rule]}
+                                {job.dealBreakerViolations.length > 1 &&
+                                  ` +${job.dealBreakerViolations.length - 1}`}
+                              </Badge>
+                            )}
                           </td>
                           <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
                             <Select
@@ -391,13 +486,11 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="saved">Saved</SelectItem>
-                                <SelectItem value="applied">Applied</SelectItem>
-                                <SelectItem value="interviewing">
-                                  Interviewing
-                                </SelectItem>
-                                <SelectItem value="offer">Offer</SelectItem>
-                                <SelectItem value="rejected">Rejected</SelectItem>
+                                {PIPELINE_STATUSES.map((status) => (
+                                  <SelectItem key={status} value={status}>
+                                    {APPLICATION_STATUS_LABELS[status]}
+                                  </SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </td>
@@ -429,6 +522,23 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                                   <Sparkles className="w-4 h-4" />
                                 </Button>
                               )}
+                              {onGenerateCoverLetter && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onGenerateCoverLetter(job);
+                                  }}
+                                  className={
+                                    job.coverLetter
+                                      ? "border-blue-300 text-blue-700 hover:bg-blue-50"
+                                      : "hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700"
+                                  }
+                                >
+                                  <Mail className="w-4 h-4" />
+                                </Button>
+                              )}
                               <Button
                                 size="sm"
                                 className="bg-green-600 hover:bg-green-700 text-white"
@@ -459,6 +569,9 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                                   <ScoreBreakdown
                                     score={job.score}
                                     scoreBreakdown={job.scoreBreakdown}
+                                    weights={scoringWeights}
+                                    categories={scoringCategories}
+                                    jobId={job.id}
                                   />
                                 </div>
 
@@ -497,6 +610,16 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                                     </div>
                                   )}
 
+                                  {/* Parsed Requirements */}
+                                  {job.structuredRequirements && (
+                                    <div className="bg-white rounded-lg p-6 border border-gray-200">
+                                      <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                                        Requirements
+                                      </h3>
+                                      <RequirementsSummary requirements={job.structuredRequirements} />
+                                    </div>
+                                  )}
+
                                   {/* Job Description */}
                                   <div className="bg-white rounded-lg p-6 border border-gray-200">
                                     <h3 className="text-lg font-semibold text-gray-900 mb-3">
@@ -509,12 +632,51 @@ export function JobTable({ jobs, onStatusUpdate, onBulkRemove, onBulkScore, onGe
                                 </div>
                               </div>
                             ) : (
-                              <div className="bg-white rounded-lg p-6 border border-gray-200 text-center">
-                                <p className="text-gray-600">
-                                  This job hasn&apos;t been scored yet. Use the Score Jobs feature to analyze this position.
-                                </p>
+                              <div className="space-y-4">
+                                <div className="bg-white rounded-lg p-6 border border-gray-200 text-center">
+                                  <p className="text-gray-600">
+                                    This job hasn&apos;t been scored yet. Use the Score Jobs feature to analyze this position.
+                                  </p>
+                                  {job.baselineScore && (
+                                    <p className="text-sm text-gray-500 mt-2">
+                                      Baseline score: {job.baselineScore.score}/100 ({job.baselineScore.notes.join("; ")})
+                                    </p>
+                                  )}
+                                </div>
+
+                                {/* Parsed Requirements */}
+                                {job.structuredRequirements && (
+                                  <div className="bg-white rounded-lg p-6 border border-gray-200">
+                                    <h3 className="text-lg font-semibold text-gray-900 mb-3">
+                                      Requirements
+                                    </h3>
+                                    <RequirementsSummary requirements={job.structuredRequirements} />
+                                  </div>
+                                )}
                               </div>
                             )}
+
+                            {/* Recruiters, hiring managers and referrals */}
+                            <JobContacts job={job} className="mt-6" />
+
+                            {/* Interview rounds and prep */}
+                            <InterviewLog job={job} className="mt-6" />
+
+                            {/* Status changes of the application */}
+                            <JobStatusTimeline
+                              jobId={job.id}
+                              discoveredAt={job.discoveredAt}
+                              statusUpdatedAt={job.statusUpdatedAt}
+                              className="mt-6"
+                            />
+
+                            {/* Edits detected on the posting */}
+                            <JobRevisionHistory
+                              jobId={job.id}
+                              contentChangedAt={job.contentChangedAt}
+                              onRescore={onBulkScore ? () => onBulkScore([job.id]) : undefined}
+                              className="mt-6"
+                            />
                         </td>
                       </tr>
                     )}
@@ -0,0 +1,250 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Pencil, Plus } from "lucide-react";
+import {
+  OFFER_COMPARISON_YEARS,
+  computeOfferCompensation,
+  computeOfferFactorScore,
+  formatOfferAmount,
+  getOfferFactorRatings,
+} from "@/lib/jobs/offers";
+import { APPLICATION_STATUS_LABELS } from "@/lib/jobs/pipeline";
+import type { ScoringWeights } from "@/lib/jobs/scoring";
+import type { Job } from "@/types/job";
+import type { JobOffer } from "@/types/offer";
+import type { ScoringCategory } from "@/types/profile";
+
+interface OfferComparisonProps {
+  jobs: Job[];
+  offers: JobOffer[];
+  /** Non-monetary factors (scoring categories without salary match) */
+  factorCategories: ScoringCategory[];
+  weights: ScoringWeights;
+  onWeightsChange: (weights: ScoringWeights) => void;
+  onEditOffer: (job: Job) => void;
+}
+
+/**
+ * Days from today until an ISO date (negative once it has passed)
+ */
+function daysUntil(date: string): number {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((new Date(`${date}T00:00`).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * OfferComparison Component
+ *
+ * Side-by-side comparison of the offers for jobs in the offer stages: the
+ * terms, first-year and multi-year total compensation, and a weighted score
+ * of the non-monetary factors. Weights start from the profile's scoring
+ * weights and can be adjusted here.
+ */
+export function OfferComparison({
+  jobs,
+  offers,
+  factorCategories,
+  weights,
+  onWeightsChange,
+  onEditOffer,
+}: OfferComparisonProps) {
+  const columns = jobs.map((job) => {
+    const offer = offers.find((o) => o.jobId === job.id);
+    const ratings = getOfferFactorRatings(offer, job);
+    return {
+      job,
+      offer,
+      ratings,
+      compensation: offer ? computeOfferCompensation(offer) : undefined,
+      factorScore: computeOfferFactorScore(ratings, weights),
+    };
+  });
+
+  // Totals are only comparable between offers in the same currency
+  const currencies = new Set(offers.map((offer) => offer.currency));
+  const bestOf = (value: (column: (typeof columns)[number]) => number | null | undefined) => {
+    const values = columns.map(value).filter((v): v is number => typeof v === "number");
+    return values.length > 1 ? Math.max(...values) : undefined;
+  };
+  const bestFirstYear = currencies.size === 1 ? bestOf((c) => c.compensation?.firstYear) : undefined;
+  const bestMultiYear = currencies.size === 1 ? bestOf((c) => c.compensation?.multiYear) : undefined;
+  const bestFactorScore = bestOf((c) => c.factorScore);
+
+  const moneyRow = (label: string, value: (offer: JobOffer) => number, hint?: (offer: JobOffer) => string) => (
+    <tr>
+      <th className="py-2 pr-4 text-left font-normal text-gray-600">{label}</th>
+      {columns.map(({ job, offer }) => (
+        <td key={job.id} className="py-2 px-4 text-gray-900">
+          {offer ? (
+            <>
+              {formatOfferAmount(value(offer), offer.currency)}
+              {hint && <span className="block text-xs text-gray-500">{hint(offer)}</span>}
+            </>
+          ) : (
+            <span className="text-gray-400">–</span>
+          )}
+        </td>
+      ))}
+    </tr>
+  );
+
+  const highlight = (value: number | null | undefined, best: number | undefined) =>
+    best !== undefined && value === best ? "font-semibold text-green-700" : "font-semibold text-gray-900";
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg border border-gray-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="py-3 px-4" />
+              {columns.map(({ job, offer }) => (
+                <th key={job.id} className="py-3 px-4 text-left align-top min-w-48">
+                  <div className="font-semibold text-gray-900">{job.company}</div>
+                  <div className="font-normal text-gray-600">{job.title}</div>
+                  <div className="flex items-center gap-2 mt-2">
+                    {job.applicationStatus && (
+                      <Badge variant="outline" className="text-xs font-normal">
+                        {APPLICATION_STATUS_LABELS[job.applicationStatus]}
+                      </Badge>
+                    )}
+                    {offer ? (
+                      <Button size="sm" variant="ghost" aria-label="Edit offer" onClick={() => onEditOffer(job)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button size="sm" variant="ghost" onClick={() => onEditOffer(job)}>
+                        <Plus className="w-4 h-4 mr-1" />
+                        Add offer
+                      </Button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 [&_th]:px-4 [&_th]:whitespace-nowrap">
+            {moneyRow("Base salary", (offer) => offer.baseSalary)}
+            {moneyRow("Target bonus", (offer) => offer.annualBonus)}
+            {moneyRow("Sign-on bonus", (offer) => offer.signOnBonus)}
+            {moneyRow(
+              "Equity grant",
+              (offer) => offer.equityValue,
+              (offer) =>
+                offer.equityValue > 0
+                  ? `${offer.vestingSchedule.join("/")}% vesting${offer.cliffMonths > 0 ? `, ${offer.cliffMonths}-month cliff` : ""}`
+                  : ""
+            )}
+            {moneyRow("Benefits value", (offer) => offer.benefitsValue, (offer) => offer.benefits ?? "")}
+            <tr>
+              <th className="py-2 pr-4 text-left font-normal text-gray-600">Start / deadline</th>
+              {columns.map(({ job, offer }) => {
+                const days = offer?.deadline ? daysUntil(offer.deadline) : undefined;
+                return (
+                  <td key={job.id} className="py-2 px-4 text-gray-900">
+                    {offer?.startDate ? new Date(`${offer.startDate}T00:00`).toLocaleDateString() : "–"}
+                    {offer?.deadline && (
+                      <span className={`block text-xs ${days !== undefined && days <= 3 ? "text-red-600" : "text-gray-500"}`}>
+                        Answer by {new Date(`${offer.deadline}T00:00`).toLocaleDateString()}
+                        {days !== undefined && days >= 0 && ` (${days === 0 ? "today" : `${days} day${days === 1 ? "" : "s"}`})`}
+                      </span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+            <tr className="bg-gray-50">
+              <th className="py-2 pr-4 text-left font-medium text-gray-900">First-year total</th>
+              {columns.map(({ job, offer, compensation }) => (
+                <td key={job.id} className={`py-2 px-4 ${highlight(compensation?.firstYear, bestFirstYear)}`}>
+                  {offer && compensation ? formatOfferAmount(compensation.firstYear, offer.currency) : "–"}
+                </td>
+              ))}
+            </tr>
+            <tr className="bg-gray-50">
+              <th className="py-2 pr-4 text-left font-medium text-gray-900">
+                {OFFER_COMPARISON_YEARS}-year total
+              </th>
+              {columns.map(({ job, offer, compensation }) => (
+                <td key={job.id} className={`py-2 px-4 ${highlight(compensation?.multiYear, bestMultiYear)}`}>
+                  {offer && compensation ? (
+                    <>
+                      {formatOfferAmount(compensation.multiYear, offer.currency)}
+                      <span className="block text-xs font-normal text-gray-500">
+                        {formatOfferAmount(compensation.multiYear / OFFER_COMPARISON_YEARS, offer.currency)}/yr on average
+                      </span>
+                    </>
+                  ) : (
+                    "–"
+                  )}
+                </td>
+              ))}
+            </tr>
+            {factorCategories.map((category) => (
+              <tr key={category.id}>
+                <th className="py-2 pr-4 text-left font-normal text-gray-600">{category.label}</th>
+                {columns.map(({ job, offer, ratings }) => (
+                  <td key={job.id} className="py-2 px-4 text-gray-900">
+                    {typeof ratings[category.id] === "number" ? (
+                      <>
+                        {Math.round(ratings[category.id] * 5 * 10) / 10}/5
+                        {offer?.factorRatings[category.id] === undefined && (
+                          <span className="ml-1 text-xs text-gray-500">(job score)</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-gray-400">–</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr className="bg-gray-50">
+              <th className="py-2 pr-4 text-left font-medium text-gray-900">Factor score</th>
+              {columns.map(({ job, factorScore }) => (
+                <td key={job.id} className={`py-2 px-4 ${highlight(factorScore, bestFactorScore)}`}>
+                  {factorScore !== null ? `${factorScore}/100` : "–"}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {currencies.size > 1 && (
+        <p className="text-sm text-amber-700">
+          These offers are in different currencies ({Array.from(currencies).join(", ")}), so their totals are not highlighted.
+        </p>
+      )}
+
+      {factorCategories.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-1">Factor weights</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            How much each factor counts in the factor score. Starts from your scoring weights; salary is compared in the totals above instead.
+          </p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {factorCategories.map((category) => (
+              <label key={category.id} className="space-y-1 text-sm">
+                <span className="text-gray-700">{category.label}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={weights[category.id] ?? 0}
+                  onChange={(e) =>
+                    onWeightsChange({ ...weights, [category.id]: Math.max(0, Number(e.target.value) || 0) })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
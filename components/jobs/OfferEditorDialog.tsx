@@ -0,0 +1,322 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { DEFAULT_VESTING_SCHEDULE } from "@/lib/jobs/offers";
+import type { Job } from "@/types/job";
+import type { JobOffer } from "@/types/offer";
+import type { ScoringCategory } from "@/types/profile";
+
+interface OfferEditorDialogProps {
+  job: Job | null;
+  offer?: JobOffer;
+  /** Non-monetary factors the user can rate */
+  factorCategories: ScoringCategory[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (offer: JobOffer) => void;
+  onDeleted: (jobId: string) => void;
+}
+
+const MONEY_FIELDS = [
+  { key: "baseSalary", label: "Base salary (per year)" },
+  { key: "annualBonus", label: "Target bonus (per year)" },
+  { key: "signOnBonus", label: "Sign-on bonus" },
+  { key: "equityValue", label: "Equity grant (total value)" },
+  { key: "benefitsValue", label: "Benefits value (per year)" },
+] as const;
+
+type MoneyField = (typeof MONEY_FIELDS)[number]["key"];
+
+interface OfferForm extends Record<MoneyField, string> {
+  currency: string;
+  vestingSchedule: string;
+  cliffMonths: string;
+  benefits: string;
+  startDate: string;
+  deadline: string;
+  /** Rating out of 5 per factor ("" falls back to the job's score) */
+  factorRatings: Record<string, string>;
+  notes: string;
+}
+
+function toForm(job: Job, offer?: JobOffer): OfferForm {
+  return {
+    currency: offer?.currency ?? job.salaryRange?.currency ?? "USD",
+    baseSalary: offer ? String(offer.baseSalary) : "",
+    annualBonus: offer ? String(offer.annualBonus) : "",
+    signOnBonus: offer ? String(offer.signOnBonus) : "",
+    equityValue: offer ? String(offer.equityValue) : "",
+    benefitsValue: offer ? String(offer.benefitsValue) : "",
+    vestingSchedule: (offer?.vestingSchedule ?? DEFAULT_VESTING_SCHEDULE).join(", "),
+    cliffMonths: String(offer?.cliffMonths ?? 12),
+    benefits: offer?.benefits ?? "",
+    startDate: offer?.startDate ?? "",
+    deadline: offer?.deadline ?? "",
+    factorRatings: Object.fromEntries(
+      Object.entries(offer?.factorRatings ?? {}).map(([id, rating]) => [id, String(Math.round(rating * 5))])
+    ),
+    notes: offer?.notes ?? "",
+  };
+}
+
+/**
+ * OfferEditorDialog Component
+ *
+ * Enters the terms of a job's offer (pay, equity and vesting, benefits,
+ * dates) and the user's ratings of its non-monetary factors.
+ */
+export function OfferEditorDialog({
+  job,
+  offer,
+  factorCategories,
+  open,
+  onOpenChange,
+  onSaved,
+  onDeleted,
+}: OfferEditorDialogProps) {
+  const [form, setForm] = useState<OfferForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && job) {
+      setForm(toForm(job, offer));
+    }
+  }, [open, job, offer]);
+
+  if (!job || !form) return null;
+
+  const handleSave = async () => {
+    const toAmount = (value: string) => (value.trim() ? Number(value) : 0);
+    const body = {
+      currency: form.currency,
+      ...Object.fromEntries(MONEY_FIELDS.map(({ key }) => [key, toAmount(form[key])])),
+      vestingSchedule: form.vestingSchedule
+        .split(",")
+        .map((percent) => percent.trim())
+        .filter(Boolean)
+        .map(Number),
+      cliffMonths: toAmount(form.cliffMonths),
+      benefits: form.benefits,
+      startDate: form.startDate || null,
+      deadline: form.deadline || null,
+      factorRatings: Object.fromEntries(
+        Object.entries(form.factorRatings)
+          .filter(([, rating]) => rating)
+          .map(([id, rating]) => [id, Number(rating) / 5])
+      ),
+      notes: form.notes,
+    };
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/offer`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save offer");
+      }
+
+      onSaved(data.offer);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving offer:", error);
+      toast.error("Failed to save offer", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      const response = await fetch(`/api/jobs/${job.id}/offer`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete offer");
+      }
+
+      onDeleted(job.id);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error deleting offer:", error);
+      toast.error("Failed to delete offer");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{offer ? "Edit offer" : "Add offer"}</DialogTitle>
+          <DialogDescription>
+            {job.title} at {job.company}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="offer-currency">Currency</Label>
+            <Input
+              id="offer-currency"
+              maxLength={3}
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+            />
+          </div>
+          {MONEY_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`offer-${key}`}>{label}</Label>
+              <Input
+                id={`offer-${key}`}
+                type="number"
+                min={0}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+              />
+            </div>
+          ))}
+          <div className="space-y-1">
+            <Label htmlFor="offer-vesting">Vesting per year (%)</Label>
+            <Input
+              id="offer-vesting"
+              placeholder="25, 25, 25, 25"
+              value={form.vestingSchedule}
+              onChange={(e) => setForm({ ...form, vestingSchedule: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="offer-cliff">Cliff (months)</Label>
+            <Input
+              id="offer-cliff"
+              type="number"
+              min={0}
+              value={form.cliffMonths}
+              onChange={(e) => setForm({ ...form, cliffMonths: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="offer-start">Start date</Label>
+            <Input
+              id="offer-start"
+              type="date"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="offer-deadline">Decision deadline</Label>
+            <Input
+              id="offer-deadline"
+              type="date"
+              value={form.deadline}
+              onChange={(e) => setForm({ ...form, deadline: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="offer-benefits">Benefits</Label>
+          <Textarea
+            id="offer-benefits"
+            placeholder="e.g. 401k 4% match, full health coverage, 25 days PTO"
+            value={form.benefits}
+            onChange={(e) => setForm({ ...form, benefits: e.target.value })}
+          />
+        </div>
+
+        {factorCategories.length > 0 && (
+          <div className="space-y-2">
+            <Label>How does this offer rate on...</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {factorCategories.map((category) => (
+                <div key={category.id} className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-gray-700">{category.label}</span>
+                  <Select
+                    value={form.factorRatings[category.id] || "job"}
+                    onValueChange={(value) =>
+                      setForm({
+                        ...form,
+                        factorRatings: {
+                          ...form.factorRatings,
+                          [category.id]: value === "job" ? "" : value,
+                        },
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="job">From job score</SelectItem>
+                      {[1, 2, 3, 4, 5].map((rating) => (
+                        <SelectItem key={rating} value={String(rating)}>
+                          {rating}/5
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="offer-notes">Notes</Label>
+          <Textarea
+            id="offer-notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          {offer ? (
+            <Button variant="ghost" className="text-red-600" onClick={handleDelete}>
+              Delete offer
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!form.baseSalary || isSaving}>
+              Save offer
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,31 @@
+import { Badge } from "@/components/ui/badge";
+import { CircleOff } from "lucide-react";
+import type { Job } from "@/types/job";
+
+interface PostingClosedBadgeProps {
+  job: Job;
+  className?: string;
+}
+
+/**
+ * PostingClosedBadge Component
+ *
+ * Marks a job whose posting was found closed or expired by the liveness check.
+ * Renders nothing while the posting is open.
+ */
+export function PostingClosedBadge({ job, className = "" }: PostingClosedBadgeProps) {
+  if (!job.closedAt) return null;
+
+  const closedOn = new Date(job.closedAt).toLocaleDateString();
+
+  return (
+    <Badge
+      variant="outline"
+      className={`border-gray-300 bg-gray-100 text-gray-700 ${className}`}
+      title={job.closedReason ? `${job.closedReason} (found ${closedOn})` : `Found closed ${closedOn}`}
+    >
+      <CircleOff className="w-3 h-3" />
+      Posting closed
+    </Badge>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Bell, CalendarPlus, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { isReminderDue, type JobReminder } from "@/types/reminder";
+
+interface RemindersPanelProps {
+  /** Reloads the reminders when it changes (e.g. after a status update) */
+  refreshKey?: string | number;
+}
+
+/**
+ * Formats a timestamp as the value of a date input (local date)
+ */
+function toDateInputValue(iso: string): string {
+  const date = new Date(iso);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * RemindersPanel Component
+ *
+ * Lists the follow-up reminders due today (and overdue ones) on the jobs page.
+ * Reminders can be completed, edited or deleted, and the whole list can be
+ * subscribed to as a calendar feed.
+ */
+export function RemindersPanel({ refreshKey }: RemindersPanelProps) {
+  const [reminders, setReminders] = useState<JobReminder[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [editDate, setEditDate] = useState("");
+  const [showUpcoming, setShowUpcoming] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReminders = async () => {
+      try {
+        const response = await fetch("/api/reminders", { credentials: "include" });
+        const data = await response.json();
+        if (!cancelled) {
+          setReminders(data.reminders || []);
+        }
+      } catch (error) {
+        console.error("Error loading reminders:", error);
+      }
+    };
+
+    loadReminders();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshKey]);
+
+  const updateReminder = async (
+    reminder: JobReminder,
+    updates: { title?: string; dueAt?: string; completed?: boolean }
+  ) => {
+    try {
+      const response = await fetch(`/api/reminders/${reminder.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(updates),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update reminder");
+      }
+
+      setReminders((current) =>
+        updates.completed
+          ? current.filter((r) => r.id !== reminder.id)
+          : current.map((r) => (r.id === reminder.id ? data.reminder : r))
+      );
+      if (updates.completed) {
+        toast.success("Reminder done", { description: reminder.title });
+      }
+    } catch (error) {
+      console.error("Error updating reminder:", error);
+      toast.error("Update failed", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const deleteReminder = async (reminder: JobReminder) => {
+    try {
+      const response = await fetch(`/api/reminders/${reminder.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete reminder");
+      }
+
+      setReminders((current) => current.filter((r) => r.id !== reminder.id));
+    } catch (error) {
+      console.error("Error deleting reminder:", error);
+      toast.error("Failed to delete reminder");
+    }
+  };
+
+  const startEditing = (reminder: JobReminder) => {
+    setEditingId(reminder.id);
+    setEditTitle(reminder.title);
+    setEditDate(toDateInputValue(reminder.dueAt));
+  };
+
+  const saveEdit = async (reminder: JobReminder) => {
+    // Rescheduled reminders are due at 9am local time on the chosen day
+    const dueAt = editDate ? new Date(`${editDate}T09:00`).toISOString() : reminder.dueAt;
+    await updateReminder(reminder, { title: editTitle, dueAt });
+    setEditingId(null);
+  };
+
+  const copyFeedUrl = async () => {
+    try {
+      const response = await fetch("/api/reminders/calendar", { credentials: "include" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to get calendar feed");
+      }
+
+      await navigator.clipboard.writeText(data.feedUrl);
+      toast.success("Calendar feed URL copied", {
+        description: "Subscribe to it in your calendar app (e.g. \"Add calendar from URL\").",
+      });
+    } catch (error) {
+      console.error("Error getting calendar feed:", error);
+      toast.error("Could not get the calendar feed URL");
+    }
+  };
+
+  const now = new Date();
+  const due = reminders.filter((reminder) => isReminderDue(reminder, now));
+  const upcomingCount = reminders.length - due.length;
+  const visible = showUpcoming ? reminders : due;
+  const today = toDateInputValue(now.toISOString());
+
+  if (reminders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          Due Today
+          {due.length > 0 && <span className="text-sm font-normal text-gray-500">({due.length})</span>}
+        </h2>
+        <Button size="sm" variant="outline" onClick={copyFeedUrl}>
+          <CalendarPlus className="w-4 h-4 mr-1" />
+          Calendar feed
+        </Button>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {due.length === 0 && (
+          <p className="p-3 text-sm text-gray-600">Nothing due today.</p>
+        )}
+
+        {visible.map((reminder) => {
+          const dueDate = toDateInputValue(reminder.dueAt);
+
+          return (
+            <div key={reminder.id} className="flex items-center gap-3 p-3">
+              <Checkbox
+                checked={false}
+                onCheckedChange={() => updateReminder(reminder, { completed: true })}
+                aria-label={`Mark "${reminder.title}" as done`}
+              />
+
+              {editingId === reminder.id ? (
+                <div className="flex flex-1 flex-wrap items-center gap-2">
+                  <Input
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    className="flex-1 min-w-48"
+                  />
+                  <Input
+                    type="date"
+                    value={editDate}
+                    onChange={(e) => setEditDate(e.target.value)}
+                    className="w-40"
+                  />
+                  <Button size="sm" onClick={() => saveEdit(reminder)} disabled={!editTitle.trim()}>
+                    Save
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium text-gray-900">{reminder.title}</p>
+                    {reminder.job && (
+                      <p className="text-xs text-gray-600 truncate">
+                        {reminder.job.title} at {reminder.job.company}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`text-xs ${dueDate < today ? "text-red-600" : "text-gray-500"}`}>
+                    {dueDate === today
+                      ? "Today"
+                      : `${dueDate < today ? "Overdue since" : "Due"} ${new Date(reminder.dueAt).toLocaleDateString()}`}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => startEditing(reminder)}
+                    aria-label="Edit reminder"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteReminder(reminder)}
+                    aria-label="Delete reminder"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          );
+        })}
+
+        {upcomingCount > 0 && (
+          <button
+            className="w-full p-3 text-left text-xs text-gray-500 hover:text-gray-700"
+            onClick={() => setShowUpcoming(!showUpcoming)}
+          >
+            {showUpcoming
+              ? "Hide upcoming reminders"
+              : `Show ${upcomingCount} upcoming reminder${upcomingCount === 1 ? "" : "s"}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
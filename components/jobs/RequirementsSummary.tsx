@@ -0,0 +1,97 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Briefcase, GraduationCap } from "lucide-react";
+import type { DegreeLevel, JobRequirements } from "@/types/job";
+
+interface RequirementsSummaryProps {
+  requirements: JobRequirements;
+}
+
+const DEGREE_LABELS: Record<DegreeLevel, string> = {
+  associate: "Associate's degree",
+  bachelor: "Bachelor's degree",
+  master: "Master's degree",
+  phd: "PhD",
+};
+
+function formatYears(years: NonNullable<JobRequirements["yearsOfExperience"]>): string {
+  if (years.max !== undefined && years.max !== years.min) {
+    return `${years.min}-${years.max} years`;
+  }
+  return `${years.min}+ years`;
+}
+
+export function RequirementsSummary({ requirements }: RequirementsSummaryProps) {
+  const { required, preferred, yearsOfExperience, degreeLevel, technologies } = requirements;
+
+  const isEmpty =
+    required.length === 0 &&
+    preferred.length === 0 &&
+    technologies.length === 0 &&
+    !yearsOfExperience &&
+    !degreeLevel;
+
+  if (isEmpty) {
+    return (
+      <p className="text-sm text-gray-500">
+        No requirements could be extracted from this posting.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Experience, degree and technologies */}
+      {(yearsOfExperience || degreeLevel || technologies.length > 0) && (
+        <div className="flex flex-wrap gap-2">
+          {yearsOfExperience && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <Briefcase className="w-3 h-3" />
+              {formatYears(yearsOfExperience)}
+            </Badge>
+          )}
+          {degreeLevel && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <GraduationCap className="w-3 h-3" />
+              {DEGREE_LABELS[degreeLevel]}
+            </Badge>
+          )}
+          {technologies.map((tech) => (
+            <Badge key={tech} variant="outline">
+              {tech}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {required.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Required</h4>
+          <ul className="space-y-1">
+            {required.map((item, idx) => (
+              <li key={idx} className="text-sm text-gray-700 flex items-start gap-2">
+                <span className="text-blue-600 mt-0.5">•</span>
+                <span>{item}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {preferred.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Preferred</h4>
+          <ul className="space-y-1">
+            {preferred.map((item, idx) => (
+              <li key={idx} className="text-sm text-gray-600 flex items-start gap-2">
+                <span className="text-gray-400 mt-0.5">•</span>
+                <span>{item}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
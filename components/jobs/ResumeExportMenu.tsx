@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { RESUME_EXPORT_FORMATS, type ResumeExportFormat } from "@/lib/resume-export/formats";
+import {
+  DEFAULT_RESUME_TEMPLATE,
+  RESUME_TEMPLATES,
+  type ResumeTemplateId,
+} from "@/lib/resume-export/templates";
+
+interface ResumeExportMenuProps {
+  jobId: string;
+  onDownloadMarkdown: () => void;
+  /** False until the resume is saved to the job (documents are rendered from the saved copy) */
+  canExport?: boolean;
+}
+
+/**
+ * ResumeExportMenu Component
+ *
+ * Download menu for a tailored resume: the raw markdown, or a PDF, Word or
+ * HTML document rendered by the server in the chosen template.
+ */
+export function ResumeExportMenu({ jobId, onDownloadMarkdown, canExport = true }: ResumeExportMenuProps) {
+  const [template, setTemplate] = useState<ResumeTemplateId>(DEFAULT_RESUME_TEMPLATE);
+  const [exporting, setExporting] = useState<ResumeExportFormat | null>(null);
+
+  const handleExport = async (format: ResumeExportFormat) => {
+    setExporting(format);
+
+    try {
+      const response = await fetch(
+        `/api/jobs/${jobId}/resume/export?format=${format}&template=${template}`,
+        { credentials: "include" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to export resume");
+      }
+
+      const filename =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ||
+        `Resume.${format}`;
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+
+      const pageWarning = response.headers.get("X-Resume-Page-Warning");
+      if (pageWarning) {
+        toast.warning(pageWarning, {
+          description: "Try the Compact template or trim older experience.",
+        });
+      }
+    } catch (error) {
+      console.error("Error exporting resume:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export resume");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="text-xs" disabled={exporting !== null}>
+          {exporting ? (
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          ) : (
+            <Download className="w-3 h-3 mr-1" />
+          )}
+          Download
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuItem onClick={onDownloadMarkdown}>Markdown (.md)</DropdownMenuItem>
+        {(Object.keys(RESUME_EXPORT_FORMATS) as ResumeExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} disabled={!canExport} onClick={() => handleExport(format)}>
+            {RESUME_EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-gray-500">Template</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={template} onValueChange={(value) => setTemplate(value as ResumeTemplateId)}>
+          {Object.values(RESUME_TEMPLATES).map((option) => (
+            <DropdownMenuRadioItem
+              key={option.id}
+              value={option.id}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <div>
+                <div>{option.label}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
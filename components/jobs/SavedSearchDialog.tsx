@@ -0,0 +1,320 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import type { SavedSearch, SavedSearchFrequency, SavedSearchSource } from "@/types/saved-search";
+
+interface SavedSearchDialogProps {
+  /** Search to edit (creates a new one when omitted) */
+  savedSearch?: SavedSearch;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (savedSearch: SavedSearch) => void;
+}
+
+interface SavedSearchForm {
+  name: string;
+  query: string;
+  location: string;
+  adzuna: boolean;
+  /** Comma-separated Greenhouse board tokens */
+  greenhouseBoards: string;
+  /** Comma-separated Lever company slugs */
+  leverCompanies: string;
+  remoteOnly: boolean;
+  salaryMin: string;
+  excludeKeywords: string;
+  resultsCount: string;
+  frequency: SavedSearchFrequency;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toForm(savedSearch?: SavedSearch): SavedSearchForm {
+  const sources = savedSearch?.sources ?? [{ source: "adzuna" }];
+
+  return {
+    name: savedSearch?.name ?? "",
+    query: savedSearch?.query ?? "",
+    location: savedSearch?.location ?? "",
+    adzuna: sources.some((source) => source.source === "adzuna"),
+    greenhouseBoards: sources
+      .flatMap((source) => (source.source === "greenhouse" ? [source.boardToken] : []))
+      .join(", "),
+    leverCompanies: sources
+      .flatMap((source) => (source.source === "lever" ? [source.companySlug] : []))
+      .join(", "),
+    remoteOnly: savedSearch?.filters.remoteOnly ?? false,
+    salaryMin: savedSearch?.filters.salaryMin ? String(savedSearch.filters.salaryMin) : "",
+    excludeKeywords: (savedSearch?.filters.excludeKeywords ?? []).join(", "),
+    resultsCount: String(savedSearch?.resultsCount ?? 20),
+    frequency: savedSearch?.frequency ?? "daily",
+  };
+}
+
+/**
+ * Builds the sources of the form, keeping the company names of unchanged ATS boards
+ */
+function toSources(form: SavedSearchForm, previous: SavedSearchSource[] = []): SavedSearchSource[] {
+  const companyName = (match: (source: SavedSearchSource) => boolean) => {
+    const existing = previous.find(match);
+    return existing && existing.source !== "adzuna" ? existing.companyName : undefined;
+  };
+
+  return [
+    ...(form.adzuna ? [{ source: "adzuna" as const }] : []),
+    ...splitList(form.greenhouseBoards).map((boardToken) => ({
+      source: "greenhouse" as const,
+      boardToken,
+      companyName: companyName((s) => s.source === "greenhouse" && s.boardToken === boardToken),
+    })),
+    ...splitList(form.leverCompanies).map((companySlug) => ({
+      source: "lever" as const,
+      companySlug,
+      companyName: companyName((s) => s.source === "lever" && s.companySlug === companySlug),
+    })),
+  ];
+}
+
+/**
+ * SavedSearchDialog Component
+ *
+ * Creates or edits a saved search: the query, where to search (Adzuna and
+ * Greenhouse or Lever boards), filters and how often it runs.
+ */
+export function SavedSearchDialog({
+  savedSearch,
+  open,
+  onOpenChange,
+  onSaved,
+}: SavedSearchDialogProps) {
+  const [form, setForm] = useState<SavedSearchForm>(() => toForm(savedSearch));
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(toForm(savedSearch));
+    }
+  }, [open, savedSearch]);
+
+  const sources = toSources(form, savedSearch?.sources);
+
+  const handleSave = async () => {
+    const body = {
+      name: form.name,
+      query: form.query,
+      location: form.location,
+      sources,
+      filters: {
+        remoteOnly: form.remoteOnly || undefined,
+        salaryMin: form.salaryMin.trim() ? Number(form.salaryMin) : undefined,
+        excludeKeywords: splitList(form.excludeKeywords),
+      },
+      resultsCount: Number(form.resultsCount) || 20,
+      frequency: form.frequency,
+    };
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(
+        savedSearch ? `/api/saved-searches/${savedSearch.id}` : "/api/saved-searches",
+        {
+          method: savedSearch ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save search");
+      }
+
+      onSaved(data.savedSearch);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving search:", error);
+      toast.error("Failed to save search", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{savedSearch ? "Edit saved search" : "New saved search"}</DialogTitle>
+          <DialogDescription>
+            Runs on a schedule; jobs you haven&apos;t seen yet land in your inbox.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1 sm:col-span-2">
+            <Label htmlFor="saved-search-name">Name</Label>
+            <Input
+              id="saved-search-name"
+              placeholder="e.g. Remote staff engineer roles"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="saved-search-query">Keywords</Label>
+            <Input
+              id="saved-search-query"
+              placeholder="e.g. staff software engineer"
+              value={form.query}
+              onChange={(e) => setForm({ ...form, query: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="saved-search-location">Location</Label>
+            <Input
+              id="saved-search-location"
+              placeholder="e.g. Remote, New York"
+              value={form.location}
+              onChange={(e) => setForm({ ...form, location: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Sources</Label>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="saved-search-adzuna"
+              checked={form.adzuna}
+              onCheckedChange={(checked) => setForm({ ...form, adzuna: checked === true })}
+            />
+            <Label htmlFor="saved-search-adzuna" className="font-normal">
+              Adzuna job board
+            </Label>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-greenhouse" className="text-xs text-gray-600">
+                Greenhouse boards (comma-separated)
+              </Label>
+              <Input
+                id="saved-search-greenhouse"
+                placeholder="e.g. airbnb, stripe"
+                value={form.greenhouseBoards}
+                onChange={(e) => setForm({ ...form, greenhouseBoards: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-lever" className="text-xs text-gray-600">
+                Lever companies (comma-separated)
+              </Label>
+              <Input
+                id="saved-search-lever"
+                placeholder="e.g. netflix"
+                value={form.leverCompanies}
+                onChange={(e) => setForm({ ...form, leverCompanies: e.target.value })}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex items-center gap-2 sm:col-span-2">
+            <Checkbox
+              id="saved-search-remote"
+              checked={form.remoteOnly}
+              onCheckedChange={(checked) => setForm({ ...form, remoteOnly: checked === true })}
+            />
+            <Label htmlFor="saved-search-remote" className="font-normal">
+              Remote jobs only
+            </Label>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="saved-search-salary">Minimum salary (USD per year)</Label>
+            <Input
+              id="saved-search-salary"
+              type="number"
+              min={0}
+              value={form.salaryMin}
+              onChange={(e) => setForm({ ...form, salaryMin: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="saved-search-exclude">Exclude keywords (comma-separated)</Label>
+            <Input
+              id="saved-search-exclude"
+              placeholder="e.g. intern, sales"
+              value={form.excludeKeywords}
+              onChange={(e) => setForm({ ...form, excludeKeywords: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="saved-search-results">Results per source</Label>
+            <Input
+              id="saved-search-results"
+              type="number"
+              min={1}
+              max={50}
+              value={form.resultsCount}
+              onChange={(e) => setForm({ ...form, resultsCount: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Runs</Label>
+            <Select
+              value={form.frequency}
+              onValueChange={(value) => setForm({ ...form, frequency: value as SavedSearchFrequency })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!form.name.trim() || !form.query.trim() || sources.length === 0 || isSaving}
+          >
+            Save search
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
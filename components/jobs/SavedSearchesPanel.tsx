@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { SavedSearchDialog } from "@/components/jobs/SavedSearchDialog";
+import { Loader2, Pause, Pencil, Play, Plus, RefreshCw, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { SavedSearch, SavedSearchRun } from "@/types/saved-search";
+
+interface SavedSearchesPanelProps {
+  /** Called after a manual run so the inbox can reload its jobs */
+  onRun?: (run: SavedSearchRun) => void;
+}
+
+/**
+ * Describes where a saved search looks (e.g. "Adzuna · Greenhouse: stripe")
+ */
+function describeSources(search: SavedSearch): string {
+  const boards = (source: "greenhouse" | "lever") =>
+    search.sources.flatMap((s) =>
+      s.source === source ? [s.companyName || (s.source === "greenhouse" ? s.boardToken : s.companySlug)] : []
+    );
+
+  return [
+    search.sources.some((s) => s.source === "adzuna") ? "Adzuna" : "",
+    boards("greenhouse").length > 0 ? `Greenhouse: ${boards("greenhouse").join(", ")}` : "",
+    boards("lever").length > 0 ? `Lever: ${boards("lever").join(", ")}` : "",
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * SavedSearchesPanel Component
+ *
+ * Lists the user's saved searches on the inbox page. Searches can be created,
+ * edited, paused, deleted or run right away.
+ */
+export function SavedSearchesPanel({ onRun }: SavedSearchesPanelProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [runningIds, setRunningIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<SavedSearch | undefined>(undefined);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    const loadSavedSearches = async () => {
+      try {
+        const response = await fetch("/api/saved-searches", { credentials: "include" });
+        const data = await response.json();
+        setSavedSearches(data.savedSearches || []);
+      } catch (error) {
+        console.error("Error loading saved searches:", error);
+      }
+    };
+
+    loadSavedSearches();
+  }, []);
+
+  const openDialog = (savedSearch?: SavedSearch) => {
+    setEditing(savedSearch);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = (savedSearch: SavedSearch) => {
+    setSavedSearches((current) =>
+      current.some((s) => s.id === savedSearch.id)
+        ? current.map((s) => (s.id === savedSearch.id ? savedSearch : s))
+        : [savedSearch, ...current]
+    );
+    toast.success(editing ? "Saved search updated" : "Saved search created", {
+      description: editing ? savedSearch.name : "Use Run now to fill your inbox right away.",
+    });
+  };
+
+  const toggleEnabled = async (savedSearch: SavedSearch) => {
+    try {
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ enabled: !savedSearch.enabled }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update saved search");
+      }
+
+      setSavedSearches((current) => current.map((s) => (s.id === savedSearch.id ? data.savedSearch : s)));
+    } catch (error) {
+      console.error("Error updating saved search:", error);
+      toast.error("Update failed", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    }
+  };
+
+  const deleteSavedSearch = async (savedSearch: SavedSearch) => {
+    try {
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete saved search");
+      }
+
+      setSavedSearches((current) => current.filter((s) => s.id !== savedSearch.id));
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      toast.error("Failed to delete saved search");
+    }
+  };
+
+  const runNow = async (savedSearch: SavedSearch) => {
+    setRunningIds((prev) => new Set(prev).add(savedSearch.id));
+
+    try {
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}/runs`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to run saved search");
+      }
+
+      const run: SavedSearchRun = data.run;
+      setSavedSearches((current) =>
+        current.map((s) => (s.id === savedSearch.id ? { ...s, lastRunAt: run.startedAt } : s))
+      );
+      toast.success(`${run.newCount} new ${run.newCount === 1 ? "job" : "jobs"} in your inbox`, {
+        description: `${run.foundCount} found, ${run.filteredCount} filtered, ${run.alreadySeenCount} already seen${run.errors.length > 0 ? ` · ${run.errors.join("; ")}` : ""}`,
+      });
+      onRun?.(run);
+    } catch (error) {
+      console.error("Error running saved search:", error);
+      toast.error("Run failed", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      });
+    } finally {
+      setRunningIds((prev) => {
+        const next = new Set(prev);
+        next.delete(savedSearch.id);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Search className="w-5 h-5" />
+          Saved Searches
+        </h2>
+        <Button size="sm" variant="outline" onClick={() => openDialog()}>
+          <Plus className="w-4 h-4 mr-1" />
+          New search
+        </Button>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg divide-y divide-gray-100">
+        {savedSearches.length === 0 && (
+          <p className="p-3 text-sm text-gray-600">
+            No saved searches yet. Save a search to have new matching jobs delivered to your inbox.
+          </p>
+        )}
+
+        {savedSearches.map((savedSearch) => (
+          <div key={savedSearch.id} className="flex items-center gap-3 p-3">
+            <div className="min-w-0 flex-1">
+              <p className={`text-sm font-medium ${savedSearch.enabled ? "text-gray-900" : "text-gray-500"}`}>
+                {savedSearch.name}
+                {!savedSearch.enabled && <span className="ml-2 text-xs font-normal">(paused)</span>}
+              </p>
+              <p className="text-xs text-gray-600 truncate">
+                &quot;{savedSearch.query}&quot;{savedSearch.location && ` in ${savedSearch.location}`} ·{" "}
+                {describeSources(savedSearch)} · {savedSearch.frequency === "daily" ? "Daily" : "Weekly"}
+              </p>
+              <p className="text-xs text-gray-500">
+                {savedSearch.lastRunAt
+                  ? `Last run ${new Date(savedSearch.lastRunAt).toLocaleString()}`
+                  : "Not run yet"}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => runNow(savedSearch)}
+              disabled={runningIds.has(savedSearch.id)}
+              aria-label="Run now"
+            >
+              {runningIds.has(savedSearch.id) ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <RefreshCw className="w-4 h-4" />
+              )}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => toggleEnabled(savedSearch)}
+              aria-label={savedSearch.enabled ? "Pause saved search" : "Resume saved search"}
+            >
+              {savedSearch.enabled ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => openDialog(savedSearch)}
+              aria-label="Edit saved search"
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => deleteSavedSearch(savedSearch)}
+              aria-label="Delete saved search"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <SavedSearchDialog
+        savedSearch={editing}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+}
@@ -2,13 +2,43 @@
 
 import { useEffect, useState } from "react";
 import type { Job } from "@/types/job";
+import {
+  BUILT_IN_SCORING_CATEGORIES,
+  DEFAULT_SCORING_WEIGHTS,
+  type ScoringCategory,
+} from "@/types/profile";
+import { ratingsToPoints, type ScoringWeights } from "@/lib/jobs/scoring";
+import { ScoreHistory } from "./ScoreHistory";
 
 interface ScoreBreakdownProps {
   score: number;
   scoreBreakdown?: Job["scoreBreakdown"];
+  /** Weights used to turn the category ratings into points (defaults if omitted) */
+  weights?: ScoringWeights;
+  /** Categories to show, in order (built-in categories if omitted) */
+  categories?: ScoringCategory[];
+  /** When set, the job's score history is loaded and shown below the breakdown */
+  jobId?: string;
 }
 
-export function ScoreBreakdown({ score, scoreBreakdown }: ScoreBreakdownProps) {
+const CATEGORY_COLORS = [
+  "bg-gradient-to-r from-blue-500 to-blue-600",
+  "bg-gradient-to-r from-green-500 to-green-600",
+  "bg-gradient-to-r from-purple-500 to-purple-600",
+  "bg-gradient-to-r from-yellow-500 to-yellow-600",
+  "bg-gradient-to-r from-red-500 to-red-600",
+  "bg-gradient-to-r from-teal-500 to-teal-600",
+  "bg-gradient-to-r from-pink-500 to-pink-600",
+  "bg-gradient-to-r from-orange-500 to-orange-600",
+];
+
+export function ScoreBreakdown({
+  score,
+  scoreBreakdown,
+  weights = DEFAULT_SCORING_WEIGHTS,
+  categories: scoringCategories = BUILT_IN_SCORING_CATEGORIES,
+  jobId,
+}: ScoreBreakdownProps) {
   const [animated, setAnimated] = useState(false);
 
   useEffect(() => {
@@ -30,39 +60,18 @@ export function ScoreBreakdown({ score, scoreBreakdown }: ScoreBreakdownProps) {
     return "from-gray-500 to-slate-500";
   };
 
-  const categories = scoreBreakdown
-    ? [
-        {
-          label: "Salary Match",
-          value: scoreBreakdown.salaryMatch,
-          max: 30,
-          color: "bg-gradient-to-r from-blue-500 to-blue-600",
-        },
-        {
-          label: "Location Fit",
-          value: scoreBreakdown.locationFit,
-          max: 20,
-          color: "bg-gradient-to-r from-green-500 to-green-600",
-        },
-        {
-          label: "Company Appeal",
-          value: scoreBreakdown.companyAppeal,
-          max: 25,
-          color: "bg-gradient-to-r from-purple-500 to-purple-600",
-        },
-        {
-          label: "Role Match",
-          value: scoreBreakdown.roleMatch,
-          max: 15,
-          color: "bg-gradient-to-r from-yellow-500 to-yellow-600",
-        },
-        {
-          label: "Requirements Fit",
-          value: scoreBreakdown.requirementsFit,
-          max: 10,
-          color: "bg-gradient-to-r from-red-500 to-red-600",
-        },
-      ]
+  const points = scoreBreakdown ? ratingsToPoints(scoreBreakdown, weights) : undefined;
+
+  // Categories with no weight are hidden; unrated ones (added after scoring) show as such
+  const categories = points
+    ? scoringCategories
+        .filter((category) => (weights[category.id] ?? 0) > 0)
+        .map((category, index) => ({
+          label: category.label,
+          value: points[category.id] as number | undefined,
+          max: weights[category.id],
+          color: CATEGORY_COLORS[index % CATEGORY_COLORS.length],
+        }))
     : [];
 
   return (
@@ -91,7 +100,10 @@ export function ScoreBreakdown({ score, scoreBreakdown }: ScoreBreakdownProps) {
       {scoreBreakdown && (
         <div className="space-y-4">
           {categories.map((category, index) => {
-            const percentage = (category.value / category.max) * 100;
+            const percentage =
+              category.value !== undefined && category.max > 0
+                ? (category.value / category.max) * 100
+                : 0;
             return (
               <div
                 key={category.label}
@@ -109,7 +121,9 @@ export function ScoreBreakdown({ score, scoreBreakdown }: ScoreBreakdownProps) {
                     {category.label}
                   </span>
                   <span className="text-sm font-semibold text-gray-900">
-                    {category.value.toFixed(1)}/{category.max}
+                    {category.value !== undefined
+                      ? `${category.value.toFixed(1)}/${category.max}`
+                      : "Not rated"}
                   </span>
                 </div>
                 <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
@@ -126,6 +140,9 @@ export function ScoreBreakdown({ score, scoreBreakdown }: ScoreBreakdownProps) {
           })}
         </div>
       )}
+
+      {/* Score History */}
+      {jobId && <ScoreHistory jobId={jobId} />}
     </div>
   );
 }
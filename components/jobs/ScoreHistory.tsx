@@ -0,0 +1,142 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { JobScoreRecord } from "@/types/job";
+
+interface ScoreHistoryProps {
+  jobId: string;
+}
+
+const CHART_WIDTH = 280;
+const CHART_HEIGHT = 80;
+const CHART_PADDING = 8;
+
+/**
+ * True if the scoring weights differ from the previous run
+ */
+function weightsChanged(current: JobScoreRecord, previous?: JobScoreRecord): boolean {
+  if (!previous?.scoringWeights || !current.scoringWeights) return false;
+  return JSON.stringify(previous.scoringWeights) !== JSON.stringify(current.scoringWeights);
+}
+
+export function ScoreHistory({ jobId }: ScoreHistoryProps) {
+  const [history, setHistory] = useState<JobScoreRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${jobId}/scores`, {
+          credentials: "include",
+        });
+        const data = await response.json();
+        if (!cancelled) {
+          setHistory(data.scores || []);
+        }
+      } catch (error) {
+        console.error("Error loading score history:", error);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId]);
+
+  if (isLoading || history.length === 0) {
+    return null;
+  }
+
+  // Plot scores left to right, 0 at the bottom and 100 at the top
+  const points = history.map((record, index) => {
+    const x =
+      history.length === 1
+        ? CHART_WIDTH / 2
+        : CHART_PADDING + (index * (CHART_WIDTH - 2 * CHART_PADDING)) / (history.length - 1);
+    const y = CHART_PADDING + ((100 - record.score) * (CHART_HEIGHT - 2 * CHART_PADDING)) / 100;
+    return { x, y, record };
+  });
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-gray-200">
+      <h4 className="text-sm font-semibold text-gray-900">
+        Score History ({history.length} run{history.length === 1 ? "" : "s"})
+      </h4>
+
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-20"
+        role="img"
+        aria-label="Score over time"
+      >
+        {/* Priority thresholds (85 high, 70 medium) */}
+        {[85, 70].map((threshold) => {
+          const y = CHART_PADDING + ((100 - threshold) * (CHART_HEIGHT - 2 * CHART_PADDING)) / 100;
+          return (
+            <line
+              key={threshold}
+              x1={0}
+              x2={CHART_WIDTH}
+              y1={y}
+              y2={y}
+              className="stroke-gray-200"
+              strokeDasharray="4 4"
+            />
+          );
+        })}
+        <polyline
+          points={points.map(({ x, y }) => `${x},${y}`).join(" ")}
+          fill="none"
+          className="stroke-blue-500"
+          strokeWidth={2}
+        />
+        {points.map(({ x, y, record }) => (
+          <circle
+            key={record.id}
+            cx={x}
+            cy={y}
+            r={3.5}
+            className={record.method === "baseline" ? "fill-gray-400" : "fill-blue-600"}
+          >
+            <title>
+              {record.score} on {new Date(record.scoredAt).toLocaleDateString()}
+            </title>
+          </circle>
+        ))}
+      </svg>
+
+      <ul className="space-y-1">
+        {history
+          .map((record, index) => ({ record, previous: history[index - 1] }))
+          .reverse()
+          .map(({ record, previous }) => (
+            <li key={record.id} className="flex items-center justify-between text-xs text-gray-600">
+              <span>
+                {new Date(record.scoredAt).toLocaleDateString()} ·{" "}
+                {record.method === "baseline" ? "Baseline" : record.model || "Agent"}
+                {weightsChanged(record, previous) && (
+                  <span className="ml-1 text-amber-600">(weights changed)</span>
+                )}
+              </span>
+              <span className="font-semibold text-gray-900">
+                {record.score}
+                {previous && record.score !== previous.score && (
+                  <span className={record.score > previous.score ? "text-green-600 ml-1" : "text-red-600 ml-1"}>
+                    {record.score > previous.score ? "+" : ""}
+                    {record.score - previous.score}
+                  </span>
+                )}
+              </span>
+            </li>
+          ))}
+      </ul>
+    </div>
+  );
+}
@@ -15,8 +15,10 @@ import {
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Target, AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
 import type { Job } from "@/types/job";
 import type { UserProfile } from "@/types/profile";
+import { getScoringCategories } from "@/types/profile";
 
 interface ScoreJobsDialogProps {
   open: boolean;
@@ -123,8 +125,42 @@ export function ScoreJobsDialog({
         });
       },
     }),
+    // Matching Agent unavailable: fall back to deterministic baseline scores
+    onError: (err) => {
+      console.error('Job Matching Agent failed, using baseline scores:', err);
+      applyBaselineScores();
+    },
   });
 
+  const applyBaselineScores = async () => {
+    try {
+      const response = await fetch('/api/jobs/score/baseline', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobIds: Array.from(selectedJobIdsRef.current) }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Baseline scoring failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      toast.info("AI scoring unavailable", {
+        description: `Applied rule-based baseline scores to ${data.count} job${data.count === 1 ? '' : 's'}. Re-score later for a full analysis.`,
+      });
+
+      if (onScoreComplete) {
+        onScoreComplete();
+      }
+      handleClose();
+    } catch (err) {
+      console.error('Error applying baseline scores:', err);
+      setPhase('selection');
+      setError("Scoring failed. Please try again.");
+    }
+  };
+
   // Watch for tool results (scored jobs)
   useEffect(() => {
     if (messages.length === 0) return;
@@ -374,26 +410,12 @@ export function ScoreJobsDialog({
                         Jobs will be scored on a 0-100 scale using your configured weights:
                       </p>
                       <div className="grid grid-cols-2 gap-2 text-xs">
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Salary Match:</span>
-                          <span className="font-medium">{profile.scoringWeights?.salaryMatch || 30}%</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Location Fit:</span>
-                          <span className="font-medium">{profile.scoringWeights?.locationFit || 20}%</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Company Appeal:</span>
-                          <span className="font-medium">{profile.scoringWeights?.companyAppeal || 25}%</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Role Match:</span>
-                          <span className="font-medium">{profile.scoringWeights?.roleMatch || 15}%</span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-gray-600">Requirements Fit:</span>
-                          <span className="font-medium">{profile.scoringWeights?.requirementsFit || 10}%</span>
-                        </div>
+                        {getScoringCategories(profile).map((category) => (
+                          <div key={category.id} className="flex justify-between">
+                            <span className="text-gray-600">{category.label}:</span>
+                            <span className="font-medium">{profile.scoringWeights?.[category.id] ?? 0}%</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   )}
@@ -11,7 +11,9 @@ import {
   DialogTitle,
   DialogFooter,
 } from "@/components/ui/dialog";
-import { Copy, Download, CheckCircle, AlertCircle, FileText } from "lucide-react";
+import { Copy, CheckCircle, AlertCircle, FileText, ShieldAlert } from "lucide-react";
+import { ResumeExportMenu } from "./ResumeExportMenu";
+import { RESUME_CLAIM_TYPE_LABELS } from "@/lib/jobs/fabrication-guard";
 import type { Job } from "@/types/job";
 
 interface ViewResumeDialogProps {
@@ -73,6 +75,23 @@ export function ViewResumeDialog({
         </DialogHeader>
 
         <div className="flex-1 overflow-y-auto space-y-6 py-4">
+          {/* Fabrication Guard */}
+          {tailoredResume.verification && tailoredResume.verification.unverifiedClaims.length > 0 && (
+            <div className="bg-amber-50 border-l-4 border-amber-500 p-4 rounded-lg">
+              <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-2">
+                <ShieldAlert className="w-4 h-4 text-amber-600" />
+                Claims not found in {tailoredResume.masterResumeName}
+              </h3>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {tailoredResume.verification.unverifiedClaims.map((claim, i) => (
+                  <li key={i}>
+                    <span className="font-medium">{RESUME_CLAIM_TYPE_LABELS[claim.type]}:</span> {claim.claim}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Match Analysis */}
           {tailoredResume.matchAnalysis && (
             <div className="bg-blue-50 border-l-4 border-blue-500 p-4 rounded-lg">
@@ -151,15 +170,10 @@ export function ViewResumeDialog({
                     </>
                   )}
                 </Button>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={handleDownload}
-                  className="text-xs"
-                >
-                  <Download className="w-3 h-3 mr-1" />
-                  Download
-                </Button>
+                <ResumeExportMenu
+                  jobId={job.id}
+                  onDownloadMarkdown={handleDownload}
+                />
               </div>
             </div>
             <div className="p-6 max-h-96 overflow-y-auto">
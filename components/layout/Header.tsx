@@ -3,7 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Home, User, Briefcase, FileText } from "lucide-react";
+import { Home, User, Inbox, Briefcase, Handshake, FileText } from "lucide-react";
 import { AuthButton } from "@/components/auth/AuthButton";
 
 export function Header() {
@@ -38,6 +38,17 @@ export function Header() {
               </Link>
             </Button>
 
+            <Button
+              variant={pathname === "/inbox" ? "default" : "ghost"}
+              size="sm"
+              asChild
+            >
+              <Link href="/inbox">
+                <Inbox className="w-4 h-4 mr-2" />
+                Inbox
+              </Link>
+            </Button>
+
             <Button
               variant={pathname === "/jobs" ? "default" : "ghost"}
               size="sm"
@@ -49,6 +60,17 @@ export function Header() {
               </Link>
             </Button>
 
+            <Button
+              variant={pathname === "/offers" ? "default" : "ghost"}
+              size="sm"
+              asChild
+            >
+              <Link href="/offers">
+                <Handshake className="w-4 h-4 mr-2" />
+                Offers
+              </Link>
+            </Button>
+
             <Button
               variant={pathname === "/resumes" ? "default" : "ghost"}
               size="sm"
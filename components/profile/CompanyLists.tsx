@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { formatCompanyList, parseCompanyList } from "@/lib/jobs/company-lists";
+import type { CompanyListEntry } from "@/types/profile";
+
+interface CompanyListsProps {
+  allowlist: CompanyListEntry[];
+  blocklist: CompanyListEntry[];
+  onAllowlistChange: (allowlist: CompanyListEntry[]) => void;
+  onBlocklistChange: (blocklist: CompanyListEntry[]) => void;
+}
+
+/**
+ * CompanyLists Component
+ *
+ * Editor for target companies (searched first and boosted in Company Appeal)
+ * and blocked companies (never shown). One company per line, with other
+ * names it posts under after slashes.
+ */
+export function CompanyLists({
+  allowlist,
+  blocklist,
+  onAllowlistChange,
+  onBlocklistChange,
+}: CompanyListsProps) {
+  // Raw text is kept so blank lines and trailing slashes survive while typing
+  const [allowlistText, setAllowlistText] = useState(formatCompanyList(allowlist));
+  const [blocklistText, setBlocklistText] = useState(formatCompanyList(blocklist));
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="space-y-1">
+        <Label htmlFor="companyAllowlist">
+          Target Companies ({allowlist.length})
+        </Label>
+        <Textarea
+          id="companyAllowlist"
+          value={allowlistText}
+          onChange={(e) => {
+            setAllowlistText(e.target.value);
+            onAllowlistChange(parseCompanyList(e.target.value));
+          }}
+          placeholder={"e.g.,\nStripe\nMeta / Facebook\nGoogle"}
+          rows={5}
+        />
+        <p className="text-xs text-gray-500">
+          Searched first during discovery and given full Company Appeal points.
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="companyBlocklist">
+          Blocked Companies ({blocklist.length})
+        </Label>
+        <Textarea
+          id="companyBlocklist"
+          value={blocklistText}
+          onChange={(e) => {
+            setBlocklistText(e.target.value);
+            onBlocklistChange(parseCompanyList(e.target.value));
+          }}
+          placeholder={"e.g.,\nRobert Half\nTEKsystems / TEK Systems"}
+          rows={5}
+        />
+        <p className="text-xs text-gray-500">
+          Never shown in discovery (e.g., staffing agencies). Add other names after a slash.
+        </p>
+      </div>
+    </div>
+  );
+}
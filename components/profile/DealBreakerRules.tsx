@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEAL_BREAKER_LABELS } from "@/lib/jobs/deal-breakers";
+import type { DealBreakerRule, DealBreakerRuleType } from "@/types/profile";
+
+interface DealBreakerRulesProps {
+  rules: DealBreakerRule[];
+  onChange: (rules: DealBreakerRule[]) => void;
+}
+
+/**
+ * Rules without parameters, shown as checkboxes
+ */
+const TOGGLE_RULES: Array<{ type: "onsite_only" | "requires_clearance" | "contract_role"; hint: string }> = [
+  { type: "onsite_only", hint: "Neither remote nor hybrid" },
+  { type: "requires_clearance", hint: "Security clearance, TS/SCI, polygraph" },
+  { type: "contract_role", hint: "Contract, freelance, temporary or 1099" },
+];
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * DealBreakerRules Component
+ *
+ * Editor for structured deal breakers. Unlike the free-text deal breakers,
+ * these are checked in code: matching jobs are hidden from discovery and
+ * capped at low priority.
+ */
+export function DealBreakerRules({ rules, onChange }: DealBreakerRulesProps) {
+  const findRule = <T extends DealBreakerRuleType>(type: T) =>
+    rules.find((rule): rule is Extract<DealBreakerRule, { type: T }> => rule.type === type);
+
+  // Raw text is kept so typing a comma does not get trimmed away
+  const [keywordsText, setKeywordsText] = useState(
+    findRule("keywords")?.keywords.join(", ") || ""
+  );
+
+  /**
+   * Replaces the rule of a type (or removes it when rule is null), keeping rule order stable
+   */
+  const setRule = (type: DealBreakerRuleType, rule: DealBreakerRule | null) => {
+    const index = rules.findIndex((existing) => existing.type === type);
+    if (index === -1) {
+      onChange(rule ? [...rules, rule] : rules);
+    } else {
+      onChange(
+        rule
+          ? rules.map((existing, i) => (i === index ? rule : existing))
+          : rules.filter((_, i) => i !== index)
+      );
+    }
+  };
+
+  const salaryFloor = findRule("salary_below")?.amount;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 p-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900">Hard Deal Breakers</h4>
+        <p className="text-xs text-gray-500">
+          Jobs breaking any of these rules are hidden from discovery and capped at low priority.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {TOGGLE_RULES.map(({ type, hint }) => (
+          <div key={type} className="flex items-center gap-2">
+            <Checkbox
+              id={`deal-breaker-${type}`}
+              checked={!!findRule(type)}
+              onCheckedChange={(checked) => setRule(type, checked === true ? { type } : null)}
+            />
+            <Label htmlFor={`deal-breaker-${type}`} className="font-normal">
+              {DEAL_BREAKER_LABELS[type]}
+              <span className="text-xs text-gray-500">({hint})</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="deal-breaker-salary">Salary floor (USD per year)</Label>
+        <Input
+          id="deal-breaker-salary"
+          type="number"
+          min={0}
+          step={1000}
+          value={salaryFloor ?? ""}
+          onChange={(e) => {
+            const amount = parseInt(e.target.value, 10);
+            setRule("salary_below", amount > 0 ? { type: "salary_below", amount } : null);
+          }}
+          placeholder="e.g., 120000"
+        />
+        <p className="text-xs text-gray-500">
+          Flags jobs whose posted salary tops out below this amount. Jobs without a salary pass.
+        </p>
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="deal-breaker-keywords">Excluded keywords (comma-separated)</Label>
+        <Input
+          id="deal-breaker-keywords"
+          value={keywordsText}
+          onChange={(e) => {
+            setKeywordsText(e.target.value);
+            const keywords = splitList(e.target.value);
+            setRule("keywords", keywords.length > 0 ? { type: "keywords", keywords } : null);
+          }}
+          placeholder="e.g., crypto, on-call, blockchain"
+        />
+        <p className="text-xs text-gray-500">
+          Matched anywhere in the title, description or requirements.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -21,8 +21,20 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { ScoringWeights } from "./ScoringWeights";
-import { DEFAULT_SCORING_WEIGHTS, validateScoringWeights } from "@/types/profile";
-import type { UserProfile } from "@/types/profile";
+import { DealBreakerRules } from "./DealBreakerRules";
+import { CompanyLists } from "./CompanyLists";
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  getScoringCategories,
+  validateScoringWeights,
+} from "@/types/profile";
+import type {
+  CompanyListEntry,
+  DealBreakerRule,
+  ScoringCategory,
+  UserProfile,
+} from "@/types/profile";
+import type { Job } from "@/types/job";
 import { Loader2, Info, ChevronDown } from "lucide-react";
 
 // Zod schema for form validation
@@ -52,12 +64,17 @@ export function ProfileForm() {
   const [weights, setWeights] = useState<UserProfile["scoringWeights"]>({
     ...DEFAULT_SCORING_WEIGHTS,
   });
+  const [customCategories, setCustomCategories] = useState<ScoringCategory[]>([]);
+  const [dealBreakerRules, setDealBreakerRules] = useState<DealBreakerRule[]>([]);
+  const [companyAllowlist, setCompanyAllowlist] = useState<CompanyListEntry[]>([]);
+  const [companyBlocklist, setCompanyBlocklist] = useState<CompanyListEntry[]>([]);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [existingProfile, setExistingProfile] = useState<UserProfile | null>(
     null
   );
   const [isLoading, setIsLoading] = useState(true);
+  const [savedJobs, setSavedJobs] = useState<Job[]>([]);
 
   const {
     register,
@@ -91,6 +108,10 @@ export function ProfileForm() {
         if (profile) {
           setExistingProfile(profile);
           setWeights(profile.scoringWeights);
+          setCustomCategories(profile.customCategories || []);
+          setDealBreakerRules(profile.dealBreakerRules || []);
+          setCompanyAllowlist(profile.companyAllowlist || []);
+          setCompanyBlocklist(profile.companyBlocklist || []);
 
           // Pre-populate form
           reset({
@@ -116,9 +137,30 @@ export function ProfileForm() {
     loadProfile();
   }, [reset]);
 
+  // Load saved jobs for the scoring weights what-if preview
+  useEffect(() => {
+    async function loadJobs() {
+      try {
+        const response = await fetch('/api/jobs', {
+          credentials: 'include',
+        });
+
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setSavedJobs(data.jobs || []);
+      } catch (error) {
+        // The preview is optional, so the form works without it
+        console.error('Error loading jobs for preview:', error);
+      }
+    }
+
+    loadJobs();
+  }, []);
+
   const onSubmit = async (data: ProfileFormData) => {
     // Validate scoring weights
-    if (!validateScoringWeights(weights)) {
+    if (!validateScoringWeights(weights, getScoringCategories({ customCategories }))) {
       setErrorMessage("Scoring weights must sum to exactly 100%");
       setTimeout(() => setErrorMessage(null), 5000);
       return;
@@ -148,8 +190,12 @@ export function ProfileForm() {
           .map((s) => s.trim())
           .filter(Boolean),
         companyPreferences: data.companyPreferences || undefined,
+        companyAllowlist,
+        companyBlocklist,
         dealBreakers: data.dealBreakers,
+        dealBreakerRules,
         scoringWeights: weights,
+        customCategories,
         updatedAt: new Date().toISOString(),
         createdVia: existingProfile?.createdVia || "form",
       };
@@ -459,6 +505,14 @@ export function ProfileForm() {
           )}
         </div>
 
+        {/* Target and blocked companies */}
+        <CompanyLists
+          allowlist={companyAllowlist}
+          blocklist={companyBlocklist}
+          onAllowlistChange={setCompanyAllowlist}
+          onBlocklistChange={setCompanyBlocklist}
+        />
+
         {/* Deal Breakers */}
         <div className="space-y-2">
           <Label htmlFor="dealBreakers" className="flex items-center gap-2">
@@ -488,8 +542,21 @@ export function ProfileForm() {
           )}
         </div>
 
+        {/* Structured deal breakers (checked in code) */}
+        <DealBreakerRules rules={dealBreakerRules} onChange={setDealBreakerRules} />
+
         {/* Scoring Weights */}
-        <ScoringWeights weights={weights} onChange={setWeights} />
+        <ScoringWeights
+          weights={weights}
+          onChange={setWeights}
+          customCategories={customCategories}
+          onCustomCategoriesChange={(categories, nextWeights) => {
+            setCustomCategories(categories);
+            setWeights(nextWeights);
+          }}
+          jobs={savedJobs}
+          savedWeights={existingProfile?.scoringWeights}
+        />
 
         {/* Submit Button */}
         <Button type="submit" disabled={isSubmitting} className="w-full">
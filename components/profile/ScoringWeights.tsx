@@ -1,36 +1,122 @@
 "use client";
 
+import { useMemo, useState } from "react";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Plus, Trash2 } from "lucide-react";
+import { reweightJob } from "@/lib/jobs/scoring";
+import type { Job, PriorityLevel } from "@/types/job";
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  createScoringCategoryId,
+  getScoringCategories,
+  type ScoringCategory,
+  type UserProfile,
+} from "@/types/profile";
 
 interface ScoringWeightsProps {
-  weights: {
-    salaryMatch: number;
-    locationFit: number;
-    companyAppeal: number;
-    roleMatch: number;
-    requirementsFit: number;
-  };
-  onChange: (weights: ScoringWeightsProps["weights"]) => void;
+  weights: UserProfile["scoringWeights"];
+  onChange: (weights: UserProfile["scoringWeights"]) => void;
+  /** User-defined categories shown after the built-in five */
+  customCategories?: ScoringCategory[];
+  /** Called with the new custom categories and weights when a category is added or removed */
+  onCustomCategoriesChange?: (
+    customCategories: ScoringCategory[],
+    weights: UserProfile["scoringWeights"]
+  ) => void;
+  /** Saved jobs to preview the effect of the weights on (scored jobs only are used) */
+  jobs?: Job[];
+  /** Weights the stored scores currently reflect (defaults if omitted) */
+  savedWeights?: UserProfile["scoringWeights"];
 }
 
-export function ScoringWeights({ weights, onChange }: ScoringWeightsProps) {
-  const total =
-    weights.salaryMatch +
-    weights.locationFit +
-    weights.companyAppeal +
-    weights.roleMatch +
-    weights.requirementsFit;
+const PRIORITIES: PriorityLevel[] = ["high", "medium", "low"];
+
+const PRIORITY_LABELS: Record<PriorityLevel, string> = {
+  high: "High",
+  medium: "Medium",
+  low: "Low",
+};
+
+export function ScoringWeights({
+  weights,
+  onChange,
+  customCategories = [],
+  onCustomCategoriesChange,
+  jobs = [],
+  savedWeights = DEFAULT_SCORING_WEIGHTS,
+}: ScoringWeightsProps) {
+  const [newLabel, setNewLabel] = useState("");
+  const [newRubric, setNewRubric] = useState("");
+
+  const categories = getScoringCategories({ customCategories });
+  const total = categories.reduce((sum, category) => sum + (weights[category.id] ?? 0), 0);
 
   const isValid = total === 100;
 
-  const handleWeightChange = (key: keyof typeof weights, value: number[]) => {
+  // What-if preview: every scored job under the saved weights and the edited ones
+  const preview = useMemo(() => {
+    const changes = jobs
+      .filter((job) => job.scoreBreakdown)
+      .map((job) => ({
+        job,
+        before: reweightJob(job, savedWeights),
+        after: reweightJob(job, weights),
+      }));
+
+    const countBy = (side: "before" | "after", priority: PriorityLevel) =>
+      changes.filter((change) => change[side].priority === priority).length;
+
+    return {
+      count: changes.length,
+      priorities: PRIORITIES.map((priority) => ({
+        priority,
+        before: countBy("before", priority),
+        after: countBy("after", priority),
+      })),
+      movers: changes
+        .map((change) => ({ ...change, delta: (change.after.score ?? 0) - (change.before.score ?? 0) }))
+        .filter((change) => change.delta !== 0)
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+        .slice(0, 5),
+    };
+  }, [jobs, weights, savedWeights]);
+
+  const handleWeightChange = (categoryId: string, value: number[]) => {
     onChange({
       ...weights,
-      [key]: value[0],
+      [categoryId]: value[0],
     });
   };
 
+  const handleAddCategory = () => {
+    if (!onCustomCategoriesChange || !newLabel.trim() || !newRubric.trim()) return;
+
+    const category: ScoringCategory = {
+      id: createScoringCategoryId(newLabel, categories),
+      label: newLabel.trim(),
+      rubric: newRubric.trim(),
+    };
+
+    // New categories start at 0% so the total stays valid until the user rebalances
+    onCustomCategoriesChange([...customCategories, category], { ...weights, [category.id]: 0 });
+    setNewLabel("");
+    setNewRubric("");
+  };
+
+  const handleRemoveCategory = (categoryId: string) => {
+    if (!onCustomCategoriesChange) return;
+
+    const { [categoryId]: _removed, ...remainingWeights } = weights;
+    onCustomCategoriesChange(
+      customCategories.filter((category) => category.id !== categoryId),
+      remainingWeights
+    );
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -54,86 +140,120 @@ export function ScoringWeights({ weights, onChange }: ScoringWeightsProps) {
       )}
 
       <div className="space-y-4">
-        {/* Salary Match */}
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <Label htmlFor="salaryMatch">Salary Match</Label>
-            <span className="text-sm font-medium">{weights.salaryMatch}%</span>
+        {categories.map((category) => (
+          <div key={category.id} className="space-y-2">
+            <div className="flex justify-between items-center gap-2">
+              <Label htmlFor={category.id}>{category.label}</Label>
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{weights[category.id] ?? 0}%</span>
+                {!category.builtIn && onCustomCategoriesChange && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-gray-400 hover:text-red-600"
+                    onClick={() => handleRemoveCategory(category.id)}
+                    aria-label={`Remove ${category.label}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Slider
+              id={category.id}
+              min={0}
+              max={100}
+              step={5}
+              value={[weights[category.id] ?? 0]}
+              onValueChange={(value) => handleWeightChange(category.id, value)}
+            />
+            {!category.builtIn && (
+              <p className="text-xs text-muted-foreground">{category.rubric}</p>
+            )}
           </div>
-          <Slider
-            id="salaryMatch"
-            min={0}
-            max={100}
-            step={5}
-            value={[weights.salaryMatch]}
-            onValueChange={(value) => handleWeightChange("salaryMatch", value)}
-          />
-        </div>
+        ))}
+      </div>
 
-        {/* Location Fit */}
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <Label htmlFor="locationFit">Location Fit</Label>
-            <span className="text-sm font-medium">{weights.locationFit}%</span>
+      {/* Custom Categories */}
+      {onCustomCategoriesChange && (
+        <div className="rounded-lg border border-dashed border-gray-300 p-4 space-y-3">
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900">Add a Custom Category</h4>
+            <p className="text-xs text-muted-foreground">
+              Score jobs on anything else that matters to you, e.g. visa sponsorship, tech stack or mission.
+            </p>
           </div>
-          <Slider
-            id="locationFit"
-            min={0}
-            max={100}
-            step={5}
-            value={[weights.locationFit]}
-            onValueChange={(value) => handleWeightChange("locationFit", value)}
+          <Input
+            placeholder="Category name (e.g., Visa Sponsorship)"
+            value={newLabel}
+            onChange={(event) => setNewLabel(event.target.value)}
           />
-        </div>
-
-        {/* Company Appeal */}
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <Label htmlFor="companyAppeal">Company Appeal</Label>
-            <span className="text-sm font-medium">{weights.companyAppeal}%</span>
-          </div>
-          <Slider
-            id="companyAppeal"
-            min={0}
-            max={100}
-            step={5}
-            value={[weights.companyAppeal]}
-            onValueChange={(value) => handleWeightChange("companyAppeal", value)}
+          <Textarea
+            placeholder="How should jobs be scored? (e.g., Full points if the company sponsors H-1B visas, none if it states it does not)"
+            value={newRubric}
+            onChange={(event) => setNewRubric(event.target.value)}
+            rows={2}
           />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleAddCategory}
+            disabled={!newLabel.trim() || !newRubric.trim()}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add Category
+          </Button>
         </div>
+      )}
 
-        {/* Role Match */}
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <Label htmlFor="roleMatch">Role Match</Label>
-            <span className="text-sm font-medium">{weights.roleMatch}%</span>
+      {/* What-if Preview */}
+      {isValid && preview.count > 0 && (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-900">What-if Preview</h4>
+            <span className="text-xs text-muted-foreground">
+              {preview.count} scored job{preview.count === 1 ? "" : "s"}
+            </span>
           </div>
-          <Slider
-            id="roleMatch"
-            min={0}
-            max={100}
-            step={5}
-            value={[weights.roleMatch]}
-            onValueChange={(value) => handleWeightChange("roleMatch", value)}
-          />
-        </div>
 
-        {/* Requirements Fit */}
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <Label htmlFor="requirementsFit">Requirements Fit</Label>
-            <span className="text-sm font-medium">{weights.requirementsFit}%</span>
+          <div className="grid grid-cols-3 gap-2">
+            {preview.priorities.map(({ priority, before, after }) => (
+              <div key={priority} className="rounded-md bg-white border border-gray-200 p-2 text-center">
+                <div className="text-xs text-muted-foreground">{PRIORITY_LABELS[priority]}</div>
+                <div className="text-sm font-semibold">
+                  {before}
+                  {after !== before && (
+                    <span className={after > before ? "text-green-600" : "text-red-600"}> → {after}</span>
+                  )}
+                </div>
+              </div>
+            ))}
           </div>
-          <Slider
-            id="requirementsFit"
-            min={0}
-            max={100}
-            step={5}
-            value={[weights.requirementsFit]}
-            onValueChange={(value) => handleWeightChange("requirementsFit", value)}
-          />
+
+          {preview.movers.length > 0 ? (
+            <ul className="space-y-1">
+              {preview.movers.map(({ job, before, after, delta }) => (
+                <li key={job.id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate text-gray-700">
+                    {job.title} · {job.company}
+                  </span>
+                  <span className="shrink-0 font-medium">
+                    {before.score} → {after.score}
+                    <span className={delta > 0 ? "text-green-600 ml-1" : "text-red-600 ml-1"}>
+                      ({delta > 0 ? "+" : ""}
+                      {delta})
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">No scores change with these weights.</p>
+          )}
         </div>
-      </div>
+      )}
     </div>
   );
 }
@@ -62,6 +62,16 @@ export function ResumeCard({ resume, onView, onEdit, onDelete }: ResumeCardProps
       label: "Text",
       className: "bg-blue-100 text-blue-800 border border-blue-200",
     },
+    pdf: {
+      icon: FileText,
+      label: "PDF",
+      className: "bg-red-100 text-red-800 border border-red-200",
+    },
+    docx: {
+      icon: FileText,
+      label: "Word",
+      className: "bg-sky-100 text-sky-800 border border-sky-200",
+    },
   };
 
   const formatConfig = formatBadgeConfig[resume.format];
@@ -5,6 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Upload, AlertCircle, CheckCircle } from "lucide-react";
 import {
   getResumeFormat,
+  isDocumentResumeFormat,
+  validateResumeFileSize,
   validateResumeSize,
   formatResumeSize,
 } from "@/types/resume";
@@ -39,32 +41,17 @@ export function ResumeUpload({ onUploadSuccess }: ResumeUploadProps) {
       if (
         fileExtension !== "md" &&
         fileExtension !== "markdown" &&
-        fileExtension !== "txt"
+        fileExtension !== "txt" &&
+        fileExtension !== "pdf" &&
+        fileExtension !== "docx"
       ) {
-        setError("Invalid file type. Please upload a .md, .markdown, or .txt file.");
-        setIsUploading(false);
-        return;
-      }
-
-      // Read file content
-      const content = await file.text();
-
-      // Validate file size (max 50KB)
-      if (!validateResumeSize(content)) {
-        setError(`File too large. Maximum size is 50KB. Your file is ${formatResumeSize(content)}.`);
-        setIsUploading(false);
-        return;
-      }
-
-      // Validate content is not empty
-      if (content.trim().length === 0) {
-        setError("File is empty. Please upload a file with content.");
+        setError("Invalid file type. Please upload a .md, .markdown, .txt, .pdf, or .docx file.");
         setIsUploading(false);
         return;
       }
 
       // Get resume name from filename (without extension)
-      const resumeName = file.name.replace(/\.(md|markdown|txt)$/i, "");
+      const resumeName = file.name.replace(/\.(md|markdown|txt|pdf|docx)$/i, "");
 
       // Get file format
       const format = getResumeFormat(file.name);
@@ -72,9 +59,38 @@ export function ResumeUpload({ onUploadSuccess }: ResumeUploadProps) {
       // Upload to Supabase via API
       const formData = new FormData();
       formData.append('name', resumeName);
-      formData.append('content', content);
       formData.append('format', format);
 
+      if (isDocumentResumeFormat(format)) {
+        // PDF and DOCX files are extracted to markdown on the server
+        if (!validateResumeFileSize(file)) {
+          setError("File too large. Maximum size for PDF and DOCX files is 5MB.");
+          setIsUploading(false);
+          return;
+        }
+
+        formData.append('file', file);
+      } else {
+        // Read file content
+        const content = await file.text();
+
+        // Validate file size (max 50KB)
+        if (!validateResumeSize(content)) {
+          setError(`File too large. Maximum size is 50KB. Your file is ${formatResumeSize(content)}.`);
+          setIsUploading(false);
+          return;
+        }
+
+        // Validate content is not empty
+        if (content.trim().length === 0) {
+          setError("File is empty. Please upload a file with content.");
+          setIsUploading(false);
+          return;
+        }
+
+        formData.append('content', content);
+      }
+
       const response = await fetch('/api/resumes/upload', {
         method: 'POST',
         credentials: 'include',
@@ -128,7 +144,7 @@ export function ResumeUpload({ onUploadSuccess }: ResumeUploadProps) {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".md,.markdown,.txt"
+          accept=".md,.markdown,.txt,.pdf,.docx"
           onChange={handleFileSelect}
           className="hidden"
           disabled={isUploading}
@@ -142,7 +158,7 @@ export function ResumeUpload({ onUploadSuccess }: ResumeUploadProps) {
           {isUploading ? "Uploading..." : "Upload Resume"}
         </Button>
         <p className="text-sm text-gray-500 mt-2">
-          Accepts .md, .markdown, and .txt files (max 50KB)
+          Accepts .md, .markdown, and .txt files (max 50KB), or .pdf and .docx files (max 5MB)
         </p>
       </div>
 
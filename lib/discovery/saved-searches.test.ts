@@ -0,0 +1,226 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { JobSourceTool } from "@/components/agent/sources";
+import { recordSavedSearchRun, saveJobs } from "@/lib/supabase/queries";
+import type { Job } from "@/types/job";
+import type { UserProfile } from "@/types/profile";
+import type { SavedSearch } from "@/types/saved-search";
+import { runSavedSearch, searchSavedSearch } from "./saved-searches";
+
+vi.mock("@/lib/supabase/queries", () => ({
+  saveJobs: vi.fn(),
+  recordSavedSearchRun: vi.fn(),
+}));
+
+const supabase = {} as SupabaseClient;
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: crypto.randomUUID(),
+    title: "Software Engineer",
+    company: "Acme",
+    location: "Remote",
+    description: "",
+    requirements: [],
+    url: `https://example.com/jobs/${crypto.randomUUID()}`,
+    source: "adzuna",
+    discoveredAt: "2026-10-19T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function makeSearch(overrides: Partial<SavedSearch> = {}): SavedSearch {
+  return {
+    id: "00000000-0000-4000-8000-000000000001",
+    name: "Remote engineering",
+    query: "engineer",
+    location: "Remote",
+    sources: [{ source: "adzuna" }],
+    filters: {},
+    resultsCount: 20,
+    frequency: "daily",
+    enabled: true,
+    createdAt: "2026-10-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+/**
+ * Stub source tool that records its input and returns the given result
+ */
+function stubTool(result: unknown) {
+  const calls: unknown[] = [];
+  const tool: JobSourceTool = {
+    description: "stub",
+    inputSchema: z.object({}).passthrough(),
+    execute: async (args) => {
+      calls.push(args);
+      if (result instanceof Error) throw result;
+      return result;
+    },
+  };
+  return { tool, calls };
+}
+
+describe("searchSavedSearch", () => {
+  it("passes each source its own tool input", async () => {
+    const adzuna = stubTool({ action: "display", jobs: [] });
+    const lever = stubTool({ action: "display", jobs: [] });
+
+    await searchSavedSearch(
+      makeSearch({
+        sources: [{ source: "adzuna" }, { source: "lever", companySlug: "netflix", companyName: "Netflix" }],
+      }),
+      null,
+      { searchAdzunaJobs: adzuna.tool, searchLeverJobs: lever.tool }
+    );
+
+    expect(adzuna.calls).toEqual([{ query: "engineer", location: "Remote", resultsCount: 20 }]);
+    expect(lever.calls).toEqual([
+      { query: "engineer", location: "Remote", resultsCount: 20, companySlug: "netflix", companyName: "Netflix" },
+    ]);
+  });
+
+  it("applies the search's filters and the profile's company lists and deal breakers", async () => {
+    const keep = makeJob({ title: "Backend Engineer" });
+    const onsite = makeJob({ title: "Frontend Engineer", location: "Austin, TX" });
+    const lowPay = makeJob({ title: "Support Engineer", salary: "$50,000 - $60,000" });
+    const excluded = makeJob({ title: "Sales Engineer" });
+    const blocked = makeJob({ title: "Platform Engineer", company: "Staffing Co" });
+    const clearance = makeJob({ title: "Cloud Engineer", description: "Active secret clearance required." });
+
+    const adzuna = stubTool({ action: "display", jobs: [keep, onsite, lowPay, excluded, blocked, clearance] });
+    const profile = {
+      companyBlocklist: [{ name: "Staffing Co" }],
+      dealBreakerRules: [{ type: "requires_clearance" }],
+    } as unknown as UserProfile;
+
+    const result = await searchSavedSearch(
+      makeSearch({ filters: { remoteOnly: true, salaryMin: 100000, excludeKeywords: ["sales"] } }),
+      profile,
+      { searchAdzunaJobs: adzuna.tool }
+    );
+
+    expect(result.jobs.map((job) => job.title)).toEqual(["Backend Engineer"]);
+    expect(result.foundCount).toBe(6);
+    expect(result.filteredCount).toBe(5);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("excludes keywords only as whole words", async () => {
+    const java = makeJob({ title: "Java Engineer" });
+    const javascript = makeJob({ title: "JavaScript Engineer" });
+    const internship = makeJob({ title: "Engineering Intern" });
+    const international = makeJob({ title: "International Payments Engineer" });
+    const adzuna = stubTool({ action: "display", jobs: [java, javascript, internship, international] });
+
+    const result = await searchSavedSearch(
+      makeSearch({ filters: { excludeKeywords: ["java", " intern "] } }),
+      null,
+      { searchAdzunaJobs: adzuna.tool }
+    );
+
+    expect(result.jobs.map((job) => job.title)).toEqual(["JavaScript Engineer", "International Payments Engineer"]);
+    expect(result.filteredCount).toBe(2);
+  });
+
+  it("keeps the results of working sources when another one fails", async () => {
+    const adzuna = stubTool({ action: "display", jobs: [makeJob()] });
+    const greenhouse = stubTool({ action: "error", error: "No Greenhouse job board found", jobs: [] });
+    const lever = stubTool(new Error("Network down"));
+
+    const result = await searchSavedSearch(
+      makeSearch({
+        sources: [
+          { source: "adzuna" },
+          { source: "greenhouse", boardToken: "acme" },
+          { source: "lever", companySlug: "globex" },
+        ],
+      }),
+      null,
+      { searchAdzunaJobs: adzuna.tool, searchGreenhouseJobs: greenhouse.tool, searchLeverJobs: lever.tool }
+    );
+
+    expect(result.jobs).toHaveLength(1);
+    expect(result.errors).toEqual([
+      "Greenhouse (acme): No Greenhouse job board found",
+      "Lever (globex): Network down",
+    ]);
+  });
+
+  it("reports sources without a registered tool", async () => {
+    const result = await searchSavedSearch(makeSearch(), null, {});
+
+    expect(result.errors).toEqual(["Adzuna: source is not available"]);
+  });
+});
+
+describe("runSavedSearch", () => {
+  beforeEach(() => {
+    vi.mocked(saveJobs).mockReset();
+    vi.mocked(recordSavedSearchRun).mockReset();
+    vi.mocked(recordSavedSearchRun).mockImplementation(async (_supabase, _userId, run) => ({
+      id: "run-1",
+      ...run,
+    }));
+  });
+
+  it("saves the jobs to the inbox and records the counts", async () => {
+    const fresh = makeJob({ title: "Backend Engineer" });
+    const seen = makeJob({ title: "Data Engineer" });
+    const adzuna = stubTool({ action: "display", jobs: [fresh, seen, makeJob({ location: "Austin, TX" })] });
+    vi.mocked(saveJobs).mockResolvedValue({
+      jobs: [fresh, seen],
+      inserted: [fresh],
+      movedFromInbox: [],
+      alreadySaved: [seen],
+    });
+
+    const run = await runSavedSearch(
+      supabase,
+      "user-1",
+      makeSearch({ filters: { remoteOnly: true } }),
+      null,
+      { trigger: "scheduled", tools: { searchAdzunaJobs: adzuna.tool } }
+    );
+
+    const [, userId, savedJobs] = vi.mocked(saveJobs).mock.calls[0];
+    expect(userId).toBe("user-1");
+    expect(savedJobs.map((job) => job.applicationStatus)).toEqual(["inbox", "inbox"]);
+    expect(run).toMatchObject({
+      id: "run-1",
+      savedSearchId: "00000000-0000-4000-8000-000000000001",
+      trigger: "scheduled",
+      foundCount: 3,
+      filteredCount: 1,
+      newCount: 1,
+      alreadySeenCount: 1,
+      errors: [],
+    });
+  });
+
+  it("records a failed save as an error", async () => {
+    const adzuna = stubTool({ action: "display", jobs: [makeJob()] });
+    vi.mocked(saveJobs).mockRejectedValue(new Error("connection reset"));
+
+    const run = await runSavedSearch(supabase, "user-1", makeSearch(), null, {
+      tools: { searchAdzunaJobs: adzuna.tool },
+    });
+
+    expect(run.trigger).toBe("manual");
+    expect(run.newCount).toBe(0);
+    expect(run.errors).toEqual(["Saving to inbox failed: connection reset"]);
+  });
+
+  it("does not save anything when no job passes", async () => {
+    const adzuna = stubTool({ action: "display", jobs: [] });
+
+    const run = await runSavedSearch(supabase, "user-1", makeSearch(), null, {
+      tools: { searchAdzunaJobs: adzuna.tool },
+    });
+
+    expect(saveJobs).not.toHaveBeenCalled();
+    expect(run).toMatchObject({ foundCount: 0, newCount: 0, alreadySeenCount: 0 });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Saved Search Runner
+ *
+ * Runs saved searches without the chat: each source is searched with the same
+ * tools the Job Discovery Agent calls, results go through the user's company
+ * lists, deal-breaker rules and the search's filters, and the jobs the user
+ * has never seen are saved to the inbox (applicationStatus: "inbox").
+ */
+
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getJobSourceTools, type JobSourceTool } from "@/components/agent/sources";
+import { applyCompanyLists } from "@/lib/jobs/company-lists";
+import { hasDealBreakers, keywordPattern, withDealBreakers } from "@/lib/jobs/deal-breakers";
+import { annualizeSalary, withSalaryRange } from "@/lib/jobs/salary";
+import { recordSavedSearchRun, saveJobs } from "@/lib/supabase/queries";
+import type { Job } from "@/types/job";
+import type { UserProfile } from "@/types/profile";
+import type {
+  SavedSearch,
+  SavedSearchFilters,
+  SavedSearchRun,
+  SavedSearchSource,
+} from "@/types/saved-search";
+
+/**
+ * Discovery tool that searches each saved search source
+ */
+const SOURCE_TOOL_NAMES: Record<SavedSearchSource["source"], string> = {
+  adzuna: "searchAdzunaJobs",
+  greenhouse: "searchGreenhouseJobs",
+  lever: "searchLeverJobs",
+};
+
+const REMOTE_PATTERN = /\b(remote|anywhere|distributed|work from home|wfh)\b/i;
+
+const savedSearchSourceSchema = z.discriminatedUnion("source", [
+  z.object({ source: z.literal("adzuna") }),
+  z.object({
+    source: z.literal("greenhouse"),
+    boardToken: z.string().trim().min(1, "Greenhouse board token is required"),
+    companyName: z.string().trim().optional(),
+  }),
+  z.object({
+    source: z.literal("lever"),
+    companySlug: z.string().trim().min(1, "Lever company slug is required"),
+    companyName: z.string().trim().optional(),
+  }),
+]);
+
+const savedSearchFields = {
+  name: z.string({ error: "Name is required" }).trim().min(1, "Name is required").max(100),
+  query: z.string({ error: "Query is required" }).trim().min(1, "Query is required").max(200),
+  location: z.string().trim().max(100),
+  sources: z.array(savedSearchSourceSchema).min(1, "At least one source is required"),
+  filters: z.object({
+    remoteOnly: z.boolean().optional(),
+    salaryMin: z.number().min(0).optional(),
+    excludeKeywords: z.array(z.string()).optional(),
+  }),
+  resultsCount: z.number().int().min(1).max(50),
+  frequency: z.enum(["daily", "weekly"]),
+  enabled: z.boolean(),
+};
+
+/**
+ * Validates a new saved search sent by the client
+ */
+export const savedSearchInputSchema = z.object({
+  ...savedSearchFields,
+  location: savedSearchFields.location.optional(),
+  filters: savedSearchFields.filters.default({}),
+  resultsCount: savedSearchFields.resultsCount.default(20),
+  frequency: savedSearchFields.frequency.default("daily"),
+  enabled: savedSearchFields.enabled.default(true),
+});
+
+/**
+ * Validates saved search updates sent by the client (every field optional)
+ */
+export const savedSearchUpdateSchema = z.object(savedSearchFields).partial();
+
+/**
+ * Options for running saved searches
+ */
+export interface SavedSearchRunOptions {
+  /** What started the run (default "manual") */
+  trigger?: SavedSearchRun["trigger"];
+
+  /** Source tools by tool name (defaults to the registered ones; replace to stub API calls) */
+  tools?: Record<string, JobSourceTool>;
+}
+
+/**
+ * Builds the tool input for one source of a saved search
+ */
+function buildToolArgs(search: SavedSearch, source: SavedSearchSource): Record<string, unknown> {
+  const common = {
+    query: search.query,
+    location: search.location || undefined,
+    resultsCount: search.resultsCount,
+  };
+
+  switch (source.source) {
+    case "adzuna":
+      return common;
+    case "greenhouse":
+      return { ...common, boardToken: source.boardToken };
+    case "lever":
+      return { ...common, companySlug: source.companySlug, companyName: source.companyName };
+  }
+}
+
+/**
+ * Describes a source for error messages (e.g. "Lever (netflix)")
+ */
+function describeSource(source: SavedSearchSource): string {
+  switch (source.source) {
+    case "adzuna":
+      return "Adzuna";
+    case "greenhouse":
+      return `Greenhouse (${source.companyName || source.boardToken})`;
+    case "lever":
+      return `Lever (${source.companyName || source.companySlug})`;
+  }
+}
+
+/**
+ * Checks a job against a saved search's filters
+ */
+function matchesFilters(job: Job, filters: SavedSearchFilters): boolean {
+  if (filters.remoteOnly && !REMOTE_PATTERN.test(job.location)) {
+    return false;
+  }
+
+  if (filters.salaryMin) {
+    const range = withSalaryRange(job).salaryRange;
+    const max = range && range.currency === "USD" ? annualizeSalary(range).max : undefined;
+    // Jobs without a comparable salary pass, like the salary deal breaker
+    if (max !== undefined && max < filters.salaryMin) {
+      return false;
+    }
+  }
+
+  // Whole words, like keyword deal breakers ("java" keeps JavaScript jobs)
+  const keywords = (filters.excludeKeywords || []).filter((word) => word.trim());
+  if (keywords.length > 0) {
+    const text = `${job.title}\n${job.description}`;
+    if (keywords.some((keyword) => keywordPattern(keyword).test(text))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Searches every source of a saved search and filters the results
+ *
+ * Does not touch the database, so it can be run against stubbed tools.
+ *
+ * @param search - Saved search to run
+ * @param profile - Owner's profile (company lists and deal breakers), if any
+ * @param tools - Source tools by tool name (defaults to the registered ones)
+ * @returns Jobs that passed every filter, how many were found and filtered, and source errors
+ */
+export async function searchSavedSearch(
+  search: SavedSearch,
+  profile: UserProfile | null,
+  tools: Record<string, JobSourceTool> = getJobSourceTools()
+): Promise<{ jobs: Job[]; foundCount: number; filteredCount: number; errors: string[] }> {
+  const found: Job[] = [];
+  const errors: string[] = [];
+
+  // Sources are searched one at a time to stay within API rate limits
+  for (const source of search.sources) {
+    const tool = tools[SOURCE_TOOL_NAMES[source.source]];
+    if (!tool) {
+      errors.push(`${describeSource(source)}: source is not available`);
+      continue;
+    }
+
+    try {
+      const args = tool.inputSchema.parse(buildToolArgs(search, source));
+      const result = (await tool.execute(args)) as { action?: string; error?: string; jobs?: Job[] };
+
+      if (result.action === "error") {
+        errors.push(`${describeSource(source)}: ${result.error || "search failed"}`);
+      }
+      found.push(...(result.jobs || []));
+    } catch (error) {
+      errors.push(
+        `${describeSource(source)}: ${error instanceof Error ? error.message : "search failed"}`
+      );
+    }
+  }
+
+  const { jobs: allowedJobs } = profile ? applyCompanyLists(found, profile) : { jobs: found };
+  const jobs = allowedJobs
+    .map((job) => withDealBreakers(job, profile?.dealBreakerRules))
+    .filter((job) => !hasDealBreakers(job) && matchesFilters(job, search.filters));
+
+  return {
+    jobs,
+    foundCount: found.length,
+    filteredCount: found.length - jobs.length,
+    errors,
+  };
+}
+
+/**
+ * Runs a saved search and stores the jobs the user has not seen in the inbox
+ *
+ * Jobs matching one the user already has (in any status, by fingerprint or
+ * URL) are counted as already seen and left untouched. The run is recorded
+ * with its counts.
+ *
+ * @param supabase - Supabase client instance (service-role for scheduled runs)
+ * @param userId - Owner of the saved search
+ * @param search - Saved search to run
+ * @param profile - Owner's profile, used for filtering and baseline scores
+ * @param options - Trigger and tool overrides
+ * @returns The recorded run (with an ID of "" if it could not be recorded)
+ */
+export async function runSavedSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  search: SavedSearch,
+  profile: UserProfile | null,
+  options: SavedSearchRunOptions = {}
+): Promise<SavedSearchRun> {
+  const startedAt = new Date().toISOString();
+  const { jobs, foundCount, filteredCount, errors } = await searchSavedSearch(
+    search,
+    profile,
+    options.tools
+  );
+
+  let newCount = 0;
+  let alreadySeenCount = 0;
+
+  if (jobs.length > 0) {
+    try {
+      const result = await saveJobs(
+        supabase,
+        userId,
+        jobs.map((job) => ({ ...job, applicationStatus: "inbox" })),
+        profile
+      );
+      newCount = result.inserted.length;
+      alreadySeenCount = result.alreadySaved.length;
+    } catch (error) {
+      errors.push(`Saving to inbox failed: ${error instanceof Error ? error.message : "unknown error"}`);
+    }
+  }
+
+  const run: Omit<SavedSearchRun, "id"> = {
+    savedSearchId: search.id,
+    trigger: options.trigger ?? "manual",
+    foundCount,
+    filteredCount,
+    newCount,
+    alreadySeenCount,
+    errors,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+
+  console.log(
+    `🔁 Saved search "${search.name}": ${foundCount} found, ${filteredCount} filtered, ${newCount} new, ${alreadySeenCount} already seen${errors.length > 0 ? `, ${errors.length} error(s)` : ""}`
+  );
+
+  const recorded = await recordSavedSearchRun(supabase, userId, run);
+  return recorded ?? { id: "", ...run };
+}
@@ -0,0 +1,238 @@
+/**
+ * Baseline Scoring Engine
+ *
+ * Rule-based scorer that computes salary, location and requirements
+ * sub-scores from the user's profile and the job's structured fields.
+ * Company appeal (except for allowlisted target companies), role match and
+ * custom categories need judgment, so they get a neutral share of their
+ * weight. The result is reproducible, is stored when a job is saved, and is
+ * given to the Job Matching Agent as the baseline to justify deviations from
+ * (and used directly when the agent is unavailable).
+ */
+
+import type { BaselineScore, Job, ScoreCategory } from "@/types/job";
+import { calculatePriority } from "@/types/job";
+import type { UserProfile } from "@/types/profile";
+import { DEFAULT_SCORING_WEIGHTS } from "@/types/profile";
+import { findCompanyListEntry } from "./company-lists";
+import { normalizeLocation } from "./fingerprint";
+import { extractTechnologies, withStructuredRequirements } from "./requirements";
+import { computeSalaryMatchRatio, formatSalaryRange, withSalaryRange } from "./salary";
+import { computeWeightedScore } from "./scoring";
+
+/**
+ * Bumped whenever the rules change so stored baselines can be told apart
+ * (version 2 stores ratings instead of points in scoreBreakdown, version 3
+ * rates company appeal of allowlisted companies)
+ */
+export const BASELINE_SCORER_VERSION = 3;
+
+/**
+ * Share of a category's weight awarded when it cannot be computed
+ * (matches the matching prompt's neutral 15/25 for company appeal)
+ */
+const NEUTRAL_RATIO = 0.6;
+
+const REMOTE_PATTERN = /\b(remote|anywhere|distributed|work from home|wfh)\b/i;
+const HYBRID_PATTERN = /\bhybrid\b/i;
+
+interface CategoryResult {
+  /** Share of the category's weight earned (0-1), null if not computable */
+  ratio: number | null;
+  notes: string[];
+  gaps: string[];
+}
+
+/**
+ * Scores salary from the parsed salary range (see computeSalaryMatchRatio)
+ */
+function scoreSalary(job: Job, profile: UserProfile): CategoryResult {
+  const ratio = computeSalaryMatchRatio(job.salaryRange, profile);
+
+  if (ratio === null) {
+    return {
+      ratio: null,
+      notes: [job.salaryRange ? "Salary not comparable to your range" : "No salary listed"],
+      gaps: [],
+    };
+  }
+
+  const salary = formatSalaryRange(job.salaryRange!);
+  const min = `$${profile.salaryMin.toLocaleString("en-US")}`;
+  return {
+    ratio,
+    notes: [
+      ratio === 1
+        ? `Salary ${salary} meets your ${min} minimum`
+        : ratio > 0.5
+          ? `Salary ${salary} only partly meets your ${min} minimum`
+          : `Salary ${salary} is below your ${min} minimum`,
+    ],
+    gaps: ratio < 0.75 ? [`Salary below your ${min} minimum`] : [],
+  };
+}
+
+/**
+ * Scores location against preferred locations and remote/hybrid preferences
+ */
+function scoreLocation(job: Job, profile: UserProfile): CategoryResult {
+  const preferences = [...(profile.preferredLocations || []), ...(profile.jobPreferences || [])];
+  const places = (profile.preferredLocations || []).filter(
+    (location) => !REMOTE_PATTERN.test(location) && !HYBRID_PATTERN.test(location)
+  );
+  const wantsRemote = preferences.some((preference) => REMOTE_PATTERN.test(preference));
+
+  if (!wantsRemote && places.length === 0) {
+    return { ratio: null, notes: ["No location preferences set"], gaps: [] };
+  }
+
+  if (REMOTE_PATTERN.test(job.location)) {
+    return wantsRemote
+      ? { ratio: 1, notes: ["Remote role matches your remote preference"], gaps: [] }
+      : { ratio: 0.7, notes: ["Remote role (not in your stated preferences)"], gaps: [] };
+  }
+
+  const jobLocation = job.location.toLowerCase();
+  const jobCity = normalizeLocation(job.location);
+  const matchedPlace = places.find((place) => {
+    const placeCity = normalizeLocation(place);
+    return (
+      (placeCity !== "" && placeCity === jobCity) ||
+      jobLocation.includes(place.trim().toLowerCase())
+    );
+  });
+
+  if (matchedPlace) {
+    return { ratio: 1, notes: [`Located in ${matchedPlace}, one of your preferred locations`], gaps: [] };
+  }
+
+  return {
+    ratio: HYBRID_PATTERN.test(job.location) ? 0.2 : 0.1,
+    notes: [`${job.location} is outside your preferred locations`],
+    gaps: [`Location (${job.location}) may require relocation`],
+  };
+}
+
+/**
+ * Scores company appeal for target companies on the user's allowlist
+ * (other companies need the agent's judgment)
+ */
+function scoreCompanyAppeal(job: Job, profile: UserProfile): CategoryResult {
+  const target = findCompanyListEntry(job.company, profile.companyAllowlist);
+  return target
+    ? { ratio: 1, notes: [`${target.name} is one of your target companies`], gaps: [] }
+    : { ratio: null, notes: [], gaps: [] };
+}
+
+/**
+ * Finds the user's years of experience mentioned in their background
+ * (largest "N years" figure, e.g. "8 years building data pipelines")
+ */
+function estimateYearsOfExperience(text: string): number | undefined {
+  const years = Array.from(text.matchAll(/(\d{1,2})\+?\s*(?:years?|yrs?)\b/gi))
+    .map((match) => parseInt(match[1], 10))
+    .filter((value) => value > 0 && value <= 50);
+
+  return years.length > 0 ? Math.max(...years) : undefined;
+}
+
+/**
+ * Scores requirements by technology coverage (70%) and years of experience (30%)
+ */
+function scoreRequirements(job: Job, profile: UserProfile): CategoryResult {
+  const requirements = job.structuredRequirements;
+  if (!requirements) {
+    return { ratio: null, notes: ["No requirements parsed"], gaps: [] };
+  }
+
+  const notes: string[] = [];
+  const gaps: string[] = [];
+  const parts: Array<{ ratio: number; weight: number }> = [];
+
+  if (requirements.technologies.length > 0) {
+    const skills = (profile.skills || []).map((skill) => skill.toLowerCase());
+    const userTechnologies = new Set(
+      extractTechnologies(`${(profile.skills || []).join(", ")}\n${profile.professionalBackground || ""}`)
+    );
+    const missing = requirements.technologies.filter(
+      (tech) => !userTechnologies.has(tech) && !skills.includes(tech.toLowerCase())
+    );
+    const matched = requirements.technologies.length - missing.length;
+
+    parts.push({ ratio: matched / requirements.technologies.length, weight: 0.7 });
+    notes.push(`You know ${matched} of ${requirements.technologies.length} technologies mentioned`);
+    if (missing.length > 0) {
+      gaps.push(`Technologies not in your profile: ${missing.join(", ")}`);
+    }
+  }
+
+  const userYears = estimateYearsOfExperience(profile.professionalBackground || "");
+  if (requirements.yearsOfExperience && userYears !== undefined) {
+    const required = requirements.yearsOfExperience.min;
+    parts.push({ ratio: required > 0 ? Math.min(1, userYears / required) : 1, weight: 0.3 });
+    if (userYears >= required) {
+      notes.push(`Your ${userYears} years meet the ${required}+ years asked for`);
+    } else {
+      notes.push(`Your ${userYears} years are short of the ${required}+ years asked for`);
+      gaps.push(`${required - userYears} more year${required - userYears === 1 ? "" : "s"} of experience asked for`);
+    }
+  }
+
+  if (parts.length === 0) {
+    return { ratio: null, notes: ["Requirements too vague to compare automatically"], gaps: [] };
+  }
+
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0);
+  return {
+    ratio: parts.reduce((sum, part) => sum + part.ratio * part.weight, 0) / totalWeight,
+    notes,
+    gaps,
+  };
+}
+
+/**
+ * Computes the deterministic baseline score of a job for a user
+ *
+ * @param job - Job to score (salary and requirements are parsed if missing)
+ * @param profile - User profile with salary, location, skills and weights
+ * @returns Baseline score using the user's scoring weights
+ */
+export function computeBaselineScore(job: Job, profile: UserProfile): BaselineScore {
+  const enrichedJob = withSalaryRange(withStructuredRequirements(job));
+  const weights = { ...DEFAULT_SCORING_WEIGHTS, ...profile.scoringWeights };
+
+  const ruleResults: Partial<Record<ScoreCategory, CategoryResult>> = {
+    salaryMatch: scoreSalary(enrichedJob, profile),
+    locationFit: scoreLocation(enrichedJob, profile),
+    companyAppeal: scoreCompanyAppeal(enrichedJob, profile),
+    requirementsFit: scoreRequirements(enrichedJob, profile),
+  };
+
+  // Categories without rules (including custom ones) are not computable
+  const categories = Object.keys(weights);
+  const results: Record<ScoreCategory, CategoryResult> = Object.fromEntries(
+    categories.map((category) => [
+      category,
+      ruleResults[category] ?? { ratio: null, notes: [], gaps: [] },
+    ])
+  );
+  const scoreBreakdown = Object.fromEntries(
+    categories.map((category) => [
+      category,
+      Math.round((results[category].ratio ?? NEUTRAL_RATIO) * 1000) / 1000,
+    ])
+  ) as BaselineScore["scoreBreakdown"];
+
+  const score = computeWeightedScore(scoreBreakdown, weights);
+
+  return {
+    score,
+    scoreBreakdown,
+    priority: calculatePriority(score),
+    computedCategories: categories.filter((category) => results[category].ratio !== null),
+    notes: categories.flatMap((category) => results[category].notes),
+    gaps: categories.flatMap((category) => results[category].gaps),
+    version: BASELINE_SCORER_VERSION,
+    computedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,149 @@
+/**
+ * Company Lists
+ *
+ * Matches jobs against the user's company blocklist and allowlist. Names are
+ * compared after normalization (see normalizeCompany) and across aliases, both
+ * the ones the user entered and well-known renames (e.g. "Meta" and
+ * "Facebook"), so a company is recognized however a job board spells it.
+ * Blocklisted companies never reach the discovery carousel; allowlisted ones
+ * are shown first and get full Company Appeal when scored.
+ */
+
+import type { Job } from "@/types/job";
+import { calculatePriority } from "@/types/job";
+import type { CompanyListEntry, UserProfile } from "@/types/profile";
+import { normalizeCompany } from "./fingerprint";
+import { computeWeightedScore, type ScoringWeights } from "./scoring";
+
+/**
+ * Groups of names the same company posts jobs under
+ */
+const KNOWN_COMPANY_ALIASES: string[][] = [
+  ["Meta", "Meta Platforms", "Facebook"],
+  ["Alphabet", "Google"],
+  ["X", "X Corp", "Twitter"],
+  ["Amazon", "Amazon Web Services", "AWS"],
+  ["Block", "Square"],
+  ["ByteDance", "TikTok"],
+  ["Snap", "Snapchat"],
+  ["IBM", "International Business Machines"],
+  ["JPMorgan Chase", "JPMorgan", "JP Morgan", "J.P. Morgan"],
+  ["PwC", "PricewaterhouseCoopers"],
+  ["EY", "Ernst & Young"],
+  ["HPE", "Hewlett Packard Enterprise"],
+];
+
+const KNOWN_ALIAS_GROUPS = KNOWN_COMPANY_ALIASES.map(
+  (group) => new Set(group.map(normalizeCompany))
+);
+
+/**
+ * Normalized names an entry matches: its name, its aliases and their known aliases
+ */
+function entryNames(entry: CompanyListEntry): Set<string> {
+  const names = new Set(
+    [entry.name, ...(entry.aliases || [])].map(normalizeCompany).filter(Boolean)
+  );
+
+  for (const group of KNOWN_ALIAS_GROUPS) {
+    if (Array.from(names).some((name) => group.has(name))) {
+      group.forEach((name) => names.add(name));
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Finds the list entry a company matches
+ *
+ * @param company - Company name as posted
+ * @param list - Blocklist or allowlist entries
+ * @returns The matching entry, or undefined
+ */
+export function findCompanyListEntry(
+  company: string,
+  list: CompanyListEntry[] | undefined
+): CompanyListEntry | undefined {
+  const normalized = normalizeCompany(company);
+  if (!normalized) return undefined;
+
+  return (list || []).find((entry) => entryNames(entry).has(normalized));
+}
+
+/**
+ * True if the job's company is on the user's blocklist
+ */
+export function isBlockedCompany(job: Job, profile: Pick<UserProfile, "companyBlocklist">): boolean {
+  return findCompanyListEntry(job.company, profile.companyBlocklist) !== undefined;
+}
+
+/**
+ * True if the job's company is on the user's allowlist
+ */
+export function isTargetCompany(job: Job, profile: Pick<UserProfile, "companyAllowlist">): boolean {
+  return findCompanyListEntry(job.company, profile.companyAllowlist) !== undefined;
+}
+
+/**
+ * Applies the user's company lists to jobs about to be displayed
+ *
+ * Blocklisted jobs are removed, allowlisted ones are marked as targetCompany
+ * and moved to the front (keeping the source's order otherwise).
+ *
+ * @returns Remaining jobs and how many were removed
+ */
+export function applyCompanyLists(
+  jobs: Job[],
+  profile: Pick<UserProfile, "companyBlocklist" | "companyAllowlist">
+): { jobs: Job[]; blockedCount: number } {
+  const allowed = jobs.filter((job) => !isBlockedCompany(job, profile));
+  const marked = allowed.map((job) =>
+    isTargetCompany(job, profile) ? { ...job, targetCompany: true } : job
+  );
+
+  return {
+    jobs: [
+      ...marked.filter((job) => job.targetCompany),
+      ...marked.filter((job) => !job.targetCompany),
+    ],
+    blockedCount: jobs.length - allowed.length,
+  };
+}
+
+/**
+ * Gives a target company's job the full Company Appeal rating
+ *
+ * Applied to agent scores so an allowlisted company is never rated down on
+ * appeal; the total score and priority are recomputed from the ratings.
+ */
+export function applyTargetCompanyBoost(job: Job, weights: ScoringWeights): Job {
+  if (!job.targetCompany || !job.scoreBreakdown || weights.companyAppeal === undefined) {
+    return job;
+  }
+
+  const scoreBreakdown = { ...job.scoreBreakdown, companyAppeal: 1 };
+  const score = computeWeightedScore(scoreBreakdown, weights, job.scoreAdjustment ?? 0);
+  return { ...job, scoreBreakdown, score, priority: calculatePriority(score) };
+}
+
+/**
+ * Parses a company list from text, one company per line with aliases after
+ * slashes (e.g. "Meta / Facebook")
+ */
+export function parseCompanyList(text: string): CompanyListEntry[] {
+  return text
+    .split("\n")
+    .map((line) => line.split("/").map((name) => name.trim()).filter(Boolean))
+    .filter((names) => names.length > 0)
+    .map(([name, ...aliases]) => (aliases.length > 0 ? { name, aliases } : { name }));
+}
+
+/**
+ * Formats a company list as text (inverse of parseCompanyList)
+ */
+export function formatCompanyList(list: CompanyListEntry[] | undefined): string {
+  return (list || [])
+    .map((entry) => [entry.name, ...(entry.aliases || [])].join(" / "))
+    .join("\n");
+}
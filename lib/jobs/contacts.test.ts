@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { contactInputSchema, contactUpdateSchema } from "./contacts";
+
+describe("contactInputSchema", () => {
+  it("accepts a contact with a LinkedIn profile", () => {
+    const parsed = contactInputSchema.safeParse({
+      name: "Dana Recruiter",
+      linkedinUrl: "https://www.linkedin.com/in/dana",
+    });
+
+    expect(parsed.success).toBe(true);
+    expect(parsed.data).toMatchObject({ relationship: "other", jobIds: [] });
+  });
+
+  it("rejects LinkedIn URLs that are not web links", () => {
+    for (const linkedinUrl of ["javascript:alert(1)", "data:text/html,<script>alert(1)</script>", "ftp://example.com"]) {
+      const parsed = contactUpdateSchema.safeParse({ linkedinUrl });
+
+      expect(parsed.success).toBe(false);
+      expect(parsed.error?.issues[0]?.message).toBe("Invalid LinkedIn URL");
+    }
+  });
+
+  it("rejects job IDs that are not UUIDs", () => {
+    const parsed = contactInputSchema.safeParse({ name: "Dana Recruiter", jobIds: ["1 OR 1=1"] });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0]?.message).toBe("Invalid job ID");
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Job Contacts
+ *
+ * Validation for contacts sent by the client, and matching contacts to jobs.
+ * A contact is relevant to a job when it is linked to the job or works at the
+ * job's company (compared like the company lists, so "Facebook" contacts show
+ * up on "Meta" jobs).
+ */
+
+import { z } from "zod";
+import type { Job } from "@/types/job";
+import type { Contact, ContactRelationship } from "@/types/contact";
+import { findCompanyListEntry } from "./company-lists";
+
+/**
+ * Labels of contact relationships for display
+ */
+export const CONTACT_RELATIONSHIP_LABELS: Record<ContactRelationship, string> = {
+  recruiter: "Recruiter",
+  hiring_manager: "Hiring Manager",
+  referral: "Referral",
+  interviewer: "Interviewer",
+  colleague: "Colleague",
+  other: "Other",
+};
+
+const contactFields = {
+  name: z.string({ error: "Name is required" }).trim().min(1, "Name is required").max(100),
+  role: z.string().trim().max(100).optional(),
+  email: z.union([z.email("Invalid email address"), z.literal("")]).optional(),
+  // Web links only: the URL is rendered as a link, so javascript: and the like are rejected
+  linkedinUrl: z
+    .union([z.url({ protocol: /^https?$/, error: "Invalid LinkedIn URL" }), z.literal("")])
+    .optional(),
+  relationship: z.enum(
+    Object.keys(CONTACT_RELATIONSHIP_LABELS) as [ContactRelationship, ...ContactRelationship[]]
+  ),
+  company: z.string().trim().max(100).optional(),
+  jobIds: z.array(z.uuid("Invalid job ID")),
+  notes: z.string().trim().max(2000).optional(),
+  lastContactedAt: z.iso.datetime({ offset: true }).nullable().optional(),
+};
+
+/**
+ * Validates a new contact sent by the client
+ */
+export const contactInputSchema = z.object({
+  ...contactFields,
+  relationship: contactFields.relationship.default("other"),
+  jobIds: contactFields.jobIds.default([]),
+});
+
+/**
+ * Validates contact updates sent by the client (every field optional)
+ */
+export const contactUpdateSchema = z.object(contactFields).partial();
+
+export type ContactInput = z.infer<typeof contactInputSchema>;
+export type ContactUpdate = z.infer<typeof contactUpdateSchema>;
+
+/**
+ * True if a contact is linked to the job or works at its company
+ */
+export function isContactForJob(contact: Contact, job: Pick<Job, "id" | "company">): boolean {
+  if (contact.jobIds.includes(job.id)) return true;
+  return !!contact.company && !!findCompanyListEntry(job.company, [{ name: contact.company }]);
+}
@@ -0,0 +1,59 @@
+/**
+ * Cover Letter Options
+ *
+ * Tones and lengths the Cover Letter Agent can write in, shared by the
+ * generation dialog and the agent context.
+ */
+
+import type { CoverLetterLength, CoverLetterTone } from "@/types/job";
+
+/**
+ * Tones with a label for display and guidance for the agent
+ */
+export const COVER_LETTER_TONES: Record<CoverLetterTone, { label: string; guidance: string }> = {
+  professional: {
+    label: "Professional",
+    guidance: "Confident and polished; clear, direct sentences without slang",
+  },
+  enthusiastic: {
+    label: "Enthusiastic",
+    guidance: "Energetic and warm; show genuine excitement about the company and the role, without hype",
+  },
+  conversational: {
+    label: "Conversational",
+    guidance: "Friendly and plain-spoken, as if writing to a future teammate; contractions are fine",
+  },
+  formal: {
+    label: "Formal",
+    guidance: "Traditional business letter register; no contractions, measured wording",
+  },
+};
+
+/**
+ * Lengths with a label for display and the word range the agent aims for
+ */
+export const COVER_LETTER_LENGTHS: Record<
+  CoverLetterLength,
+  { label: string; minWords: number; maxWords: number }
+> = {
+  short: { label: "Short", minWords: 150, maxWords: 220 },
+  standard: { label: "Standard", minWords: 250, maxWords: 350 },
+  detailed: { label: "Detailed", minWords: 400, maxWords: 500 },
+};
+
+export const DEFAULT_COVER_LETTER_TONE: CoverLetterTone = "professional";
+export const DEFAULT_COVER_LETTER_LENGTH: CoverLetterLength = "standard";
+
+/**
+ * True if the value is a known cover letter tone
+ */
+export function isCoverLetterTone(value: unknown): value is CoverLetterTone {
+  return typeof value === "string" && value in COVER_LETTER_TONES;
+}
+
+/**
+ * True if the value is a known cover letter length
+ */
+export function isCoverLetterLength(value: unknown): value is CoverLetterLength {
+  return typeof value === "string" && value in COVER_LETTER_LENGTHS;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { Job } from "@/types/job";
+import { evaluateDealBreakers } from "./deal-breakers";
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "00000000-0000-4000-8000-000000000001",
+    title: "Software Engineer",
+    company: "Acme",
+    location: "Remote",
+    description: "",
+    requirements: [],
+    url: "https://example.com/jobs/1",
+    source: "manual",
+    discoveredAt: "2026-10-19T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+function keywordViolations(job: Job, keywords: string[]) {
+  return evaluateDealBreakers(job, [{ type: "keywords", keywords }]);
+}
+
+describe("keywords rule", () => {
+  it("flags postings that mention a keyword", () => {
+    const job = makeJob({ description: "Our backend is written in Java and Kotlin." });
+
+    expect(keywordViolations(job, ["java"])).toEqual([
+      { rule: "keywords", message: 'Posting mentions "java"' },
+    ]);
+  });
+
+  it("does not match a keyword inside a longer word", () => {
+    expect(
+      keywordViolations(makeJob({ description: "Build our JavaScript frontend." }), ["java"])
+    ).toEqual([]);
+    expect(
+      keywordViolations(makeJob({ description: "Join our international team." }), ["intern"])
+    ).toEqual([]);
+  });
+
+  it("matches the keyword in the title and requirements", () => {
+    expect(keywordViolations(makeJob({ title: "Software Engineering Intern" }), ["intern"])).toHaveLength(1);
+    expect(
+      keywordViolations(makeJob({ requirements: ["3 years of PHP"] }), ["php"])
+    ).toHaveLength(1);
+  });
+
+  it("matches phrases across any whitespace", () => {
+    const job = makeJob({ description: "You will be on\ncall one week a month." });
+
+    expect(keywordViolations(job, ["on call"])).toHaveLength(1);
+  });
+
+  it("treats regex characters in keywords literally", () => {
+    expect(keywordViolations(makeJob({ description: "Experience with C++ required." }), ["C++"])).toHaveLength(1);
+    expect(keywordViolations(makeJob({ description: "Experience with C required." }), ["C++"])).toEqual([]);
+    expect(keywordViolations(makeJob({ description: "We use .NET daily." }), [".net"])).toHaveLength(1);
+    expect(keywordViolations(makeJob({ description: "Visit our website.net page." }), [".net"])).toEqual([]);
+  });
+
+  it("ignores blank keywords", () => {
+    expect(keywordViolations(makeJob({ description: "Anything" }), ["", "  "])).toEqual([]);
+  });
+});
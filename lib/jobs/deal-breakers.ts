@@ -0,0 +1,160 @@
+/**
+ * Deal-Breaker Rules
+ *
+ * Evaluates the user's structured deal-breaker rules against a job in code,
+ * so a violating job is flagged the same way every time instead of relying
+ * on the agents to honor free-text deal breakers. Flagged jobs are hidden
+ * from the discovery carousel by default and capped at low priority when
+ * scored.
+ */
+
+import type { DealBreakerViolation, Job } from "@/types/job";
+import type { DealBreakerRule, DealBreakerRuleType } from "@/types/profile";
+import { annualizeSalary, formatSalaryRange, withSalaryRange } from "./salary";
+
+/**
+ * Highest score a job violating a deal breaker can have (just below medium priority)
+ */
+export const DEAL_BREAKER_MAX_SCORE = 69;
+
+const REMOTE_PATTERN = /\b(remote|anywhere|distributed|work from home|wfh)\b/i;
+const HYBRID_PATTERN = /\bhybrid\b/i;
+const ONSITE_PATTERN = /\b(on[- ]?site|in[- ]office|office[- ]based)\b/i;
+
+const CLEARANCE_PATTERN =
+  /\b(security clearance|clearance (is )?required|(active|current|secret|dod|government) clearance|ts\/sci|top secret|public trust|polygraph)\b/i;
+
+const CONTRACT_TITLE_PATTERN = /\b(contract(or)?|freelance|temporary|temp|c2c|1099|fixed[- ]term)\b/i;
+const CONTRACT_DESCRIPTION_PATTERN =
+  /\b(contract (role|position|assignment|opportunity|basis)|\d+[- ]month contract|contract[- ]to[- ]hire|1099|corp[- ]to[- ]corp|c2c|w-?2 contract|fixed[- ]term contract|temporary (role|position))\b/i;
+
+/**
+ * Short labels of rule types, used in the profile editor and in badges
+ */
+export const DEAL_BREAKER_LABELS: Record<DealBreakerRuleType, string> = {
+  onsite_only: "On-site only",
+  salary_below: "Salary below floor",
+  requires_clearance: "Requires clearance",
+  contract_role: "Contract role",
+  keywords: "Excluded keyword",
+};
+
+function formatAmount(amount: number): string {
+  return amount >= 10_000 ? `$${Math.round(amount / 1_000)}k` : `$${amount.toLocaleString("en-US")}`;
+}
+
+/**
+ * Matches a keyword as a whole word or phrase, so "java" does not match
+ * "javascript" (keywords like "C++" or ".NET" may start or end with symbols)
+ */
+export function keywordPattern(keyword: string): RegExp {
+  const escaped = keyword
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("\\s+");
+  return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, "i");
+}
+
+/**
+ * Checks one rule against a job
+ *
+ * @returns Why the rule fired, or null if the job passes
+ */
+function checkRule(job: Job, rule: DealBreakerRule): string | null {
+  const text = `${job.title}\n${job.description}\n${(job.requirements || []).join("\n")}`;
+
+  switch (rule.type) {
+    case "onsite_only": {
+      if (REMOTE_PATTERN.test(job.location) || HYBRID_PATTERN.test(job.location)) return null;
+      // Without a location hint, only a description that never mentions remote or hybrid work counts
+      const flexible = REMOTE_PATTERN.test(job.description) || HYBRID_PATTERN.test(job.description);
+      if (ONSITE_PATTERN.test(job.location) || !flexible) {
+        return `On-site role in ${job.location}`;
+      }
+      return null;
+    }
+
+    case "salary_below": {
+      const range = withSalaryRange(job).salaryRange;
+      if (!range || range.currency !== "USD" || rule.amount <= 0) return null;
+      // "$X+" has no ceiling, so it never falls short
+      const { max } = annualizeSalary(range);
+      return max !== undefined && max < rule.amount
+        ? `Salary ${formatSalaryRange(range)} tops out below your ${formatAmount(rule.amount)} floor`
+        : null;
+    }
+
+    case "requires_clearance": {
+      const match = text.match(CLEARANCE_PATTERN);
+      return match ? `Requires a security clearance ("${match[0]}")` : null;
+    }
+
+    case "contract_role": {
+      const match =
+        `${job.title} ${job.department || ""}`.match(CONTRACT_TITLE_PATTERN) ||
+        job.description.match(CONTRACT_DESCRIPTION_PATTERN);
+      return match ? `Contract or temporary role ("${match[0]}")` : null;
+    }
+
+    case "keywords": {
+      const keyword = rule.keywords.find((word) => word.trim() && keywordPattern(word).test(text));
+      return keyword ? `Posting mentions "${keyword.trim()}"` : null;
+    }
+  }
+}
+
+/**
+ * Evaluates deal-breaker rules against a job
+ *
+ * @param job - Job to check
+ * @param rules - The user's deal-breaker rules
+ * @returns The rules that fired (empty if the job passes)
+ */
+export function evaluateDealBreakers(
+  job: Job,
+  rules: DealBreakerRule[] | undefined
+): DealBreakerViolation[] {
+  return (rules || []).flatMap((rule) => {
+    const message = checkRule(job, rule);
+    return message ? [{ rule: rule.type, message }] : [];
+  });
+}
+
+/**
+ * Returns the job with dealBreakerViolations set from the rules
+ * (the field is removed when no rule fires)
+ */
+export function withDealBreakers(job: Job, rules: DealBreakerRule[] | undefined): Job {
+  const violations = evaluateDealBreakers(job, rules);
+  const { dealBreakerViolations: _previous, ...rest } = job;
+  return violations.length > 0 ? { ...rest, dealBreakerViolations: violations } : rest;
+}
+
+/**
+ * True if the job violates at least one deal-breaker rule
+ */
+export function hasDealBreakers(job: Job): boolean {
+  return (job.dealBreakerViolations?.length ?? 0) > 0;
+}
+
+/**
+ * Caps a job violating deal breakers at low priority
+ *
+ * Applied to agent and baseline scores so a high category score can never
+ * lift a deal-breaker job above DEAL_BREAKER_MAX_SCORE. The violations are
+ * added to the gaps so they show up next to the score.
+ */
+export function applyDealBreakerCap(job: Job): Job {
+  if (!hasDealBreakers(job) || job.score === undefined) {
+    return job;
+  }
+
+  const messages = job.dealBreakerViolations!.map((violation) => `Deal breaker: ${violation.message}`);
+  return {
+    ...job,
+    score: Math.min(job.score, DEAL_BREAKER_MAX_SCORE),
+    priority: "low",
+    gaps: [...messages, ...(job.gaps || []).filter((gap) => !messages.includes(gap))],
+  };
+}
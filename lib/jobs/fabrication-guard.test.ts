@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { verifyTailoredResume } from "./fabrication-guard";
+
+const MASTER = `# Jordan Lee
+
+## Experience
+
+### Senior Software Engineer | Acme Corp | Jan 2020 - Present
+- Cut infrastructure costs by $1,200,000 a year
+- Reduced p95 latency by 40% across 12 services
+
+### Software Engineer | Globex | Jun 2016 - Dec 2019
+- Migrated 3 teams to Kubernetes
+
+## Education
+
+B.S. in Computer Science, State University
+`;
+
+/**
+ * Returns the unverified claims of a tailored resume as "type: claim"
+ */
+function unverified(tailored: string): string[] {
+  return verifyTailoredResume(tailored, MASTER).unverifiedClaims.map(({ type, claim }) => `${type}: ${claim}`);
+}
+
+describe("verifyTailoredResume", () => {
+  it("verifies a tailored resume that keeps the facts", () => {
+    const result = verifyTailoredResume(MASTER, MASTER);
+
+    expect(result.unverifiedClaims).toEqual([]);
+    expect(result.checkedClaims).toBeGreaterThan(0);
+  });
+
+  describe("metrics", () => {
+    it("matches an abbreviated amount to the written-out one", () => {
+      expect(unverified("- Cut infrastructure costs by $1.2M a year")).toEqual([]);
+    });
+
+    it("matches percentages written out in words", () => {
+      expect(unverified("- Reduced p95 latency by 40 percent")).toEqual([]);
+    });
+
+    it("flags inflated numbers", () => {
+      expect(unverified("- Cut infrastructure costs by $1.5M a year\n- Reduced latency by 60%")).toEqual([
+        "metric: $1.5M",
+        "metric: 60%",
+      ]);
+    });
+  });
+
+  describe("date ranges", () => {
+    it("accepts ranges with the months dropped", () => {
+      expect(unverified("## Experience\n\n### Software Engineer | Globex | 2016 - 2019")).toEqual([]);
+    });
+
+    it("flags a changed end year", () => {
+      expect(unverified("## Experience\n\n### Software Engineer | Globex | Jun 2016 - Dec 2020")).toEqual([
+        "date_range: Jun 2016 - Dec 2020",
+      ]);
+    });
+
+    it("flags a changed month", () => {
+      expect(unverified("## Experience\n\n### Software Engineer | Globex | Mar 2016 - Dec 2019")).toEqual([
+        "date_range: Mar 2016 - Dec 2019",
+      ]);
+    });
+
+    it("flags a past job shown as current", () => {
+      expect(unverified("## Experience\n\n### Software Engineer | Globex | Jun 2016 - Present")).toEqual([
+        "date_range: Jun 2016 - Present",
+      ]);
+    });
+  });
+
+  describe("experience entries", () => {
+    it("flags titles and employers missing from the master resume", () => {
+      expect(unverified("## Experience\n\n### Staff Software Engineer | Initech | Jan 2020 - Present")).toEqual([
+        "title: Staff Software Engineer",
+        "employer: Initech",
+      ]);
+    });
+  });
+
+  describe("degrees", () => {
+    it("matches a degree regardless of punctuation and filler words", () => {
+      expect(unverified("## Education\n\nBS Computer Science, State University")).toEqual([]);
+    });
+
+    it("flags a degree the master resume does not list", () => {
+      expect(unverified("## Education\n\nM.S. in Computer Science, State University")).toEqual([
+        "degree: M.S. in Computer Science",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Fabrication Guard
+ *
+ * Checks a tailored resume against the master resume it was generated from.
+ * Tailoring may reorder, trim and reword, but the facts must stay the same:
+ * every employer, job title, date range, degree and quantified metric in the
+ * tailored version has to appear in the master resume. Claims that do not are
+ * returned as unverified so the user can review them before the resume is
+ * saved. The check is textual, so a reworded fact (e.g. "B.S." written out as
+ * "Bachelor of Science") is flagged for review rather than rejected.
+ */
+
+import type {
+  ResumeClaimType,
+  ResumeVerification,
+  UnverifiedResumeClaim,
+} from "@/types/job";
+
+/**
+ * Labels of claim types for display
+ */
+export const RESUME_CLAIM_TYPE_LABELS: Record<ResumeClaimType, string> = {
+  employer: "Employer",
+  title: "Job title",
+  date_range: "Dates",
+  degree: "Degree",
+  metric: "Metric",
+};
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const DATE = String.raw`(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+|\d{1,2}/)?(?:19|20)\d{2}`;
+const DATE_RANGE_REGEX = new RegExp(
+  String.raw`(${DATE})\s*(?:-|–|—|to)\s*(${DATE}|present|current|now|today)`,
+  "gi"
+);
+const HAS_DATE_RANGE_REGEX = new RegExp(DATE_RANGE_REGEX.source, "i");
+
+// Numbers not part of a word (S3, EC2), with an optional currency, scale or percent
+const METRIC_REGEX = /(?<![\w.])[$€£]?\s?\d[\d,]*(?:\.\d+)?\s*(?:%|percent\b|thousand\b|million\b|billion\b|[kmb]\b|x\b)?\+?/gi;
+
+const DEGREE_REGEX =
+  /\b(?:bachelor|master|doctor|associate|diploma)|\b(?:B\.?S\.?c?|B\.?A|B\.?Eng|M\.?S\.?c?|M\.?A|M\.?Eng|MBA|Ph\.?D|J\.?D|M\.?D)\b/;
+
+const TITLE_KEYWORDS =
+  /\b(?:engineer|developer|manager|director|lead|head|architect|analyst|designer|scientist|consultant|specialist|intern|officer|president|vp|coordinator|administrator|associate|programmer|researcher|founder|owner|advisor|instructor|assistant|technician|strategist|recruiter|editor|writer|product|principal|staff|senior|junior)\b/i;
+
+const EXPERIENCE_HEADING = /\b(?:experience|employment|work history|career)\b/i;
+const EDUCATION_HEADING = /\b(?:education|academic|degrees?)\b/i;
+
+interface ResumeClaim {
+  type: ResumeClaimType;
+  claim: string;
+  line: string;
+}
+
+interface DateRange {
+  startMonth?: number;
+  startYear: number;
+  endMonth?: number;
+  endYear?: number; // undefined for ranges running to the present
+}
+
+/**
+ * Lowercase letters and digits only, without filler words, for punctuation-
+ * and spacing-insensitive matching ("B.S. in CS" matches "BS CS")
+ */
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\b(?:in|of|the|and)\b/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Strips markdown emphasis, heading and list markers from a line
+ */
+function stripMarkdown(line: string): string {
+  return line
+    .replace(/^\s*(?:#{1,6}\s+|[-*+]\s+|\d+\.\s+)/, "")
+    .replace(/[*_`]/g, "")
+    .trim();
+}
+
+function parseDate(value: string): { month?: number; year?: number } {
+  const text = value.toLowerCase().trim();
+  if (/^(?:present|current|now|today)$/.test(text)) return {};
+
+  const year = Number(text.match(/(?:19|20)\d{2}/)?.[0]);
+  const numericMonth = text.match(/^(\d{1,2})\//);
+  if (numericMonth) return { month: Number(numericMonth[1]), year };
+
+  const monthIndex = MONTHS.indexOf(text.slice(0, 3));
+  return { month: monthIndex >= 0 ? monthIndex + 1 : undefined, year };
+}
+
+function parseDateRanges(text: string): Array<DateRange & { text: string }> {
+  return Array.from(text.matchAll(DATE_RANGE_REGEX)).map((match) => {
+    const start = parseDate(match[1]);
+    const end = parseDate(match[2]);
+    return {
+      text: match[0],
+      startMonth: start.month,
+      startYear: start.year ?? 0,
+      endMonth: end.month,
+      endYear: end.year,
+    };
+  });
+}
+
+/**
+ * True if a tailored date range matches a master one. Years must be equal;
+ * months may be dropped but not changed.
+ */
+function dateRangesMatch(tailored: DateRange, master: DateRange): boolean {
+  const monthMatches = (a: number | undefined, b: number | undefined) => a === undefined || a === b;
+  return (
+    tailored.startYear === master.startYear &&
+    tailored.endYear === master.endYear &&
+    monthMatches(tailored.startMonth, master.startMonth) &&
+    monthMatches(tailored.endMonth, master.endMonth)
+  );
+}
+
+/**
+ * Normalizes a metric to its value and unit, so "$1.2M" matches "$1,200,000"
+ * and "40 percent" matches "40%"
+ */
+function normalizeMetric(value: string): string | null {
+  const text = value.toLowerCase().replace(/[\s$€£+]/g, "");
+  const number = Number.parseFloat(text.replace(/,/g, ""));
+  if (Number.isNaN(number)) return null;
+
+  const unit = text.match(/(%|percent|thousand|million|billion|k|m|b|x)$/)?.[1];
+  const scale =
+    unit === "k" || unit === "thousand"
+      ? 1e3
+      : unit === "m" || unit === "million"
+        ? 1e6
+        : unit === "b" || unit === "billion"
+          ? 1e9
+          : 1;
+  const suffix = unit === "%" || unit === "percent" ? "%" : unit === "x" ? "x" : "";
+  return `${Math.round(number * scale * 100) / 100}${suffix}`;
+}
+
+function extractMetrics(text: string): string[] {
+  return Array.from(text.matchAll(METRIC_REGEX))
+    .map((match) => match[0].trim())
+    .filter((metric) => /\d/.test(metric));
+}
+
+/**
+ * Splits an entry line ("Senior Engineer | Acme Corp | Jan 2020 - Present")
+ * into its parts, without the dates
+ */
+function splitEntryLine(line: string): string[] {
+  return stripMarkdown(line)
+    .replace(DATE_RANGE_REGEX, "")
+    .split(/\s+[|•·—–-]\s+|\s+at\s+|\s*[|,;]\s*|\s*\(\s*|\s*\)\s*/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 1 && /[a-z]/i.test(part));
+}
+
+/**
+ * Extracts the factual claims of a resume: employers and titles from the
+ * entry lines of the experience section, degrees from the education section,
+ * and date ranges and metrics from anywhere
+ */
+function extractClaims(content: string): ResumeClaim[] {
+  const claims: ResumeClaim[] = [];
+  let section: "experience" | "education" | "other" = "other";
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // Section headings: markdown headings up to level 2, or short all-caps/bold lines
+    const text = stripMarkdown(line);
+    const isSectionHeading =
+      /^#{1,2}\s/.test(line) ||
+      (text.length < 40 && (text === text.toUpperCase() || /^\*\*[^*]+\*\*:?$/.test(line)) && /[a-z]/i.test(text));
+    if (isSectionHeading && (EXPERIENCE_HEADING.test(text) || EDUCATION_HEADING.test(text))) {
+      section = EXPERIENCE_HEADING.test(text) ? "experience" : "education";
+      continue;
+    }
+    if (/^#{1,2}\s/.test(line)) {
+      section = "other";
+      continue;
+    }
+
+    for (const range of parseDateRanges(line)) {
+      claims.push({ type: "date_range", claim: range.text, line: text });
+    }
+
+    for (const metric of extractMetrics(line.replace(DATE_RANGE_REGEX, ""))) {
+      claims.push({ type: "metric", claim: metric, line: text });
+    }
+
+    const isBullet = /^[-*+]\s|^\d+\.\s/.test(line);
+
+    // Entry lines: sub-headings, bold-only lines, or non-bullet lines with dates
+    const isEntryLine =
+      /^#{3,6}\s/.test(line) || /^\*\*[^*]+\*\*$/.test(line) || (!isBullet && HAS_DATE_RANGE_REGEX.test(line));
+
+    if (section === "experience" && isEntryLine) {
+      for (const part of splitEntryLine(line)) {
+        claims.push({ type: TITLE_KEYWORDS.test(part) ? "title" : "employer", claim: part, line: text });
+      }
+    }
+
+    if (section === "education") {
+      for (const part of splitEntryLine(line)) {
+        if (DEGREE_REGEX.test(part)) {
+          claims.push({ type: "degree", claim: part, line: text });
+        }
+      }
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Checks the claims of a tailored resume against its master resume
+ *
+ * @param tailoredContent - Tailored resume content (markdown)
+ * @param masterContent - Master resume content the tailored version was generated from
+ * @returns Number of claims checked and the ones not found in the master resume
+ */
+export function verifyTailoredResume(tailoredContent: string, masterContent: string): ResumeVerification {
+  const masterText = normalizeText(masterContent);
+  const masterRanges = parseDateRanges(masterContent);
+  const masterMetrics = new Set(
+    extractMetrics(masterContent)
+      .map(normalizeMetric)
+      .filter((metric): metric is string => metric !== null)
+  );
+
+  const isVerified = (claim: ResumeClaim): boolean => {
+    switch (claim.type) {
+      case "date_range": {
+        const [range] = parseDateRanges(claim.claim);
+        return masterRanges.some((masterRange) => dateRangesMatch(range, masterRange));
+      }
+      case "metric": {
+        const metric = normalizeMetric(claim.claim);
+        return metric === null || masterMetrics.has(metric);
+      }
+      default:
+        return masterText.includes(normalizeText(claim.claim));
+    }
+  };
+
+  // Check each distinct claim once
+  const seen = new Set<string>();
+  const claims = extractClaims(tailoredContent).filter((claim) => {
+    const key = `${claim.type}:${claim.type === "metric" ? normalizeMetric(claim.claim) : normalizeText(claim.claim)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const unverifiedClaims: UnverifiedResumeClaim[] = claims
+    .filter((claim) => !isVerified(claim))
+    .map(({ type, claim, line }) => ({ type, claim, line }));
+
+  return {
+    checkedClaims: claims.length,
+    unverifiedClaims,
+    verifiedAt: new Date().toISOString(),
+  };
+}
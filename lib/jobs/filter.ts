@@ -0,0 +1,30 @@
+/**
+ * Job Filtering Helpers
+ *
+ * Keyword and location filtering for sources that return a company's full
+ * list of postings (ATS job boards) instead of searching server-side.
+ */
+
+import type { Job } from "@/types/job";
+
+/**
+ * Filters mapped ATS jobs by keyword (title/department) and location
+ *
+ * Board APIs return every open posting, so filtering happens client-side.
+ * Every keyword must appear in the title or department.
+ */
+export function filterAtsJobs(jobs: Job[], query?: string, location?: string): Job[] {
+  const keywords = (query || "")
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+  const locationFilter = (location || "").toLowerCase().trim();
+
+  return jobs.filter((job) => {
+    const haystack = `${job.title} ${job.department || ""}`.toLowerCase();
+    const matchesQuery = keywords.every((keyword) => haystack.includes(keyword));
+    const matchesLocation =
+      !locationFilter || job.location.toLowerCase().includes(locationFilter);
+    return matchesQuery && matchesLocation;
+  });
+}
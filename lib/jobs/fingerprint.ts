@@ -0,0 +1,238 @@
+/**
+ * Job Fingerprinting
+ *
+ * Produces deterministic identity keys for job postings so the same posting
+ * discovered through different sources (Adzuna, Firecrawl, manual entry)
+ * resolves to a single saved row.
+ */
+
+import type { Job } from "@/types/job";
+import { extractJobRequirements } from "./requirements";
+
+/**
+ * Legal suffixes that are dropped from company names before comparison
+ */
+const COMPANY_SUFFIXES = new Set([
+  "inc",
+  "incorporated",
+  "llc",
+  "ltd",
+  "limited",
+  "corp",
+  "corporation",
+  "co",
+  "company",
+  "gmbh",
+  "plc",
+  "lp",
+  "llp",
+]);
+
+/**
+ * Title abbreviations expanded before comparison
+ */
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  sr: "senior",
+  jr: "junior",
+  mgr: "manager",
+  eng: "engineer",
+  engr: "engineer",
+  dev: "developer",
+};
+
+/**
+ * Query parameters that only carry tracking information
+ */
+const TRACKING_PARAMS = new Set([
+  "gclid",
+  "fbclid",
+  "msclkid",
+  "mc_cid",
+  "mc_eid",
+  "ref",
+  "referrer",
+  "source",
+  "src",
+  "trk",
+  "trackingid",
+  "gh_src",
+  "lever-source",
+  "lever-origin",
+  "se",
+  "v",
+]);
+
+/**
+ * Lowercases, strips punctuation and collapses whitespace
+ */
+function normalizeText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9+#]+/g, " ")
+    .trim()
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Normalizes a company name (e.g., "Acme, Inc." → "acme")
+ */
+export function normalizeCompany(company: string): string {
+  const words = normalizeText(company).split(" ").filter(Boolean);
+
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) {
+    words.pop();
+  }
+
+  return words.join(" ");
+}
+
+/**
+ * Normalizes a job title (e.g., "Sr. Software Eng (Remote)" → "senior software engineer")
+ */
+export function normalizeTitle(title: string): string {
+  const withoutQualifiers = title.replace(/\([^)]*\)|\[[^\]]*\]/g, " ");
+
+  return normalizeText(withoutQualifiers)
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => TITLE_ABBREVIATIONS[word] ?? word)
+    .join(" ");
+}
+
+/**
+ * Normalizes a location to its most specific component
+ *
+ * Any remote posting collapses to "remote"; otherwise only the city segment is
+ * kept so "San Francisco, CA" and "San Francisco, California" compare equal.
+ */
+export function normalizeLocation(location: string): string {
+  const normalized = normalizeText(location);
+
+  if (!normalized) {
+    return "";
+  }
+
+  if (/\b(remote|anywhere|distributed)\b/.test(normalized)) {
+    return "remote";
+  }
+
+  const [primary] = location.split(/[,|/;]|\s-\s/);
+  return normalizeText(primary);
+}
+
+/**
+ * Canonicalizes a posting URL
+ *
+ * Lowercases the host, drops "www.", fragments, trailing slashes and tracking
+ * parameters (utm_*, gclid, ...), and sorts the remaining query parameters.
+ * Returns the trimmed input unchanged if it is not a valid absolute URL.
+ */
+export function canonicalizeUrl(url: string): string {
+  const trimmed = url.trim();
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  const path = parsed.pathname.replace(/\/+$/, "");
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => {
+      const lowerKey = key.toLowerCase();
+      return !lowerKey.startsWith("utm_") && !TRACKING_PARAMS.has(lowerKey);
+    })
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  const query = new URLSearchParams(params).toString();
+
+  return `https://${host}${path}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Computes the identity fingerprint of a job
+ *
+ * Format: "{company}|{title}|{location}" using the normalized values above.
+ */
+export function computeJobFingerprint(
+  job: Pick<Job, "company" | "title" | "location">
+): string {
+  return [
+    normalizeCompany(job.company),
+    normalizeTitle(job.title),
+    normalizeLocation(job.location),
+  ].join("|");
+}
+
+/**
+ * Merges a newly discovered duplicate into an already saved job
+ *
+ * Only fills in information the saved job is missing; existing scores,
+ * application status and tailored resume data are never overwritten.
+ *
+ * @returns Fields to update on the saved job (empty object if nothing changed)
+ */
+export function mergeDuplicateJob(existing: Job, incoming: Job): Partial<Job> {
+  const updates: Partial<Job> = {};
+
+  if (!existing.salary && incoming.salary) {
+    updates.salary = incoming.salary;
+  }
+
+  // A posted salary replaces a missing or estimated one
+  if (
+    incoming.salaryRange &&
+    (!existing.salaryRange ||
+      (existing.salaryRange.source === "estimated" && incoming.salaryRange.source === "posted"))
+  ) {
+    updates.salaryRange = incoming.salaryRange;
+    if (existing.salaryRange && incoming.salary) {
+      updates.salary = incoming.salary;
+    }
+  }
+
+  if (!existing.department && incoming.department) {
+    updates.department = incoming.department;
+  }
+
+  if ((incoming.description?.length ?? 0) > (existing.description?.length ?? 0)) {
+    updates.description = incoming.description;
+  }
+
+  const existingRequirements = existing.requirements || [];
+  const seen = new Set(existingRequirements.map(normalizeText));
+  const newRequirements = (incoming.requirements || []).filter(
+    (req) => !seen.has(normalizeText(req))
+  );
+  if (newRequirements.length > 0) {
+    updates.requirements = [...existingRequirements, ...newRequirements];
+  }
+
+  // Re-parse requirements whenever their inputs changed (or were never parsed)
+  if (updates.description || updates.requirements || !existing.structuredRequirements) {
+    updates.structuredRequirements = extractJobRequirements(
+      updates.description ?? existing.description ?? "",
+      updates.requirements ?? existing.requirements ?? []
+    );
+  }
+
+  // Saving a job that is waiting in the inbox (or was dismissed) moves it out;
+  // rediscovering it never puts a dismissed job back into the inbox
+  const leavesInbox =
+    (existing.applicationStatus === "inbox" || existing.applicationStatus === "dismissed") &&
+    incoming.applicationStatus !== undefined &&
+    incoming.applicationStatus !== "inbox";
+
+  if ((!existing.applicationStatus || leavesInbox) && incoming.applicationStatus) {
+    updates.applicationStatus = incoming.applicationStatus;
+    updates.statusUpdatedAt = incoming.statusUpdatedAt ?? new Date().toISOString();
+  }
+
+  return updates;
+}
@@ -0,0 +1,111 @@
+/**
+ * HTML Helpers for Job Postings
+ *
+ * Minimal, dependency-free conversion of posting HTML (as returned by ATS
+ * APIs such as Greenhouse and Lever) into plain text and list items.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+  hellip: "…",
+  bull: "•",
+};
+
+/**
+ * Decodes named and numeric HTML entities
+ */
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Converts an HTML fragment to plain text, keeping paragraph and list breaks
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<li[^>]*>/gi, "\n- ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|h[1-6]|ul|ol)>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t ]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{2,}(?=- )/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extracts the text of every <li> in an HTML fragment
+ */
+export function extractListItems(html: string): string[] {
+  const items: string[] = [];
+  const itemPattern = /<li[^>]*>([\s\S]*?)<\/li>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = itemPattern.exec(html)) !== null) {
+    const text = htmlToText(match[1]).replace(/\s+/g, " ").trim();
+    if (text) {
+      items.push(text);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Extracts list items that follow a heading matching the given pattern, each
+ * with the heading it is listed under
+ *
+ * Headings are <h1>-<h6>, <strong>, <b> or short <p> blocks, which covers the
+ * way most ATS editors format "Requirements" or "Qualifications" sections.
+ */
+export function extractListItemsUnderHeading(
+  html: string,
+  heading: RegExp
+): Array<{ text: string; section: string }> {
+  const items: Array<{ text: string; section: string }> = [];
+  const blockPattern =
+    /<(h[1-6]|strong|b|p)[^>]*>([\s\S]*?)<\/\1>|<(ul|ol)[^>]*>([\s\S]*?)<\/\3>/gi;
+
+  let currentHeading = "";
+  let match: RegExpExecArray | null;
+  while ((match = blockPattern.exec(html)) !== null) {
+    if (match[1]) {
+      const text = htmlToText(match[2]);
+      // Long paragraphs are body copy, not section headings
+      if (text && text.length <= 80) {
+        currentHeading = text;
+      }
+      continue;
+    }
+
+    if (heading.test(currentHeading)) {
+      items.push(...extractListItems(match[4]).map((text) => ({ text, section: currentHeading })));
+    }
+  }
+
+  return items;
+}
@@ -0,0 +1,125 @@
+/**
+ * Job Interviews
+ *
+ * Validation for interview rounds sent by the client, and the markdown
+ * summary of past interviews given to the Resume Generator and the interview
+ * prep assistant.
+ */
+
+import { z } from "zod";
+import type { Job } from "@/types/job";
+import type { Interview, InterviewFormat, InterviewOutcome } from "@/types/interview";
+
+/**
+ * Labels of interview formats for display
+ */
+export const INTERVIEW_FORMAT_LABELS: Record<InterviewFormat, string> = {
+  phone: "Phone",
+  video: "Video",
+  onsite: "Onsite",
+  take_home: "Take-home",
+  other: "Other",
+};
+
+/**
+ * Labels of interview outcomes for display
+ */
+export const INTERVIEW_OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  pending: "Pending",
+  passed: "Passed",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+};
+
+const interviewFields = {
+  round: z.string().trim().max(100).optional(),
+  scheduledAt: z.iso.datetime({ offset: true, error: "Interview date must be an ISO timestamp" }),
+  format: z.enum(Object.keys(INTERVIEW_FORMAT_LABELS) as [InterviewFormat, ...InterviewFormat[]]),
+  interviewers: z.array(z.string().trim().min(1).max(100)).max(20),
+  questions: z
+    .array(
+      z.object({
+        question: z.string().trim().min(1, "Question is required").max(1000),
+        answer: z.string().trim().max(4000).optional(),
+      })
+    )
+    .max(50),
+  selfAssessment: z.string().trim().max(4000).optional(),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+  outcome: z.enum(Object.keys(INTERVIEW_OUTCOME_LABELS) as [InterviewOutcome, ...InterviewOutcome[]]),
+  notes: z.string().trim().max(4000).optional(),
+};
+
+/**
+ * Validates a new interview sent by the client
+ */
+export const interviewInputSchema = z.object({
+  ...interviewFields,
+  jobId: z.string({ error: "Job ID is required" }).min(1, "Job ID is required"),
+  format: interviewFields.format.default("video"),
+  interviewers: interviewFields.interviewers.default([]),
+  questions: interviewFields.questions.default([]),
+  outcome: interviewFields.outcome.default("pending"),
+});
+
+/**
+ * Validates interview updates sent by the client (every field optional)
+ */
+export const interviewUpdateSchema = z.object(interviewFields).partial();
+
+export type InterviewInput = z.infer<typeof interviewInputSchema>;
+export type InterviewUpdate = z.infer<typeof interviewUpdateSchema>;
+
+/**
+ * Formats interviews as markdown for an agent prompt, oldest first
+ *
+ * @param interviews - Interviews to include
+ * @param jobs - Jobs the interviews belong to; when given, each interview is
+ *   labelled with its job (for interviews across several jobs)
+ * @returns Markdown list of the interviews (empty string if none)
+ */
+export function formatInterviewsForPrompt(
+  interviews: Interview[],
+  jobs?: Pick<Job, "id" | "title" | "company">[]
+): string {
+  return [...interviews]
+    .sort((a, b) => a.scheduledAt.localeCompare(b.scheduledAt))
+    .map((interview) => {
+      const job = jobs?.find((j) => j.id === interview.jobId);
+      const heading = [
+        new Date(interview.scheduledAt).toLocaleDateString(),
+        interview.round,
+        INTERVIEW_FORMAT_LABELS[interview.format],
+        job ? `${job.title} at ${job.company}` : undefined,
+      ]
+        .filter(Boolean)
+        .join(" · ");
+
+      const lines = [`### ${heading} (${INTERVIEW_OUTCOME_LABELS[interview.outcome]})`];
+      if (interview.interviewers.length > 0) {
+        lines.push(`**Interviewers:** ${interview.interviewers.join(", ")}`);
+      }
+      if (interview.questions.length > 0) {
+        lines.push("**Questions asked:**");
+        for (const { question, answer } of interview.questions) {
+          lines.push(`- ${question}${answer ? `\n  - Answer: ${answer}` : ""}`);
+        }
+      }
+      if (interview.selfAssessment || interview.rating) {
+        lines.push(
+          `**Self-assessment:** ${[
+            interview.rating ? `${interview.rating}/5` : undefined,
+            interview.selfAssessment,
+          ]
+            .filter(Boolean)
+            .join(" – ")}`
+        );
+      }
+      if (interview.notes) {
+        lines.push(`**Notes:** ${interview.notes}`);
+      }
+
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,142 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { checkJobLiveness, getLivenessCheckCutoff, isGenericCareersRedirect, type PageScraper } from "./liveness";
+
+const FIXTURES = join(__dirname, "__fixtures__");
+
+const POSTING_URL = "https://boards.greenhouse.io/acme/jobs/4012345006";
+
+function fixture(name: string): string {
+  return readFileSync(join(FIXTURES, name), "utf8");
+}
+
+/**
+ * Fetch stub that answers every request with the given body, ending up at finalUrl
+ */
+function respond(
+  body: BodyInit | null,
+  init: ResponseInit & { finalUrl?: string } = {}
+): typeof fetch {
+  return async () => {
+    const response = new Response(body, init);
+    Object.defineProperty(response, "url", { value: init.finalUrl ?? POSTING_URL });
+    return response;
+  };
+}
+
+describe("checkJobLiveness", () => {
+  it("finds an open posting", async () => {
+    const result = await checkJobLiveness({ url: POSTING_URL }, { fetch: respond(fixture("posting-open.html")) });
+
+    expect(result).toEqual({ status: "open", finalUrl: POSTING_URL, method: "fetch" });
+  });
+
+  it("finds a closed notice on the page", async () => {
+    const result = await checkJobLiveness(
+      { url: "https://careers.globex.com/jobs/data-engineer" },
+      { fetch: respond(fixture("posting-filled.html"), { finalUrl: "https://careers.globex.com/jobs/data-engineer" }) }
+    );
+
+    expect(result).toMatchObject({ status: "closed", reason: 'Posting says "position has been filled"' });
+  });
+
+  it.each([404, 410])("treats a %i response as closed", async (status) => {
+    const result = await checkJobLiveness({ url: POSTING_URL }, { fetch: respond("Not found", { status }) });
+
+    expect(result).toMatchObject({ status: "closed", reason: `Posting returned ${status}` });
+  });
+
+  it("treats a redirect to the job board as closed", async () => {
+    const result = await checkJobLiveness(
+      { url: POSTING_URL },
+      { fetch: respond(fixture("posting-open.html"), { finalUrl: "https://boards.greenhouse.io/acme?error=true" }) }
+    );
+
+    expect(result).toMatchObject({ status: "closed", reason: "Posting redirects to a general careers page" });
+  });
+
+  it("reports other errors as unknown", async () => {
+    const result = await checkJobLiveness({ url: POSTING_URL }, { fetch: respond("Forbidden", { status: 403 }) });
+
+    expect(result).toEqual({ status: "unknown", reason: "Posting returned 403", method: "fetch" });
+  });
+
+  it("scrapes pages rendered in the browser", async () => {
+    const shell = respond(fixture("posting-app-shell.html"));
+    const scrape: PageScraper = async () => ({ text: "This job is no longer available.", statusCode: 200 });
+
+    expect(await checkJobLiveness({ url: POSTING_URL }, { fetch: shell })).toMatchObject({
+      status: "unknown",
+      reason: "Page is rendered in the browser",
+    });
+    expect(await checkJobLiveness({ url: POSTING_URL }, { fetch: shell, scrape })).toEqual({
+      status: "closed",
+      reason: 'Posting says "job is no longer available"',
+      finalUrl: undefined,
+      method: "firecrawl",
+    });
+  });
+
+  it("does not read pages declaring a huge length", async () => {
+    let pulled = false;
+    const body = new ReadableStream<Uint8Array>(
+      {
+        pull: () => {
+          pulled = true;
+        },
+      },
+      // Only pull when the body is read
+      { highWaterMark: 0 }
+    );
+
+    const result = await checkJobLiveness(
+      { url: POSTING_URL },
+      { fetch: respond(body, { headers: { "Content-Length": "50000000" } }) }
+    );
+
+    expect(result).toMatchObject({ status: "unknown", reason: "Page is too large to check" });
+    expect(pulled).toBe(false);
+  });
+
+  it("stops reading an endless page", async () => {
+    let bytesSent = 0;
+    let cancelled = false;
+    const chunk = new TextEncoder().encode(`<p>${"Still hiring. ".repeat(4_000)}</p>`);
+    const body = new ReadableStream<Uint8Array>({
+      pull: (controller) => {
+        bytesSent += chunk.length;
+        controller.enqueue(chunk);
+      },
+      cancel: () => {
+        cancelled = true;
+      },
+    });
+
+    const result = await checkJobLiveness({ url: POSTING_URL }, { fetch: respond(body) });
+
+    expect(result.status).toBe("open");
+    expect(cancelled).toBe(true);
+    expect(bytesSent).toBeLessThan(1_000_000);
+  });
+});
+
+describe("isGenericCareersRedirect", () => {
+  it("recognizes job board front pages", () => {
+    expect(isGenericCareersRedirect("https://jobs.lever.co/globex/0f9d2c7e", "https://jobs.lever.co/globex")).toBe(true);
+    expect(isGenericCareersRedirect("https://acme.com/careers/jobs/123", "https://acme.com/careers/jobs")).toBe(true);
+    expect(isGenericCareersRedirect("https://acme.com/jobs/123", "https://www.acme.com/careers")).toBe(true);
+  });
+
+  it("keeps postings that moved to another posting URL", () => {
+    expect(isGenericCareersRedirect(POSTING_URL, "https://job-boards.greenhouse.io/acme/jobs/4012345006")).toBe(false);
+    expect(isGenericCareersRedirect("https://jobs.lever.co/globex/0f9d2c7e", "https://jobs.lever.co/globex/0f9d2c7e/")).toBe(false);
+    expect(isGenericCareersRedirect("https://acme.com/jobs/123", "https://acme.com/jobs/123-backend-engineer")).toBe(false);
+  });
+});
+
+describe("getLivenessCheckCutoff", () => {
+  it("is the check interval before now", () => {
+    expect(getLivenessCheckCutoff(new Date("2026-10-19T12:00:00.000Z"))).toBe("2026-10-16T12:00:00.000Z");
+  });
+});
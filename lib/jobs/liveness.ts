@@ -0,0 +1,313 @@
+/**
+ * Posting Liveness
+ *
+ * Re-fetches a saved job's URL to find out whether the posting is still open.
+ * A posting counts as closed when its page returns 404/410, says it no longer
+ * accepts applications, or redirects to a generic careers page (job boards
+ * and ATSs send expired postings to the board's front page). Adzuna URLs are
+ * redirects to the employer's posting and are followed like any other. Pages
+ * that block plain requests or render in the browser are scraped through
+ * Firecrawl instead, when a scraper is available.
+ */
+
+import type { Job, ApplicationStatus } from "@/types/job";
+import { getFirecrawlMCPClient } from "@/lib/mcp";
+
+/**
+ * Statuses whose postings are checked (later stages no longer depend on the posting)
+ */
+export const LIVENESS_CHECK_STATUSES: ApplicationStatus[] = [
+  "saved",
+  "applied",
+  "screening",
+  "phone_screen",
+  "interviewing",
+  "onsite",
+];
+
+/**
+ * Minimum time between two checks of the same posting (hours)
+ */
+export const LIVENESS_CHECK_INTERVAL_HOURS = 72;
+
+/**
+ * Outcome of a liveness check
+ */
+export interface LivenessResult {
+  /** "unknown" when the page could not be read (blocked, network error, ...) */
+  status: "open" | "closed" | "unknown";
+
+  /** Why the posting is closed, or why the check was inconclusive */
+  reason?: string;
+
+  /** URL the posting ended up at after redirects */
+  finalUrl?: string;
+
+  /** How the page was read */
+  method: "fetch" | "firecrawl";
+}
+
+/**
+ * Reads a page through a scraping service
+ *
+ * @returns Page text and HTTP status, or null if the page could not be scraped
+ */
+export type PageScraper = (url: string) => Promise<{ text: string; statusCode?: number } | null>;
+
+const CLOSED_TEXT_PATTERNS = [
+  /no longer accepting applications/,
+  /(is|are) no longer (accepting|taking) (applications|candidates)/,
+  /(job|position|posting|role|vacancy|listing|opening) (is|has been) (closed|filled|removed|expired|taken down)/,
+  /(job|position|posting|role|vacancy|listing|opening) (is )?no longer (available|active|open|posted|listed)/,
+  /(job|position|posting|vacancy|listing|advert|ad) has expired/,
+  /applications (for this (job|position|role) )?(are|have) (now )?closed/,
+  /(job|position|posting) (could not be|was not|not) found/,
+  /this (job|position|posting|listing) (doesn't|does not) exist/,
+];
+
+const GENERIC_CAREERS_PATH =
+  /^\/?([a-z]{2}(-[a-z]{2})?\/)?(careers?|jobs?|join(-us)?|openings|positions|opportunities|search)?\/?$/;
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/**
+ * Bytes of a page that are read; the rest is not downloaded
+ */
+const MAX_PAGE_LENGTH = 500_000;
+
+/**
+ * Pages declaring a larger Content-Length are not read at all
+ */
+const MAX_DECLARED_LENGTH = 5_000_000;
+
+/**
+ * Pages shorter than this (after stripping markup) are probably rendered in
+ * the browser, so their text says nothing about the posting
+ */
+const MIN_READABLE_TEXT_LENGTH = 200;
+
+/**
+ * Reduces an HTML page to lowercase text with collapsed whitespace
+ */
+function pageText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&#39;|&rsquo;/g, "'")
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Reads the start of a response body (up to MAX_PAGE_LENGTH bytes) and
+ * cancels the rest of the download, so a huge or endless page cannot
+ * exhaust memory
+ */
+async function readPageStart(response: Response): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let html = "";
+  let length = 0;
+
+  try {
+    while (length < MAX_PAGE_LENGTH) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const chunk = value.subarray(0, MAX_PAGE_LENGTH - length);
+      length += chunk.length;
+      html += decoder.decode(chunk, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return html + decoder.decode();
+}
+
+/**
+ * Finds a "no longer accepting applications" style notice in page text
+ */
+function findClosedNotice(text: string): string | undefined {
+  const normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+  return CLOSED_TEXT_PATTERNS.map((pattern) => normalized.match(pattern)?.[0]).find(Boolean);
+}
+
+/**
+ * Checks if a posting URL was redirected to a generic careers page instead
+ * of the posting itself
+ */
+export function isGenericCareersRedirect(originalUrl: string, finalUrl: string): boolean {
+  let original: URL;
+  let final: URL;
+  try {
+    original = new URL(originalUrl);
+    final = new URL(finalUrl);
+  } catch {
+    return false;
+  }
+
+  const originalPath = original.pathname.replace(/\/+$/, "");
+  const finalPath = final.pathname.replace(/\/+$/, "");
+  if (original.host === final.host && originalPath === finalPath) {
+    return false;
+  }
+
+  const host = final.hostname.toLowerCase();
+
+  // Greenhouse sends closed postings to the board with ?error=true
+  if (host.endsWith("greenhouse.io")) {
+    return final.searchParams.has("error") || !/\/jobs\/\d+/.test(finalPath);
+  }
+
+  // Lever postings live at /{company}/{posting id}; the board is /{company}
+  if (host === "jobs.lever.co") {
+    return finalPath.split("/").filter(Boolean).length < 2;
+  }
+
+  // Expired Adzuna ads land on search results instead of the employer's page
+  if (/(^|\.)adzuna\./.test(host)) {
+    return !/\/(details|land\/ad)\//.test(`${finalPath}/`);
+  }
+
+  // Same site, cut back to a parent path (e.g. /careers/jobs/123 -> /careers/jobs)
+  if (original.host === final.host && originalPath.startsWith(`${finalPath}/`)) {
+    return true;
+  }
+
+  return GENERIC_CAREERS_PATH.test(finalPath.toLowerCase());
+}
+
+/**
+ * Classifies a page that was read successfully
+ */
+function classifyPage(
+  text: string,
+  statusCode: number | undefined,
+  originalUrl: string,
+  finalUrl: string | undefined,
+  method: LivenessResult["method"]
+): LivenessResult {
+  if (statusCode === 404 || statusCode === 410) {
+    return { status: "closed", reason: `Posting returned ${statusCode}`, finalUrl, method };
+  }
+
+  if (finalUrl && isGenericCareersRedirect(originalUrl, finalUrl)) {
+    return { status: "closed", reason: "Posting redirects to a general careers page", finalUrl, method };
+  }
+
+  const notice = findClosedNotice(text);
+  if (notice) {
+    return { status: "closed", reason: `Posting says "${notice}"`, finalUrl, method };
+  }
+
+  return { status: "open", finalUrl, method };
+}
+
+/**
+ * Latest check time of postings that are due for another check
+ *
+ * @param now - Current time
+ * @returns ISO timestamp LIVENESS_CHECK_INTERVAL_HOURS before now
+ */
+export function getLivenessCheckCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - LIVENESS_CHECK_INTERVAL_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Checks whether a job's posting is still open
+ *
+ * @param job - Job whose URL is checked
+ * @param options.fetch - Fetch implementation (defaults to the global fetch)
+ * @param options.scrape - Fallback for pages that cannot be read with a plain request
+ * @returns Liveness of the posting
+ */
+export async function checkJobLiveness(
+  job: Pick<Job, "url">,
+  options: { fetch?: typeof fetch; scrape?: PageScraper } = {}
+): Promise<LivenessResult> {
+  const fetchPage = options.fetch ?? fetch;
+  let inconclusive: string;
+
+  try {
+    const response = await fetchPage(job.url, {
+      redirect: "follow",
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; JobAssistant/1.0; +posting-liveness-check)",
+        Accept: "text/html,application/xhtml+xml",
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const finalUrl = response.url || job.url;
+
+    if (response.status === 404 || response.status === 410) {
+      return classifyPage("", response.status, job.url, finalUrl, "fetch");
+    }
+
+    if (response.ok && Number(response.headers.get("content-length")) > MAX_DECLARED_LENGTH) {
+      await response.body?.cancel().catch(() => undefined);
+      inconclusive = "Page is too large to check";
+    } else if (response.ok) {
+      const text = pageText(await readPageStart(response));
+      const result = classifyPage(text, response.status, job.url, finalUrl, "fetch");
+
+      if (result.status === "closed" || text.length >= MIN_READABLE_TEXT_LENGTH) {
+        return result;
+      }
+      inconclusive = "Page is rendered in the browser";
+    } else {
+      inconclusive = `Posting returned ${response.status}`;
+    }
+  } catch (error) {
+    inconclusive = `Request failed: ${error instanceof Error ? error.message : "unknown error"}`;
+  }
+
+  if (options.scrape) {
+    try {
+      const page = await options.scrape(job.url);
+      if (page) {
+        return classifyPage(page.text, page.statusCode, job.url, undefined, "firecrawl");
+      }
+    } catch (error) {
+      console.error(`Error scraping ${job.url} for liveness check:`, error);
+    }
+  }
+
+  return { status: "unknown", reason: inconclusive, method: "fetch" };
+}
+
+/**
+ * Creates a page scraper backed by the Firecrawl MCP server
+ *
+ * @returns The scraper, or undefined if Firecrawl is not configured or unavailable
+ */
+export async function createFirecrawlScraper(): Promise<PageScraper | undefined> {
+  try {
+    const tools = await getFirecrawlMCPClient().getTools();
+    const scrapeTool = tools.firecrawl_scrape;
+    if (!scrapeTool) return undefined;
+
+    return async (url) => {
+      const result = await scrapeTool.execute(
+        { url, formats: ["markdown"], onlyMainContent: true },
+        { toolCallId: "liveness-check", messages: [] }
+      );
+      if (result?.isError) return null;
+
+      const text = (result?.content || [])
+        .filter((part: { type: string }) => part.type === "text")
+        .map((part: { text: string }) => part.text)
+        .join("\n");
+      const statusCode = Number(text.match(/"statusCode"\s*:\s*(\d{3})/)?.[1]) || undefined;
+
+      return text ? { text, statusCode } : null;
+    };
+  } catch (error) {
+    console.error("⚠️ Firecrawl unavailable, checking postings without scrape fallback:", error);
+    return undefined;
+  }
+}
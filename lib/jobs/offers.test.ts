@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeOfferCompensation,
+  computeOfferFactorScore,
+  formatOfferAmount,
+  getEquityVestingByYear,
+  getOfferFactorCategories,
+  getOfferFactorRatings,
+  offerInputSchema,
+} from "./offers";
+
+const OFFER = {
+  baseSalary: 150_000,
+  annualBonus: 15_000,
+  signOnBonus: 20_000,
+  benefitsValue: 10_000,
+  equityValue: 100_000,
+  vestingSchedule: [25, 25, 25, 25],
+  cliffMonths: 12,
+};
+
+describe("offerInputSchema", () => {
+  it("fills in defaults and uppercases the currency", () => {
+    const result = offerInputSchema.parse({ currency: "eur", baseSalary: 90_000 });
+
+    expect(result).toMatchObject({
+      currency: "EUR",
+      baseSalary: 90_000,
+      annualBonus: 0,
+      signOnBonus: 0,
+      equityValue: 0,
+      vestingSchedule: [25, 25, 25, 25],
+      cliffMonths: 12,
+      factorRatings: {},
+    });
+  });
+
+  it("rejects negative amounts and schedules over 100%", () => {
+    expect(offerInputSchema.safeParse({ baseSalary: -1 }).error?.issues[0]?.message).toBe(
+      "Amounts cannot be negative"
+    );
+    expect(
+      offerInputSchema.safeParse({ baseSalary: 100_000, vestingSchedule: [50, 50, 10] }).error?.issues[0]?.message
+    ).toBe("Vesting schedule cannot exceed 100% of the grant");
+  });
+});
+
+describe("getEquityVestingByYear", () => {
+  it("vests the schedule's share of the grant each year", () => {
+    expect(getEquityVestingByYear(OFFER)).toEqual([25_000, 25_000, 25_000, 25_000]);
+  });
+
+  it("vests what accrued before the cliff at the cliff", () => {
+    expect(getEquityVestingByYear({ ...OFFER, cliffMonths: 18 })).toEqual([0, 50_000, 25_000, 25_000]);
+  });
+
+  it("never vests more than the grant", () => {
+    const vesting = getEquityVestingByYear({ ...OFFER, vestingSchedule: [40, 40, 40] });
+
+    expect(vesting).toEqual([40_000, 40_000, 20_000, 0]);
+  });
+});
+
+describe("computeOfferCompensation", () => {
+  it("adds the sign-on bonus to the first year only", () => {
+    const compensation = computeOfferCompensation(OFFER);
+
+    expect(compensation.byYear).toEqual([220_000, 200_000, 200_000, 200_000]);
+    expect(compensation.firstYear).toBe(220_000);
+    expect(compensation.multiYear).toBe(820_000);
+  });
+
+  it("ranks a higher base below a larger grant over four years", () => {
+    const cash = computeOfferCompensation({ ...OFFER, baseSalary: 180_000, equityValue: 0 });
+    const equity = computeOfferCompensation({ ...OFFER, equityValue: 200_000, cliffMonths: 24 });
+
+    expect(cash.firstYear).toBeGreaterThan(equity.firstYear);
+    expect(equity.multiYear).toBeGreaterThan(cash.multiYear);
+  });
+});
+
+describe("offer factors", () => {
+  it("leaves salary match out of the factor categories", () => {
+    const categories = getOfferFactorCategories([
+      { id: "salaryMatch", label: "Salary", rubric: "" },
+      { id: "growth", label: "Growth", rubric: "" },
+    ] as Parameters<typeof getOfferFactorCategories>[0]);
+
+    expect(categories.map((category) => category.id)).toEqual(["growth"]);
+  });
+
+  it("prefers the user's ratings over the job's score breakdown", () => {
+    const ratings = getOfferFactorRatings(
+      { factorRatings: { culture: 0.9 } },
+      { scoreBreakdown: { salaryMatch: 0.2, culture: 0.5, growth: 0.7 } }
+    );
+
+    expect(ratings).toEqual({ culture: 0.9, growth: 0.7 });
+  });
+
+  it("weights rated factors and ignores salary match and unrated ones", () => {
+    const score = computeOfferFactorScore(
+      { culture: 1, growth: 0.5, salaryMatch: 0 },
+      { culture: 30, growth: 10, salaryMatch: 50, remote: 10 }
+    );
+
+    expect(score).toBe(88);
+  });
+
+  it("returns null when no weighted factor is rated", () => {
+    expect(computeOfferFactorScore({ salaryMatch: 1 }, { salaryMatch: 100 })).toBeNull();
+  });
+});
+
+describe("formatOfferAmount", () => {
+  it("formats amounts in the offer's currency", () => {
+    expect(formatOfferAmount(185_000, "USD")).toBe("$185,000");
+  });
+
+  it("falls back to the code for currencies Intl rejects", () => {
+    expect(formatOfferAmount(185_000.4, "ZZ")).toBe("ZZ 185,000");
+  });
+});
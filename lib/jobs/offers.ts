@@ -0,0 +1,204 @@
+/**
+ * Job Offers
+ *
+ * Validation for offers sent by the client and the math of the offer
+ * comparison: total compensation per year (base, bonus, benefits, vested
+ * equity, sign-on in the first year) and a weighted score of the
+ * non-monetary factors. The factors are the profile's scoring categories
+ * minus salary match, since pay is compared in money instead.
+ */
+
+import { z } from "zod";
+import type { ApplicationStatus, Job } from "@/types/job";
+import type { JobOffer } from "@/types/offer";
+import type { ScoringCategory } from "@/types/profile";
+import type { CategoryRatings, ScoringWeights } from "./scoring";
+
+/**
+ * Stages in which a job has an offer to compare
+ */
+export const OFFER_STAGES: ApplicationStatus[] = ["offer", "offer_negotiation", "accepted"];
+
+/**
+ * Most common vesting: a quarter of the grant each year over four years
+ */
+export const DEFAULT_VESTING_SCHEDULE = [25, 25, 25, 25];
+
+/**
+ * Years covered by the multi-year total compensation
+ */
+export const OFFER_COMPARISON_YEARS = 4;
+
+/**
+ * Scoring category compared in money rather than as a rated factor
+ */
+const MONETARY_CATEGORY = "salaryMatch";
+
+const amount = z.number().min(0, "Amounts cannot be negative").max(100_000_000);
+const isoDate = z.iso.date({ error: "Dates must be YYYY-MM-DD" });
+
+/**
+ * Validates an offer sent by the client (saving replaces the job's offer)
+ */
+export const offerInputSchema = z.object({
+  currency: z.string().trim().length(3, "Currency must be an ISO 4217 code").toUpperCase().default("USD"),
+  baseSalary: amount,
+  annualBonus: amount.default(0),
+  signOnBonus: amount.default(0),
+  equityValue: amount.default(0),
+  vestingSchedule: z
+    .array(z.number().min(0).max(100))
+    .max(10)
+    .refine(
+      (schedule) => schedule.reduce((sum, percent) => sum + percent, 0) <= 100,
+      "Vesting schedule cannot exceed 100% of the grant"
+    )
+    .default(DEFAULT_VESTING_SCHEDULE),
+  cliffMonths: z.number().int().min(0).max(60).default(12),
+  benefits: z.string().trim().max(2000).optional(),
+  benefitsValue: amount.default(0),
+  startDate: isoDate.nullable().optional(),
+  deadline: isoDate.nullable().optional(),
+  factorRatings: z.record(z.string(), z.number().min(0).max(1)).default({}),
+  notes: z.string().trim().max(4000).optional(),
+});
+
+export type OfferInput = z.infer<typeof offerInputSchema>;
+
+/**
+ * Total compensation of an offer
+ */
+export interface OfferCompensation {
+  /** Total compensation per year, starting with the first year */
+  byYear: number[];
+
+  /** Equity vesting per year, starting with the first year */
+  equityByYear: number[];
+
+  /** First-year total (includes the sign-on bonus) */
+  firstYear: number;
+
+  /** Total over OFFER_COMPARISON_YEARS years */
+  multiYear: number;
+}
+
+/**
+ * Computes the equity vesting in each year of the offer
+ *
+ * Nothing vests before the cliff; what accrued until then vests at the cliff.
+ */
+export function getEquityVestingByYear(
+  offer: Pick<JobOffer, "equityValue" | "vestingSchedule" | "cliffMonths">,
+  years: number = OFFER_COMPARISON_YEARS
+): number[] {
+  const vestedThrough = (year: number): number => {
+    if (year === 0 || offer.cliffMonths > year * 12) return 0;
+    const percent = offer.vestingSchedule
+      .slice(0, year)
+      .reduce((sum, yearPercent) => sum + yearPercent, 0);
+    return (offer.equityValue * Math.min(100, percent)) / 100;
+  };
+
+  return Array.from({ length: years }, (_, index) => vestedThrough(index + 1) - vestedThrough(index));
+}
+
+/**
+ * Computes first-year and multi-year total compensation of an offer
+ *
+ * Each year counts base salary, target bonus, benefits value and the equity
+ * vesting that year; the sign-on bonus is added to the first year. Raises
+ * and equity price changes are not modeled.
+ */
+export function computeOfferCompensation(
+  offer: Pick<
+    JobOffer,
+    | "baseSalary"
+    | "annualBonus"
+    | "signOnBonus"
+    | "benefitsValue"
+    | "equityValue"
+    | "vestingSchedule"
+    | "cliffMonths"
+  >,
+  years: number = OFFER_COMPARISON_YEARS
+): OfferCompensation {
+  const equityByYear = getEquityVestingByYear(offer, years);
+  const byYear = equityByYear.map(
+    (equity, index) =>
+      offer.baseSalary +
+      offer.annualBonus +
+      offer.benefitsValue +
+      equity +
+      (index === 0 ? offer.signOnBonus : 0)
+  );
+
+  return {
+    byYear,
+    equityByYear,
+    firstYear: byYear[0] ?? 0,
+    multiYear: byYear.reduce((sum, total) => sum + total, 0),
+  };
+}
+
+/**
+ * Returns the scoring categories rated as non-monetary offer factors
+ */
+export function getOfferFactorCategories(categories: ScoringCategory[]): ScoringCategory[] {
+  return categories.filter((category) => category.id !== MONETARY_CATEGORY);
+}
+
+/**
+ * Returns the factor ratings of an offer: the user's ratings, falling back to
+ * the job's score breakdown for factors the user has not rated
+ */
+export function getOfferFactorRatings(
+  offer: Pick<JobOffer, "factorRatings"> | undefined,
+  job: Pick<Job, "scoreBreakdown">
+): CategoryRatings {
+  const { [MONETARY_CATEGORY]: _salary, ...jobRatings } = job.scoreBreakdown || {};
+  return { ...jobRatings, ...(offer?.factorRatings || {}) };
+}
+
+/**
+ * Computes the weighted factor score (0-100) of an offer
+ *
+ * Weights need not sum to 100; factors without a rating are left out.
+ *
+ * @returns The score, or null if no weighted factor is rated
+ */
+export function computeOfferFactorScore(
+  ratings: CategoryRatings,
+  weights: ScoringWeights
+): number | null {
+  const rated = Object.keys(weights).filter(
+    (category) => category !== MONETARY_CATEGORY && typeof ratings[category] === "number"
+  );
+  const ratedWeight = rated.reduce((sum, category) => sum + weights[category], 0);
+
+  if (ratedWeight <= 0) {
+    return null;
+  }
+
+  const points = rated.reduce(
+    (sum, category) => sum + Math.min(1, Math.max(0, ratings[category])) * weights[category],
+    0
+  );
+
+  return Math.round((points / ratedWeight) * 100);
+}
+
+/**
+ * Formats an offer amount for display (e.g. "$185,000")
+ */
+export function formatOfferAmount(value: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    }).format(value);
+  } catch {
+    // Unknown currency codes are shown as-is
+    return `${currency} ${Math.round(value).toLocaleString("en-US")}`;
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { ApplicationStatus, JobStatusEvent } from "@/types/job";
+import { computeStageMetrics, getStageDurations, isStalled } from "./pipeline";
+
+const NOW = new Date("2026-10-31T00:00:00.000Z");
+
+/**
+ * Status history of a job from [status, day of October 2026] pairs
+ */
+function history(jobId: string, changes: Array<[ApplicationStatus, number]>): JobStatusEvent[] {
+  return changes.map(([toStatus, day], index) => ({
+    id: `${jobId}-${index}`,
+    jobId,
+    fromStatus: changes[index - 1]?.[0],
+    toStatus,
+    changedAt: new Date(Date.UTC(2026, 9, day)).toISOString(),
+  }));
+}
+
+describe("getStageDurations", () => {
+  it("splits a history into stages, the last one lasting until now", () => {
+    const events = history("job-1", [
+      ["saved", 1],
+      ["applied", 3],
+      ["phone_screen", 10],
+    ]);
+
+    expect(getStageDurations([...events].reverse(), NOW)).toEqual([
+      { status: "saved", enteredAt: "2026-10-01T00:00:00.000Z", leftAt: "2026-10-03T00:00:00.000Z", days: 2 },
+      { status: "applied", enteredAt: "2026-10-03T00:00:00.000Z", leftAt: "2026-10-10T00:00:00.000Z", days: 7 },
+      { status: "phone_screen", enteredAt: "2026-10-10T00:00:00.000Z", leftAt: undefined, days: 21 },
+    ]);
+  });
+
+  it("rounds to a tenth of a day", () => {
+    const [stage] = getStageDurations(history("job-1", [["applied", 30]]), new Date("2026-10-30T08:00:00.000Z"));
+
+    expect(stage.days).toBe(0.3);
+  });
+});
+
+describe("computeStageMetrics", () => {
+  const events = [
+    ...history("job-1", [
+      ["saved", 1],
+      ["applied", 2],
+      ["phone_screen", 6],
+      ["rejected", 20],
+    ]),
+    ...history("job-2", [
+      ["saved", 1],
+      ["applied", 3],
+      ["phone_screen", 13],
+    ]),
+    ...history("job-3", [
+      ["saved", 5],
+      ["applied", 6],
+    ]),
+    ...history("job-4", [["applied", 28]]),
+  ];
+
+  const byStatus = (status: ApplicationStatus) =>
+    computeStageMetrics(events, NOW).find((stage) => stage.status === status);
+
+  it("counts entries and moves on per stage", () => {
+    expect(byStatus("applied")).toMatchObject({ enteredCount: 4, completedCount: 2 });
+    expect(byStatus("phone_screen")).toMatchObject({ enteredCount: 2, completedCount: 1 });
+    expect(byStatus("offer")).toMatchObject({ enteredCount: 0, completedCount: 0 });
+  });
+
+  it("averages only the stages jobs moved on from", () => {
+    // applied: 4 days (job-1) and 10 days (job-2)
+    expect(byStatus("applied")).toMatchObject({ averageDays: 7, medianDays: 7 });
+    // saved: 1, 2 and 1 days
+    expect(byStatus("saved")).toMatchObject({ averageDays: 1.3, medianDays: 1 });
+    expect(byStatus("offer")?.averageDays).toBeUndefined();
+    expect(byStatus("offer")?.medianDays).toBeUndefined();
+  });
+
+  it("lists jobs still in a stage, longest first", () => {
+    expect(byStatus("applied")?.current).toEqual([
+      { jobId: "job-3", days: 25 },
+      { jobId: "job-4", days: 3 },
+    ]);
+    expect(byStatus("rejected")?.current).toEqual([{ jobId: "job-1", days: 11 }]);
+  });
+
+  it("returns every pipeline stage in order", () => {
+    const statuses = computeStageMetrics([], NOW).map((stage) => stage.status);
+
+    expect(statuses[0]).toBe("saved");
+    expect(statuses).not.toContain("inbox");
+    expect(statuses.indexOf("applied")).toBeLessThan(statuses.indexOf("offer"));
+  });
+});
+
+describe("isStalled", () => {
+  it("flags open applications without a change for over two weeks", () => {
+    expect(isStalled({ status: "applied", days: 15 })).toBe(true);
+    expect(isStalled({ status: "applied", days: 14 })).toBe(false);
+    expect(isStalled({ status: "saved", days: 60 })).toBe(false);
+    expect(isStalled({ status: "rejected", days: 60 })).toBe(false);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Application Pipeline
+ *
+ * Stages a saved job moves through, and metrics over the status history that
+ * updateJobStatus records (one JobStatusEvent per change). A job spends the
+ * time between two events in the first event's stage; the time since its
+ * latest event counts towards the stage it is currently in.
+ */
+
+import type { ApplicationStatus, JobStatusEvent } from "@/types/job";
+
+/**
+ * Stages of a saved job, in pipeline order (terminal outcomes last)
+ */
+export const PIPELINE_STATUSES: ApplicationStatus[] = [
+  "saved",
+  "applied",
+  "screening",
+  "phone_screen",
+  "interviewing",
+  "onsite",
+  "offer",
+  "offer_negotiation",
+  "accepted",
+  "rejected",
+  "withdrawn",
+  "ghosted",
+];
+
+/**
+ * Stages a job no longer moves on from
+ */
+export const CLOSED_STATUSES: ApplicationStatus[] = [
+  "accepted",
+  "rejected",
+  "withdrawn",
+  "ghosted",
+  "dismissed",
+];
+
+/**
+ * Labels of application statuses for display
+ */
+export const APPLICATION_STATUS_LABELS: Record<ApplicationStatus, string> = {
+  inbox: "Inbox",
+  dismissed: "Dismissed",
+  saved: "Saved",
+  applied: "Applied",
+  screening: "Screening",
+  phone_screen: "Phone Screen",
+  interviewing: "Interviewing",
+  onsite: "Onsite",
+  offer: "Offer",
+  offer_negotiation: "Offer Negotiation",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  ghosted: "Ghosted",
+};
+
+/**
+ * Days without a change after which a job in an open stage counts as stalled
+ */
+export const STALLED_AFTER_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Time a job spent in one stage
+ */
+export interface StageDuration {
+  status: ApplicationStatus;
+
+  /** ISO timestamp of when the job entered the stage */
+  enteredAt: string;
+
+  /** ISO timestamp of when the job left the stage (undefined if it is still in it) */
+  leftAt?: string;
+
+  /** Days spent in the stage (until now if the job is still in it) */
+  days: number;
+}
+
+/**
+ * Duration metrics of one stage across all jobs
+ */
+export interface StageMetrics {
+  status: ApplicationStatus;
+
+  /** Number of times a job entered the stage */
+  enteredCount: number;
+
+  /** Number of times a job moved on from the stage */
+  completedCount: number;
+
+  /** Average days before moving on (undefined if no job has moved on yet) */
+  averageDays?: number;
+
+  /** Median days before moving on (undefined if no job has moved on yet) */
+  medianDays?: number;
+
+  /** Jobs currently in the stage and how long they have been in it, longest first */
+  current: { jobId: string; days: number }[];
+}
+
+function roundDays(days: number): number {
+  return Math.round(days * 10) / 10;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Splits one job's status history into the stages it went through
+ *
+ * @param events - Status events of a single job, in any order
+ * @param now - Reference time for the current stage
+ * @returns Stages oldest first; the last one is the current stage
+ */
+export function getStageDurations(
+  events: JobStatusEvent[],
+  now: Date = new Date()
+): StageDuration[] {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()
+  );
+
+  return sorted.map((event, index) => {
+    const next = sorted[index + 1];
+    const end = next ? new Date(next.changedAt).getTime() : now.getTime();
+
+    return {
+      status: event.toStatus,
+      enteredAt: event.changedAt,
+      leftAt: next?.changedAt,
+      days: roundDays(Math.max(0, end - new Date(event.changedAt).getTime()) / DAY_MS),
+    };
+  });
+}
+
+/**
+ * Computes per-stage duration metrics over the status history of many jobs
+ *
+ * Only stages a job has moved on from count towards the averages; jobs still
+ * in a stage are listed under `current` instead.
+ *
+ * @param events - Status events of all jobs
+ * @param now - Reference time for current stages
+ * @returns Metrics for every pipeline stage, in pipeline order
+ */
+export function computeStageMetrics(
+  events: JobStatusEvent[],
+  now: Date = new Date()
+): StageMetrics[] {
+  const eventsByJob = new Map<string, JobStatusEvent[]>();
+  for (const event of events) {
+    eventsByJob.set(event.jobId, [...(eventsByJob.get(event.jobId) || []), event]);
+  }
+
+  const completed = new Map<ApplicationStatus, number[]>();
+  const entered = new Map<ApplicationStatus, number>();
+  const current = new Map<ApplicationStatus, { jobId: string; days: number }[]>();
+
+  for (const [jobId, jobEvents] of eventsByJob) {
+    for (const stage of getStageDurations(jobEvents, now)) {
+      entered.set(stage.status, (entered.get(stage.status) || 0) + 1);
+
+      if (stage.leftAt) {
+        completed.set(stage.status, [...(completed.get(stage.status) || []), stage.days]);
+      } else {
+        current.set(stage.status, [...(current.get(stage.status) || []), { jobId, days: stage.days }]);
+      }
+    }
+  }
+
+  return PIPELINE_STATUSES.map((status) => {
+    const durations = completed.get(status) || [];
+
+    return {
+      status,
+      enteredCount: entered.get(status) || 0,
+      completedCount: durations.length,
+      averageDays:
+        durations.length > 0
+          ? roundDays(durations.reduce((sum, days) => sum + days, 0) / durations.length)
+          : undefined,
+      medianDays: durations.length > 0 ? roundDays(median(durations)) : undefined,
+      current: (current.get(status) || []).sort((a, b) => b.days - a.days),
+    };
+  });
+}
+
+/**
+ * True if an application has sat in an open stage for longer than
+ * STALLED_AFTER_DAYS (jobs not applied to yet are never stalled)
+ */
+export function isStalled(stage: Pick<StageDuration, "status" | "days">): boolean {
+  return (
+    stage.status !== "saved" &&
+    !CLOSED_STATUSES.includes(stage.status) &&
+    stage.days > STALLED_AFTER_DAYS
+  );
+}
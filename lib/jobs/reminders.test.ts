@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import type { JobReminder } from "@/types/reminder";
+import {
+  buildReminderCalendar,
+  getStatusReminders,
+  REMINDER_RULES,
+  reminderInputSchema,
+  reminderUpdateSchema,
+} from "./reminders";
+
+const NOW = new Date("2026-10-19T09:00:00.000Z");
+
+function makeReminder(overrides: Partial<JobReminder> = {}): JobReminder {
+  return {
+    id: "00000000-0000-4000-8000-000000000001",
+    jobId: "00000000-0000-4000-8000-00000000000a",
+    title: "Follow up on your application",
+    dueAt: "2026-10-26T09:00:00.000Z",
+    trigger: "applied",
+    createdAt: "2026-10-19T09:00:00.000Z",
+    job: { title: "Backend Engineer", company: "Acme", url: "https://boards.greenhouse.io/acme/jobs/1" },
+    ...overrides,
+  };
+}
+
+/**
+ * Content lines of a feed with folded lines joined back (RFC 5545 section 3.1)
+ */
+function unfold(feed: string): string[] {
+  return feed.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("REMINDER_RULES", () => {
+  it("schedules a follow-up a week after applying", () => {
+    expect(getStatusReminders("applied", NOW.toISOString())).toEqual([
+      { title: "Follow up on your application", dueAt: "2026-10-26T09:00:00.000Z", trigger: "applied" },
+    ]);
+  });
+
+  it("schedules a thank-you note and a follow-up after an interview", () => {
+    expect(getStatusReminders("interviewing", NOW.toISOString())).toEqual([
+      { title: "Send a thank-you note", dueAt: "2026-10-20T09:00:00.000Z", trigger: "interviewing" },
+      { title: "Follow up if you haven't heard back", dueAt: "2026-10-26T09:00:00.000Z", trigger: "interviewing" },
+    ]);
+  });
+
+  it("schedules nothing for stages without rules", () => {
+    expect(getStatusReminders("saved", NOW.toISOString())).toEqual([]);
+    expect(getStatusReminders("rejected", NOW.toISOString())).toEqual([]);
+  });
+
+  it("only has reminders due in the future", () => {
+    expect(REMINDER_RULES.every((rule) => rule.dueAfterDays > 0 && rule.title.trim())).toBe(true);
+  });
+});
+
+describe("reminderInputSchema", () => {
+  const JOB_ID = "00000000-0000-4000-8000-00000000000a";
+
+  it("accepts a reminder for a job", () => {
+    const parsed = reminderInputSchema.safeParse({
+      jobId: JOB_ID,
+      title: "  Ask about the team  ",
+      dueAt: "2026-10-21T09:00:00+02:00",
+    });
+
+    expect(parsed).toMatchObject({ success: true, data: { title: "Ask about the team" } });
+  });
+
+  it("validates the fields like edits do", () => {
+    const message = (value: unknown) => reminderInputSchema.safeParse(value).error?.issues[0]?.message;
+
+    expect(message({ jobId: "job-1", title: "Call", dueAt: NOW.toISOString() })).toBe("Invalid job ID");
+    expect(message({ jobId: JOB_ID, title: " ", dueAt: NOW.toISOString() })).toBe("Title is required");
+    expect(message({ jobId: JOB_ID, title: "Call", dueAt: "next week" })).toBe("Due date must be an ISO timestamp");
+    expect(reminderUpdateSchema.safeParse({ dueAt: "next week" }).error?.issues[0]?.message).toBe(
+      "Due date must be an ISO timestamp"
+    );
+  });
+});
+
+describe("buildReminderCalendar", () => {
+  it("exports open reminders as events with CRLF line endings", () => {
+    const feed = buildReminderCalendar(
+      [makeReminder(), makeReminder({ id: "done", completedAt: "2026-10-20T09:00:00.000Z" })],
+      NOW
+    );
+
+    expect(feed.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(feed.replace(/\r\n/g, "")).not.toMatch(/\n/);
+    expect(unfold(feed)).toEqual(
+      expect.arrayContaining([
+        "UID:00000000-0000-4000-8000-000000000001@job-reminders",
+        "DTSTAMP:20261019T090000Z",
+        "DTSTART:20261026T090000Z",
+        "DTEND:20261026T093000Z",
+        "SUMMARY:Follow up on your application: Backend Engineer at Acme",
+      ])
+    );
+    expect(feed.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+  });
+
+  it("escapes commas, semicolons, backslashes and line breaks in text", () => {
+    const feed = buildReminderCalendar(
+      [
+        makeReminder({
+          title: "Send notes; slides, demo",
+          notes: "Path C:\\talks\nBring laptop",
+          job: { title: "Engineer, Platform", company: "Acme; Inc", url: "https://acme.com/jobs/1" },
+        }),
+      ],
+      NOW
+    );
+
+    expect(unfold(feed)).toEqual(
+      expect.arrayContaining([
+        "SUMMARY:Send notes\\; slides\\, demo: Engineer\\, Platform at Acme\\; Inc",
+        "DESCRIPTION:Path C:\\\\talks\\nBring laptop\\nhttps://acme.com/jobs/1",
+      ])
+    );
+  });
+
+  it("folds long lines to 75 octets without splitting characters", () => {
+    const title = `Prepare for the interview with Łukasz — ${"résumé review ".repeat(10)}`;
+    const feed = buildReminderCalendar([makeReminder({ title, job: undefined })], NOW);
+    const lines = feed.split("\r\n");
+
+    expect(lines.length).toBeGreaterThan(unfold(feed).length);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(lines.slice(1).filter((line) => line.startsWith(" ")).length).toBeGreaterThan(0);
+    expect(unfold(feed)).toContain(`SUMMARY:${title}`);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Job Reminders
+ *
+ * Follow-up reminders created when a job moves to a new stage, and the
+ * iCalendar feed that exports open reminders to calendar clients. Reminders
+ * created for an earlier stage that are still open are replaced when the job
+ * moves on (a pending "follow up on your application" is moot once the
+ * interview is scheduled).
+ */
+
+import { z } from "zod";
+import type { ApplicationStatus } from "@/types/job";
+import type { JobReminder } from "@/types/reminder";
+
+/**
+ * A reminder created on a status change
+ */
+export interface ReminderRule {
+  status: ApplicationStatus;
+  title: string;
+  /** Days after the status change the reminder is due */
+  dueAfterDays: number;
+}
+
+/**
+ * Reminders created when a job enters a stage
+ */
+export const REMINDER_RULES: ReminderRule[] = [
+  { status: "applied", title: "Follow up on your application", dueAfterDays: 7 },
+  { status: "phone_screen", title: "Send a thank-you note", dueAfterDays: 1 },
+  { status: "interviewing", title: "Send a thank-you note", dueAfterDays: 1 },
+  { status: "interviewing", title: "Follow up if you haven't heard back", dueAfterDays: 7 },
+  { status: "onsite", title: "Send a thank-you note", dueAfterDays: 1 },
+  { status: "onsite", title: "Follow up if you haven't heard back", dueAfterDays: 7 },
+  { status: "offer", title: "Reply to the offer", dueAfterDays: 3 },
+];
+
+/**
+ * Fields of a reminder about to be created
+ */
+export type ReminderDraft = Pick<JobReminder, "title" | "dueAt" | "trigger" | "notes">;
+
+/**
+ * Builds the reminders for a job that just entered a stage
+ *
+ * @param status - The job's new status
+ * @param changedAt - ISO timestamp of the status change
+ * @returns Reminders to create (empty if the stage has none)
+ */
+export function getStatusReminders(status: ApplicationStatus, changedAt: string): ReminderDraft[] {
+  const changed = new Date(changedAt).getTime();
+
+  return REMINDER_RULES.filter((rule) => rule.status === status).map((rule) => ({
+    title: rule.title,
+    dueAt: new Date(changed + rule.dueAfterDays * 24 * 60 * 60 * 1000).toISOString(),
+    trigger: status,
+  }));
+}
+
+const reminderFields = {
+  title: z.string({ error: "Title is required" }).trim().min(1, "Title is required").max(200),
+  notes: z.string().trim().max(2000),
+  dueAt: z.iso.datetime({ offset: true, error: "Due date must be an ISO timestamp" }),
+};
+
+/**
+ * Validates a reminder the user adds to a job
+ */
+export const reminderInputSchema = z.object({
+  jobId: z.uuid("Invalid job ID"),
+  ...reminderFields,
+  notes: reminderFields.notes.optional(),
+});
+
+/**
+ * Reminder fields the user can edit
+ */
+export const reminderUpdateSchema = z
+  .object({
+    ...reminderFields,
+    completed: z.boolean(),
+  })
+  .partial();
+
+export type ReminderInput = z.infer<typeof reminderInputSchema>;
+export type ReminderUpdate = z.infer<typeof reminderUpdateSchema>;
+
+// =====================================================
+// ICALENDAR EXPORT
+// =====================================================
+
+/**
+ * Length of the calendar events created for reminders (minutes)
+ */
+const REMINDER_EVENT_MINUTES = 30;
+
+/**
+ * Formats a date as an iCalendar UTC timestamp (e.g. 20261019T090000Z)
+ */
+function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Escapes text for an iCalendar property value (RFC 5545 section 3.3.11)
+ */
+function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line to 75 octets per line (RFC 5545 section 3.1)
+ */
+function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+/**
+ * Builds an iCalendar feed of open reminders
+ *
+ * Each reminder becomes a short event at its due time, so it shows up at the
+ * right local time in any calendar client. Completed reminders are left out.
+ *
+ * @param reminders - Reminders with their job details
+ * @param now - Timestamp of the export
+ * @returns The feed as text/calendar content
+ */
+export function buildReminderCalendar(reminders: JobReminder[], now: Date = new Date()): string {
+  const stamp = formatICalDate(now);
+
+  const events = reminders
+    .filter((reminder) => !reminder.completedAt)
+    .flatMap((reminder) => {
+      const start = new Date(reminder.dueAt);
+      const end = new Date(start.getTime() + REMINDER_EVENT_MINUTES * 60 * 1000);
+      const summary = reminder.job
+        ? `${reminder.title}: ${reminder.job.title} at ${reminder.job.company}`
+        : reminder.title;
+      const description = [reminder.notes, reminder.job?.url].filter(Boolean).join("\n");
+
+      return [
+        "BEGIN:VEVENT",
+        `UID:${reminder.id}@job-reminders`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatICalDate(start)}`,
+        `DTEND:${formatICalDate(end)}`,
+        `SUMMARY:${escapeICalText(summary)}`,
+        ...(description ? [`DESCRIPTION:${escapeICalText(description)}`] : []),
+        ...(reminder.job?.url ? [`URL:${reminder.job.url}`] : []),
+        "END:VEVENT",
+      ];
+    });
+
+  return (
+    [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//AI Job Assistant//Reminders//EN",
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      "X-WR-CALNAME:Job search reminders",
+      ...events,
+      "END:VCALENDAR",
+    ]
+      .map(foldICalLine)
+      .join("\r\n") + "\r\n"
+  );
+}
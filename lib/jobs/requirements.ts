@@ -0,0 +1,361 @@
+/**
+ * Requirement Extraction
+ *
+ * Parses job descriptions (and any requirement lists provided by the source)
+ * into structured requirements: required vs. preferred items, years of
+ * experience, degree level and named technologies. Purely rule-based so the
+ * same posting always yields the same result.
+ */
+
+import type { DegreeLevel, Job, JobRequirements } from "@/types/job";
+
+/**
+ * Ordered from lowest to highest so levels can be compared by index
+ */
+const DEGREE_LEVELS: DegreeLevel[] = ["associate", "bachelor", "master", "phd"];
+
+const DEGREE_PATTERNS: Array<{ level: DegreeLevel; pattern: RegExp }> = [
+  { level: "associate", pattern: /\bassociate'?s? degree\b/i },
+  {
+    level: "bachelor",
+    pattern:
+      /\b(bachelor('?s)?|b\.s\.|b\.a\.|bsc|b\.sc|undergraduate degree|4[- ]year degree|college degree|university degree)|\b(bs|ba)\b(?=\s*(\/|in\b|degree|or\b))/i,
+  },
+  {
+    level: "master",
+    pattern: /\b(master'?s|m\.s\.|msc|m\.sc|mba|graduate degree)|\b(ms|ma)\b(?=\s*(\/|in\b|degree|or\b))/i,
+  },
+  { level: "phd", pattern: /\b(ph\.?\s?d|doctorate|doctoral)\b/i },
+];
+
+/**
+ * Phrases marking an item (or a section) as preferred rather than required
+ */
+const PREFERRED_CUES =
+  /\b(preferred|nice[- ]to[- ]have|bonus|a plus|is a plus|are a plus|desirable|desired|ideally|advantageous|not required|pluses)\b/i;
+
+/**
+ * Section headings introducing preferred qualifications
+ */
+const PREFERRED_HEADINGS =
+  /^(preferred( qualifications| skills| experience)?|desired( qualifications| skills)?|bonus( points)?|nice[- ]to[- ]haves?|pluses|extra credit)$/i;
+
+/**
+ * Section headings introducing required qualifications
+ */
+const REQUIRED_HEADINGS =
+  /^((minimum |basic |required |key )?(requirements|qualifications)|required( skills| experience)?|must[- ]haves?|what you('|’)?ll need|what you('|’)?ll bring|what you bring|what we('|’)?re looking for|who you are|you have|about you)$/i;
+
+/**
+ * Phrases that make a sentence look like a qualification
+ */
+const REQUIREMENT_CUES =
+  /\b(\d+\+?\s*(?:-|–|to)?\s*\d*\s*\+?\s*years?|experience (?:with|in|building|using|of)|proficien(?:t|cy)|knowledge of|familiar(?:ity)? with|expertise in|degree|certification|certified|ability to|strong (?:\w+ )?skills|understanding of|background in|fluency in|fluent in|must (?:have|be)|required|hands-on)\b/i;
+
+/**
+ * Named technologies recognized in postings
+ *
+ * Patterns are case-insensitive unless marked otherwise; short or ambiguous
+ * names (Go, R, C) only match in their canonical capitalization.
+ */
+const TECHNOLOGIES: Array<{ name: string; pattern: RegExp }> = [
+  // Languages
+  { name: "JavaScript", pattern: /\bjavascript\b|\bES6\b/i },
+  { name: "TypeScript", pattern: /\btypescript\b/i },
+  { name: "Python", pattern: /\bpython\b/i },
+  { name: "Java", pattern: /\bjava\b(?!\s*script)/i },
+  { name: "Go", pattern: /\bgolang\b|\bGo\b(?=\s*(,|\/|\)|and\b|or\b|programming|language|$))/ },
+  { name: "Rust", pattern: /\bRust\b/ },
+  { name: "C++", pattern: /(^|[^\w])c\+\+(?!\w)/i },
+  { name: "C#", pattern: /(^|[^\w])c#(?!\w)/i },
+  { name: "Ruby", pattern: /\bruby\b/i },
+  { name: "PHP", pattern: /\bphp\b/i },
+  { name: "Kotlin", pattern: /\bkotlin\b/i },
+  { name: "Swift", pattern: /\bSwift\b/ },
+  { name: "Scala", pattern: /\bscala\b/i },
+  { name: "R", pattern: /\bR\b(?=\s*(,|\/|and|or|programming|language|\)))/ },
+  { name: "SQL", pattern: /\bsql\b/i },
+  { name: "Bash", pattern: /\bbash\b|\bshell scripting\b/i },
+  // Frontend
+  { name: "React", pattern: /\breact(\.js|js)?\b(?!\s*native)/i },
+  { name: "React Native", pattern: /\breact native\b/i },
+  { name: "Next.js", pattern: /\bnext\.?js\b/i },
+  { name: "Vue", pattern: /\bvue(\.js|js)?\b/i },
+  { name: "Angular", pattern: /\bangular(js)?\b/i },
+  { name: "Svelte", pattern: /\bsvelte(kit)?\b/i },
+  { name: "HTML", pattern: /\bhtml5?\b/i },
+  { name: "CSS", pattern: /\bcss3?\b/i },
+  { name: "Tailwind CSS", pattern: /\btailwind\b/i },
+  // Backend frameworks
+  { name: "Node.js", pattern: /\bnode(\.js|js)?\b/i },
+  { name: "Express", pattern: /\bexpress(\.js|js)\b/i },
+  { name: "Django", pattern: /\bdjango\b/i },
+  { name: "Flask", pattern: /\bflask\b/i },
+  { name: "FastAPI", pattern: /\bfastapi\b/i },
+  { name: "Spring", pattern: /\bspring( boot)?\b/i },
+  { name: "Ruby on Rails", pattern: /\b(ruby on )?rails\b/i },
+  { name: ".NET", pattern: /(^|\s)\.net\b|\basp\.net\b/i },
+  { name: "GraphQL", pattern: /\bgraphql\b/i },
+  { name: "gRPC", pattern: /\bgrpc\b/i },
+  // Data stores & pipelines
+  { name: "PostgreSQL", pattern: /\bpostgres(ql)?\b/i },
+  { name: "MySQL", pattern: /\bmysql\b/i },
+  { name: "MongoDB", pattern: /\bmongo(db)?\b/i },
+  { name: "Redis", pattern: /\bredis\b/i },
+  { name: "Elasticsearch", pattern: /\belastic ?search\b/i },
+  { name: "DynamoDB", pattern: /\bdynamo ?db\b/i },
+  { name: "Cassandra", pattern: /\bcassandra\b/i },
+  { name: "Snowflake", pattern: /\bsnowflake\b/i },
+  { name: "BigQuery", pattern: /\bbig ?query\b/i },
+  { name: "Kafka", pattern: /\bkafka\b/i },
+  { name: "Spark", pattern: /\b(apache )?spark\b|\bpyspark\b/i },
+  { name: "Airflow", pattern: /\bairflow\b/i },
+  { name: "dbt", pattern: /\bdbt\b/i },
+  // Cloud & infrastructure
+  { name: "AWS", pattern: /\baws\b|\bamazon web services\b/i },
+  { name: "GCP", pattern: /\bgcp\b|\bgoogle cloud\b/i },
+  { name: "Azure", pattern: /\bazure\b/i },
+  { name: "Docker", pattern: /\bdocker\b/i },
+  { name: "Kubernetes", pattern: /\bkubernetes\b|\bk8s\b/i },
+  { name: "Terraform", pattern: /\bterraform\b/i },
+  { name: "Ansible", pattern: /\bansible\b/i },
+  { name: "Linux", pattern: /\blinux\b/i },
+  { name: "Git", pattern: /\bgit\b(?!hub|lab)/i },
+  { name: "CI/CD", pattern: /\bci\s*\/\s*cd\b/i },
+  { name: "Datadog", pattern: /\bdatadog\b/i },
+  { name: "Prometheus", pattern: /\bprometheus\b/i },
+  { name: "Grafana", pattern: /\bgrafana\b/i },
+  // ML & AI
+  { name: "TensorFlow", pattern: /\btensorflow\b/i },
+  { name: "PyTorch", pattern: /\bpytorch\b/i },
+  { name: "scikit-learn", pattern: /\bscikit[- ]learn\b|\bsklearn\b/i },
+  { name: "Pandas", pattern: /\bpandas\b/i },
+  { name: "NumPy", pattern: /\bnumpy\b/i },
+  { name: "LLMs", pattern: /\bllms?\b|\blarge language models?\b/i },
+  { name: "LangChain", pattern: /\blangchain\b/i },
+  // Business tools
+  { name: "Tableau", pattern: /\btableau\b/i },
+  { name: "Power BI", pattern: /\bpower ?bi\b/i },
+  { name: "Looker", pattern: /\blooker\b/i },
+  { name: "Excel", pattern: /\bexcel\b/i },
+  { name: "Salesforce", pattern: /\bsalesforce\b/i },
+  { name: "Figma", pattern: /\bfigma\b/i },
+];
+
+/**
+ * Requirement item from a source's list, with the heading of the section it
+ * is listed under (e.g. "Nice to have")
+ */
+export interface ListedRequirement {
+  text: string;
+  section?: string;
+}
+
+/**
+ * Splits free text into candidate requirement segments
+ *
+ * Bullets and line breaks are hard boundaries; long lines are further split
+ * into sentences.
+ */
+function splitSegments(text: string): string[] {
+  return text
+    .split(/\n|[•·▪◦]|(?:^|\s)[-*]\s+/)
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z])|;\s+/))
+    .map((segment) => segment.replace(/\s+/g, " ").trim())
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Cleans a requirement item for display
+ */
+function cleanItem(item: string): string {
+  return item.replace(/^[\s\-*•·:]+/, "").replace(/[\s.;,]+$/, "").trim();
+}
+
+/**
+ * Finds the lowest degree level mentioned in a piece of text
+ *
+ * "BS or MS in Computer Science" means a bachelor's degree is sufficient.
+ */
+function findDegreeLevel(text: string): DegreeLevel | undefined {
+  const match = DEGREE_PATTERNS.find(({ pattern }) => pattern.test(text));
+  return match?.level;
+}
+
+/**
+ * Detects section headings such as "Nice to have:" or "Requirements"
+ */
+function classifyHeading(segment: string): "required" | "preferred" | null {
+  if (segment.length > 60) return null;
+
+  const heading = segment.replace(/[:\s]+$/, "").trim();
+  if (PREFERRED_HEADINGS.test(heading)) return "preferred";
+  if (REQUIRED_HEADINGS.test(heading)) return "required";
+  return null;
+}
+
+/**
+ * Extracts the minimum (and optional maximum) years of experience from text
+ *
+ * Matches "5+ years", "3-5 years", "at least 7 years", "five years" is not
+ * supported. Years mentioned without "experience" nearby are ignored.
+ */
+function findYearsOfExperience(text: string): JobRequirements["yearsOfExperience"] {
+  const pattern =
+    /(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*(\d{1,2})\s*\+?\s*)?(?:years?|yrs?)\b([^.;\n]{0,60})/gi;
+
+  let best: JobRequirements["yearsOfExperience"];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const context = `${match[3]} ${text.slice(Math.max(0, match.index - 30), match.index)}`;
+    if (!/experience|exp\b|working|professional|industry|background/i.test(context)) {
+      continue;
+    }
+
+    const min = parseInt(match[1], 10);
+    const max = match[2] ? parseInt(match[2], 10) : undefined;
+    if (min > 30 || (max !== undefined && max < min)) {
+      continue;
+    }
+
+    if (!best || min > best.min) {
+      best = max !== undefined ? { min, max } : { min };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Finds named technologies mentioned in text, in a stable (catalog) order
+ */
+export function extractTechnologies(text: string): string[] {
+  return TECHNOLOGIES.filter(({ pattern }) => pattern.test(text)).map(({ name }) => name);
+}
+
+/**
+ * Extracts structured requirements from a job posting
+ *
+ * @param description - Full job description (plain text)
+ * @param listedRequirements - Requirement items already provided by the source
+ *   (e.g. ATS requirement lists). When present they are classified instead of
+ *   mining the description for candidate sentences; items under a preferred
+ *   section heading are preferred.
+ * @returns Structured requirements
+ */
+export function extractJobRequirements(
+  description: string,
+  listedRequirements: Array<string | ListedRequirement> = []
+): JobRequirements {
+  const listedItems = listedRequirements.map((item) =>
+    typeof item === "string" ? { text: item } : item
+  );
+  const required: string[] = [];
+  const preferred: string[] = [];
+
+  if (listedItems.length > 0) {
+    for (const { text, section = "" } of listedItems) {
+      const cleaned = cleanItem(text);
+      if (!cleaned) continue;
+      const preferredSection = classifyHeading(section) === "preferred" || PREFERRED_CUES.test(section);
+      (preferredSection || PREFERRED_CUES.test(cleaned) ? preferred : required).push(cleaned);
+    }
+  } else {
+    // Track section context: items under a "Preferred"/"Nice to have" heading are preferred
+    let section: "required" | "preferred" | "none" = "none";
+
+    for (const segment of splitSegments(description)) {
+      const heading = classifyHeading(segment);
+      if (heading) {
+        section = heading;
+        continue;
+      }
+
+      // Any other heading (e.g. "Benefits:") ends the current section
+      if (/:$/.test(segment) && segment.length <= 60) {
+        section = "none";
+        continue;
+      }
+
+      const cleaned = cleanItem(segment);
+      if (!cleaned || cleaned.length > 300) continue;
+      const mentionsTechnology = extractTechnologies(cleaned).length > 0;
+      if (
+        section === "none" &&
+        !REQUIREMENT_CUES.test(cleaned) &&
+        !(PREFERRED_CUES.test(cleaned) && mentionsTechnology)
+      ) {
+        continue;
+      }
+
+      if (PREFERRED_CUES.test(cleaned) || section === "preferred") {
+        preferred.push(cleaned);
+      } else {
+        required.push(cleaned);
+      }
+    }
+  }
+
+  const requiredText = required.join("\n");
+  const allText = [description, ...listedItems.map((item) => item.text)].join("\n");
+
+  // Degree and experience count from required items first, then anywhere in the posting
+  const degreeLevel = findDegreeLevel(requiredText) ?? findDegreeLevel(allText);
+  const yearsOfExperience =
+    findYearsOfExperience(requiredText) ?? findYearsOfExperience(allText);
+
+  return {
+    required: dedupe(required),
+    preferred: dedupe(preferred),
+    yearsOfExperience,
+    degreeLevel,
+    technologies: extractTechnologies(allText),
+  };
+}
+
+/**
+ * Flattens structured requirements into the Job.requirements list
+ */
+export function flattenRequirements(structured: JobRequirements): string[] {
+  return [
+    ...structured.required,
+    ...structured.preferred.map((item) =>
+      PREFERRED_CUES.test(item) ? item : `${item} (preferred)`
+    ),
+  ];
+}
+
+/**
+ * Returns the job with structuredRequirements filled in
+ *
+ * Jobs from sources that already extract requirements are returned as-is;
+ * others (Firecrawl scrapes, manual entries, legacy rows) are parsed from
+ * their description and requirement list.
+ */
+export function withStructuredRequirements(job: Job): Job {
+  if (job.structuredRequirements) {
+    return job;
+  }
+
+  return {
+    ...job,
+    structuredRequirements: extractJobRequirements(job.description || "", job.requirements || []),
+  };
+}
+
+/**
+ * Compares degree levels (negative if a < b, 0 if equal, positive if a > b)
+ */
+export function compareDegreeLevels(a: DegreeLevel, b: DegreeLevel): number {
+  return DEGREE_LEVELS.indexOf(a) - DEGREE_LEVELS.indexOf(b);
+}
+
+function dedupe(items: string[]): string[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const key = item.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
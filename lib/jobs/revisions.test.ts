@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { computeJobContentHash, diffJobContent, diffText, isMaterialChange } from "./revisions";
+
+const POSTING = {
+  description: "Build APIs.\nShip features weekly.",
+  requirements: ["5+ years of Go", "Experience with Kafka"],
+  salary: "$150,000 - $180,000",
+  location: "Remote",
+};
+
+describe("computeJobContentHash", () => {
+  it("ignores whitespace-only edits", () => {
+    expect(
+      computeJobContentHash({
+        ...POSTING,
+        description: "  Build   APIs.\n Ship features weekly. ",
+        requirements: ["5+ years of  Go", "", "Experience with Kafka "],
+      })
+    ).toBe(computeJobContentHash(POSTING));
+  });
+
+  it("changes when a watched field changes", () => {
+    const hash = computeJobContentHash(POSTING);
+
+    expect(hash).toMatch(/^[0-9a-f]{14}$/);
+    expect(computeJobContentHash({ ...POSTING, salary: "$160,000 - $190,000" })).not.toBe(hash);
+    expect(computeJobContentHash({ ...POSTING, requirements: ["5+ years of Go"] })).not.toBe(hash);
+  });
+});
+
+describe("diffJobContent", () => {
+  it("lists the changed fields in display order", () => {
+    expect(
+      diffJobContent(POSTING, {
+        ...POSTING,
+        description: "Build APIs and pipelines.",
+        location: "New York, NY",
+      })
+    ).toEqual(["location", "description"]);
+  });
+
+  it("does not count fields the new version leaves empty", () => {
+    expect(diffJobContent(POSTING, { ...POSTING, salary: undefined, requirements: [] })).toEqual([]);
+  });
+});
+
+describe("isMaterialChange", () => {
+  it("treats salary, location and requirement edits as material", () => {
+    expect(isMaterialChange(["salary"])).toBe(true);
+    expect(isMaterialChange(["description", "requirements"])).toBe(true);
+    expect(isMaterialChange(["description"])).toBe(false);
+    expect(isMaterialChange([])).toBe(false);
+  });
+});
+
+describe("diffText", () => {
+  it("diffs by line and sentence, removals before their replacements", () => {
+    expect(
+      diffText(
+        "We build APIs. You will own the ledger.\nOn-call one week a month.",
+        "We build APIs. You will own billing.\nOn-call one week a month.\nFully remote."
+      )
+    ).toEqual([
+      { type: "same", text: "We build APIs." },
+      { type: "removed", text: "You will own the ledger." },
+      { type: "added", text: "You will own billing." },
+      { type: "same", text: "On-call one week a month." },
+      { type: "added", text: "Fully remote." },
+    ]);
+  });
+
+  it("handles empty texts", () => {
+    expect(diffText("", "New posting.")).toEqual([{ type: "added", text: "New posting." }]);
+    expect(diffText("Old posting.", "")).toEqual([{ type: "removed", text: "Old posting." }]);
+    expect(diffText("", "")).toEqual([]);
+  });
+});
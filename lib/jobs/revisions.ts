@@ -0,0 +1,151 @@
+/**
+ * Posting Revisions
+ *
+ * Detects edits recruiters make to saved postings. The watched fields
+ * (description, requirements, salary, location) are hashed when a job is
+ * saved and compared again when the posting is re-fetched from its source.
+ * Edits to requirements, salary or location are material: they can change how
+ * well the job fits, so the job is re-scored. Description-only edits (typos,
+ * reworded paragraphs) are recorded but are not material.
+ */
+
+import type { Job, JobContentField } from "@/types/job";
+
+/**
+ * Watched fields, in display order
+ */
+export const JOB_CONTENT_FIELDS: JobContentField[] = ["salary", "location", "requirements", "description"];
+
+/**
+ * Fields whose edits trigger a re-score
+ */
+export const MATERIAL_CONTENT_FIELDS: JobContentField[] = ["salary", "location", "requirements"];
+
+/**
+ * Labels of watched fields for display
+ */
+export const JOB_CONTENT_FIELD_LABELS: Record<JobContentField, string> = {
+  description: "Description",
+  requirements: "Requirements",
+  salary: "Salary",
+  location: "Location",
+};
+
+type JobContent = Pick<Job, "description" | "requirements" | "salary" | "location">;
+
+function normalizeWhitespace(value: string | undefined): string {
+  return (value || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Normalized value of a watched field (whitespace-only edits are ignored)
+ */
+function normalizedField(job: JobContent, field: JobContentField): string {
+  if (field === "requirements") {
+    return (job.requirements || []).map(normalizeWhitespace).filter(Boolean).join("\n");
+  }
+  return normalizeWhitespace(job[field]);
+}
+
+/**
+ * Computes the content hash of a posting's watched fields
+ *
+ * Uses a 53-bit string hash (cyrb53) rather than a cryptographic one, so it
+ * runs the same on the server and in the browser; it only needs to tell
+ * snapshots apart.
+ */
+export function computeJobContentHash(job: JobContent): string {
+  const content = JOB_CONTENT_FIELDS.map((field) => normalizedField(job, field)).join("\u0000");
+
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const ch = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+/**
+ * Lists the watched fields that differ between two versions of a posting
+ *
+ * A field the new version leaves empty is not counted as changed, since
+ * sources sometimes omit fields (e.g. salary) from single-posting responses.
+ */
+export function diffJobContent(previous: JobContent, current: JobContent): JobContentField[] {
+  return JOB_CONTENT_FIELDS.filter((field) => {
+    const next = normalizedField(current, field);
+    return next !== "" && next !== normalizedField(previous, field);
+  });
+}
+
+/**
+ * True if any of the changed fields is material
+ */
+export function isMaterialChange(changedFields: JobContentField[]): boolean {
+  return changedFields.some((field) => MATERIAL_CONTENT_FIELDS.includes(field));
+}
+
+/**
+ * One segment of a text diff
+ */
+export interface TextDiffSegment {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Splits text into lines, and long lines into sentences, for diffing
+ */
+function diffUnits(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap((line) => line.split(/(?<=[.!?])\s+(?=[A-Z0-9•\-*])/))
+    .map((unit) => unit.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Diffs two texts by line and sentence (longest common subsequence)
+ *
+ * @returns Segments in reading order; removed segments come before the added
+ *          ones that replace them
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  const a = diffUnits(before);
+  const b = diffUnits(after);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      segments.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      segments.push({ type: "removed", text: a[i] });
+      i++;
+    } else {
+      segments.push({ type: "added", text: b[j] });
+      j++;
+    }
+  }
+
+  return segments;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { parseSalary } from "./salary";
+
+describe("parseSalary", () => {
+  it("parses a yearly dollar range", () => {
+    expect(parseSalary("$120,000 - $150,000")).toEqual({
+      min: 120000,
+      max: 150000,
+      currency: "USD",
+      period: "year",
+      source: "posted",
+    });
+  });
+
+  it("reads US$ as US dollars", () => {
+    expect(parseSalary("US$120,000 - US$150,000")).toMatchObject({
+      min: 120000,
+      max: 150000,
+      currency: "USD",
+    });
+  });
+
+  it("recognizes prefixed dollar currencies", () => {
+    expect(parseSalary("C$90,000 - C$110,000")?.currency).toBe("CAD");
+    expect(parseSalary("CA$90,000 - CA$110,000")?.currency).toBe("CAD");
+    expect(parseSalary("A$130,000 - A$150,000")?.currency).toBe("AUD");
+    expect(parseSalary("AU$130,000")?.currency).toBe("AUD");
+    expect(parseSalary("NZ$100,000")?.currency).toBe("NZD");
+    expect(parseSalary("S$8,000 per month")?.currency).toBe("SGD");
+  });
+
+  it("applies a k suffix to both ends of a range", () => {
+    expect(parseSalary("$120-150k")).toMatchObject({ min: 120000, max: 150000, period: "year" });
+    expect(parseSalary("£45k-£55k")).toMatchObject({ min: 45000, max: 55000, currency: "GBP" });
+  });
+
+  it("reads the pay period, defaulting small amounts to hourly", () => {
+    expect(parseSalary("$40-50/hr")).toMatchObject({ min: 40, max: 50, period: "hour" });
+    expect(parseSalary("$28 - $34")).toMatchObject({ period: "hour" });
+    expect(parseSalary("€4,000 per month")).toMatchObject({ min: 4000, max: 4000, currency: "EUR", period: "month" });
+    expect(parseSalary("$95,000 annually")).toMatchObject({ period: "year" });
+  });
+
+  it("keeps open-ended ranges open", () => {
+    expect(parseSalary("Up to $90,000")).toEqual({ max: 90000, currency: "USD", period: "year", source: "posted" });
+    expect(parseSalary("From $70,000")).toEqual({ min: 70000, currency: "USD", period: "year", source: "posted" });
+  });
+
+  it("returns undefined without an amount", () => {
+    expect(parseSalary("Competitive")).toBeUndefined();
+    expect(parseSalary("")).toBeUndefined();
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Salary Normalization
+ *
+ * Parses free-text salaries ("$120,000 - $150,000", "£45k-£55k", "$40-50/hr")
+ * into numeric ranges with a currency and pay period, and compares them
+ * against the user's salary expectations.
+ */
+
+import { z } from "zod";
+import type { Job, SalaryPeriod, SalaryRange } from "@/types/job";
+
+/**
+ * Zod schema for SalaryRange, used by tools that pass jobs through the agent
+ */
+export const salaryRangeSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  currency: z.string(),
+  period: z.enum(["year", "month", "week", "day", "hour"]),
+  source: z.enum(["posted", "estimated"]),
+});
+
+/**
+ * Working units per year used to annualize non-yearly pay
+ */
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = {
+  year: 1,
+  month: 12,
+  week: 52,
+  day: 260,
+  hour: 2080,
+};
+
+/**
+ * Currency markers, checked in order (multi-character symbols before "$")
+ *
+ * Prefixed dollar signs must not follow another letter, so "US$" is not
+ * read as "S$".
+ */
+const CURRENCY_MARKERS: Array<{ currency: string; pattern: RegExp }> = [
+  { currency: "CAD", pattern: /\bCAD\b|(?<![A-Z])CA?\$/ },
+  { currency: "AUD", pattern: /\bAUD\b|(?<![A-Z])AU?\$/ },
+  { currency: "NZD", pattern: /\bNZD\b|(?<![A-Z])NZ\$/ },
+  { currency: "SGD", pattern: /\bSGD\b|(?<![A-Z])S\$/ },
+  { currency: "GBP", pattern: /\bGBP\b|£/ },
+  { currency: "EUR", pattern: /\bEUR\b|€/ },
+  { currency: "INR", pattern: /\bINR\b|₹/ },
+  { currency: "JPY", pattern: /\bJPY\b|¥/ },
+  { currency: "CHF", pattern: /\bCHF\b/ },
+  { currency: "USD", pattern: /\bUSD\b|\$/ },
+];
+
+const PERIOD_MARKERS: Array<{ period: SalaryPeriod; pattern: RegExp }> = [
+  { period: "hour", pattern: /\b(per|an|\/)\s*(hour|hr)\b|\/\s*(hour|hr)\b|\bhourly\b/i },
+  { period: "day", pattern: /\b(per|a|\/)\s*day\b|\/\s*day\b|\bdaily\b/i },
+  { period: "week", pattern: /\b(per|a|\/)\s*(week|wk)\b|\/\s*(week|wk)\b|\bweekly\b/i },
+  { period: "month", pattern: /\b(per|a|\/)\s*(month|mo)\b|\/\s*(month|mo)\b|\bmonthly\b/i },
+  { period: "year", pattern: /\b(per|a|\/)\s*(year|yr|annum)\b|\/\s*(year|yr)\b|\b(annual|annually|yearly)\b|\bp\.a\./i },
+];
+
+/**
+ * Amounts such as "$120,000", "€50.000", "120k", "€45.5K", "1.2M" or "45.50"
+ */
+const AMOUNT_PATTERN =
+  /([£€₹¥]|(?:[A-Z]{1,2})?\$)?\s?(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d{1,3}(?:\.\d{3})+(?!\d)|\d+(?:\.\d+)?)\s?([kKmM])?(?![\w%])/g;
+
+interface ParsedAmount {
+  value: number;
+  hasCurrency: boolean;
+  hasMultiplier: boolean;
+}
+
+function findAmounts(text: string): ParsedAmount[] {
+  const amounts: ParsedAmount[] = [];
+
+  let match: RegExpExecArray | null;
+  AMOUNT_PATTERN.lastIndex = 0;
+  while ((match = AMOUNT_PATTERN.exec(text)) !== null) {
+    const [, symbol, digits, multiplier] = match;
+    // "50.000" uses "." as the thousands separator (common in European postings)
+    const normalized = /^\d{1,3}(\.\d{3})+$/.test(digits)
+      ? digits.replace(/\./g, "")
+      : digits.replace(/,/g, "");
+    let value = parseFloat(normalized);
+    if (multiplier) {
+      value *= multiplier.toLowerCase() === "k" ? 1_000 : 1_000_000;
+    }
+    amounts.push({
+      value,
+      hasCurrency: Boolean(symbol),
+      hasMultiplier: Boolean(multiplier),
+    });
+  }
+
+  // "120-150k": the multiplier on the upper bound applies to the lower bound too
+  for (let i = 0; i < amounts.length - 1; i++) {
+    const [current, next] = [amounts[i], amounts[i + 1]];
+    if (!current.hasMultiplier && next.hasMultiplier && current.value < 1_000) {
+      const scale = next.value >= 1_000_000 ? 1_000_000 : 1_000;
+      if (current.value * scale <= next.value) {
+        current.value *= scale;
+        current.hasMultiplier = true;
+      }
+    }
+  }
+
+  return amounts;
+}
+
+/**
+ * Parses a free-text salary into a numeric range
+ *
+ * Returns undefined when the text contains no recognizable amount (e.g.
+ * "Competitive", "DOE"). Without an explicit pay period, amounts under 500
+ * are treated as hourly and everything else as yearly.
+ *
+ * @param text - Salary text as shown on the posting
+ * @param source - Whether the salary was posted by the employer or estimated
+ *   by the job source (e.g. Adzuna predictions)
+ */
+export function parseSalary(
+  text: string | undefined | null,
+  source: SalaryRange["source"] = "posted"
+): SalaryRange | undefined {
+  if (!text || !text.trim()) {
+    return undefined;
+  }
+
+  const allAmounts = findAmounts(text);
+  // Bare small numbers ("3 locations", "2 weeks") only count alongside a pay period
+  const explicitPeriod = PERIOD_MARKERS.find(({ pattern }) => pattern.test(text))?.period;
+  const amounts = allAmounts.filter(
+    (amount) =>
+      amount.value > 0 &&
+      (amount.hasCurrency || amount.hasMultiplier || amount.value >= 1_000 || explicitPeriod)
+  );
+
+  if (amounts.length === 0) {
+    return undefined;
+  }
+
+  const values = amounts.map((amount) => amount.value);
+  let min: number | undefined = Math.min(...values);
+  let max: number | undefined = Math.max(...values);
+
+  if (values.length === 1) {
+    if (/\b(up to|max(imum)?|below|under)\b/i.test(text)) {
+      min = undefined;
+    } else if (/\+|\b(from|starting( at)?|min(imum)?|at least|or more)\b/i.test(text)) {
+      max = undefined;
+    }
+  }
+
+  const currency =
+    CURRENCY_MARKERS.find(({ pattern }) => pattern.test(text))?.currency ?? "USD";
+  const period = explicitPeriod ?? ((max ?? min ?? 0) < 500 ? "hour" : "year");
+
+  return {
+    ...(min !== undefined ? { min } : {}),
+    ...(max !== undefined ? { max } : {}),
+    currency,
+    period,
+    source,
+  };
+}
+
+/**
+ * Converts a salary range to yearly amounts in its own currency
+ */
+export function annualizeSalary(range: SalaryRange): { min?: number; max?: number } {
+  const factor = PERIODS_PER_YEAR[range.period];
+  return {
+    min: range.min !== undefined ? Math.round(range.min * factor) : undefined,
+    max: range.max !== undefined ? Math.round(range.max * factor) : undefined,
+  };
+}
+
+/**
+ * Returns the job with salaryRange filled in from its salary text
+ */
+export function withSalaryRange(job: Job): Job {
+  if (job.salaryRange || !job.salary) {
+    return job;
+  }
+
+  const salaryRange = parseSalary(job.salary);
+  return salaryRange ? { ...job, salaryRange } : job;
+}
+
+/**
+ * Computes how well a salary range meets the user's expectations (0-1)
+ *
+ * - 1: the bottom of the range meets the user's minimum
+ * - 0.75: the range straddles the user's minimum
+ * - 0.5 down to 0: the top of the range falls short by 0-20% of the minimum
+ *
+ * User salaries are assumed to be yearly USD. Returns null when the ratio
+ * cannot be computed (no salary, other currency, no user minimum).
+ */
+export function computeSalaryMatchRatio(
+  range: SalaryRange | undefined,
+  expectations: { salaryMin?: number }
+): number | null {
+  const userMin = expectations.salaryMin ?? 0;
+  if (!range || range.currency !== "USD" || userMin <= 0) {
+    return null;
+  }
+
+  const annual = annualizeSalary(range);
+  const jobMin = annual.min ?? annual.max;
+  const jobMax = annual.max ?? annual.min;
+  if (jobMin === undefined || jobMax === undefined) {
+    return null;
+  }
+
+  if (jobMin >= userMin) return 1;
+  if (jobMax >= userMin) return 0.75;
+
+  const shortfall = (userMin - jobMax) / userMin;
+  return Math.max(0, 0.5 - shortfall * 2.5);
+}
+
+/**
+ * Formats a salary range for display (e.g. "$120k - $150k /yr (est.)")
+ */
+export function formatSalaryRange(range: SalaryRange): string {
+  const symbol =
+    range.currency === "USD" ? "$" : range.currency === "GBP" ? "£" : range.currency === "EUR" ? "€" : `${range.currency} `;
+  const format = (value: number) =>
+    value >= 10_000
+      ? `${symbol}${Math.round(value / 1_000)}k`
+      : `${symbol}${value.toLocaleString("en-US")}`;
+
+  const amount =
+    range.min !== undefined && range.max !== undefined && range.min !== range.max
+      ? `${format(range.min)} - ${format(range.max)}`
+      : range.min !== undefined
+        ? `${format(range.min)}${range.max === undefined ? "+" : ""}`
+        : `Up to ${format(range.max as number)}`;
+
+  const periodLabel: Record<SalaryPeriod, string> = {
+    year: "/yr",
+    month: "/mo",
+    week: "/wk",
+    day: "/day",
+    hour: "/hr",
+  };
+
+  return `${amount} ${periodLabel[range.period]}${range.source === "estimated" ? " (est.)" : ""}`;
+}
@@ -0,0 +1,156 @@
+/**
+ * Score Weighting
+ *
+ * Scores are stored as normalized category ratings (0-1, the share of a
+ * category's weight earned) plus an adjustment for points the agent added or
+ * removed outside the categories (e.g. deal-breaker penalties). The total
+ * score and priority are derived from the ratings and the user's current
+ * scoring weights, so changing the weights re-scores every job instantly
+ * without rerunning the Job Matching Agent.
+ */
+
+import type { Job, ScoreCategory } from "@/types/job";
+import { calculatePriority } from "@/types/job";
+import type { UserProfile } from "@/types/profile";
+import { DEAL_BREAKER_MAX_SCORE, hasDealBreakers } from "./deal-breakers";
+
+export type ScoringWeights = UserProfile["scoringWeights"];
+
+export type CategoryRatings = NonNullable<Job["scoreBreakdown"]>;
+
+function clampRating(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Converts points per category (out of each category's weight) to 0-1 ratings
+ *
+ * Points for categories missing from the weights are dropped; zero-weight
+ * categories carry no information and are rated 0.
+ */
+export function pointsToRatings(
+  points: Record<ScoreCategory, number>,
+  weights: ScoringWeights
+): CategoryRatings {
+  return Object.fromEntries(
+    Object.keys(weights)
+      .filter((category) => typeof points[category] === "number")
+      .map((category) => [
+        category,
+        weights[category] > 0
+          ? Math.round(clampRating(points[category] / weights[category]) * 1000) / 1000
+          : 0,
+      ])
+  );
+}
+
+/**
+ * Converts 0-1 ratings to points per category under the given weights
+ * (categories without a rating are left out)
+ */
+export function ratingsToPoints(
+  ratings: CategoryRatings,
+  weights: ScoringWeights
+): Record<ScoreCategory, number> {
+  return Object.fromEntries(
+    Object.keys(weights)
+      .filter((category) => typeof ratings[category] === "number")
+      .map((category) => [
+        category,
+        Math.round(clampRating(ratings[category]) * weights[category] * 10) / 10,
+      ])
+  );
+}
+
+/**
+ * Computes the total score (0-100) of ratings under the given weights
+ *
+ * Categories the job has no rating for (e.g. a custom category added after
+ * it was scored) are left out and the remaining weights scaled up, so adding
+ * a category does not lower every existing score.
+ *
+ * @param ratings - Rating per category (0-1)
+ * @param weights - Scoring weights (sum to 100)
+ * @param adjustment - Points added outside the categories (see normalizeAgentScore)
+ */
+export function computeWeightedScore(
+  ratings: CategoryRatings,
+  weights: ScoringWeights,
+  adjustment = 0
+): number {
+  const categories = Object.keys(weights);
+  const rated = categories.filter((category) => typeof ratings[category] === "number");
+
+  const totalWeight = categories.reduce((sum, category) => sum + weights[category], 0);
+  const ratedWeight = rated.reduce((sum, category) => sum + weights[category], 0);
+  const points = rated.reduce(
+    (sum, category) => sum + clampRating(ratings[category]) * weights[category],
+    0
+  );
+
+  const scaled = ratedWeight > 0 ? (points * totalWeight) / ratedWeight : 0;
+  return Math.min(100, Math.max(0, Math.round(scaled) + adjustment));
+}
+
+/**
+ * True if two sets of weights differ for any category
+ */
+export function scoringWeightsChanged(
+  previous: ScoringWeights | undefined,
+  next: ScoringWeights | undefined
+): boolean {
+  const categories = new Set([...Object.keys(previous || {}), ...Object.keys(next || {})]);
+  return Array.from(categories).some((category) => previous?.[category] !== next?.[category]);
+}
+
+/**
+ * Converts a score returned by the Job Matching Agent (points per category
+ * out of the run's weights) to stored ratings
+ *
+ * The difference between the agent's total and the sum of its category
+ * points is kept as scoreAdjustment, so re-weighting with the same weights
+ * reproduces the agent's score exactly.
+ *
+ * @param score - Overall score returned by the agent
+ * @param points - Points per category returned by the agent
+ * @param weights - Scoring weights the agent was given
+ */
+export function normalizeAgentScore(
+  score: number,
+  points: Record<ScoreCategory, number>,
+  weights: ScoringWeights
+): { scoreBreakdown: CategoryRatings; scoreAdjustment: number } {
+  const scoreBreakdown = pointsToRatings(points, weights);
+  return {
+    scoreBreakdown,
+    scoreAdjustment: Math.round(score) - computeWeightedScore(scoreBreakdown, weights),
+  };
+}
+
+/**
+ * Returns the job with score, priority and baseline score recomputed under
+ * the given weights (jobs without ratings are returned unchanged). Jobs
+ * violating deal breakers stay capped at low priority.
+ */
+export function reweightJob(job: Job, weights: ScoringWeights): Job {
+  const reweighted: Job = { ...job };
+
+  if (job.scoreBreakdown) {
+    const weighted = computeWeightedScore(job.scoreBreakdown, weights, job.scoreAdjustment ?? 0);
+    const score = hasDealBreakers(job) ? Math.min(weighted, DEAL_BREAKER_MAX_SCORE) : weighted;
+    reweighted.score = score;
+    reweighted.priority = calculatePriority(score);
+  }
+
+  if (job.baselineScore) {
+    const score = computeWeightedScore(job.baselineScore.scoreBreakdown, weights);
+    reweighted.baselineScore = {
+      ...job.baselineScore,
+      score,
+      priority: calculatePriority(score),
+    };
+  }
+
+  return reweighted;
+}
@@ -0,0 +1,130 @@
+/**
+ * Resume DOCX Renderer
+ *
+ * Writes parsed resume blocks as a Word document (Office Open XML) with the
+ * template's fonts, sizes and spacing. Headings use Word's built-in heading
+ * styles and bullets a real bulleted list, so ATS parsers and Word's
+ * navigation pane see the resume's structure.
+ */
+
+import { getBlockStyle, withVisibleLinks } from "./layout";
+import type { ResumeBlock, TextRun } from "./markdown";
+import { createZip } from "./zip";
+import { RESUME_FONTS, RESUME_PAGE_SIZE, type ResumeTemplate } from "./templates";
+
+const BULLET_NUMBERING_ID = 1;
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** Points to twentieths of a point (twips) */
+function twips(points: number): number {
+  return Math.round(points * 20);
+}
+
+/** Points to half-points (Word font sizes) */
+function halfPoints(points: number): number {
+  return Math.round(points * 2);
+}
+
+function runXml(run: TextRun, size: number, color: string, bold: boolean, uppercase: boolean): string {
+  const properties = [
+    bold || run.bold ? "<w:b/>" : "",
+    run.italic ? "<w:i/>" : "",
+    uppercase ? "<w:caps/>" : "",
+    color !== "000000" ? `<w:color w:val="${color}"/>` : "",
+    `<w:sz w:val="${halfPoints(size)}"/><w:szCs w:val="${halfPoints(size)}"/>`,
+  ].join("");
+  return `<w:r><w:rPr>${properties}</w:rPr><w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`;
+}
+
+function paragraphXml(block: Exclude<ResumeBlock, { type: "rule" }>, template: ResumeTemplate, inHeader: boolean): string {
+  const style = getBlockStyle(block, template, inHeader);
+  const properties = [
+    block.type === "heading" ? `<w:pStyle w:val="Heading${block.level}"/>` : "",
+    block.type === "bullet" ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUMBERING_ID}"/></w:numPr>` : "",
+    style.ruleAfter
+      ? `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${style.color}"/></w:pBdr>`
+      : "",
+    `<w:spacing w:before="${twips(style.spaceBefore)}" w:after="${twips(style.spaceAfter)}" w:line="${Math.round(template.lineHeight * 240)}" w:lineRule="auto"/>`,
+    block.type === "bullet" ? `<w:ind w:left="${twips(style.indent)}" w:hanging="${twips(style.indent - 3)}"/>` : "",
+    style.center ? `<w:jc w:val="center"/>` : "",
+  ].join("");
+
+  const runs = withVisibleLinks(block.runs)
+    .map((run) => runXml(run, style.size, style.color, style.bold, style.uppercase))
+    .join("");
+  return `<w:p><w:pPr>${properties}</w:pPr>${runs}</w:p>`;
+}
+
+function documentXml(blocks: ResumeBlock[], template: ResumeTemplate): string {
+  let inHeader = true;
+  const body = blocks
+    .map((block) => {
+      if (block.type === "heading" && block.level === 2) inHeader = false;
+      if (block.type === "rule") {
+        return `<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="000000"/></w:pBdr><w:spacing w:before="0" w:after="${twips(6)}"/></w:pPr></w:p>`;
+      }
+      return paragraphXml(block, template, inHeader);
+    })
+    .join("");
+
+  const margin = twips(template.margin);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="${twips(RESUME_PAGE_SIZE.width)}" w:h="${twips(RESUME_PAGE_SIZE.height)}"/><w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+}
+
+function stylesXml(template: ResumeTemplate): string {
+  const font = RESUME_FONTS[template.font].docx;
+  const heading = (level: number, name: string) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:outlineLvl w:val="${level - 1}"/></w:pPr><w:rPr><w:b/></w:rPr></w:style>`;
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:eastAsia="${font}" w:cs="${font}"/><w:sz w:val="${halfPoints(template.fontSize.body)}"/><w:szCs w:val="${halfPoints(template.fontSize.body)}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>${heading(1, "heading 1")}${heading(2, "heading 2")}${heading(3, "heading 3")}</w:styles>`;
+}
+
+function numberingXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/></w:lvl></w:abstractNum><w:num w:numId="${BULLET_NUMBERING_ID}"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+}
+
+/**
+ * Renders parsed resume blocks as a DOCX document
+ *
+ * @param blocks - Blocks from parseResumeMarkdown
+ * @param template - Template to render with
+ * @param title - Document title (stored in the document properties)
+ */
+export function renderResumeDocx(blocks: ResumeBlock[], template: ResumeTemplate, title: string): Buffer {
+  const created = new Date();
+
+  return createZip(
+    [
+      {
+        path: "[Content_Types].xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`,
+      },
+      {
+        path: "_rels/.rels",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`,
+      },
+      {
+        path: "docProps/core.xml",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dcterms:created xsi:type="dcterms:W3CDTF">${created.toISOString().replace(/\.\d{3}Z$/, "Z")}</dcterms:created></cp:coreProperties>`,
+      },
+      {
+        path: "word/_rels/document.xml.rels",
+        content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/></Relationships>`,
+      },
+      { path: "word/document.xml", content: documentXml(blocks, template) },
+      { path: "word/styles.xml", content: stylesXml(template) },
+      { path: "word/numbering.xml", content: numberingXml() },
+    ],
+    created
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Standard PDF Font Metrics
+ *
+ * Character widths (in 1/1000 em) of the standard Helvetica and Times fonts,
+ * from their Adobe font metrics, for measuring and wrapping text without
+ * embedding fonts. Italic faces use the upright widths, which are close
+ * enough for line wrapping.
+ */
+
+import type { ResumeFontFamily } from "./templates";
+
+// Widths of the printable ASCII characters (32-126), in order
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+  611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+  611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+  556, 556, 500, 389, 280, 389, 584,
+];
+
+const TIMES_WIDTHS = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500,
+  500, 500, 500, 500, 278, 278, 564, 564, 564, 444, 921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722,
+  611, 889, 722, 722, 556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500, 333, 444,
+  500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500, 500, 500, 333, 389, 278, 500, 500, 722,
+  500, 500, 444, 480, 200, 480, 541,
+];
+
+const TIMES_BOLD_WIDTHS = [
+  250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278, 500, 500, 500, 500, 500, 500,
+  500, 500, 500, 500, 333, 333, 570, 570, 570, 500, 930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778,
+  667, 944, 722, 778, 611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500, 333, 500,
+  556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500, 556, 556, 444, 389, 333, 556, 500, 722,
+  500, 500, 444, 394, 220, 394, 520,
+];
+
+const WIDTHS: Record<ResumeFontFamily, { regular: number[]; bold: number[] }> = {
+  sans: { regular: HELVETICA_WIDTHS, bold: HELVETICA_BOLD_WIDTHS },
+  serif: { regular: TIMES_WIDTHS, bold: TIMES_BOLD_WIDTHS },
+};
+
+/**
+ * WinAnsiEncoding codes of the non-Latin-1 characters resumes commonly use
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+const EXTRA_WIDTHS: Record<ResumeFontFamily, Record<number, number>> = {
+  sans: { 0x80: 556, 0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000, 0x99: 1000 },
+  serif: { 0x80: 500, 0x85: 1000, 0x91: 333, 0x92: 333, 0x93: 444, 0x94: 444, 0x95: 350, 0x96: 500, 0x97: 1000, 0x99: 980 },
+};
+
+/**
+ * WinAnsiEncoding byte of a character ("?" for characters it cannot encode)
+ */
+export function toWinAnsi(char: string): number {
+  const code = char.codePointAt(0) ?? 63;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63;
+}
+
+/**
+ * Width of a text in points
+ */
+export function measureText(text: string, family: ResumeFontFamily, bold: boolean, size: number): number {
+  const widths = bold ? WIDTHS[family].bold : WIDTHS[family].regular;
+  const fallback = family === "sans" ? 556 : 500;
+
+  let total = 0;
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : EXTRA_WIDTHS[family][code] ?? fallback;
+  }
+  return (total * size) / 1000;
+}
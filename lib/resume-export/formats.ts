@@ -0,0 +1,21 @@
+/**
+ * Resume Export Formats
+ *
+ * Document formats a tailored resume can be exported to. Kept apart from the
+ * renderers so client components can list them.
+ */
+
+export type ResumeExportFormat = "pdf" | "docx" | "html";
+
+export const RESUME_EXPORT_FORMATS: Record<
+  ResumeExportFormat,
+  { label: string; extension: string; contentType: string }
+> = {
+  pdf: { label: "PDF", extension: "pdf", contentType: "application/pdf" },
+  docx: {
+    label: "Word (.docx)",
+    extension: "docx",
+    contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  html: { label: "HTML", extension: "html", contentType: "text/html; charset=utf-8" },
+};
@@ -0,0 +1,101 @@
+/**
+ * Resume HTML Renderer
+ *
+ * Writes parsed resume blocks as a standalone HTML page styled with the
+ * template, laid out for printing on US Letter pages.
+ */
+
+import { getBlockStyle } from "./layout";
+import type { ResumeBlock, TextRun } from "./markdown";
+import { RESUME_FONTS, type ResumeTemplate } from "./templates";
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function runsHtml(runs: TextRun[]): string {
+  return runs
+    .map((run) => {
+      let html = escapeHtml(run.text);
+      if (run.italic) html = `<em>${html}</em>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+      if (run.link && /^(?:https?:|mailto:|tel:)/i.test(run.link)) html = `<a href="${escapeHtml(run.link)}">${html}</a>`;
+      return html;
+    })
+    .join("");
+}
+
+function blockCss(block: ResumeBlock, template: ResumeTemplate, inHeader: boolean): string {
+  const style = getBlockStyle(block, template, inHeader);
+  return [
+    `font-size:${style.size}pt`,
+    `margin:${style.spaceBefore}pt 0 ${style.spaceAfter}pt`,
+    style.bold ? "font-weight:bold" : "",
+    style.color !== "000000" ? `color:#${style.color}` : "",
+    style.uppercase ? "text-transform:uppercase" : "",
+    style.center ? "text-align:center" : "",
+    style.ruleAfter ? `border-bottom:0.75pt solid #${style.color};padding-bottom:1.5pt` : "",
+  ]
+    .filter(Boolean)
+    .join(";");
+}
+
+/**
+ * Renders parsed resume blocks as an HTML document
+ *
+ * @param blocks - Blocks from parseResumeMarkdown
+ * @param template - Template to render with
+ * @param title - Page title
+ */
+export function renderResumeHtml(blocks: ResumeBlock[], template: ResumeTemplate, title: string): string {
+  let inHeader = true;
+  const body: string[] = [];
+  let listItems: string[] = [];
+
+  const flushList = () => {
+    if (listItems.length > 0) {
+      body.push(`<ul>${listItems.join("")}</ul>`);
+      listItems = [];
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.type === "heading" && block.level === 2) inHeader = false;
+
+    if (block.type === "bullet") {
+      listItems.push(`<li style="${blockCss(block, template, inHeader)}">${runsHtml(block.runs)}</li>`);
+      continue;
+    }
+    flushList();
+
+    if (block.type === "rule") {
+      body.push("<hr>");
+    } else if (block.type === "heading") {
+      body.push(`<h${block.level} style="${blockCss(block, template, inHeader)}">${runsHtml(block.runs)}</h${block.level}>`);
+    } else {
+      body.push(`<p style="${blockCss(block, template, inHeader)}">${runsHtml(block.runs)}</p>`);
+    }
+  }
+  flushList();
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+@page { size: letter; margin: ${template.margin}pt; }
+body { font-family: ${RESUME_FONTS[template.font].css}; font-size: ${template.fontSize.body}pt; line-height: ${template.lineHeight}; color: #000; max-width: 8.5in; margin: 0 auto; padding: ${template.margin}pt; box-sizing: border-box; }
+@media print { body { padding: 0; } }
+h1, h2, h3, p { font-weight: normal; }
+ul { margin: 0; padding-left: 14pt; }
+hr { border: 0; border-top: 0.75pt solid #000; margin: 4pt 0 6pt; }
+a { color: inherit; }
+</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Resume Export
+ *
+ * Converts a tailored resume's markdown into PDF, DOCX or HTML documents
+ * with a selectable template, entirely in-process (no external services).
+ */
+
+import { z } from "zod";
+import type { Job } from "@/types/job";
+import { renderResumeDocx } from "./docx";
+import { RESUME_EXPORT_FORMATS, type ResumeExportFormat } from "./formats";
+import { renderResumeHtml } from "./html";
+import { layoutResume } from "./layout";
+import { getResumeCandidateName, parseResumeMarkdown } from "./markdown";
+import { renderResumePdf } from "./pdf";
+import {
+  DEFAULT_RESUME_TEMPLATE,
+  RESUME_MAX_PAGES,
+  RESUME_TEMPLATES,
+  type ResumeTemplateId,
+} from "./templates";
+
+export { RESUME_TEMPLATES, DEFAULT_RESUME_TEMPLATE, RESUME_MAX_PAGES } from "./templates";
+export type { ResumeTemplate, ResumeTemplateId } from "./templates";
+export { RESUME_EXPORT_FORMATS } from "./formats";
+export type { ResumeExportFormat } from "./formats";
+
+/**
+ * Query parameters of the export route
+ */
+export const resumeExportQuerySchema = z.object({
+  format: z.enum(Object.keys(RESUME_EXPORT_FORMATS) as [ResumeExportFormat, ...ResumeExportFormat[]], {
+    error: "Format must be pdf, docx or html",
+  }),
+  template: z
+    .enum(Object.keys(RESUME_TEMPLATES) as [ResumeTemplateId, ...ResumeTemplateId[]], {
+      error: "Unknown resume template",
+    })
+    .default(DEFAULT_RESUME_TEMPLATE),
+});
+
+export interface ResumeExport {
+  content: Buffer | string;
+  contentType: string;
+  filename: string;
+  /** Pages the resume fills in the template */
+  pageCount: number;
+  /** True if the resume is longer than RESUME_MAX_PAGES */
+  exceedsMaxPages: boolean;
+}
+
+function filenamePart(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 40)
+    .replace(/_+$/, "");
+}
+
+/**
+ * Download filename: Candidate_Name_Resume_Company_Job_Title.ext
+ * (without the name if the resume does not start with one)
+ */
+export function getResumeExportFilename(
+  job: Pick<Job, "company" | "title">,
+  candidateName: string | undefined,
+  format: ResumeExportFormat
+): string {
+  const parts = [candidateName, "Resume", job.company, job.title]
+    .filter((part): part is string => Boolean(part))
+    .map(filenamePart)
+    .filter(Boolean);
+  return `${parts.join("_")}.${RESUME_EXPORT_FORMATS[format].extension}`;
+}
+
+/**
+ * Renders a resume in the given format and template
+ *
+ * @param markdown - Resume content in markdown
+ * @param job - Job the resume was tailored for (for the filename and title)
+ */
+export function exportResume(
+  markdown: string,
+  job: Pick<Job, "company" | "title">,
+  options: { format: ResumeExportFormat; template: ResumeTemplateId }
+): ResumeExport {
+  const template = RESUME_TEMPLATES[options.template];
+  const blocks = parseResumeMarkdown(markdown);
+  const candidateName = getResumeCandidateName(blocks);
+  const title = `${candidateName ? `${candidateName} - ` : ""}Resume for ${job.title} at ${job.company}`;
+
+  // The page layout is computed for every format so the length check is consistent
+  const layout = layoutResume(blocks, template);
+  const pageCount = layout.pages.length;
+
+  const content =
+    options.format === "pdf"
+      ? renderResumePdf(layout, template, title)
+      : options.format === "docx"
+        ? renderResumeDocx(blocks, template, title)
+        : renderResumeHtml(blocks, template, title);
+
+  return {
+    content,
+    contentType: RESUME_EXPORT_FORMATS[options.format].contentType,
+    filename: getResumeExportFilename(job, candidateName, options.format),
+    pageCount,
+    exceedsMaxPages: pageCount > RESUME_MAX_PAGES,
+  };
+}
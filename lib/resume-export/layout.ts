@@ -0,0 +1,250 @@
+/**
+ * Resume Page Layout
+ *
+ * Wraps and paginates parsed resume blocks on US Letter pages with a
+ * template's fonts, sizes and spacing. The PDF renderer draws the result;
+ * the other formats use its page count for the page-length check.
+ */
+
+import { measureText } from "./fonts";
+import type { ResumeBlock, TextRun } from "./markdown";
+import { RESUME_PAGE_SIZE, type ResumeTemplate } from "./templates";
+
+export interface LayoutText {
+  kind: "text";
+  /** Left edge and baseline, in points from the top-left corner of the page */
+  x: number;
+  y: number;
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  size: number;
+  /** Hex color without # */
+  color: string;
+}
+
+export interface LayoutRule {
+  kind: "rule";
+  x1: number;
+  x2: number;
+  y: number;
+  color: string;
+}
+
+export type LayoutItem = LayoutText | LayoutRule;
+
+export interface ResumeLayout {
+  pages: LayoutItem[][];
+}
+
+/**
+ * Resolved text style of a block in a template
+ */
+export interface BlockStyle {
+  size: number;
+  bold: boolean;
+  color: string;
+  uppercase: boolean;
+  center: boolean;
+  /** Left indent in points */
+  indent: number;
+  spaceBefore: number;
+  spaceAfter: number;
+  ruleAfter: boolean;
+}
+
+const BULLET_INDENT = 14;
+const BODY_COLOR = "000000";
+
+/**
+ * Style of a block in a template. Blocks before the first section heading
+ * (the name and contact lines) form the header.
+ */
+export function getBlockStyle(block: ResumeBlock, template: ResumeTemplate, inHeader: boolean): BlockStyle {
+  const base: BlockStyle = {
+    size: template.fontSize.body,
+    bold: false,
+    color: BODY_COLOR,
+    uppercase: false,
+    center: inHeader && template.centerHeader,
+    indent: 0,
+    spaceBefore: 0,
+    spaceAfter: template.spacing.block,
+    ruleAfter: false,
+  };
+
+  if (block.type === "heading" && block.level === 1) {
+    return { ...base, size: template.fontSize.name, bold: true, color: template.accentColor, spaceAfter: 4 };
+  }
+  if (block.type === "heading" && block.level === 2) {
+    return {
+      ...base,
+      size: template.fontSize.section,
+      bold: true,
+      color: template.accentColor,
+      uppercase: template.uppercaseSections,
+      center: false,
+      spaceBefore: template.spacing.section,
+      spaceAfter: template.sectionRule ? 5 : 3,
+      ruleAfter: template.sectionRule,
+    };
+  }
+  if (block.type === "heading") {
+    return { ...base, size: template.fontSize.entry, bold: true, center: false, spaceBefore: template.spacing.block * 2 + 2 };
+  }
+  if (block.type === "bullet") {
+    return { ...base, indent: BULLET_INDENT, center: false };
+  }
+  return base;
+}
+
+/**
+ * Runs with link targets written out after their text, for formats where the
+ * reader cannot follow the link (print, most ATS parsers)
+ */
+export function withVisibleLinks(runs: TextRun[]): TextRun[] {
+  const bare = (value: string) => value.replace(/^(?:mailto:|tel:|https?:\/\/)(?:www\.)?/i, "").replace(/\/$/, "");
+  return runs.flatMap((run) =>
+    run.link && bare(run.link) !== bare(run.text)
+      ? [{ ...run, link: undefined }, { text: ` (${bare(run.link)})`, bold: run.bold, italic: run.italic }]
+      : [{ ...run, link: undefined }]
+  );
+}
+
+interface Piece {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  width: number;
+}
+
+/**
+ * Splits runs into words and single spaces, measured in the block's style
+ */
+function toPieces(runs: TextRun[], style: BlockStyle, template: ResumeTemplate): Piece[] {
+  return runs.flatMap((run) =>
+    (style.uppercase ? run.text.toUpperCase() : run.text)
+      .split(/(\s+)/)
+      .filter((text) => text.length > 0)
+      .map((text) => {
+        const bold = style.bold || Boolean(run.bold);
+        const value = /^\s+$/.test(text) ? " " : text;
+        return { text: value, bold, italic: Boolean(run.italic), width: measureText(value, template.font, bold, style.size) };
+      })
+  );
+}
+
+/**
+ * Greedy word wrap into lines no wider than maxWidth
+ */
+function wrapPieces(pieces: Piece[], maxWidth: number): Piece[][] {
+  const lines: Piece[][] = [];
+  let line: Piece[] = [];
+  let width = 0;
+  let pendingSpace: Piece | null = null;
+
+  for (const piece of pieces) {
+    if (piece.text === " ") {
+      if (line.length > 0) pendingSpace = piece;
+      continue;
+    }
+
+    const spaceWidth = pendingSpace ? pendingSpace.width : 0;
+    if (line.length > 0 && width + spaceWidth + piece.width > maxWidth) {
+      lines.push(line);
+      line = [];
+      width = 0;
+      pendingSpace = null;
+    }
+
+    if (pendingSpace && line.length > 0) {
+      line.push(pendingSpace);
+      width += pendingSpace.width;
+    }
+    line.push(piece);
+    width += piece.width;
+    pendingSpace = null;
+  }
+
+  if (line.length > 0) lines.push(line);
+  return lines;
+}
+
+/**
+ * Lays out resume blocks on pages
+ */
+export function layoutResume(blocks: ResumeBlock[], template: ResumeTemplate): ResumeLayout {
+  const { width: pageWidth, height: pageHeight } = RESUME_PAGE_SIZE;
+  const left = template.margin;
+  const right = pageWidth - template.margin;
+  const bottom = pageHeight - template.margin;
+
+  const pages: LayoutItem[][] = [[]];
+  let y = template.margin;
+  let inHeader = true;
+
+  const newPage = () => {
+    pages.push([]);
+    y = template.margin;
+  };
+
+  blocks.forEach((block, index) => {
+    if (block.type === "heading" && block.level === 2) inHeader = false;
+
+    if (block.type === "rule") {
+      y += 4;
+      if (y > bottom) newPage();
+      pages[pages.length - 1].push({ kind: "rule", x1: left, x2: right, y, color: BODY_COLOR });
+      y += 6;
+      return;
+    }
+
+    const style = getBlockStyle(block, template, inHeader);
+    const lineHeight = style.size * template.lineHeight;
+    const lines = wrapPieces(toPieces(withVisibleLinks(block.runs), style, template), right - left - style.indent);
+
+    // No space before the first block on a page
+    if (y > template.margin) y += style.spaceBefore;
+
+    // Keep headings with the first lines that follow them
+    const next = blocks[index + 1];
+    const keepWithNext = block.type === "heading" && next !== undefined && next.type !== "rule";
+    const needed = lines.length * lineHeight + (keepWithNext ? 2 * template.fontSize.body * template.lineHeight : 0);
+    if (y + needed > bottom && y > template.margin) newPage();
+
+    for (const line of lines) {
+      if (y + lineHeight > bottom) newPage();
+
+      const lineWidth = line.reduce((sum, piece) => sum + piece.width, 0);
+      let x = style.center ? left + (right - left - lineWidth) / 2 : left + style.indent;
+      const baseline = y + style.size * 0.8 + (lineHeight - style.size) / 2;
+      const page = pages[pages.length - 1];
+
+      if (block.type === "bullet" && line === lines[0]) {
+        page.push({ kind: "text", x: left + 3, y: baseline, text: "•", bold: false, italic: false, size: style.size, color: style.color });
+      }
+
+      // Merge neighbouring pieces with the same style into one text item
+      let current: LayoutText | null = null;
+      for (const piece of line) {
+        if (current && current.bold === piece.bold && current.italic === piece.italic) {
+          current.text += piece.text;
+        } else {
+          current = { kind: "text", x, y: baseline, text: piece.text, bold: piece.bold, italic: piece.italic, size: style.size, color: style.color };
+          page.push(current);
+        }
+        x += piece.width;
+      }
+
+      y += lineHeight;
+    }
+
+    if (style.ruleAfter) {
+      y += 1.5;
+      pages[pages.length - 1].push({ kind: "rule", x1: left, x2: right, y, color: style.color });
+    }
+    y += style.spaceAfter;
+  });
+
+  return { pages };
+}
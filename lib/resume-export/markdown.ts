@@ -0,0 +1,113 @@
+/**
+ * Resume Markdown Parser
+ *
+ * Parses the markdown of a tailored resume into the small set of blocks the
+ * export formats render: headings, paragraphs, bullets and rules, with bold,
+ * italic and link runs. Each non-empty line is its own paragraph, since
+ * resumes rely on line breaks (contact lines, entry lines) more than on
+ * markdown's paragraph joining.
+ */
+
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  /** Link target, for formats that support links */
+  link?: string;
+}
+
+export type ResumeBlock =
+  | { type: "heading"; level: 1 | 2 | 3; runs: TextRun[] }
+  | { type: "paragraph"; runs: TextRun[] }
+  | { type: "bullet"; runs: TextRun[] }
+  | { type: "rule" };
+
+const INLINE_REGEX = /\*\*\*(.+?)\*\*\*|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_|`(.+?)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+/**
+ * Parses inline markdown (bold, italic, code, links) into runs
+ */
+export function parseInline(text: string, style: Omit<TextRun, "text"> = {}): TextRun[] {
+  const runs: TextRun[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_REGEX)) {
+    if (match.index > lastIndex) {
+      runs.push({ ...style, text: text.slice(lastIndex, match.index) });
+    }
+
+    const [, boldItalic, bold, boldUnderscore, italic, italicUnderscore, code, linkText, linkUrl] = match;
+    if (boldItalic !== undefined) {
+      runs.push(...parseInline(boldItalic, { ...style, bold: true, italic: true }));
+    } else if (bold !== undefined || boldUnderscore !== undefined) {
+      runs.push(...parseInline(bold ?? boldUnderscore, { ...style, bold: true }));
+    } else if (italic !== undefined || italicUnderscore !== undefined) {
+      runs.push(...parseInline(italic ?? italicUnderscore, { ...style, italic: true }));
+    } else if (code !== undefined) {
+      runs.push({ ...style, text: code });
+    } else {
+      runs.push(...parseInline(linkText, { ...style, link: linkUrl }));
+    }
+
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    runs.push({ ...style, text: text.slice(lastIndex) });
+  }
+
+  return runs.filter((run) => run.text.length > 0);
+}
+
+/**
+ * Plain text of a list of runs
+ */
+export function runsToText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join("");
+}
+
+/**
+ * Parses resume markdown into blocks
+ */
+export function parseResumeMarkdown(markdown: string): ResumeBlock[] {
+  const blocks: ResumeBlock[] = [];
+
+  for (const rawLine of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (/^(?:-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      blocks.push({ type: "rule" });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3) as 1 | 2 | 3;
+      blocks.push({ type: "heading", level, runs: parseInline(heading[2].replace(/\s+#+$/, "")) });
+      continue;
+    }
+
+    const bullet = line.match(/^(?:[-*+•]|\d+[.)])\s+(.*)$/);
+    if (bullet) {
+      blocks.push({ type: "bullet", runs: parseInline(bullet[1]) });
+      continue;
+    }
+
+    blocks.push({ type: "paragraph", runs: parseInline(line.replace(/\s{2,}$/, "")) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Candidate name from the resume (its first level-1 heading, or first line)
+ */
+export function getResumeCandidateName(blocks: ResumeBlock[]): string | undefined {
+  const first = blocks.find((block) => block.type === "heading" && block.level === 1) ?? blocks[0];
+  if (!first || first.type === "rule") return undefined;
+
+  const name = runsToText(first.runs).trim();
+  // A name is short and has no contact details in it
+  return name.length > 0 && name.length <= 60 && !/[@|:/\d]/.test(name) ? name : undefined;
+}
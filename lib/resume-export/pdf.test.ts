@@ -0,0 +1,44 @@
+import { inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { layoutResume } from "./layout";
+import { parseResumeMarkdown } from "./markdown";
+import { renderResumePdf } from "./pdf";
+import { RESUME_TEMPLATES } from "./templates";
+
+/**
+ * Decompressed content streams of a PDF rendered by renderResumePdf
+ */
+function pageContents(pdf: Buffer): string[] {
+  const contents: string[] = [];
+  let start = pdf.indexOf("stream\n");
+  while (start !== -1) {
+    const end = pdf.indexOf("\nendstream", start);
+    contents.push(inflateSync(pdf.subarray(start + "stream\n".length, end)).toString("latin1"));
+    start = pdf.indexOf("stream\n", end + "\nendstream".length);
+  }
+  return contents;
+}
+
+describe("renderResumePdf", () => {
+  const template = RESUME_TEMPLATES.classic;
+
+  it("encodes Latin-1 and WinAnsi characters as their bytes", () => {
+    const layout = layoutResume(parseResumeMarkdown("# José Müller\n\nLed “growth” – 2x"), template);
+    const pdf = renderResumePdf(layout, template, "José Müller");
+
+    expect(pdf.toString("latin1")).toContain("/Title (Jos\\351 M\\374ller)");
+    const [content] = pageContents(pdf);
+    expect(content).toContain("(Jos\\351 M\\374ller) Tj");
+    expect(content).toContain("(Led \\223growth\\224 \\226 2x) Tj");
+  });
+
+  it("replaces characters outside WinAnsiEncoding with a question mark", () => {
+    const layout = layoutResume(parseResumeMarkdown("# Łukasz Dvořák\n\nSpeaks 日本語"), template);
+    const pdf = renderResumePdf(layout, template, "Łukasz Dvořák");
+
+    expect(pdf.toString("latin1")).toContain("/Title (?ukasz Dvo?\\341k)");
+    const [content] = pageContents(pdf);
+    expect(content).toContain("(?ukasz Dvo?\\341k) Tj");
+    expect(content).toContain("(Speaks ???) Tj");
+  });
+});
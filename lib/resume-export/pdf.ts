@@ -0,0 +1,138 @@
+/**
+ * Resume PDF Renderer
+ *
+ * Writes a laid-out resume as a PDF 1.4 file using the standard Helvetica or
+ * Times fonts, which every PDF reader provides, so no fonts are embedded.
+ * Text is real text in reading order, so ATS parsers can extract it.
+ */
+
+import { deflateSync } from "node:zlib";
+import { toWinAnsi } from "./fonts";
+import type { LayoutItem, ResumeLayout } from "./layout";
+import { RESUME_FONTS, RESUME_PAGE_SIZE, type ResumeTemplate } from "./templates";
+
+const FONT_KEYS = { regular: "F1", bold: "F2", italic: "F3", boldItalic: "F4" } as const;
+
+/**
+ * PDF literal string of a text, encoded in WinAnsiEncoding
+ */
+function pdfString(text: string): string {
+  let result = "(";
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    if (char === "(" || char === ")" || char === "\\") {
+      result += `\\${char}`;
+    } else if (code < 32 || code > 126) {
+      result += `\\${code.toString(8).padStart(3, "0")}`;
+    } else {
+      // The encoded byte, not the character, so unencodable ones become "?"
+      result += String.fromCharCode(code);
+    }
+  }
+  return `${result})`;
+}
+
+function pdfColor(hex: string): string {
+  const value = Number.parseInt(hex, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((c) => (c / 255).toFixed(3)).join(" ");
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Content stream drawing a page's items
+ */
+function pageContent(items: LayoutItem[]): string {
+  const { height } = RESUME_PAGE_SIZE;
+
+  return items
+    .map((item) => {
+      if (item.kind === "rule") {
+        const y = formatNumber(height - item.y);
+        return `${pdfColor(item.color)} RG 0.75 w ${formatNumber(item.x1)} ${y} m ${formatNumber(item.x2)} ${y} l S`;
+      }
+
+      const font = item.bold
+        ? item.italic
+          ? FONT_KEYS.boldItalic
+          : FONT_KEYS.bold
+        : item.italic
+          ? FONT_KEYS.italic
+          : FONT_KEYS.regular;
+      return `BT /${font} ${formatNumber(item.size)} Tf ${pdfColor(item.color)} rg ${formatNumber(item.x)} ${formatNumber(height - item.y)} Td ${pdfString(item.text)} Tj ET`;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders a laid-out resume as a PDF document
+ *
+ * @param layout - Pages from layoutResume
+ * @param template - Template the layout was made with (for its fonts)
+ * @param title - Document title (shown by PDF readers)
+ */
+export function renderResumePdf(layout: ResumeLayout, template: ResumeTemplate, title: string): Buffer {
+  const fonts = RESUME_FONTS[template.font].pdf;
+  const objects: Array<string | Buffer> = [];
+
+  // Objects 1-2: catalog and page tree; 3-6: fonts; 7: info; then a page and its content per page
+  const fontIds = { regular: 3, bold: 4, italic: 5, boldItalic: 6 };
+  const pageIds = layout.pages.map((_, index) => 8 + index * 2);
+
+  objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+  for (const key of ["regular", "bold", "italic", "boldItalic"] as const) {
+    objects.push(`<< /Type /Font /Subtype /Type1 /BaseFont /${fonts[key]} /Encoding /WinAnsiEncoding >>`);
+  }
+  objects.push(`<< /Title ${pdfString(title)} /Producer (Smart Job Search) >>`);
+
+  const fontResources = Object.entries(FONT_KEYS)
+    .map(([key, name]) => `/${name} ${fontIds[key as keyof typeof fontIds]} 0 R`)
+    .join(" ");
+
+  layout.pages.forEach((items, index) => {
+    const contentId = pageIds[index] + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${RESUME_PAGE_SIZE.width} ${RESUME_PAGE_SIZE.height}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+    );
+
+    const stream = deflateSync(Buffer.from(pageContent(items), "latin1"));
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+        stream,
+        Buffer.from("\nendstream", "latin1"),
+      ])
+    );
+  });
+
+  // Serialize with a cross-reference table of byte offsets
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  const offsets: number[] = [];
+  let offset = chunks[0].length;
+
+  objects.forEach((object, index) => {
+    const body = typeof object === "string" ? Buffer.from(object, "latin1") : object;
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((value) => `${String(value).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(`${xref}\n`, "latin1"));
+
+  return Buffer.concat(chunks);
+}
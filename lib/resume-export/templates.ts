@@ -0,0 +1,130 @@
+/**
+ * Resume Export Templates
+ *
+ * Layout settings shared by the PDF, DOCX and HTML renderers so a resume
+ * looks the same in every format. All templates are single-column with real
+ * text and standard fonts, which applicant tracking systems parse reliably.
+ */
+
+export type ResumeTemplateId = "classic" | "modern" | "compact";
+
+export type ResumeFontFamily = "sans" | "serif";
+
+export interface ResumeTemplate {
+  id: ResumeTemplateId;
+  label: string;
+  description: string;
+
+  font: ResumeFontFamily;
+
+  /** Font sizes in points */
+  fontSize: { body: number; name: number; section: number; entry: number };
+
+  /** Line height as a multiple of the font size */
+  lineHeight: number;
+
+  /** Space before section headings and after blocks, in points */
+  spacing: { section: number; block: number };
+
+  /** Page margin in points */
+  margin: number;
+
+  /** Accent color for the name and section headings (hex, without #) */
+  accentColor: string;
+
+  /** Center the name and the lines under it (contact details) */
+  centerHeader: boolean;
+
+  /** Upper-case section headings */
+  uppercaseSections: boolean;
+
+  /** Draw a rule under section headings */
+  sectionRule: boolean;
+}
+
+export const RESUME_TEMPLATES: Record<ResumeTemplateId, ResumeTemplate> = {
+  classic: {
+    id: "classic",
+    label: "Classic",
+    description: "Serif type, centered header, ruled sections",
+    font: "serif",
+    fontSize: { body: 10.5, name: 20, section: 12, entry: 11 },
+    lineHeight: 1.25,
+    spacing: { section: 10, block: 2 },
+    margin: 54,
+    accentColor: "000000",
+    centerHeader: true,
+    uppercaseSections: true,
+    sectionRule: true,
+  },
+  modern: {
+    id: "modern",
+    label: "Modern",
+    description: "Sans-serif type, left-aligned header, accent color",
+    font: "sans",
+    fontSize: { body: 10, name: 22, section: 12, entry: 10.5 },
+    lineHeight: 1.3,
+    spacing: { section: 12, block: 2 },
+    margin: 54,
+    accentColor: "1D4ED8",
+    centerHeader: false,
+    uppercaseSections: false,
+    sectionRule: false,
+  },
+  compact: {
+    id: "compact",
+    label: "Compact",
+    description: "Smaller type and margins to fit more on a page",
+    font: "sans",
+    fontSize: { body: 9.5, name: 16, section: 10.5, entry: 10 },
+    lineHeight: 1.2,
+    spacing: { section: 7, block: 1 },
+    margin: 40,
+    accentColor: "000000",
+    centerHeader: true,
+    uppercaseSections: true,
+    sectionRule: true,
+  },
+};
+
+export const DEFAULT_RESUME_TEMPLATE: ResumeTemplateId = "classic";
+
+/**
+ * Recommended maximum resume length in pages
+ */
+export const RESUME_MAX_PAGES = 2;
+
+/**
+ * US Letter page size in points
+ */
+export const RESUME_PAGE_SIZE = { width: 612, height: 792 };
+
+/**
+ * Font names per family in each output format. Helvetica and Arial share
+ * metrics, as do Times and Times New Roman, so layouts match across formats.
+ */
+export const RESUME_FONTS: Record<
+  ResumeFontFamily,
+  { pdf: { regular: string; bold: string; italic: string; boldItalic: string }; docx: string; css: string }
+> = {
+  sans: {
+    pdf: {
+      regular: "Helvetica",
+      bold: "Helvetica-Bold",
+      italic: "Helvetica-Oblique",
+      boldItalic: "Helvetica-BoldOblique",
+    },
+    docx: "Arial",
+    css: "Arial, Helvetica, sans-serif",
+  },
+  serif: {
+    pdf: {
+      regular: "Times-Roman",
+      bold: "Times-Bold",
+      italic: "Times-Italic",
+      boldItalic: "Times-BoldItalic",
+    },
+    docx: "Times New Roman",
+    css: '"Times New Roman", Times, serif',
+  },
+};
@@ -0,0 +1,142 @@
+/**
+ * DOCX Text Extraction
+ *
+ * Reads the paragraphs of a Word document (word/document.xml) with their
+ * heading styles, list formatting and bold runs.
+ */
+
+import { decodeHtmlEntities } from "@/lib/jobs/html";
+import type { ExtractedLine } from "./markdown";
+import { readZip } from "./unzip";
+
+/**
+ * List formats by numbering id and level, from word/numbering.xml
+ */
+function parseNumbering(xml: string | undefined): (numId: string, level: string) => "bullet" | "ordered" {
+  if (!xml) return () => "bullet";
+
+  const abstractFormats = new Map<string, Map<string, string>>();
+  for (const [, id, body] of xml.matchAll(/<w:abstractNum\b[^>]*w:abstractNumId="(\d+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g)) {
+    const levels = new Map<string, string>();
+    for (const [, level, levelBody] of body.matchAll(/<w:lvl\b[^>]*w:ilvl="(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g)) {
+      levels.set(level, levelBody.match(/<w:numFmt\b[^>]*w:val="([^"]+)"/)?.[1] ?? "bullet");
+    }
+    abstractFormats.set(id, levels);
+  }
+
+  const numToAbstract = new Map<string, string>();
+  for (const [, numId, body] of xml.matchAll(/<w:num\b[^>]*w:numId="(\d+)"[^>]*>([\s\S]*?)<\/w:num>/g)) {
+    const abstractId = body.match(/<w:abstractNumId\b[^>]*w:val="(\d+)"/)?.[1];
+    if (abstractId) numToAbstract.set(numId, abstractId);
+  }
+
+  return (numId, level) => {
+    const format = abstractFormats.get(numToAbstract.get(numId) ?? "")?.get(level);
+    return !format || format === "bullet" || format === "none" ? "bullet" : "ordered";
+  };
+}
+
+/**
+ * Heading level of a paragraph style id (Heading1, Title, ...), using the
+ * style names from word/styles.xml for localized or custom style ids
+ */
+function parseHeadingStyles(xml: string | undefined): (styleId: string) => 1 | 2 | 3 | undefined {
+  const names = new Map<string, string>();
+  for (const [, id, body] of (xml ?? "").matchAll(/<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g)) {
+    const name = body.match(/<w:name\b[^>]*w:val="([^"]+)"/)?.[1];
+    if (name) names.set(id, name);
+  }
+
+  return (styleId) => {
+    const name = (names.get(styleId) ?? styleId).toLowerCase().replace(/\s+/g, "");
+    if (name === "title") return 1;
+    const level = name.match(/^heading(\d)$/)?.[1];
+    return level ? (Math.min(Number(level), 3) as 1 | 2 | 3) : undefined;
+  };
+}
+
+function isOn(properties: string, tag: string): boolean {
+  const match = properties.match(new RegExp(`<w:${tag}(?:\\s+w:val="([^"]*)")?\\s*/>`));
+  return Boolean(match) && !["0", "false", "off"].includes(match?.[1] ?? "");
+}
+
+/**
+ * Extracts the lines of a DOCX document
+ *
+ * @returns Lines, or null if the file is not a Word document
+ */
+export function extractDocxLines(data: Buffer): ExtractedLine[] | null {
+  const entries = readZip(data, ["word/document.xml", "word/numbering.xml", "word/styles.xml"]);
+  const documentXml = entries?.get("word/document.xml")?.toString("utf8");
+  if (!entries || !documentXml) return null;
+
+  const listFormat = parseNumbering(entries.get("word/numbering.xml")?.toString("utf8"));
+  const headingLevel = parseHeadingStyles(entries.get("word/styles.xml")?.toString("utf8"));
+
+  const lines: ExtractedLine[] = [];
+  let gapBefore = false;
+
+  for (const [paragraph] of documentXml.matchAll(/<w:p\b[^>]*\/>|<w:p\b[^>]*>[\s\S]*?<\/w:p>/g)) {
+    const properties = paragraph.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] ?? "";
+    const styleId = properties.match(/<w:pStyle\b[^>]*w:val="([^"]+)"/)?.[1];
+    const numId = properties.match(/<w:numId\b[^>]*w:val="(\d+)"/)?.[1];
+    const level = properties.match(/<w:ilvl\b[^>]*w:val="(\d+)"/)?.[1] ?? "0";
+
+    // Runs, with line breaks splitting the paragraph into several lines
+    const texts: string[] = [""];
+    let allBold = true;
+    let hasText = false;
+    for (const [run] of paragraph.matchAll(/<w:r\b[^>]*>[\s\S]*?<\/w:r>/g)) {
+      const runProperties = run.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] ?? "";
+      const bold = isOn(runProperties, "b");
+      const caps = isOn(runProperties, "caps");
+
+      for (const [token, text] of run.matchAll(/<w:t\b[^>]*>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\b[^>]*\/>|<w:cr\/>/g)) {
+        if (token.startsWith("<w:br") || token === "<w:cr/>") {
+          texts.push("");
+        } else if (token === "<w:tab/>") {
+          texts[texts.length - 1] += " ";
+        } else {
+          let value = decodeHtmlEntities(text);
+          if (caps) value = value.toUpperCase();
+          if (value.trim()) {
+            hasText = true;
+            if (!bold) allBold = false;
+          }
+          texts[texts.length - 1] += bold && value.trim() ? `**${value}**` : value;
+        }
+      }
+    }
+
+    if (!hasText) {
+      gapBefore = true;
+      continue;
+    }
+
+    const heading = styleId ? headingLevel(styleId) : undefined;
+    const list =
+      numId && numId !== "0"
+        ? listFormat(numId, level)
+        : styleId && /^list(?:bullet|paragraph)/i.test(styleId)
+          ? "bullet"
+          : undefined;
+
+    texts.forEach((text, index) => {
+      // Merge adjacent bold runs and drop markup from fully bold lines
+      let value = text.replace(/\*\*(\s*)\*\*/g, "$1").replace(/\s+/g, " ").trim();
+      if (allBold || heading) value = value.replace(/\*\*/g, "");
+      if (!value) return;
+
+      lines.push({
+        text: value,
+        heading: index === 0 ? heading : undefined,
+        list: index === 0 ? list : undefined,
+        bold: allBold,
+        gapBefore: index === 0 ? gapBefore : false,
+      });
+    });
+    gapBefore = false;
+  }
+
+  return lines;
+}
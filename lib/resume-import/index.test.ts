@@ -0,0 +1,117 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { deflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createZip } from "@/lib/resume-export/zip";
+import { extractResumeMarkdown } from "./index";
+import { MAX_INFLATED_BYTES } from "./limits";
+
+const FIXTURES = join(__dirname, "__fixtures__");
+
+const READ_ERROR = { error: "Could not read this file. Try exporting it again or upload it as markdown." };
+
+const DOCUMENT_XML =
+  '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>' +
+  "<w:p><w:r><w:t>Renée Okafor</w:t></w:r></w:p></w:body></w:document>";
+
+/**
+ * Buffer larger than all an upload may inflate to (deflates to a few KB)
+ */
+function oversized(): Buffer {
+  return Buffer.alloc(MAX_INFLATED_BYTES + 1024, " ");
+}
+
+/**
+ * Minimal PDF with one page showing the given content stream
+ */
+function makePdf(content: Buffer): Buffer {
+  const stream = deflateSync(content);
+  return Buffer.concat([
+    Buffer.from(
+      "%PDF-1.4\n" +
+        "1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n" +
+        "2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n" +
+        "3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R >>\nendobj\n" +
+        `4 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+      "latin1"
+    ),
+    stream,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+  ]);
+}
+
+describe("extractResumeMarkdown", () => {
+  it("imports a PDF resume", () => {
+    const result = extractResumeMarkdown(readFileSync(join(FIXTURES, "resume.pdf")), "pdf");
+
+    expect(result).toEqual({
+      content: [
+        "# Renée Okafor",
+        "",
+        "renee@example.com | Berlin",
+        "",
+        "## EXPERIENCE",
+        "",
+        "Senior Engineer, Acme",
+        "- Led the **payments** migration",
+        "- Cut build times by 40%",
+        "",
+        "## SKILLS",
+        "",
+        "TypeScript, PostgreSQL, Go",
+        "",
+      ].join("\n"),
+    });
+  });
+
+  it("imports a DOCX resume", () => {
+    const result = extractResumeMarkdown(readFileSync(join(FIXTURES, "resume.docx")), "docx");
+
+    expect(result).toEqual({
+      content: [
+        "# Renée Okafor",
+        "",
+        "renee@example.com | Berlin",
+        "",
+        "## EXPERIENCE",
+        "",
+        "### Senior Engineer, Acme",
+        "",
+        "- Led the **payments** migration",
+        "- Cut build times by 40%",
+        "",
+        "## SKILLS",
+        "",
+        "TypeScript, PostgreSQL, Go",
+        "",
+      ].join("\n"),
+    });
+  });
+
+  it("does not inflate DOCX entries the import does not read", () => {
+    const docx = createZip([
+      { path: "word/document.xml", content: DOCUMENT_XML },
+      { path: "word/media/image1.png", content: oversized() },
+    ]);
+
+    expect(extractResumeMarkdown(docx, "docx")).toEqual({ content: "# Renée Okafor\n" });
+  });
+
+  it("rejects a DOCX whose document is declared too large", () => {
+    const docx = createZip([{ path: "word/document.xml", content: oversized() }]);
+
+    expect(extractResumeMarkdown(docx, "docx")).toEqual(READ_ERROR);
+  });
+
+  it("rejects a DOCX whose document inflates larger than declared", () => {
+    const docx = createZip([{ path: "word/document.xml", content: oversized() }]);
+    // Understate the uncompressed size in the central directory
+    docx.writeUInt32LE(DOCUMENT_XML.length, docx.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+
+    expect(extractResumeMarkdown(docx, "docx")).toEqual(READ_ERROR);
+  });
+
+  it("rejects a PDF whose streams inflate too large", () => {
+    expect(extractResumeMarkdown(makePdf(oversized()), "pdf")).toEqual(READ_ERROR);
+  });
+});
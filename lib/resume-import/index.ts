@@ -0,0 +1,48 @@
+/**
+ * Resume Import
+ *
+ * Extracts the text of a PDF or Word (DOCX) resume into markdown, keeping its
+ * headings and bullet lists, so it can be stored and tailored like a
+ * markdown resume.
+ */
+
+import { extractDocxLines } from "./docx";
+import { linesToMarkdown } from "./markdown";
+import { extractPdfLines, isEncryptedPdf } from "./pdf";
+
+export type ResumeImportFormat = "pdf" | "docx";
+
+export type ResumeImportResult = { content: string } | { error: string };
+
+/**
+ * Extracts a PDF or DOCX resume as markdown
+ *
+ * @returns The markdown content, or an error message to show the user
+ */
+export function extractResumeMarkdown(data: Buffer, format: ResumeImportFormat): ResumeImportResult {
+  try {
+    if (format === "pdf" && isEncryptedPdf(data)) {
+      return { error: "This PDF is password-protected. Remove the protection and upload it again." };
+    }
+
+    const lines = format === "pdf" ? extractPdfLines(data) : extractDocxLines(data);
+
+    if (!lines) {
+      return { error: `This file is not a valid ${format === "pdf" ? "PDF" : "Word (.docx)"} document` };
+    }
+
+    if (lines.length === 0) {
+      return {
+        error:
+          format === "pdf"
+            ? "No text found in this PDF. Scanned resumes are not supported; upload a text-based PDF or DOCX."
+            : "No text found in this document",
+      };
+    }
+
+    return { content: linesToMarkdown(lines) };
+  } catch (error) {
+    console.error(`Error extracting ${format} resume:`, error);
+    return { error: "Could not read this file. Try exporting it again or upload it as markdown." };
+  }
+}
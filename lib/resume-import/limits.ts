@@ -0,0 +1,10 @@
+/**
+ * Resume Import Limits
+ */
+
+/**
+ * Most bytes the compressed parts of an uploaded resume (DOCX entries, PDF
+ * streams) may inflate to in total, so a small upload cannot expand to
+ * gigabytes in memory
+ */
+export const MAX_INFLATED_BYTES = 20 * 1024 * 1024;
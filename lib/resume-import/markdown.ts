@@ -0,0 +1,124 @@
+/**
+ * Extracted Lines to Markdown
+ *
+ * Turns the lines extracted from a PDF or DOCX resume into markdown:
+ * headings from document styles, font sizes or all-caps section titles, and
+ * bullet lists from list formatting or bullet characters.
+ */
+
+export interface ExtractedLine {
+  /** Line text (may contain **bold** markup from DOCX runs) */
+  text: string;
+
+  /** Heading level from the document's own styles */
+  heading?: 1 | 2 | 3;
+
+  /** Bulleted or numbered list item from the document's list formatting */
+  list?: "bullet" | "ordered";
+
+  /** Font size in points, when known (PDF) */
+  size?: number;
+
+  /** Every run on the line is bold */
+  bold?: boolean;
+
+  /** Starts a new paragraph (vertical gap or empty paragraph before it) */
+  gapBefore?: boolean;
+}
+
+const BULLET_PREFIX = /^[•●▪◦‣○■□◆◇►▸➢✓✔·\-–—*]\s*/;
+
+const SECTION_TITLES =
+  /^(?:professional |work |career |technical |core |relevant |key )?(?:summary|profile|objective|about(?: me)?|experience|employment(?: history)?|work history|history|education|skills|competencies|expertise|projects|certifications?|licenses|awards|honors|publications|languages|interests|volunteer(?:ing| experience)?|leadership|activities|references|achievements|accomplishments|qualifications|training|courses|highlights|contact)(?: (?:&|and) [a-z ]+)?:?$/i;
+
+/**
+ * Plain text of a line without markdown markup
+ */
+function plainText(text: string): string {
+  return text.replace(/\*\*/g, "").trim();
+}
+
+/**
+ * Most common font size, weighted by text length (the body size)
+ */
+function getBodySize(lines: ExtractedLine[]): number | undefined {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    if (!line.size) continue;
+    const size = Math.round(line.size * 2) / 2;
+    weights.set(size, (weights.get(size) ?? 0) + line.text.length);
+  }
+  let best: number | undefined;
+  for (const [size, weight] of weights) {
+    if (best === undefined || weight > (weights.get(best) ?? 0)) best = size;
+  }
+  return best;
+}
+
+/**
+ * True if a line looks like a section title: a known section name, or a
+ * short all-caps line
+ */
+function isSectionTitle(text: string): boolean {
+  const plain = plainText(text);
+  if (plain.length === 0 || plain.length > 40 || plain.split(/\s+/).length > 5) return false;
+  if (SECTION_TITLES.test(plain)) return true;
+  return /[A-Z]{3,}/.test(plain) && plain === plain.toUpperCase() && !/[@|\d]/.test(plain);
+}
+
+/**
+ * Converts extracted lines to resume markdown
+ */
+export function linesToMarkdown(lines: ExtractedLine[]): string {
+  const bodySize = getBodySize(lines);
+  const output: string[] = [];
+  let hasName = false;
+
+  const pushBlock = (line: string, separate: boolean) => {
+    if (separate && output.length > 0 && output[output.length - 1] !== "") output.push("");
+    output.push(line);
+  };
+
+  lines.forEach((line, index) => {
+    const plain = plainText(line.text);
+    if (!plain) return;
+
+    // Headings from styles, then from font size, then from section titles
+    let level = line.heading;
+    if (!level && bodySize && line.size && plain.length <= 80) {
+      if (line.size >= bodySize * 1.6) level = 1;
+      else if (line.size >= bodySize * 1.15) level = 2;
+    }
+    if (!level && isSectionTitle(line.text) && (line.bold || line.size === undefined || plain === plain.toUpperCase() || SECTION_TITLES.test(plain))) {
+      level = 2;
+    }
+    // The first line of a resume is usually the candidate's name
+    if (!level && index === 0 && plain.length <= 60 && !/[@|\d:]/.test(plain)) {
+      level = 1;
+    }
+
+    if (level) {
+      // Only one name heading; later level-1 headings are sections
+      if (level === 1 && hasName) level = 2;
+      if (level === 1) hasName = true;
+      pushBlock(`${"#".repeat(level)} ${plain.replace(/:$/, "")}`, true);
+      output.push("");
+      return;
+    }
+
+    if (line.list || BULLET_PREFIX.test(plain)) {
+      const text = line.list ? line.text.trim() : line.text.trim().replace(BULLET_PREFIX, "");
+      const marker = line.list === "ordered" ? "1." : "-";
+      pushBlock(`${marker} ${text}`, Boolean(line.gapBefore));
+      return;
+    }
+
+    pushBlock(line.text.trim(), Boolean(line.gapBefore));
+  });
+
+  return output
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .concat("\n");
+}
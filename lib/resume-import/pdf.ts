@@ -0,0 +1,1090 @@
+/**
+ * PDF Text Extraction
+ *
+ * Reads the text of a PDF resume with its position, font size and weight:
+ * parses the file's objects (including compressed object streams), runs the
+ * page content streams, maps character codes to Unicode through the fonts'
+ * ToUnicode CMaps or encodings, and groups the shown text into lines.
+ */
+
+import { constants, inflateSync } from "node:zlib";
+import { measureText } from "@/lib/resume-export/fonts";
+import { MAX_INFLATED_BYTES } from "./limits";
+import type { ExtractedLine } from "./markdown";
+
+interface PdfName {
+  kind: "name";
+  name: string;
+}
+
+interface PdfString {
+  kind: "string";
+  bytes: Buffer;
+}
+
+interface PdfRef {
+  kind: "ref";
+  num: number;
+}
+
+interface PdfDict {
+  kind: "dict";
+  entries: Map<string, PdfValue>;
+}
+
+interface PdfStream {
+  kind: "stream";
+  dict: PdfDict;
+  data: Buffer;
+}
+
+interface PdfOperator {
+  kind: "op";
+  op: string;
+}
+
+type PdfValue = null | boolean | number | PdfName | PdfString | PdfRef | PdfDict | PdfStream | PdfOperator | PdfValue[];
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// =====================================================
+// LEXER
+// =====================================================
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([...'()<>[]{}/%'].map((char) => char.charCodeAt(0)));
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+/**
+ * Reads PDF values (from the file body or a content stream) starting at pos
+ */
+class PdfParser {
+  constructor(
+    readonly data: Buffer,
+    public pos = 0
+  ) {}
+
+  skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        // Comment to end of line
+        while (this.pos < this.data.length && this.data[this.pos] !== 10 && this.data[this.pos] !== 13) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.data.length && isRegular(this.data[this.pos])) this.pos++;
+    return this.data.toString("latin1", start, this.pos);
+  }
+
+  private readLiteralString(): PdfString {
+    const bytes: number[] = [];
+    let depth = 1;
+    this.pos++;
+
+    while (this.pos < this.data.length) {
+      const byte = this.data[this.pos++];
+      if (byte === 0x28) {
+        depth++;
+      } else if (byte === 0x29 && --depth === 0) {
+        break;
+      } else if (byte === 0x5c) {
+        const next = this.data[this.pos++];
+        const escapes: Record<number, number> = { 0x6e: 10, 0x72: 13, 0x74: 9, 0x62: 8, 0x66: 12 };
+        if (escapes[next] !== undefined) {
+          bytes.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && this.data[this.pos] >= 0x30 && this.data[this.pos] <= 0x37; i++) {
+            octal = octal * 8 + this.data[this.pos++] - 0x30;
+          }
+          bytes.push(octal & 0xff);
+        } else if (next === 13) {
+          // Escaped line break continues the string
+          if (this.data[this.pos] === 10) this.pos++;
+        } else if (next !== 10) {
+          bytes.push(next);
+        }
+        continue;
+      }
+      bytes.push(byte);
+    }
+
+    return { kind: "string", bytes: Buffer.from(bytes) };
+  }
+
+  private readHexString(): PdfString {
+    const end = this.data.indexOf(0x3e, this.pos);
+    const hex = this.data
+      .toString("latin1", this.pos + 1, end < 0 ? this.data.length : end)
+      .replace(/[^0-9a-fA-F]/g, "");
+    this.pos = end < 0 ? this.data.length : end + 1;
+    return { kind: "string", bytes: Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex") };
+  }
+
+  /**
+   * Reads the next value, or undefined at the end of the data
+   */
+  read(): PdfValue | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.data.length) return undefined;
+
+    const byte = this.data[this.pos];
+
+    if (byte === 0x2f) {
+      this.pos++;
+      const name = this.readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16))
+      );
+      return { kind: "name", name };
+    }
+
+    if (byte === 0x28) return this.readLiteralString();
+
+    if (byte === 0x3c) {
+      if (this.data[this.pos + 1] !== 0x3c) return this.readHexString();
+
+      this.pos += 2;
+      const entries = new Map<string, PdfValue>();
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= this.data.length) break;
+        if (this.data[this.pos] === 0x3e) {
+          this.pos += 2;
+          break;
+        }
+        const key = this.read();
+        const value = this.read();
+        if (key && typeof key === "object" && "kind" in key && key.kind === "name" && value !== undefined) {
+          entries.set(key.name, value);
+        }
+      }
+      return { kind: "dict", entries };
+    }
+
+    if (byte === 0x5b) {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        this.skipWhitespace();
+        if (this.pos >= this.data.length) break;
+        if (this.data[this.pos] === 0x5d) {
+          this.pos++;
+          break;
+        }
+        const value = this.read();
+        if (value === undefined) break;
+        items.push(value);
+      }
+      return items;
+    }
+
+    if (!isRegular(byte)) {
+      // Stray delimiter (or PostScript braces); skip it
+      this.pos++;
+      return this.read();
+    }
+
+    const token = this.readRegular();
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const value = parseFloat(token);
+
+      // Indirect reference: "12 0 R"
+      if (/^\d+$/.test(token)) {
+        const match = /^\s+\d+\s+R(?![^\s()<>[\]{}/%])/.exec(
+          this.data.toString("latin1", this.pos, Math.min(this.pos + 24, this.data.length))
+        );
+        if (match) {
+          this.pos += match[0].length;
+          return { kind: "ref", num: value };
+        }
+      }
+      return value;
+    }
+
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null") return null;
+    return { kind: "op", op: token };
+  }
+}
+
+// =====================================================
+// DOCUMENT
+// =====================================================
+
+function isKind<K extends string>(value: PdfValue | undefined, kind: K): value is Extract<PdfValue, { kind: K }> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === kind;
+}
+
+function nameOf(value: PdfValue | undefined): string | undefined {
+  return isKind(value, "name") ? value.name : undefined;
+}
+
+function decodeAscii85(data: Buffer): Buffer {
+  const text = data.toString("latin1").replace(/\s+/g, "").replace(/^<~/, "");
+  const end = text.indexOf("~>");
+  const body = end >= 0 ? text.slice(0, end) : text;
+  const output: number[] = [];
+  let group: number[] = [];
+
+  const flush = (count: number) => {
+    let value = 0;
+    for (const digit of group) value = value * 85 + digit;
+    const bytes = [Math.floor(value / 0x1000000) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+    output.push(...bytes.slice(0, count));
+  };
+
+  for (const char of body) {
+    if (char === "z" && group.length === 0) {
+      output.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      flush(4);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    const count = group.length - 1;
+    while (group.length < 5) group.push(84);
+    flush(count);
+  }
+
+  return Buffer.from(output);
+}
+
+function decodeAsciiHex(data: Buffer): Buffer {
+  const hex = data.toString("latin1").split(">")[0].replace(/[^0-9a-fA-F]/g, "");
+  return Buffer.from(hex.length % 2 ? `${hex}0` : hex, "hex");
+}
+
+function isOutputTooLarge(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ERR_BUFFER_TOO_LARGE";
+}
+
+/**
+ * Inflates a stream, throwing when it inflates to more than maxOutputLength
+ */
+function inflate(data: Buffer, maxOutputLength: number): Buffer | null {
+  try {
+    return inflateSync(data, { maxOutputLength });
+  } catch (error) {
+    if (isOutputTooLarge(error)) throw error;
+
+    // Tolerate truncated or slightly corrupt streams
+    try {
+      return inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength });
+    } catch (retryError) {
+      if (isOutputTooLarge(retryError)) throw retryError;
+      return null;
+    }
+  }
+}
+
+/**
+ * Objects of a PDF file, read on demand
+ */
+class PdfDocument {
+  private readonly offsets = new Map<number, number>();
+  private readonly compressed = new Map<number, { stream: number; index: number }>();
+  private readonly cache = new Map<number, PdfValue>();
+  private readonly objectStreams = new Map<number, { data: Buffer; first: number; offsets: number[] }>();
+  private readonly loading = new Set<number>();
+
+  /** Bytes inflated so far, capped at MAX_INFLATED_BYTES for the whole file */
+  private inflatedBytes = 0;
+
+  constructor(readonly data: Buffer) {
+    const text = data.toString("latin1");
+
+    // Later definitions win, as with incremental updates
+    for (const match of text.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+      this.offsets.set(Number(match[1]), (match.index ?? 0) + match[0].length);
+    }
+
+    // Objects packed in object streams (PDF 1.5+)
+    for (const [num, offset] of this.offsets) {
+      if (!text.slice(offset, offset + 512).includes("/ObjStm")) continue;
+      const objectStream = this.loadObjectStream(num);
+      if (!objectStream) continue;
+
+      // The header lists "objectNumber offset" pairs
+      for (let index = 0; index * 2 < objectStream.offsets.length; index++) {
+        const objectNum = objectStream.offsets[index * 2];
+        if (!this.offsets.has(objectNum)) this.compressed.set(objectNum, { stream: num, index });
+      }
+    }
+  }
+
+  get(num: number): PdfValue | undefined {
+    if (this.cache.has(num)) return this.cache.get(num);
+    if (this.loading.has(num)) return undefined;
+
+    this.loading.add(num);
+    let value: PdfValue | undefined;
+    const offset = this.offsets.get(num);
+    if (offset !== undefined) {
+      value = this.readObjectAt(offset);
+    } else {
+      const location = this.compressed.get(num);
+      const objectStream = location ? this.objectStreams.get(location.stream) : undefined;
+      if (location && objectStream) {
+        value = new PdfParser(
+          objectStream.data,
+          objectStream.first + objectStream.offsets[location.index * 2 + 1]
+        ).read();
+      }
+    }
+    this.loading.delete(num);
+
+    if (value !== undefined) this.cache.set(num, value);
+    return value;
+  }
+
+  resolve(value: PdfValue | undefined): PdfValue | undefined {
+    for (let depth = 0; depth < 8 && isKind(value, "ref"); depth++) {
+      value = this.get(value.num);
+    }
+    return value;
+  }
+
+  lookup(dict: PdfValue | undefined, key: string): PdfValue | undefined {
+    const resolved = this.resolve(dict);
+    if (isKind(resolved, "dict")) return this.resolve(resolved.entries.get(key));
+    if (isKind(resolved, "stream")) return this.resolve(resolved.dict.entries.get(key));
+    return undefined;
+  }
+
+  number(dict: PdfValue | undefined, key: string): number | undefined {
+    const value = this.lookup(dict, key);
+    return typeof value === "number" ? value : undefined;
+  }
+
+  array(dict: PdfValue | undefined, key: string): PdfValue[] {
+    const value = this.lookup(dict, key);
+    return Array.isArray(value) ? value.map((item) => this.resolve(item) ?? null) : [];
+  }
+
+  /**
+   * Decoded data of a stream, or null if it uses an unsupported filter
+   *
+   * Throws once the file's streams inflate to more than MAX_INFLATED_BYTES.
+   */
+  decode(stream: PdfStream): Buffer | null {
+    const filter = this.lookup(stream, "Filter");
+    const filters = (Array.isArray(filter) ? filter : [filter]).map((item) => nameOf(this.resolve(item)));
+
+    let data: Buffer | null = stream.data;
+    for (const name of filters) {
+      if (!data || name === undefined) break;
+      if (name === "FlateDecode" || name === "Fl") {
+        data = inflate(data, Math.max(MAX_INFLATED_BYTES - this.inflatedBytes, 1));
+        this.inflatedBytes += data?.length ?? 0;
+      }
+      else if (name === "ASCII85Decode" || name === "A85") data = decodeAscii85(data);
+      else if (name === "ASCIIHexDecode" || name === "AHx") data = decodeAsciiHex(data);
+      else return null;
+    }
+    return data;
+  }
+
+  private readObjectAt(offset: number): PdfValue | undefined {
+    const parser = new PdfParser(this.data, offset);
+    const value = parser.read();
+    if (!isKind(value, "dict")) return value;
+
+    parser.skipWhitespace();
+    if (this.data.toString("latin1", parser.pos, parser.pos + 6) !== "stream") return value;
+
+    let start = parser.pos + 6;
+    if (this.data[start] === 13) start++;
+    if (this.data[start] === 10) start++;
+
+    const length = this.resolve(value.entries.get("Length"));
+    let end = typeof length === "number" ? start + length : -1;
+    const after = end >= 0 ? this.data.toString("latin1", end, end + 20).trimStart() : "";
+    if (!after.startsWith("endstream")) {
+      // Missing or wrong /Length: find the end marker instead
+      end = this.data.indexOf("endstream", start);
+      if (end < 0) end = this.data.length;
+      if (this.data[end - 1] === 10) end--;
+      if (this.data[end - 1] === 13) end--;
+    }
+
+    return { kind: "stream", dict: value, data: this.data.subarray(start, end) };
+  }
+
+  private loadObjectStream(num: number) {
+    const stream = this.get(num);
+    if (!isKind(stream, "stream") || nameOf(this.lookup(stream, "Type")) !== "ObjStm") return undefined;
+
+    const data = this.decode(stream);
+    if (!data) return undefined;
+
+    const count = this.number(stream, "N") ?? 0;
+    const parser = new PdfParser(data);
+    const offsets: number[] = [];
+    for (let i = 0; i < count * 2; i++) {
+      const value = parser.read();
+      offsets.push(typeof value === "number" ? value : 0);
+    }
+
+    const objectStream = { data, first: this.number(stream, "First") ?? 0, offsets };
+    this.objectStreams.set(num, objectStream);
+    return objectStream;
+  }
+
+  /**
+   * Page dictionaries in order, each with its inherited resources
+   */
+  pages(): { page: PdfDict; resources: PdfValue | undefined }[] {
+    const text = this.data.toString("latin1");
+    const rootRefs = [...text.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+    let catalog = rootRefs.length > 0 ? this.get(Number(rootRefs[rootRefs.length - 1][1])) : undefined;
+
+    if (!isKind(catalog, "dict")) {
+      catalog = [...this.offsets.keys()]
+        .map((num) => this.get(num))
+        .find((value) => isKind(value, "dict") && nameOf(value.entries.get("Type")) === "Catalog");
+    }
+
+    const pages: { page: PdfDict; resources: PdfValue | undefined }[] = [];
+    const visited = new Set<PdfValue>();
+
+    const walk = (node: PdfValue | undefined, resources: PdfValue | undefined) => {
+      if (!isKind(node, "dict") || visited.has(node)) return;
+      visited.add(node);
+
+      const ownResources = this.lookup(node, "Resources") ?? resources;
+      if (nameOf(node.entries.get("Type")) === "Page" || !node.entries.has("Kids")) {
+        pages.push({ page: node, resources: ownResources });
+        return;
+      }
+      for (const kid of this.array(node, "Kids")) walk(kid, ownResources);
+    };
+
+    walk(this.lookup(catalog, "Pages"), undefined);
+    return pages;
+  }
+}
+
+// =====================================================
+// FONTS
+// =====================================================
+
+interface PdfFont {
+  codeLength: 1 | 2;
+  toUnicode: Map<number, string>;
+  encoding?: (string | undefined)[];
+  widths: Map<number, number>;
+  defaultWidth: number;
+  /** Widths scale to 1/1000 text space units (Type 3 fonts have their own matrix) */
+  widthScale: number;
+  /** Standard font without embedded widths, measured with the built-in metrics */
+  standardFamily?: "sans" | "serif";
+  bold: boolean;
+}
+
+// WinAnsiEncoding characters for 0x80-0x9F (0xA0-0xFF match Latin-1)
+const WIN_ANSI_HIGH = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ", exclam: "!", quotedbl: '"', numbersign: "#", dollar: "$", percent: "%", ampersand: "&",
+  quotesingle: "'", parenleft: "(", parenright: ")", asterisk: "*", plus: "+", comma: ",", hyphen: "-",
+  period: ".", slash: "/", zero: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6",
+  seven: "7", eight: "8", nine: "9", colon: ":", semicolon: ";", less: "<", equal: "=", greater: ">",
+  question: "?", at: "@", bracketleft: "[", backslash: "\\", bracketright: "]", asciicircum: "^",
+  underscore: "_", grave: "`", braceleft: "{", bar: "|", braceright: "}", asciitilde: "~", bullet: "•",
+  endash: "–", emdash: "—", quoteleft: "‘", quoteright: "’", quotedblleft: "“", quotedblright: "”",
+  quotesinglbase: "‚", quotedblbase: "„", ellipsis: "…", trademark: "™", copyright: "©", registered: "®",
+  degree: "°", periodcentered: "·", middot: "·", minus: "−", fi: "fi", fl: "fl", ff: "ff", ffi: "ffi",
+  ffl: "ffl", germandbls: "ß", ae: "æ", AE: "Æ", oslash: "ø", Oslash: "Ø", euro: "€", sterling: "£",
+  section: "§", paragraph: "¶", nbspace: " ", uni00A0: " ",
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: "\u0301", grave: "\u0300", dieresis: "\u0308", circumflex: "\u0302", tilde: "\u0303",
+  cedilla: "\u0327", ring: "\u030a", caron: "\u030c",
+};
+
+/**
+ * Unicode text of a glyph name from an encoding's /Differences
+ */
+function glyphNameToUnicode(glyphName: string): string | undefined {
+  const name = glyphName.split(".")[0];
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  if (name.length === 1) return name;
+
+  const uni = name.match(/^uni([0-9A-Fa-f]{4})$/) ?? name.match(/^u([0-9A-Fa-f]{4,6})$/);
+  if (uni) return String.fromCodePoint(parseInt(uni[1], 16));
+
+  const accented = name.match(/^([A-Za-z])(acute|grave|dieresis|circumflex|tilde|cedilla|ring|caron)$/);
+  if (accented) return (accented[1] + ACCENTS[accented[2]]).normalize("NFC");
+
+  return undefined;
+}
+
+function baseEncoding(name: string | undefined): (string | undefined)[] {
+  return Array.from({ length: 256 }, (_, code) => {
+    if (code < 32) return undefined;
+    if (name === "StandardEncoding" && code === 0x27) return "’";
+    if (name === "StandardEncoding" && code === 0x60) return "‘";
+    if (code < 0x7f) return String.fromCharCode(code);
+    if (code >= 0x80 && code <= 0x9f) return WIN_ANSI_HIGH[code - 0x80];
+    return code >= 0xa0 ? String.fromCharCode(code) : undefined;
+  });
+}
+
+function utf16Hex(hex: string): string {
+  if (hex.length <= 2) return String.fromCharCode(parseInt(hex || "0", 16));
+  const codes: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) codes.push(parseInt(hex.slice(i, i + 4), 16));
+  return String.fromCharCode(...codes);
+}
+
+/**
+ * Parses the bfchar and bfrange mappings of a ToUnicode CMap
+ */
+function parseToUnicode(text: string): { map: Map<number, string>; codeLength: 1 | 2 } {
+  const map = new Map<number, string>();
+  const codeSpace = text.match(/begincodespacerange\s*<([0-9a-fA-F]+)>/);
+
+  for (const [, body] of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, source, target] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(source, 16), utf16Hex(target));
+    }
+  }
+
+  for (const [, body] of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const ranges = body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(?:<([0-9a-fA-F]*)>|\[([^\]]*)\])/g);
+    for (const [, low, high, target, list] of ranges) {
+      const start = parseInt(low, 16);
+      const end = Math.min(parseInt(high, 16), start + 0xffff);
+
+      if (list !== undefined) {
+        [...list.matchAll(/<([0-9a-fA-F]*)>/g)].forEach(([, item], index) => {
+          if (start + index <= end) map.set(start + index, utf16Hex(item));
+        });
+      } else {
+        // Consecutive codes map to consecutive values of the last character
+        const base = utf16Hex(target ?? "");
+        const prefix = base.slice(0, -1);
+        const last = base.charCodeAt(base.length - 1);
+        for (let code = start; code <= end; code++) {
+          map.set(code, prefix + String.fromCharCode(last + code - start));
+        }
+      }
+    }
+  }
+
+  return { map, codeLength: codeSpace && codeSpace[1].length <= 2 ? 1 : 2 };
+}
+
+function loadFont(doc: PdfDocument, fontValue: PdfValue | undefined): PdfFont | null {
+  const font = doc.resolve(fontValue);
+  if (!isKind(font, "dict")) return null;
+
+  const subtype = nameOf(doc.lookup(font, "Subtype"));
+  const baseFont = (nameOf(doc.lookup(font, "BaseFont")) ?? "").replace(/^[A-Z]{6}\+/, "");
+  const descendant = subtype === "Type0" ? doc.array(font, "DescendantFonts")[0] : undefined;
+  const descriptor = doc.lookup(descendant ?? font, "FontDescriptor");
+
+  const weight = doc.number(descriptor, "FontWeight") ?? 0;
+  const flags = doc.number(descriptor, "Flags") ?? 0;
+  const bold = /bold|black|heavy|semibold|demi/i.test(baseFont) || weight >= 600 || (flags & (1 << 18)) !== 0;
+
+  let toUnicode = new Map<number, string>();
+  let codeLength: 1 | 2 = subtype === "Type0" ? 2 : 1;
+  const toUnicodeStream = doc.lookup(font, "ToUnicode");
+  if (isKind(toUnicodeStream, "stream")) {
+    const data = doc.decode(toUnicodeStream);
+    if (data) {
+      const parsed = parseToUnicode(data.toString("latin1"));
+      toUnicode = parsed.map;
+      if (subtype === "Type0") codeLength = parsed.codeLength;
+    }
+  }
+
+  const widths = new Map<number, number>();
+
+  if (subtype === "Type0") {
+    // /W entries: "first [w1 w2 ...]" or "first last w"
+    const w = doc.array(descendant, "W");
+    for (let i = 0; i < w.length; ) {
+      const first = w[i];
+      const next = w[i + 1];
+      if (typeof first !== "number") break;
+      if (Array.isArray(next)) {
+        next.forEach((width, index) => {
+          const value = doc.resolve(width);
+          if (typeof value === "number") widths.set(first + index, value);
+        });
+        i += 2;
+      } else {
+        const width = w[i + 2];
+        if (typeof next === "number" && typeof width === "number") {
+          for (let code = first; code <= next && code - first < 0x10000; code++) widths.set(code, width);
+        }
+        i += 3;
+      }
+    }
+
+    return {
+      codeLength,
+      toUnicode,
+      widths,
+      defaultWidth: doc.number(descendant, "DW") ?? 1000,
+      widthScale: 1,
+      bold,
+    };
+  }
+
+  const firstChar = doc.number(font, "FirstChar") ?? 0;
+  doc.array(font, "Widths").forEach((width, index) => {
+    if (typeof width === "number") widths.set(firstChar + index, width);
+  });
+
+  // Encoding: a base encoding name, or a dictionary with /Differences
+  const encodingValue = doc.lookup(font, "Encoding");
+  const encoding = baseEncoding(nameOf(encodingValue) ?? nameOf(doc.lookup(encodingValue, "BaseEncoding")));
+  let code = 0;
+  for (const item of doc.array(encodingValue, "Differences")) {
+    if (typeof item === "number") {
+      code = item;
+    } else if (isKind(item, "name")) {
+      if (code < 256) encoding[code] = glyphNameToUnicode(item.name);
+      code++;
+    }
+  }
+
+  const fontMatrix = doc.array(font, "FontMatrix");
+  const standardFamily =
+    widths.size === 0 ? (/times|serif|georgia|garamond/i.test(baseFont) ? "serif" : "sans") : undefined;
+
+  return {
+    codeLength,
+    toUnicode,
+    encoding,
+    widths,
+    defaultWidth: doc.number(descriptor, "MissingWidth") ?? 500,
+    widthScale: subtype === "Type3" && typeof fontMatrix[0] === "number" ? fontMatrix[0] * 1000 : 1,
+    standardFamily,
+    bold,
+  };
+}
+
+/**
+ * Text and advance widths (in 1/1000 em) of the codes in a shown string
+ */
+function decodeGlyphs(font: PdfFont, bytes: Buffer): { text: string; width: number; isSpace: boolean }[] {
+  const glyphs: { text: string; width: number; isSpace: boolean }[] = [];
+
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    const code = font.codeLength === 2 ? bytes.readUInt16BE(i) : bytes[i];
+    const text = font.toUnicode.get(code) ?? font.encoding?.[code] ?? "";
+
+    let width = font.widths.get(code);
+    if (width === undefined) {
+      width = font.standardFamily
+        ? measureText(text || " ", font.standardFamily, font.bold, 1000)
+        : font.defaultWidth;
+    }
+
+    glyphs.push({
+      text,
+      width: width * font.widthScale,
+      isSpace: font.codeLength === 1 && code === 32,
+    });
+  }
+
+  return glyphs;
+}
+
+// =====================================================
+// CONTENT STREAMS
+// =====================================================
+
+interface TextItem {
+  text: string;
+  x: number;
+  y: number;
+  endX: number;
+  size: number;
+  bold: boolean;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+function multiply(m1: Matrix, m2: Matrix): Matrix {
+  return [
+    m1[0] * m2[0] + m1[1] * m2[2],
+    m1[0] * m2[1] + m1[1] * m2[3],
+    m1[2] * m2[0] + m1[3] * m2[2],
+    m1[2] * m2[1] + m1[3] * m2[3],
+    m1[4] * m2[0] + m1[5] * m2[2] + m2[4],
+    m1[4] * m2[1] + m1[5] * m2[3] + m2[5],
+  ];
+}
+
+function toMatrix(values: PdfValue[]): Matrix | null {
+  return values.length === 6 && values.every((value) => typeof value === "number")
+    ? (values as Matrix)
+    : null;
+}
+
+/**
+ * Runs a content stream and collects the text it shows
+ */
+function runContent(
+  doc: PdfDocument,
+  content: Buffer,
+  resources: PdfValue | undefined,
+  initialCtm: Matrix,
+  items: TextItem[],
+  fontCache: Map<PdfValue, PdfFont | null>,
+  depth = 0
+): void {
+  const parser = new PdfParser(content);
+  const stack: GraphicsState[] = [];
+  let state: GraphicsState = {
+    ctm: initialCtm,
+    font: null,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    rise: 0,
+  };
+  let tm: Matrix = IDENTITY;
+  let tlm: Matrix = IDENTITY;
+  let operands: PdfValue[] = [];
+
+  const moveText = (tx: number, ty: number) => {
+    tlm = multiply([1, 0, 0, 1, tx, ty], tlm);
+    tm = tlm;
+  };
+
+  const show = (value: PdfValue) => {
+    if (!isKind(value, "string") || !state.font) return;
+
+    const trm = multiply(
+      [state.fontSize * state.horizontalScale, 0, 0, state.fontSize, 0, state.rise],
+      multiply(tm, state.ctm)
+    );
+    let text = "";
+    for (const glyph of decodeGlyphs(state.font, value.bytes)) {
+      text += glyph.text;
+      const advance =
+        ((glyph.width / 1000) * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0)) *
+        state.horizontalScale;
+      tm = multiply([1, 0, 0, 1, advance, 0], tm);
+    }
+
+    if (text.trim()) {
+      items.push({
+        text,
+        x: trm[4],
+        y: trm[5],
+        endX: multiply(tm, state.ctm)[4],
+        size: Math.hypot(trm[2], trm[3]),
+        bold: state.font.bold,
+      });
+    }
+  };
+
+  for (;;) {
+    const value = parser.read();
+    if (value === undefined) break;
+    if (!isKind(value, "op")) {
+      operands.push(value);
+      continue;
+    }
+
+    const numbers = operands.map((operand) => (typeof operand === "number" ? operand : 0));
+
+    switch (value.op) {
+      case "q":
+        stack.push({ ...state });
+        break;
+      case "Q":
+        state = stack.pop() ?? state;
+        break;
+      case "cm": {
+        const matrix = toMatrix(operands);
+        if (matrix) state.ctm = multiply(matrix, state.ctm);
+        break;
+      }
+      case "BT":
+        tm = IDENTITY;
+        tlm = IDENTITY;
+        break;
+      case "Tf": {
+        const fontRef = doc.lookup(doc.lookup(resources, "Font"), nameOf(operands[0]) ?? "");
+        const key = fontRef ?? null;
+        if (!fontCache.has(key)) fontCache.set(key, loadFont(doc, fontRef));
+        state.font = fontCache.get(key) ?? null;
+        state.fontSize = numbers[1] ?? 0;
+        break;
+      }
+      case "Tc":
+        state.charSpacing = numbers[0] ?? 0;
+        break;
+      case "Tw":
+        state.wordSpacing = numbers[0] ?? 0;
+        break;
+      case "Tz":
+        state.horizontalScale = (numbers[0] ?? 100) / 100;
+        break;
+      case "TL":
+        state.leading = numbers[0] ?? 0;
+        break;
+      case "Ts":
+        state.rise = numbers[0] ?? 0;
+        break;
+      case "Td":
+        moveText(numbers[0] ?? 0, numbers[1] ?? 0);
+        break;
+      case "TD":
+        state.leading = -(numbers[1] ?? 0);
+        moveText(numbers[0] ?? 0, numbers[1] ?? 0);
+        break;
+      case "Tm": {
+        const matrix = toMatrix(operands);
+        if (matrix) {
+          tm = matrix;
+          tlm = matrix;
+        }
+        break;
+      }
+      case "T*":
+        moveText(0, -state.leading);
+        break;
+      case "Tj":
+        show(operands[0]);
+        break;
+      case "'":
+        moveText(0, -state.leading);
+        show(operands[0]);
+        break;
+      case '"':
+        state.wordSpacing = numbers[0] ?? 0;
+        state.charSpacing = numbers[1] ?? 0;
+        moveText(0, -state.leading);
+        show(operands[2]);
+        break;
+      case "TJ":
+        for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+          if (typeof item === "number") {
+            tm = multiply([1, 0, 0, 1, (-item / 1000) * state.fontSize * state.horizontalScale, 0], tm);
+          } else {
+            show(item);
+          }
+        }
+        break;
+      case "Do": {
+        const xObject = doc.lookup(doc.lookup(resources, "XObject"), nameOf(operands[0]) ?? "");
+        if (depth < 5 && isKind(xObject, "stream") && nameOf(doc.lookup(xObject, "Subtype")) === "Form") {
+          const data = doc.decode(xObject);
+          const matrix = toMatrix(doc.array(xObject, "Matrix")) ?? IDENTITY;
+          if (data) {
+            runContent(
+              doc,
+              data,
+              doc.lookup(xObject, "Resources") ?? resources,
+              multiply(matrix, state.ctm),
+              items,
+              fontCache,
+              depth + 1
+            );
+          }
+        }
+        break;
+      }
+      case "BI": {
+        // Inline image: skip its parameters and binary data
+        let next = parser.read();
+        while (next !== undefined && !(isKind(next, "op") && next.op === "ID")) next = parser.read();
+        const end = content.toString("latin1", parser.pos).search(/\sEI(?=\s|$)/);
+        parser.pos = end < 0 ? content.length : parser.pos + end + 3;
+        break;
+      }
+    }
+
+    operands = [];
+  }
+}
+
+// =====================================================
+// LINES
+// =====================================================
+
+interface PageLine extends ExtractedLine {
+  x: number;
+  y: number;
+  size: number;
+}
+
+/**
+ * Groups the text items of a page into lines, top to bottom
+ */
+function groupLines(items: TextItem[]): PageLine[] {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: TextItem[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(row[0].size, item.size) * 0.4) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map((row) => {
+    row.sort((a, b) => a.x - b.x);
+
+    const parts: { text: string; bold: boolean }[] = [];
+    let previous: TextItem | undefined;
+    for (const item of row) {
+      // Some generators fake bold by drawing the same text twice
+      if (previous && item.text === previous.text && Math.abs(item.x - previous.x) < item.size * 0.3) continue;
+
+      const gap = previous ? item.x - previous.endX : 0;
+      const last = parts[parts.length - 1];
+      if (last && gap > item.size * 0.15 && !/\s$/.test(last.text) && !/^\s/.test(item.text)) {
+        last.text += " ";
+      }
+      parts.push({ text: item.text, bold: item.bold && item.text.trim() !== "" });
+      previous = item;
+    }
+
+    // Merge runs of the same weight; mark bold runs unless the whole line is bold
+    const runs: { text: string; bold: boolean }[] = [];
+    for (const part of parts) {
+      const last = runs[runs.length - 1];
+      if (last && (last.bold === part.bold || !part.text.trim())) last.text += part.text;
+      else runs.push({ ...part });
+    }
+    const allBold = runs.every((run) => run.bold || !run.text.trim());
+    const text = runs
+      .map((run) => {
+        if (allBold || !run.bold) return run.text;
+        const match = run.text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+        return match ? `${match[1]}**${match[2]}**${match[3]}` : run.text;
+      })
+      .join("")
+      .replace(/[\ufb00-\ufb04]/g, (char) => ["ff", "fi", "fl", "ffi", "ffl"][char.charCodeAt(0) - 0xfb00])
+      .replace(/[\u0000-\u001f\u00a0]/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    return {
+      text,
+      x: row[0].x,
+      y: row[0].y,
+      size: Math.max(...row.map((item) => item.size)),
+      bold: allBold,
+    };
+  });
+}
+
+const BULLET = /^[•●▪◦‣○■►▸➢✓✔·\-–—*]/;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * True if an encrypted PDF (its text cannot be read without the password)
+ */
+export function isEncryptedPdf(data: Buffer): boolean {
+  return /\/Encrypt\s*(?:\d+\s+\d+\s+R|<<)/.test(data.toString("latin1"));
+}
+
+/**
+ * Extracts the lines of a PDF document
+ *
+ * @returns Lines, or null if the file is not a PDF
+ */
+export function extractPdfLines(data: Buffer): ExtractedLine[] | null {
+  if (!data.toString("latin1", 0, 1024).includes("%PDF-")) return null;
+
+  const doc = new PdfDocument(data);
+  const fontCache = new Map<PdfValue, PdfFont | null>();
+  const pages = doc.pages().map(({ page, resources }) => {
+    const contents = doc.lookup(page, "Contents");
+    const streams = (Array.isArray(contents) ? contents.map((item) => doc.resolve(item)) : [contents]).filter(
+      (item): item is PdfStream => isKind(item, "stream")
+    );
+    const content = Buffer.concat(
+      streams.flatMap((stream) => {
+        const decoded = doc.decode(stream);
+        return decoded ? [decoded, Buffer.from("\n")] : [];
+      })
+    );
+
+    const items: TextItem[] = [];
+    runContent(doc, content, resources, IDENTITY, items, fontCache);
+    return groupLines(items).filter((line) => line.text && !/^page \d+(?: of \d+)?$/i.test(line.text));
+  });
+
+  // Typical distance between baselines, to find paragraph breaks
+  const spacings = pages.flatMap((lines) => lines.slice(1).map((line, index) => lines[index].y - line.y));
+  const lineSpacing = median(spacings.filter((spacing) => spacing > 0));
+
+  const lines: PageLine[] = [];
+  for (const pageLines of pages) {
+    let current: PageLine | undefined;
+
+    pageLines.forEach((line, index) => {
+      const previous = pageLines[index - 1];
+      const gapBefore = Boolean(previous && lineSpacing && previous.y - line.y > lineSpacing * 1.45);
+
+      // Wrapped continuation of a bullet: indented past the bullet, no gap, same size
+      if (
+        current &&
+        !gapBefore &&
+        BULLET.test(current.text) &&
+        !BULLET.test(line.text) &&
+        line.x > current.x + line.size * 0.5 &&
+        Math.abs(line.size - current.size) < 0.5
+      ) {
+        current.text += ` ${line.text}`;
+        return;
+      }
+
+      line.gapBefore = gapBefore;
+      lines.push(line);
+      current = line;
+    });
+  }
+
+  return lines.map(({ text, size, bold, gapBefore }) => ({ text, size, bold, gapBefore }));
+}
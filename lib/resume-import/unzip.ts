@@ -0,0 +1,78 @@
+/**
+ * Minimal ZIP Reader
+ *
+ * Reads stored and deflated entries of a ZIP archive, enough for Office Open
+ * XML (DOCX) packages.
+ */
+
+import { inflateRawSync } from "node:zlib";
+import { MAX_INFLATED_BYTES } from "./limits";
+
+/**
+ * Reads the given entries of a ZIP archive (other entries are skipped
+ * without being inflated)
+ *
+ * Throws when the entries are larger than MAX_INFLATED_BYTES together,
+ * whether by their declared sizes or once inflated.
+ *
+ * @param data - ZIP archive
+ * @param names - Paths of the entries to read
+ * @returns Map of entry path to content, or null if the data is not a ZIP archive
+ */
+export function readZip(data: Buffer, names: string[]): Map<string, Buffer> | null {
+  // The end of central directory record is in the last 64KB (after an optional comment)
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const entries = new Map<string, Buffer>();
+  let remainingBytes = MAX_INFLATED_BYTES;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) return null;
+
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const uncompressedSize = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (!names.includes(name) || entries.has(name)) continue;
+
+    if (uncompressedSize > remainingBytes) {
+      throw new RangeError(`ZIP entry ${name} is too large (${uncompressedSize} bytes)`);
+    }
+
+    // The local header repeats the name and has its own extra field
+    const localNameLength = data.readUInt16LE(localOffset + 26);
+    const localExtraLength = data.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = data.subarray(start, start + compressedSize);
+
+    // The declared size may lie, so inflating is capped as well
+    const content =
+      method === 0
+        ? compressed
+        : method === 8
+          ? inflateRawSync(compressed, { maxOutputLength: Math.max(remainingBytes, 1) })
+          : undefined;
+
+    if (content) {
+      remainingBytes -= content.length;
+      entries.set(name, content);
+    }
+  }
+
+  return entries;
+}
@@ -0,0 +1,24 @@
+/**
+ * Supabase Service-Role Client
+ *
+ * Creates a Supabase client that bypasses row level security, for background
+ * work without a signed-in user (e.g. scheduled saved search runs). Only use
+ * it in server code, and always scope queries to a user ID.
+ */
+
+import { createClient } from '@supabase/supabase-js'
+
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not configured')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
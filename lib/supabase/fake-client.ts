@@ -0,0 +1,199 @@
+/**
+ * In-Memory Supabase Client (tests only)
+ *
+ * Implements the subset of the query builder used by lib/supabase/queries
+ * (select, insert, upsert, update and delete with eq/neq/in/is/not-in filters,
+ * simple or filters, order, limit and single rows) over plain arrays of rows,
+ * so query functions can be tested without a database.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Row = Record<string, any>;
+
+type Filter = (row: Row) => boolean;
+
+interface FakeError {
+  code: string;
+  message: string;
+}
+
+interface FakeQueryState {
+  table: string;
+  operation: "select" | "insert" | "upsert" | "update" | "delete";
+  values?: Row | Row[];
+  upsertOptions?: { onConflict?: string; ignoreDuplicates?: boolean };
+  filters: Filter[];
+  returning: boolean;
+  order?: { column: string; ascending: boolean; nullsFirst: boolean };
+  limit?: number;
+  single?: "single" | "maybeSingle";
+}
+
+/**
+ * Fake Supabase client with its tables
+ */
+export interface FakeSupabase {
+  client: SupabaseClient;
+
+  /** Rows per table; tests can seed and inspect them directly */
+  tables: Record<string, Row[]>;
+
+  /**
+   * Makes the next write to a table fail with the given error
+   * (e.g. to test rollback paths)
+   */
+  failNextWrite: (table: string, error: FakeError) => void;
+}
+
+/**
+ * Creates a fake Supabase client over the given tables
+ *
+ * Inserted rows get an id and created_at when they have none.
+ */
+export function createFakeSupabase(tables: Record<string, Row[]> = {}): FakeSupabase {
+  const pendingErrors = new Map<string, FakeError>();
+
+  const rowsOf = (table: string) => (tables[table] ??= []);
+
+  const execute = (state: FakeQueryState): { data: any; error: FakeError | null } => {
+    const rows = rowsOf(state.table);
+
+    if (state.operation !== "select" && pendingErrors.has(state.table)) {
+      const error = pendingErrors.get(state.table)!;
+      pendingErrors.delete(state.table);
+      return { data: null, error };
+    }
+
+    const matches = (row: Row) => state.filters.every((filter) => filter(row));
+    let result: Row[] = [];
+
+    switch (state.operation) {
+      case "select":
+        result = rows.filter(matches);
+        break;
+
+      case "insert":
+      case "upsert": {
+        const conflictColumns = state.upsertOptions?.onConflict?.split(",") ?? [];
+        for (const values of [state.values ?? []].flat()) {
+          const conflict =
+            state.operation === "upsert" &&
+            rows.find((row) => conflictColumns.every((column) => row[column] === values[column]));
+          if (conflict) {
+            if (!state.upsertOptions?.ignoreDuplicates) {
+              Object.assign(conflict, values);
+              result.push(conflict);
+            }
+            continue;
+          }
+
+          const row = { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...values };
+          rows.push(row);
+          result.push(row);
+        }
+        break;
+      }
+
+      case "update":
+        result = rows.filter(matches);
+        result.forEach((row) => Object.assign(row, state.values));
+        break;
+
+      case "delete":
+        result = rows.filter(matches);
+        tables[state.table] = rows.filter((row) => !matches(row));
+        break;
+    }
+
+    if (state.order) {
+      const { column, ascending, nullsFirst } = state.order;
+      result = [...result].sort((a, b) => {
+        const [x, y] = [a[column] ?? null, b[column] ?? null];
+        if (x === y) return 0;
+        if (x === null || y === null) return (x === null) === nullsFirst ? -1 : 1;
+        return (x > y ? 1 : -1) * (ascending ? 1 : -1);
+      });
+    }
+    if (state.limit !== undefined) {
+      result = result.slice(0, state.limit);
+    }
+
+    const data = result.map((row) => ({ ...row }));
+
+    if (state.single) {
+      if (data.length === 1 || (data.length === 0 && state.single === "maybeSingle")) {
+        return { data: data[0] ?? null, error: null };
+      }
+      return { data: null, error: { code: "PGRST116", message: `${data.length} rows returned` } };
+    }
+
+    return { data: state.operation === "select" || state.returning ? data : null, error: null };
+  };
+
+  const builder = (state: FakeQueryState): any => {
+    const next = (changes: Partial<FakeQueryState>) => builder({ ...state, ...changes });
+    const filter = (test: Filter) => next({ filters: [...state.filters, test] });
+
+    return {
+      select: () => next({ returning: true }),
+      insert: (values: Row | Row[]) => next({ operation: "insert", values }),
+      upsert: (values: Row | Row[], upsertOptions?: FakeQueryState["upsertOptions"]) =>
+        next({ operation: "upsert", values, upsertOptions }),
+      update: (values: Row) => next({ operation: "update", values }),
+      delete: () => next({ operation: "delete" }),
+      eq: (column: string, value: unknown) => filter((row) => row[column] === value),
+      neq: (column: string, value: unknown) => filter((row) => row[column] !== value),
+      in: (column: string, values: unknown[]) => filter((row) => values.includes(row[column])),
+      is: (column: string, value: unknown) => filter((row) => (row[column] ?? null) === value),
+      not: (column: string, operator: string, value: string) => {
+        if (operator !== "in") throw new Error(`Fake Supabase does not support not.${operator}`);
+        const values = value.replace(/^\(|\)$/g, "").split(",");
+        return filter((row) => !values.includes(String(row[column])));
+      },
+      // PostgREST syntax, e.g. "checked_at.is.null,checked_at.lt.2026-01-01"
+      or: (conditions: string) => {
+        const tests = conditions.split(",").map((condition): Filter => {
+          const [column, operator, ...rest] = condition.split(".");
+          const value = rest.join(".");
+          switch (operator) {
+            case "is":
+              return (row) => (row[column] ?? null) === (value === "null" ? null : value === "true");
+            case "eq":
+              return (row) => String(row[column]) === value;
+            case "lt":
+              return (row) => row[column] != null && row[column] < value;
+            case "gt":
+              return (row) => row[column] != null && row[column] > value;
+            default:
+              throw new Error(`Fake Supabase does not support or.${operator}`);
+          }
+        });
+        return filter((row) => tests.some((test) => test(row)));
+      },
+      order: (column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) => {
+        const ascending = options?.ascending ?? true;
+        // Postgres puts nulls last in ascending order by default
+        return next({ order: { column, ascending, nullsFirst: options?.nullsFirst ?? !ascending } });
+      },
+      limit: (limit: number) => next({ limit }),
+      single: () => next({ single: "single" }),
+      maybeSingle: () => next({ single: "maybeSingle" }),
+      then: (
+        resolve: (value: { data: any; error: FakeError | null }) => unknown,
+        reject: (reason: unknown) => unknown
+      ) => Promise.resolve().then(() => execute(state)).then(resolve, reject),
+    };
+  };
+
+  const client = {
+    from: (table: string) =>
+      builder({ table, operation: "select", filters: [], returning: false }),
+  } as unknown as SupabaseClient;
+
+  return {
+    client,
+    tables,
+    failNextWrite: (table, error) => pendingErrors.set(table, error),
+  };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "@/lib/supabase/fake-client";
+import { createContact, updateContact } from "./contacts";
+
+const USER_ID = "00000000-0000-4000-8000-000000000001";
+const JOB_A = "00000000-0000-4000-8000-00000000000a";
+const JOB_B = "00000000-0000-4000-8000-00000000000b";
+
+describe("createContact", () => {
+  it("links the contact to its jobs", async () => {
+    const { client, tables } = createFakeSupabase();
+
+    const contact = await createContact(client, USER_ID, {
+      name: "Dana Recruiter",
+      relationship: "recruiter",
+      jobIds: [JOB_A, JOB_B],
+    });
+
+    expect(contact?.jobIds).toEqual([JOB_A, JOB_B]);
+    expect(tables.contact_jobs.map((link) => link.job_id)).toEqual([JOB_A, JOB_B]);
+  });
+
+  it("deletes the contact again when its job links cannot be saved", async () => {
+    const { client, tables, failNextWrite } = createFakeSupabase();
+    failNextWrite("contact_jobs", { code: "23503", message: "foreign key violation" });
+
+    const contact = await createContact(client, USER_ID, {
+      name: "Dana Recruiter",
+      relationship: "recruiter",
+      jobIds: [JOB_A],
+    });
+
+    expect(contact).toBeNull();
+    expect(tables.contacts).toEqual([]);
+  });
+});
+
+describe("updateContact", () => {
+  it("replaces the contact's job links", async () => {
+    const { client, tables } = createFakeSupabase();
+    const created = await createContact(client, USER_ID, {
+      name: "Dana Recruiter",
+      relationship: "recruiter",
+      jobIds: [JOB_A],
+    });
+
+    const updated = await updateContact(client, USER_ID, created!.id, { jobIds: [JOB_B] });
+
+    expect(updated?.jobIds).toEqual([JOB_B]);
+    expect(tables.contact_jobs.map((link) => link.job_id)).toEqual([JOB_B]);
+  });
+
+  it("keeps the existing links and fields when the new links cannot be saved", async () => {
+    const { client, tables, failNextWrite } = createFakeSupabase();
+    const created = await createContact(client, USER_ID, {
+      name: "Dana Recruiter",
+      relationship: "recruiter",
+      jobIds: [JOB_A],
+    });
+    failNextWrite("contact_jobs", { code: "23503", message: "foreign key violation" });
+
+    const updated = await updateContact(client, USER_ID, created!.id, {
+      name: "Dana Manager",
+      jobIds: [JOB_B],
+    });
+
+    expect(updated).toBeNull();
+    expect(tables.contact_jobs.map((link) => link.job_id)).toEqual([JOB_A]);
+    expect(tables.contacts[0].name).toBe("Dana Recruiter");
+  });
+
+  it("does not link jobs to another user's contact", async () => {
+    const { client, tables } = createFakeSupabase();
+    const created = await createContact(client, USER_ID, {
+      name: "Dana Recruiter",
+      relationship: "recruiter",
+      jobIds: [],
+    });
+
+    const updated = await updateContact(client, "00000000-0000-4000-8000-000000000002", created!.id, {
+      jobIds: [JOB_A],
+    });
+
+    expect(updated).toBeNull();
+    expect(tables.contact_jobs).toEqual([]);
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Contacts Supabase Queries
+ *
+ * Handles database operations for contacts (recruiters, hiring managers,
+ * referrals, ...) and their links to jobs.
+ */
+
+import type { Job } from "@/types/job";
+import type { Contact } from "@/types/contact";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isContactForJob, type ContactInput, type ContactUpdate } from "@/lib/jobs/contacts";
+
+/**
+ * Retrieves all contacts of a user, by name
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @returns Array of contacts (empty array if none exist)
+ */
+export async function getContacts(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<Contact[]> {
+  try {
+    const { data, error } = await supabase
+      .from("contacts")
+      .select("*, contact_jobs(job_id)")
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching contacts from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToContact);
+  } catch (error) {
+    console.error("Error fetching contacts from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Retrieves the contacts relevant to a job: those linked to it and those at
+ * its company
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param job - The job (only its ID and company are used)
+ * @returns Array of contacts, linked ones first
+ */
+export async function getContactsForJob(
+  supabase: SupabaseClient,
+  userId: string,
+  job: Pick<Job, "id" | "company">
+): Promise<Contact[]> {
+  const contacts = await getContacts(supabase, userId);
+
+  return contacts
+    .filter((contact) => isContactForJob(contact, job))
+    .sort(
+      (a, b) => Number(b.jobIds.includes(job.id)) - Number(a.jobIds.includes(job.id))
+    );
+}
+
+/**
+ * Creates a contact
+ *
+ * The contact is deleted again if its job links cannot be saved, so a failed
+ * create leaves nothing behind.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param contact - Contact fields
+ * @returns The created contact, or null if creation failed
+ */
+export async function createContact(
+  supabase: SupabaseClient,
+  userId: string,
+  contact: ContactInput
+): Promise<Contact | null> {
+  try {
+    const { data, error } = await supabase
+      .from("contacts")
+      .insert({ ...mapContactToDatabase(contact), user_id: userId })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating contact in Supabase:", error);
+      return null;
+    }
+
+    if (!(await setContactJobs(supabase, userId, data.id, contact.jobIds))) {
+      await deleteContact(supabase, userId, data.id);
+      return null;
+    }
+
+    return mapDatabaseToContact({ ...data, contact_jobs: contact.jobIds.map((job_id) => ({ job_id })) });
+  } catch (error) {
+    console.error("Error creating contact in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Updates a contact (and replaces its job links when jobIds is given)
+ *
+ * Job links are replaced first, so a failed link update leaves the contact's
+ * fields unchanged.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param contactId - ID of the contact
+ * @param updates - Fields to change
+ * @returns The updated contact, or null if the update failed
+ */
+export async function updateContact(
+  supabase: SupabaseClient,
+  userId: string,
+  contactId: string,
+  updates: ContactUpdate
+): Promise<Contact | null> {
+  try {
+    if (updates.jobIds !== undefined) {
+      const { data: existing, error: existingError } = await supabase
+        .from("contacts")
+        .select("id")
+        .eq("id", contactId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (existingError || !existing) {
+        console.error("Error updating contact in Supabase:", existingError ?? "contact not found");
+        return null;
+      }
+
+      if (!(await setContactJobs(supabase, userId, contactId, updates.jobIds))) {
+        return null;
+      }
+    }
+
+    const { data, error } = await supabase
+      .from("contacts")
+      .update(mapContactToDatabase(updates))
+      .eq("id", contactId)
+      .eq("user_id", userId)
+      .select("*, contact_jobs(job_id)")
+      .single();
+
+    if (error) {
+      console.error("Error updating contact in Supabase:", error);
+      return null;
+    }
+
+    if (updates.jobIds !== undefined) {
+      data.contact_jobs = updates.jobIds.map((job_id) => ({ job_id }));
+    }
+
+    return mapDatabaseToContact(data);
+  } catch (error) {
+    console.error("Error updating contact in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Deletes a contact (its job links are deleted with it)
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param contactId - ID of the contact
+ * @returns true if deletion was successful, false otherwise
+ */
+export async function deleteContact(
+  supabase: SupabaseClient,
+  userId: string,
+  contactId: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("contacts")
+      .delete()
+      .eq("id", contactId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting contact from Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error deleting contact from Supabase:", error);
+    return false;
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Replaces the jobs a contact is linked to
+ *
+ * New links are added before stale ones are removed, so a failure never
+ * leaves the contact with fewer links than before.
+ */
+async function setContactJobs(
+  supabase: SupabaseClient,
+  userId: string,
+  contactId: string,
+  jobIds: string[]
+): Promise<boolean> {
+  const uniqueJobIds = Array.from(new Set(jobIds));
+
+  if (uniqueJobIds.length > 0) {
+    const { error } = await supabase.from("contact_jobs").upsert(
+      uniqueJobIds.map((jobId) => ({
+        contact_id: contactId,
+        job_id: jobId,
+        user_id: userId,
+      })),
+      { onConflict: "contact_id,job_id", ignoreDuplicates: true }
+    );
+
+    if (error) {
+      console.error("Error updating contact jobs in Supabase:", error);
+      return false;
+    }
+  }
+
+  let staleLinks = supabase
+    .from("contact_jobs")
+    .delete()
+    .eq("user_id", userId)
+    .eq("contact_id", contactId);
+
+  if (uniqueJobIds.length > 0) {
+    staleLinks = staleLinks.not("job_id", "in", `(${uniqueJobIds.join(",")})`);
+  }
+
+  const { error: deleteError } = await staleLinks;
+
+  if (deleteError) {
+    console.error("Error updating contact jobs in Supabase:", deleteError);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Maps contact fields to database columns (only the fields given)
+ */
+function mapContactToDatabase(contact: ContactUpdate): Record<string, any> {
+  const record: Record<string, any> = {};
+
+  if (contact.name !== undefined) record.name = contact.name;
+  if (contact.role !== undefined) record.role = contact.role || null;
+  if (contact.email !== undefined) record.email = contact.email || null;
+  if (contact.linkedinUrl !== undefined) record.linkedin_url = contact.linkedinUrl || null;
+  if (contact.relationship !== undefined) record.relationship = contact.relationship;
+  if (contact.company !== undefined) record.company = contact.company || null;
+  if (contact.notes !== undefined) record.notes = contact.notes || null;
+  if (contact.lastContactedAt !== undefined) record.last_contacted_at = contact.lastContactedAt;
+
+  return record;
+}
+
+/**
+ * Maps database row (with its job links) to Contact interface
+ */
+function mapDatabaseToContact(data: any): Contact {
+  return {
+    id: data.id,
+    name: data.name,
+    role: data.role ?? undefined,
+    email: data.email ?? undefined,
+    linkedinUrl: data.linkedin_url ?? undefined,
+    relationship: data.relationship,
+    company: data.company ?? undefined,
+    jobIds: (data.contact_jobs || []).map((link: { job_id: string }) => link.job_id),
+    notes: data.notes ?? undefined,
+    lastContactedAt: data.last_contacted_at ?? undefined,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
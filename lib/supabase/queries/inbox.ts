@@ -0,0 +1,110 @@
+/**
+ * Job Inbox Supabase Queries
+ *
+ * Handles database operations for the triage inbox: jobs that were discovered
+ * (in a chat or by a saved search) but that the user has not decided on yet.
+ */
+
+import type { ApplicationStatus, Job } from "@/types/job";
+import { isJobSnoozed } from "@/types/job";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getJobsByStatus } from "./jobs";
+import { recordJobStatusEvents } from "./job-status-events";
+
+/**
+ * What the user decided about inbox jobs
+ *
+ * - accept: save the job to the dashboard (applicationStatus: "saved")
+ * - dismiss: reject the job; discovery will not show it again
+ * - snooze: hide the job from the inbox until a later date
+ */
+export type InboxTriageAction = "accept" | "dismiss" | "snooze";
+
+/**
+ * Retrieves the jobs waiting in the inbox (newest first)
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @returns Jobs to review and how many more are snoozed
+ */
+export async function getInboxJobs(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ jobs: Job[]; snoozedCount: number }> {
+  const inboxJobs = await getJobsByStatus(supabase, userId, "inbox");
+  const now = new Date();
+  const jobs = inboxJobs.filter((job) => !isJobSnoozed(job, now));
+
+  return { jobs, snoozedCount: inboxJobs.length - jobs.length };
+}
+
+/**
+ * Applies a triage decision to inbox jobs
+ *
+ * Only jobs still in the inbox are changed, so a stale inbox view cannot
+ * overwrite the status of a job the user has since saved or applied to.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobIds - IDs of the inbox jobs
+ * @param action - Triage decision
+ * @param snoozedUntil - ISO timestamp the jobs are hidden until (required for "snooze")
+ * @returns true if update was successful, false otherwise
+ */
+export async function triageInboxJobs(
+  supabase: SupabaseClient,
+  userId: string,
+  jobIds: string[],
+  action: InboxTriageAction,
+  snoozedUntil?: string
+): Promise<boolean> {
+  try {
+    if (action === "snooze" && !snoozedUntil) {
+      console.error("Error triaging inbox jobs in Supabase: snooze requires a date");
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    const status: ApplicationStatus = action === "accept" ? "saved" : "dismissed";
+    const update =
+      action === "snooze"
+        ? { snoozed_until: snoozedUntil, updated_at: now }
+        : {
+            application_status: status,
+            status_updated_at: now,
+            snoozed_until: null,
+            updated_at: now,
+          };
+
+    const { data, error } = await supabase
+      .from("jobs")
+      .update(update)
+      .eq("user_id", userId)
+      .eq("application_status", "inbox")
+      .in("id", jobIds)
+      .select("id");
+
+    if (error) {
+      console.error("Error triaging inbox jobs in Supabase:", error);
+      return false;
+    }
+
+    if (action !== "snooze") {
+      await recordJobStatusEvents(
+        supabase,
+        userId,
+        (data || []).map((row) => ({
+          jobId: row.id,
+          fromStatus: "inbox" as const,
+          toStatus: status,
+        })),
+        now
+      );
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error triaging inbox jobs in Supabase:", error);
+    return false;
+  }
+}
@@ -6,4 +6,13 @@
 
 export * from "./profile";
 export * from "./jobs";
+export * from "./job-scores";
+export * from "./job-revisions";
+export * from "./job-status-events";
 export * from "./resumes";
+export * from "./saved-searches";
+export * from "./inbox";
+export * from "./reminders";
+export * from "./contacts";
+export * from "./interviews";
+export * from "./offers";
@@ -0,0 +1,195 @@
+/**
+ * Interviews Supabase Queries
+ *
+ * Handles database operations for the interview rounds logged for jobs.
+ */
+
+import type { Interview } from "@/types/interview";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { InterviewInput, InterviewUpdate } from "@/lib/jobs/interviews";
+
+/**
+ * Retrieves a user's interviews, most recent first
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - Only return the interviews for this job
+ * @returns Array of interviews (empty array if none exist)
+ */
+export async function getInterviews(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId?: string
+): Promise<Interview[]> {
+  try {
+    let query = supabase
+      .from("interviews")
+      .select("*")
+      .eq("user_id", userId)
+      .order("scheduled_at", { ascending: false });
+
+    if (jobId) {
+      query = query.eq("job_id", jobId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching interviews from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToInterview);
+  } catch (error) {
+    console.error("Error fetching interviews from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Logs an interview round for a job
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param interview - Interview fields (including the job ID)
+ * @returns The created interview, or null if creation failed
+ */
+export async function createInterview(
+  supabase: SupabaseClient,
+  userId: string,
+  interview: InterviewInput
+): Promise<Interview | null> {
+  try {
+    const { data, error } = await supabase
+      .from("interviews")
+      .insert({
+        ...mapInterviewToDatabase(interview),
+        job_id: interview.jobId,
+        user_id: userId,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating interview in Supabase:", error);
+      return null;
+    }
+
+    return mapDatabaseToInterview(data);
+  } catch (error) {
+    console.error("Error creating interview in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Updates an interview
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param interviewId - ID of the interview
+ * @param updates - Fields to change
+ * @returns The updated interview, or null if the update failed
+ */
+export async function updateInterview(
+  supabase: SupabaseClient,
+  userId: string,
+  interviewId: string,
+  updates: InterviewUpdate
+): Promise<Interview | null> {
+  try {
+    const { data, error } = await supabase
+      .from("interviews")
+      .update(mapInterviewToDatabase(updates))
+      .eq("id", interviewId)
+      .eq("user_id", userId)
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error updating interview in Supabase:", error);
+      return null;
+    }
+
+    return mapDatabaseToInterview(data);
+  } catch (error) {
+    console.error("Error updating interview in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Deletes an interview
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param interviewId - ID of the interview
+ * @returns true if deletion was successful, false otherwise
+ */
+export async function deleteInterview(
+  supabase: SupabaseClient,
+  userId: string,
+  interviewId: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("interviews")
+      .delete()
+      .eq("id", interviewId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting interview from Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error deleting interview from Supabase:", error);
+    return false;
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Maps interview fields to database columns (only the fields given)
+ */
+function mapInterviewToDatabase(interview: InterviewUpdate): Record<string, any> {
+  const record: Record<string, any> = {};
+
+  if (interview.round !== undefined) record.round = interview.round || null;
+  if (interview.scheduledAt !== undefined) record.scheduled_at = interview.scheduledAt;
+  if (interview.format !== undefined) record.format = interview.format;
+  if (interview.interviewers !== undefined) record.interviewers = interview.interviewers;
+  if (interview.questions !== undefined) record.questions = interview.questions;
+  if (interview.selfAssessment !== undefined) record.self_assessment = interview.selfAssessment || null;
+  if (interview.rating !== undefined) record.rating = interview.rating;
+  if (interview.outcome !== undefined) record.outcome = interview.outcome;
+  if (interview.notes !== undefined) record.notes = interview.notes || null;
+
+  return record;
+}
+
+/**
+ * Maps database row to Interview interface
+ */
+function mapDatabaseToInterview(data: any): Interview {
+  return {
+    id: data.id,
+    jobId: data.job_id,
+    round: data.round ?? undefined,
+    scheduledAt: data.scheduled_at,
+    format: data.format,
+    interviewers: data.interviewers || [],
+    questions: data.questions || [],
+    selfAssessment: data.self_assessment ?? undefined,
+    rating: data.rating ?? undefined,
+    outcome: data.outcome,
+    notes: data.notes ?? undefined,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
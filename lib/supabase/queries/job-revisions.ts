@@ -0,0 +1,138 @@
+/**
+ * Job Revisions Supabase Queries
+ *
+ * Handles database operations for the revision history of saved postings.
+ */
+
+import type { Job, JobContentField, JobRevision } from "@/types/job";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { computeJobContentHash } from "@/lib/jobs/revisions";
+
+/**
+ * Records an edit to a posting in its revision history
+ *
+ * The first edit of a job also records the posting as it was saved, so the
+ * history always starts from the original version.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param previous - The job as stored before the edit
+ * @param current - The job with the edited fields
+ * @param changedFields - Fields that differ between the two
+ * @param detectedAt - ISO timestamp of the check that found the edit
+ * @returns true if the revisions were recorded, false otherwise
+ */
+export async function recordJobRevision(
+  supabase: SupabaseClient,
+  userId: string,
+  previous: Job,
+  current: Job,
+  changedFields: JobContentField[],
+  detectedAt: string
+): Promise<boolean> {
+  try {
+    const { count, error: countError } = await supabase
+      .from("job_revisions")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("job_id", previous.id);
+
+    if (countError) {
+      console.error("Error counting job revisions in Supabase:", countError);
+      return false;
+    }
+
+    const records = [
+      ...(count ? [] : [mapJobToRevision(previous, userId, [], previous.discoveredAt)]),
+      mapJobToRevision(current, userId, changedFields, detectedAt),
+    ];
+
+    const { error } = await supabase.from("job_revisions").insert(records);
+
+    if (error) {
+      console.error("Error recording job revision in Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error recording job revision in Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Retrieves the revision history of a job, oldest first
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the job
+ * @returns Array of revisions (empty if the posting was never edited or on error)
+ */
+export async function getJobRevisions(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string
+): Promise<JobRevision[]> {
+  try {
+    const { data, error } = await supabase
+      .from("job_revisions")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("job_id", jobId)
+      .order("detected_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching job revisions from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToJobRevision);
+  } catch (error) {
+    console.error("Error fetching job revisions from Supabase:", error);
+    return [];
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Maps the watched fields of a job to a job_revisions row
+ */
+function mapJobToRevision(
+  job: Job,
+  userId: string,
+  changedFields: JobContentField[],
+  detectedAt: string
+): Record<string, any> {
+  return {
+    job_id: job.id,
+    user_id: userId,
+    content_hash: computeJobContentHash(job),
+    description: job.description,
+    requirements: job.requirements || [],
+    salary: job.salary ?? null,
+    location: job.location,
+    changed_fields: changedFields,
+    detected_at: detectedAt,
+  };
+}
+
+/**
+ * Maps database row to JobRevision interface
+ */
+function mapDatabaseToJobRevision(data: any): JobRevision {
+  return {
+    id: data.id,
+    jobId: data.job_id,
+    contentHash: data.content_hash,
+    description: data.description,
+    requirements: data.requirements || [],
+    salary: data.salary ?? undefined,
+    location: data.location,
+    changedFields: data.changed_fields || [],
+    detectedAt: data.detected_at,
+  };
+}
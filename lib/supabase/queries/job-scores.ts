@@ -0,0 +1,119 @@
+/**
+ * Job Scores Supabase Queries
+ *
+ * Handles database operations for the scoring history of jobs.
+ */
+
+import type { Job, JobScoreRecord, ScoringRun } from "@/types/job";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Appends one history entry per scored job
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param scoredJobs - Jobs with the score data of this run
+ * @param run - Context of the scoring run (method, model, weights, profile version)
+ * @returns true if the entries were recorded, false otherwise
+ */
+export async function recordJobScores(
+  supabase: SupabaseClient,
+  userId: string,
+  scoredJobs: Job[],
+  run: ScoringRun
+): Promise<boolean> {
+  try {
+    const scoredAt = new Date().toISOString();
+    const records = scoredJobs
+      .filter((job) => job.score !== undefined)
+      .map((job) => ({
+        job_id: job.id,
+        user_id: userId,
+        score: job.score,
+        score_breakdown: job.scoreBreakdown,
+        score_adjustment: job.scoreAdjustment ?? 0,
+        reasoning: job.reasoning,
+        gaps: job.gaps || [],
+        priority: job.priority,
+        method: run.method,
+        model: run.model ?? null,
+        scoring_weights: run.scoringWeights ?? null,
+        profile_version: run.profileVersion ?? null,
+        scored_at: scoredAt,
+      }));
+
+    if (records.length === 0) {
+      return true;
+    }
+
+    const { error } = await supabase.from("job_scores").insert(records);
+
+    if (error) {
+      console.error("Error recording job scores in Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error recording job scores in Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Retrieves the scoring history of a job, oldest first
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the job
+ * @returns Array of score records (empty if none or on error)
+ */
+export async function getJobScoreHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string
+): Promise<JobScoreRecord[]> {
+  try {
+    const { data, error } = await supabase
+      .from("job_scores")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("job_id", jobId)
+      .order("scored_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching job score history from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToJobScore);
+  } catch (error) {
+    console.error("Error fetching job score history from Supabase:", error);
+    return [];
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Maps database row to JobScoreRecord interface
+ */
+function mapDatabaseToJobScore(data: any): JobScoreRecord {
+  return {
+    id: data.id,
+    jobId: data.job_id,
+    score: data.score,
+    scoreBreakdown: data.score_breakdown ?? undefined,
+    scoreAdjustment: data.score_adjustment ?? undefined,
+    reasoning: data.reasoning ?? undefined,
+    gaps: data.gaps || [],
+    priority: data.priority ?? undefined,
+    method: data.method,
+    model: data.model ?? undefined,
+    scoringWeights: data.scoring_weights ?? undefined,
+    profileVersion: data.profile_version ?? undefined,
+    scoredAt: data.scored_at,
+  };
+}
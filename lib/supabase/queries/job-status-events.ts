@@ -0,0 +1,139 @@
+/**
+ * Job Status Events Supabase Queries
+ *
+ * Handles database operations for the application status history of jobs.
+ */
+
+import type { ApplicationStatus, JobStatusEvent } from "@/types/job";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * A status change to record
+ */
+export interface JobStatusChange {
+  jobId: string;
+  fromStatus?: ApplicationStatus;
+  toStatus: ApplicationStatus;
+}
+
+/**
+ * Appends status changes to the history of their jobs
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param changes - Status changes (one per job)
+ * @param changedAt - ISO timestamp of the changes
+ * @returns true if the events were recorded, false otherwise
+ */
+export async function recordJobStatusEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  changes: JobStatusChange[],
+  changedAt: string = new Date().toISOString()
+): Promise<boolean> {
+  try {
+    if (changes.length === 0) {
+      return true;
+    }
+
+    const { error } = await supabase.from("job_status_events").insert(
+      changes.map((change) => ({
+        job_id: change.jobId,
+        user_id: userId,
+        from_status: change.fromStatus ?? null,
+        to_status: change.toStatus,
+        changed_at: changedAt,
+      }))
+    );
+
+    if (error) {
+      console.error("Error recording job status events in Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error recording job status events in Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Retrieves the status history of a job, oldest first
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the job
+ * @returns Array of status events (empty if none or on error)
+ */
+export async function getJobStatusEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string
+): Promise<JobStatusEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from("job_status_events")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("job_id", jobId)
+      .order("changed_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching job status events from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToJobStatusEvent);
+  } catch (error) {
+    console.error("Error fetching job status events from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Retrieves the status history of all of a user's jobs, oldest first
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @returns Array of status events (empty if none or on error)
+ */
+export async function getAllJobStatusEvents(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<JobStatusEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from("job_status_events")
+      .select("*")
+      .eq("user_id", userId)
+      .order("changed_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching job status events from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToJobStatusEvent);
+  } catch (error) {
+    console.error("Error fetching job status events from Supabase:", error);
+    return [];
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Maps database row to JobStatusEvent interface
+ */
+function mapDatabaseToJobStatusEvent(data: any): JobStatusEvent {
+  return {
+    id: data.id,
+    jobId: data.job_id,
+    fromStatus: data.from_status ?? undefined,
+    toStatus: data.to_status,
+    changedAt: data.changed_at,
+  };
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { createFakeSupabase } from "@/lib/supabase/fake-client";
+import type { Job } from "@/types/job";
+import { applyJobContentChange, getJobsDueForLivenessCheck, saveJobs } from "./jobs";
+
+const USER_ID = "00000000-0000-4000-8000-000000000001";
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: crypto.randomUUID(),
+    title: "Backend Engineer",
+    company: "Acme",
+    location: "Remote",
+    description: "Build APIs.",
+    requirements: [],
+    url: "https://boards.greenhouse.io/acme/jobs/1",
+    source: "greenhouse",
+    discoveredAt: "2026-10-19T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("saveJobs", () => {
+  it("reports jobs saved from the inbox as moved, not as already saved", async () => {
+    const { client, tables } = createFakeSupabase();
+    const displayed = [
+      makeJob(),
+      makeJob({ title: "Data Engineer", url: "https://boards.greenhouse.io/acme/jobs/2" }),
+    ];
+
+    // Displayed jobs are kept in the inbox first (see keepInInbox in the chat route)
+    const { inserted: inboxJobs } = await saveJobs(
+      client,
+      USER_ID,
+      displayed.map((job) => ({ ...job, applicationStatus: "inbox" }))
+    );
+    expect(inboxJobs).toHaveLength(2);
+
+    const result = await saveJobs(
+      client,
+      USER_ID,
+      inboxJobs.map((job) => ({ ...job, applicationStatus: "saved" }))
+    );
+
+    expect(result.inserted).toEqual([]);
+    expect(result.alreadySaved).toEqual([]);
+    expect(result.movedFromInbox.map((job) => job.id)).toEqual(inboxJobs.map((job) => job.id));
+    expect(result.jobs).toHaveLength(2);
+    expect(tables.jobs.map((row) => row.application_status)).toEqual(["saved", "saved"]);
+    expect(
+      tables.job_status_events
+        .filter((event) => event.from_status === "inbox")
+        .map((event) => event.to_status)
+    ).toEqual(["saved", "saved"]);
+  });
+
+  it("reports a job that was already saved as already saved", async () => {
+    const { client } = createFakeSupabase();
+    await saveJobs(client, USER_ID, [makeJob({ applicationStatus: "saved" })]);
+
+    const result = await saveJobs(client, USER_ID, [
+      makeJob({ applicationStatus: "saved", url: "https://acme.com/careers/backend-engineer" }),
+      makeJob({ title: "Frontend Engineer", url: "https://boards.greenhouse.io/acme/jobs/3", applicationStatus: "saved" }),
+    ]);
+
+    expect(result.alreadySaved.map((job) => job.title)).toEqual(["Backend Engineer"]);
+    expect(result.inserted.map((job) => job.title)).toEqual(["Frontend Engineer"]);
+    expect(result.movedFromInbox).toEqual([]);
+  });
+
+  it("leaves inbox jobs in the inbox when they are rediscovered", async () => {
+    const { client, tables } = createFakeSupabase();
+    await saveJobs(client, USER_ID, [makeJob({ applicationStatus: "inbox" })]);
+
+    const result = await saveJobs(client, USER_ID, [makeJob({ applicationStatus: "inbox" })]);
+
+    expect(result.alreadySaved).toHaveLength(1);
+    expect(result.movedFromInbox).toEqual([]);
+    expect(tables.jobs[0].application_status).toBe("inbox");
+  });
+});
+
+describe("applyJobContentChange", () => {
+  it("updates the fingerprint when the location changes", async () => {
+    const { client, tables } = createFakeSupabase();
+    const {
+      inserted: [saved],
+    } = await saveJobs(client, USER_ID, [makeJob({ location: "New York, NY", applicationStatus: "saved" })]);
+
+    const result = await applyJobContentChange(client, USER_ID, saved, {
+      ...saved,
+      location: "Boston, MA",
+    });
+
+    expect(result?.changedFields).toEqual(["location"]);
+    expect(tables.jobs[0].fingerprint).toBe("acme|backend engineer|boston");
+
+    // The edited posting found again elsewhere merges into the saved job
+    const rediscovered = await saveJobs(client, USER_ID, [
+      makeJob({ location: "Boston, MA", url: "https://acme.com/careers/1", applicationStatus: "saved" }),
+    ]);
+    expect(rediscovered.alreadySaved.map((job) => job.id)).toEqual([saved.id]);
+  });
+
+  it("drops the fingerprint when another saved job already holds the new one", async () => {
+    const { client, tables, failNextWrite } = createFakeSupabase();
+    const {
+      inserted: [saved],
+    } = await saveJobs(client, USER_ID, [makeJob({ location: "New York, NY", applicationStatus: "saved" })]);
+    failNextWrite("jobs", { code: "23505", message: "duplicate key value violates unique constraint" });
+
+    const result = await applyJobContentChange(client, USER_ID, saved, {
+      ...saved,
+      location: "Boston, MA",
+    });
+
+    expect(result?.job.location).toBe("Boston, MA");
+    expect(tables.jobs[0]).toMatchObject({ location: "Boston, MA", fingerprint: null });
+  });
+
+  it("keeps the fingerprint when only the description changes", async () => {
+    const { client, tables } = createFakeSupabase();
+    const {
+      inserted: [saved],
+    } = await saveJobs(client, USER_ID, [makeJob({ applicationStatus: "saved" })]);
+    const fingerprint = tables.jobs[0].fingerprint;
+
+    await applyJobContentChange(client, USER_ID, saved, { ...saved, description: "Build and run APIs." });
+
+    expect(tables.jobs[0]).toMatchObject({ description: "Build and run APIs.", fingerprint });
+  });
+});
+
+describe("getJobsDueForLivenessCheck", () => {
+  it("returns open postings not checked since the cutoff, never checked first", async () => {
+    const { client, tables } = createFakeSupabase();
+    const titles = ["Checked long ago", "Never checked", "Checked recently", "Closed", "Offer stage"];
+    await saveJobs(
+      client,
+      USER_ID,
+      titles.map((title, index) =>
+        makeJob({
+          title,
+          url: `https://boards.greenhouse.io/acme/jobs/${index + 1}`,
+          applicationStatus: title === "Offer stage" ? "offer" : "applied",
+        })
+      )
+    );
+    const [longAgo, never, recently, closed, offer] = tables.jobs;
+    longAgo.liveness_checked_at = "2026-10-01T00:00:00.000Z";
+    never.liveness_checked_at = null;
+    recently.liveness_checked_at = "2026-10-18T00:00:00.000Z";
+    closed.closed_at = "2026-10-02T00:00:00.000Z";
+    offer.liveness_checked_at = null;
+
+    const due = await getJobsDueForLivenessCheck(client, ["saved", "applied"], "2026-10-16T00:00:00.000Z", 10);
+
+    expect(due.map(({ job }) => job.title)).toEqual(["Never checked", "Checked long ago"]);
+    expect(due.every(({ userId }) => userId === USER_ID)).toBe(true);
+  });
+
+  it("checks at most the given number of postings", async () => {
+    const { client } = createFakeSupabase();
+    await saveJobs(
+      client,
+      USER_ID,
+      ["Backend Engineer", "Data Engineer", "Platform Engineer"].map((title, index) =>
+        makeJob({ title, url: `https://boards.greenhouse.io/acme/jobs/${index + 1}`, applicationStatus: "saved" })
+      )
+    );
+
+    const due = await getJobsDueForLivenessCheck(client, ["saved"], "2026-10-16T00:00:00.000Z", 2);
+
+    expect(due).toHaveLength(2);
+  });
+});
@@ -4,12 +4,41 @@
  * Handles database operations for jobs.
  */
 
-import type { Job, ApplicationStatus, PriorityLevel } from "@/types/job";
+import type {
+  Job,
+  ApplicationStatus,
+  JobContentField,
+  PriorityLevel,
+  ScoringRun,
+} from "@/types/job";
+import type { UserProfile } from "@/types/profile";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { isJobSourceId } from "@/components/agent/sources";
+import {
+  canonicalizeUrl,
+  computeJobFingerprint,
+  mergeDuplicateJob,
+} from "@/lib/jobs/fingerprint";
+import { extractJobRequirements, withStructuredRequirements } from "@/lib/jobs/requirements";
+import { parseSalary, withSalaryRange } from "@/lib/jobs/salary";
+import { computeBaselineScore } from "@/lib/jobs/baseline-score";
+import { reweightJob } from "@/lib/jobs/scoring";
+import { evaluateDealBreakers, withDealBreakers } from "@/lib/jobs/deal-breakers";
+import { computeJobContentHash, diffJobContent, isMaterialChange } from "@/lib/jobs/revisions";
+import { recordJobScores } from "./job-scores";
+import { recordJobRevision } from "./job-revisions";
+import { recordJobStatusEvents, type JobStatusChange } from "./job-status-events";
+import { scheduleStatusReminders } from "./reminders";
+
+/** Postgres error code for a unique index violation */
+const UNIQUE_VIOLATION = "23505";
 
 /**
  * Retrieves all saved jobs for a user from Supabase
  *
+ * Jobs still in the inbox (discovered, not reviewed yet) and dismissed jobs
+ * are left out; use getInboxJobs or getJobsByStatus for those.
+ *
  * @param supabase - Supabase client instance
  * @param userId - User ID
  * @returns Array of Job objects (empty array if none exist)
@@ -23,6 +52,7 @@ export async function getJobs(
       .from("jobs")
       .select("*")
       .eq("user_id", userId)
+      .or("application_status.is.null,application_status.not.in.(inbox,dismissed)")
       .order("discovered_at", { ascending: false });
 
     if (error) {
@@ -43,33 +73,193 @@ export async function getJobs(
 }
 
 /**
- * Saves jobs to Supabase (bulk insert with conflict handling)
+ * Result of a save operation, split into new rows and merged duplicates
+ */
+export interface SaveJobsResult {
+  /** Every persisted job that corresponds to the input (new and existing rows) */
+  jobs: Job[];
+
+  /** Jobs that were inserted as new rows */
+  inserted: Job[];
+
+  /**
+   * Jobs that were waiting in the inbox (or dismissed) and were moved to the
+   * requested status; from the user's point of view these are new saves
+   */
+  movedFromInbox: Job[];
+
+  /** Jobs that matched an already saved row and were merged into it */
+  alreadySaved: Job[];
+}
+
+/**
+ * Saves jobs to Supabase with cross-source deduplication
+ *
+ * Each job is fingerprinted (normalized company + title + location) and its URL
+ * canonicalized. Jobs matching an existing row by either key are merged into
+ * that row instead of being inserted again. New rows are inserted with
+ * ON CONFLICT DO NOTHING on (user_id, fingerprint) so concurrent saves of the
+ * same posting cannot create duplicates.
+ *
+ * When a profile is given, each new or merged job gets a baseline score from
+ * the deterministic scoring engine and is checked against the deal-breaker rules.
  *
  * @param supabase - Supabase client instance
  * @param userId - User ID
  * @param jobs - Array of Job objects to save
- * @returns true if save was successful, false otherwise
+ * @param profile - User profile used for baseline scoring and deal breakers (optional)
+ * @returns Persisted jobs split into inserted, moved out of the inbox and already saved
  */
 export async function saveJobs(
   supabase: SupabaseClient,
   userId: string,
-  jobs: Job[]
-): Promise<Job[]> {
+  jobs: Job[],
+  profile?: UserProfile | null
+): Promise<SaveJobsResult> {
   try {
-    // Map Job interface to database columns
-    const jobRecords = jobs.map((job) => mapJobToDatabase(job, userId));
+    const unknownSource = jobs.find((job) => !isJobSourceId(job.source));
+    if (unknownSource) {
+      throw new Error(
+        `Unknown job source "${unknownSource.source}" for job "${unknownSource.title}"`
+      );
+    }
 
-    const { data, error } = await supabase
-      .from("jobs")
-      .insert(jobRecords)
-      .select("*");
+    // Collapse duplicates within the batch itself (first occurrence wins)
+    const uniqueJobs = new Map<string, Job>();
+    for (const job of jobs) {
+      const fingerprint = computeJobFingerprint(job);
+      if (!uniqueJobs.has(fingerprint)) {
+        uniqueJobs.set(fingerprint, withSalaryRange(withStructuredRequirements(job)));
+      }
+    }
 
-    if (error) {
-      console.error("Error saving jobs to Supabase:", error);
-      throw error;
+    const fingerprints = Array.from(uniqueJobs.keys());
+    const canonicalUrls = Array.from(uniqueJobs.values())
+      .map((job) => canonicalizeUrl(job.url))
+      .filter(Boolean);
+
+    const existingRows = await findExistingJobRows(
+      supabase,
+      userId,
+      fingerprints,
+      canonicalUrls
+    );
+
+    const movedFromInbox: Job[] = [];
+    const alreadySaved: Job[] = [];
+    const newJobs: Job[] = [];
+    const statusChanges: JobStatusChange[] = [];
+
+    for (const [fingerprint, job] of uniqueJobs) {
+      const canonicalUrl = canonicalizeUrl(job.url);
+      const match = existingRows.find(
+        (row) =>
+          row.fingerprint === fingerprint ||
+          (canonicalUrl !== "" && row.canonical_url === canonicalUrl)
+      );
+
+      if (!match) {
+        newJobs.push(job);
+        continue;
+      }
+
+      const existing = mapDatabaseToJob(match);
+      const updates = mergeDuplicateJob(existing, job);
+
+      // Merged-in details are part of the snapshot later edits are compared to
+      if (updates.description || updates.requirements || updates.salary) {
+        updates.contentHash = computeJobContentHash({ ...existing, ...updates });
+      }
+
+      if (profile && (Object.keys(updates).length > 0 || !existing.baselineScore)) {
+        updates.baselineScore = computeBaselineScore({ ...existing, ...updates }, profile);
+        updates.dealBreakerViolations = evaluateDealBreakers(
+          { ...existing, ...updates },
+          profile.dealBreakerRules
+        );
+      }
+
+      if (Object.keys(updates).length > 0) {
+        const { error } = await supabase
+          .from("jobs")
+          .update({
+            ...mapJobUpdatesToDatabase(updates),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", existing.id)
+          .eq("user_id", userId);
+
+        if (error) {
+          console.error("Error merging duplicate job in Supabase:", error);
+          throw error;
+        }
+      }
+
+      if (updates.applicationStatus) {
+        statusChanges.push({
+          jobId: existing.id,
+          fromStatus: existing.applicationStatus,
+          toStatus: updates.applicationStatus,
+        });
+      }
+
+      const leftInbox =
+        updates.applicationStatus !== undefined &&
+        (existing.applicationStatus === "inbox" || existing.applicationStatus === "dismissed");
+      (leftInbox ? movedFromInbox : alreadySaved).push({ ...existing, ...updates });
     }
 
-    return (data || []).map(mapDatabaseToJob);
+    let inserted: Job[] = [];
+
+    if (newJobs.length > 0) {
+      const jobRecords = newJobs.map((job) =>
+        mapJobToDatabase(
+          profile
+            ? withDealBreakers(
+                { ...job, baselineScore: computeBaselineScore(job, profile) },
+                profile.dealBreakerRules
+              )
+            : job,
+          userId
+        )
+      );
+
+      inserted = await insertJobRecords(supabase, jobRecords);
+
+      // The status a job is saved with starts its status history
+      for (const job of inserted) {
+        if (job.applicationStatus) {
+          statusChanges.push({ jobId: job.id, toStatus: job.applicationStatus });
+        }
+      }
+
+      // Rows skipped on conflict were saved by a concurrent request
+      if (inserted.length < newJobs.length) {
+        const insertedFingerprints = new Set(
+          inserted.map((job) => computeJobFingerprint(job))
+        );
+        const racedJobs = newJobs.filter(
+          (job) => !insertedFingerprints.has(computeJobFingerprint(job))
+        );
+
+        const racedRows = await findExistingJobRows(
+          supabase,
+          userId,
+          racedJobs.map((job) => computeJobFingerprint(job)),
+          racedJobs.map((job) => canonicalizeUrl(job.url)).filter(Boolean)
+        );
+        alreadySaved.push(...racedRows.map(mapDatabaseToJob));
+      }
+    }
+
+    await recordJobStatusEvents(supabase, userId, statusChanges);
+
+    return {
+      jobs: [...inserted, ...movedFromInbox, ...alreadySaved],
+      inserted,
+      movedFromInbox,
+      alreadySaved,
+    };
   } catch (error) {
     console.error("Error saving jobs to Supabase:", error);
     throw error;
@@ -79,6 +269,10 @@ export async function saveJobs(
 /**
  * Updates the application status of a specific job
  *
+ * The change is appended to the job's status history (job_status_events)
+ * and schedules the new stage's follow-up reminders (see REMINDER_RULES);
+ * setting the status the job already has changes nothing.
+ *
  * @param supabase - Supabase client instance
  * @param userId - User ID
  * @param jobId - ID of the job to update
@@ -92,12 +286,29 @@ export async function updateJobStatus(
   status: ApplicationStatus
 ): Promise<boolean> {
   try {
+    const { data: current, error: fetchError } = await supabase
+      .from("jobs")
+      .select("application_status")
+      .eq("id", jobId)
+      .eq("user_id", userId)
+      .single();
+
+    if (fetchError) {
+      console.error("Error updating job status in Supabase:", fetchError);
+      return false;
+    }
+
+    if (current.application_status === status) {
+      return true;
+    }
+
+    const now = new Date().toISOString();
     const { error } = await supabase
       .from("jobs")
       .update({
         application_status: status,
-        status_updated_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+        status_updated_at: now,
+        updated_at: now,
       })
       .eq("id", jobId)
       .eq("user_id", userId);
@@ -107,6 +318,15 @@ export async function updateJobStatus(
       return false;
     }
 
+    // The status itself is saved; history and reminders are best effort
+    await recordJobStatusEvents(
+      supabase,
+      userId,
+      [{ jobId, fromStatus: current.application_status ?? undefined, toStatus: status }],
+      now
+    );
+    await scheduleStatusReminders(supabase, userId, jobId, status, now);
+
     return true;
   } catch (error) {
     console.error("Error updating job status in Supabase:", error);
@@ -115,17 +335,22 @@ export async function updateJobStatus(
 }
 
 /**
- * Updates jobs with scoring data from the Job Matching Agent
+ * Updates jobs with scoring data and appends the run to their scoring history
+ *
+ * The jobs table keeps the latest score; every run is also recorded in
+ * job_scores (see recordJobScores) so earlier scores are not lost.
  *
  * @param supabase - Supabase client instance
  * @param userId - User ID
  * @param scoredJobs - Array of jobs with score data
+ * @param run - Context of the scoring run (method, model, weights, profile version)
  * @returns true if update was successful, false otherwise
  */
 export async function updateJobsWithScores(
   supabase: SupabaseClient,
   userId: string,
-  scoredJobs: Job[]
+  scoredJobs: Job[],
+  run: ScoringRun
 ): Promise<boolean> {
   try {
     // Update each job individually
@@ -135,13 +360,17 @@ export async function updateJobsWithScores(
         .update({
           score: job.score,
           score_breakdown: job.scoreBreakdown,
+          score_adjustment: job.scoreAdjustment ?? 0,
           reasoning: job.reasoning,
           gaps: job.gaps,
           priority: job.priority,
+          ...(job.baselineScore ? { baseline_score: job.baselineScore } : {}),
+          ...(job.dealBreakerViolations ? { deal_breaker_violations: job.dealBreakerViolations } : {}),
           updated_at: new Date().toISOString(),
         })
         .eq("id", job.id)
         .eq("user_id", userId)
+        .select("id")
     );
 
     const results = await Promise.all(updates);
@@ -154,13 +383,142 @@ export async function updateJobsWithScores(
       return false;
     }
 
-    return true;
+    // Only record history for jobs that exist (unknown IDs update no rows)
+    const updatedIds = new Set(results.flatMap((result) => (result.data || []).map((row) => row.id)));
+    return await recordJobScores(
+      supabase,
+      userId,
+      scoredJobs.filter((job) => updatedIds.has(job.id)),
+      run
+    );
   } catch (error) {
     console.error("Error updating jobs with scores in Supabase:", error);
     return false;
   }
 }
 
+/**
+ * Recomputes stored scores and priorities under new scoring weights
+ *
+ * Category ratings are kept as-is, so this does not append to the scoring
+ * history (no new scoring run took place).
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param weights - The user's new scoring weights
+ * @returns true if all scored jobs were updated, false otherwise
+ */
+export async function reweightJobScores(
+  supabase: SupabaseClient,
+  userId: string,
+  weights: UserProfile["scoringWeights"]
+): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("id, score, score_breakdown, score_adjustment, priority, baseline_score, deal_breaker_violations")
+      .eq("user_id", userId)
+      .not("score_breakdown", "is", null);
+
+    if (error) {
+      console.error("Error fetching job scores from Supabase:", error);
+      return false;
+    }
+
+    const updates = (data || []).map((row) => {
+      const job = reweightJob(
+        {
+          score: row.score,
+          scoreBreakdown: row.score_breakdown,
+          scoreAdjustment: row.score_adjustment ?? undefined,
+          priority: row.priority,
+          baselineScore: row.baseline_score ?? undefined,
+          dealBreakerViolations: row.deal_breaker_violations ?? undefined,
+        } as Job,
+        weights
+      );
+
+      return supabase
+        .from("jobs")
+        .update({
+          score: job.score,
+          priority: job.priority,
+          ...(job.baselineScore ? { baseline_score: job.baselineScore } : {}),
+        })
+        .eq("id", row.id)
+        .eq("user_id", userId);
+    });
+
+    const results = await Promise.all(updates);
+
+    if (results.some((result) => result.error)) {
+      console.error("Some job score re-weightings failed");
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error re-weighting job scores in Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Re-evaluates every saved job against new deal-breaker rules
+ *
+ * Scores are re-weighted at the same time, so jobs that no longer violate a
+ * rule lose the low-priority cap and newly flagged jobs are capped.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param rules - The user's new deal-breaker rules
+ * @param weights - The user's scoring weights
+ * @returns true if all jobs were updated, false otherwise
+ */
+export async function reevaluateDealBreakers(
+  supabase: SupabaseClient,
+  userId: string,
+  rules: UserProfile["dealBreakerRules"],
+  weights: UserProfile["scoringWeights"]
+): Promise<boolean> {
+  try {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error fetching jobs from Supabase:", error);
+      return false;
+    }
+
+    const updates = (data || []).map((row) => {
+      const job = reweightJob(withDealBreakers(mapDatabaseToJob(row), rules), weights);
+
+      return supabase
+        .from("jobs")
+        .update({
+          deal_breaker_violations: job.dealBreakerViolations ?? null,
+          ...(job.scoreBreakdown ? { score: job.score, priority: job.priority } : {}),
+        })
+        .eq("id", row.id)
+        .eq("user_id", userId);
+    });
+
+    const results = await Promise.all(updates);
+
+    if (results.some((result) => result.error)) {
+      console.error("Some deal-breaker re-evaluations failed");
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error re-evaluating deal breakers in Supabase:", error);
+    return false;
+  }
+}
+
 /**
  * Saves tailored resume data to a specific job
  *
@@ -198,6 +556,43 @@ export async function saveJobResume(
   }
 }
 
+/**
+ * Saves a generated cover letter to a specific job
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the job to update
+ * @param coverLetter - Cover letter to save
+ * @returns true if update was successful, false otherwise
+ */
+export async function saveJobCoverLetter(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string,
+  coverLetter: Job["coverLetter"]
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("jobs")
+      .update({
+        cover_letter: coverLetter,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error saving cover letter to job in Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error saving cover letter to job in Supabase:", error);
+    return false;
+  }
+}
+
 /**
  * Retrieves a single job by ID
  *
@@ -238,6 +633,42 @@ export async function getJobById(
   }
 }
 
+/**
+ * Retrieves which of the given job IDs belong to the user
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobIds - Job IDs to check
+ * @returns The IDs of the user's jobs among them (empty array on error)
+ */
+export async function getOwnedJobIds(
+  supabase: SupabaseClient,
+  userId: string,
+  jobIds: string[]
+): Promise<string[]> {
+  try {
+    if (jobIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("id")
+      .eq("user_id", userId)
+      .in("id", Array.from(new Set(jobIds)));
+
+    if (error) {
+      console.error("Error checking job IDs in Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map((row: { id: string }) => row.id);
+  } catch (error) {
+    console.error("Error checking job IDs in Supabase:", error);
+    return [];
+  }
+}
+
 /**
  * Deletes a specific job by ID
  *
@@ -416,6 +847,179 @@ export async function getScoredJobs(
   }
 }
 
+/**
+ * Gets open postings of every user that are due for a liveness check
+ *
+ * Requires a service-role client (see lib/supabase/admin.ts). Postings already
+ * found closed are not checked again.
+ *
+ * @param supabase - Service-role Supabase client
+ * @param statuses - Application statuses whose postings are checked
+ * @param checkedBefore - ISO timestamp; postings checked after it are skipped
+ * @param limit - Maximum number of jobs
+ * @returns Jobs with their owner's user ID (never checked first, then least recently checked)
+ */
+export async function getJobsDueForLivenessCheck(
+  supabase: SupabaseClient,
+  statuses: ApplicationStatus[],
+  checkedBefore: string,
+  limit: number
+): Promise<Array<{ userId: string; job: Job }>> {
+  try {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("*")
+      .in("application_status", statuses)
+      .is("closed_at", null)
+      .or(`liveness_checked_at.is.null,liveness_checked_at.lt.${checkedBefore}`)
+      .order("liveness_checked_at", { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching jobs due for liveness check from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map((row) => ({ userId: row.user_id, job: mapDatabaseToJob(row) }));
+  } catch (error) {
+    console.error("Error fetching jobs due for liveness check from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Records the outcome of a liveness check
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the checked job
+ * @param liveness - Check time, and when and why the posting closed (if it did)
+ * @returns true if update was successful, false otherwise
+ */
+export async function recordJobLiveness(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string,
+  liveness: { checkedAt: string; closedAt?: string; closedReason?: string }
+): Promise<boolean> {
+  try {
+    const record: Record<string, any> = { liveness_checked_at: liveness.checkedAt };
+    if (liveness.closedAt) {
+      record.closed_at = liveness.closedAt;
+      record.closed_reason = liveness.closedReason ?? null;
+    }
+
+    const { error } = await supabase
+      .from("jobs")
+      .update(record)
+      .eq("id", jobId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error recording job liveness in Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error recording job liveness in Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Applies the current version of a re-fetched posting to a saved job
+ *
+ * Compares the watched fields (see lib/jobs/revisions.ts); when they changed,
+ * the job is updated, the edit is appended to its revision history, and on a
+ * material change the baseline score and deal breakers are recomputed (agent
+ * scores are left for the user to refresh). A location edit also updates the
+ * job's fingerprint so rediscovered copies of the edited posting still merge.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param existing - The saved job
+ * @param fetched - The posting as currently published
+ * @param profile - User profile used for baseline scoring and deal breakers (optional)
+ * @returns The updated job and changed fields, or null if nothing changed or the update failed
+ */
+export async function applyJobContentChange(
+  supabase: SupabaseClient,
+  userId: string,
+  existing: Job,
+  fetched: Job,
+  profile?: UserProfile | null
+): Promise<{ job: Job; changedFields: JobContentField[]; material: boolean } | null> {
+  try {
+    const changedFields = diffJobContent(existing, fetched);
+    if (changedFields.length === 0) {
+      return null;
+    }
+
+    const detectedAt = new Date().toISOString();
+    const updates: Partial<Job> = {};
+    for (const field of changedFields) {
+      if (field === "requirements") {
+        updates.requirements = fetched.requirements;
+        updates.structuredRequirements =
+          fetched.structuredRequirements ??
+          extractJobRequirements(fetched.description || existing.description, fetched.requirements);
+      } else if (field === "salary") {
+        updates.salary = fetched.salary;
+        updates.salaryRange = fetched.salaryRange ?? parseSalary(fetched.salary);
+      } else {
+        updates[field] = fetched[field];
+      }
+    }
+    updates.contentHash = computeJobContentHash({ ...existing, ...updates });
+    updates.contentChangedAt = detectedAt;
+
+    const material = isMaterialChange(changedFields);
+    if (material && profile) {
+      updates.baselineScore = computeBaselineScore({ ...existing, ...updates }, profile);
+      updates.dealBreakerViolations = evaluateDealBreakers(
+        { ...existing, ...updates },
+        profile.dealBreakerRules
+      );
+    }
+
+    const job = { ...existing, ...updates };
+    await recordJobRevision(supabase, userId, existing, job, changedFields, detectedAt);
+
+    const record: Record<string, any> = {
+      ...mapJobUpdatesToDatabase(updates),
+      updated_at: detectedAt,
+    };
+
+    // The dedupe key covers company, title and location, so it follows their edits
+    const fingerprint = computeJobFingerprint(job);
+    if (fingerprint !== computeJobFingerprint(existing)) {
+      record.fingerprint = fingerprint;
+    }
+
+    const update = () =>
+      supabase.from("jobs").update(record).eq("id", existing.id).eq("user_id", userId);
+
+    let { error } = await update();
+
+    // Another saved job already holds the new key; like the backfill, only one row keeps it
+    if (error?.code === UNIQUE_VIOLATION && record.fingerprint) {
+      record.fingerprint = null;
+      ({ error } = await update());
+    }
+
+    if (error) {
+      console.error("Error applying job content change in Supabase:", error);
+      return null;
+    }
+
+    return { job, changedFields, material };
+  } catch (error) {
+    console.error("Error applying job content change in Supabase:", error);
+    return null;
+  }
+}
+
 // =====================================================
 // HELPER FUNCTIONS
 // =====================================================
@@ -430,20 +1034,42 @@ function mapDatabaseToJob(data: any): Job {
     company: data.company,
     location: data.location,
     salary: data.salary,
+    salaryRange:
+      data.salary_currency && data.salary_period
+        ? {
+            min: data.salary_min ?? undefined,
+            max: data.salary_max ?? undefined,
+            currency: data.salary_currency,
+            period: data.salary_period,
+            source: data.salary_source ?? "posted",
+          }
+        : parseSalary(data.salary), // rows saved before salary parsing existed
     description: data.description,
     requirements: data.requirements || [],
     url: data.url,
+    department: data.department ?? undefined,
+    structuredRequirements: data.structured_requirements ?? undefined,
     source: data.source,
     discoveredAt: data.discovered_at,
     score: data.score,
     scoreBreakdown: data.score_breakdown,
+    scoreAdjustment: data.score_adjustment ?? undefined,
     reasoning: data.reasoning,
     gaps: data.gaps,
     priority: data.priority,
+    baselineScore: data.baseline_score ?? undefined,
+    dealBreakerViolations: data.deal_breaker_violations ?? undefined,
     applicationStatus: data.application_status,
     statusUpdatedAt: data.status_updated_at,
+    snoozedUntil: data.snoozed_until ?? undefined,
+    closedAt: data.closed_at ?? undefined,
+    closedReason: data.closed_reason ?? undefined,
+    livenessCheckedAt: data.liveness_checked_at ?? undefined,
+    contentHash: data.content_hash ?? undefined,
+    contentChangedAt: data.content_changed_at ?? undefined,
     notes: data.notes,
     tailoredResume: data.tailored_resume,
+    coverLetter: data.cover_letter ?? undefined,
   };
 }
 
@@ -457,20 +1083,31 @@ function mapJobToDatabase(job: Job, userId: string): any {
     company: job.company,
     location: job.location,
     salary: job.salary,
+    ...mapSalaryRangeToDatabase(job.salaryRange),
     description: job.description,
     requirements: job.requirements || [],
     url: job.url,
+    department: job.department,
+    structured_requirements: job.structuredRequirements,
     source: job.source,
     discovered_at: job.discoveredAt,
     score: job.score,
     score_breakdown: job.scoreBreakdown,
+    score_adjustment: job.scoreAdjustment,
     reasoning: job.reasoning,
     gaps: job.gaps,
     priority: job.priority,
+    baseline_score: job.baselineScore,
+    deal_breaker_violations: job.dealBreakerViolations,
     application_status: job.applicationStatus,
     status_updated_at: job.statusUpdatedAt,
+    snoozed_until: job.snoozedUntil,
     notes: job.notes,
     tailored_resume: job.tailoredResume,
+    cover_letter: job.coverLetter,
+    fingerprint: computeJobFingerprint(job),
+    canonical_url: canonicalizeUrl(job.url),
+    content_hash: computeJobContentHash(job),
   };
 
   if (isValidUuid(job.id)) {
@@ -484,6 +1121,140 @@ function mapJobToDatabase(job: Job, userId: string): any {
   return record;
 }
 
+/**
+ * Maps a parsed salary range to its database columns (all null if absent)
+ */
+function mapSalaryRangeToDatabase(range: Job["salaryRange"]): Record<string, any> {
+  return {
+    salary_min: range?.min ?? null,
+    salary_max: range?.max ?? null,
+    salary_currency: range?.currency ?? null,
+    salary_period: range?.period ?? null,
+    salary_source: range?.source ?? null,
+  };
+}
+
+/**
+ * Maps the fields produced by mergeDuplicateJob to database columns
+ */
+function mapJobUpdatesToDatabase(updates: Partial<Job>): Record<string, any> {
+  const record: Record<string, any> = {};
+
+  if (updates.salary !== undefined) record.salary = updates.salary;
+  if (updates.salaryRange !== undefined) {
+    Object.assign(record, mapSalaryRangeToDatabase(updates.salaryRange));
+  }
+  if (updates.description !== undefined) record.description = updates.description;
+  if (updates.location !== undefined) record.location = updates.location;
+  if (updates.department !== undefined) record.department = updates.department;
+  if (updates.requirements !== undefined) record.requirements = updates.requirements;
+  if (updates.structuredRequirements !== undefined) {
+    record.structured_requirements = updates.structuredRequirements;
+  }
+  if (updates.baselineScore !== undefined) record.baseline_score = updates.baselineScore;
+  if (updates.dealBreakerViolations !== undefined) {
+    record.deal_breaker_violations = updates.dealBreakerViolations;
+  }
+  if (updates.contentHash !== undefined) record.content_hash = updates.contentHash;
+  if (updates.contentChangedAt !== undefined) record.content_changed_at = updates.contentChangedAt;
+  if (updates.applicationStatus !== undefined) {
+    record.application_status = updates.applicationStatus;
+    record.status_updated_at = updates.statusUpdatedAt;
+    // A snooze only applies while the job waits in the inbox
+    if (updates.applicationStatus !== "inbox") record.snoozed_until = null;
+  }
+
+  return record;
+}
+
+/**
+ * Inserts job rows, skipping any that a concurrent save already inserted
+ *
+ * Conflicts on (user_id, fingerprint) are skipped by ON CONFLICT DO NOTHING.
+ * A conflict on the (user_id, canonical_url) index fails the whole batch, so
+ * the rows are then inserted one by one and the conflicting ones skipped.
+ */
+async function insertJobRecords(
+  supabase: SupabaseClient,
+  jobRecords: Record<string, any>[]
+): Promise<Job[]> {
+  const insert = (records: Record<string, any>[]) =>
+    supabase
+      .from("jobs")
+      .upsert(records, {
+        onConflict: "user_id,fingerprint",
+        ignoreDuplicates: true,
+      })
+      .select("*");
+
+  const { data, error } = await insert(jobRecords);
+
+  if (!error) {
+    return (data || []).map(mapDatabaseToJob);
+  }
+
+  if (error.code !== UNIQUE_VIOLATION) {
+    console.error("Error saving jobs to Supabase:", error);
+    throw error;
+  }
+
+  // A single conflicting row was inserted concurrently under the same URL
+  if (jobRecords.length === 1) {
+    return [];
+  }
+
+  const inserted: Job[] = [];
+  for (const record of jobRecords) {
+    inserted.push(...(await insertJobRecords(supabase, [record])));
+  }
+  return inserted;
+}
+
+/**
+ * Finds saved rows matching any of the given fingerprints or canonical URLs
+ */
+async function findExistingJobRows(
+  supabase: SupabaseClient,
+  userId: string,
+  fingerprints: string[],
+  canonicalUrls: string[]
+): Promise<any[]> {
+  if (fingerprints.length === 0 && canonicalUrls.length === 0) {
+    return [];
+  }
+
+  const [byFingerprint, byUrl] = await Promise.all([
+    fingerprints.length > 0
+      ? supabase
+          .from("jobs")
+          .select("*")
+          .eq("user_id", userId)
+          .in("fingerprint", fingerprints)
+      : Promise.resolve({ data: [], error: null }),
+    canonicalUrls.length > 0
+      ? supabase
+          .from("jobs")
+          .select("*")
+          .eq("user_id", userId)
+          .in("canonical_url", canonicalUrls)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (byFingerprint.error || byUrl.error) {
+    const error = byFingerprint.error || byUrl.error;
+    console.error("Error looking up existing jobs in Supabase:", error);
+    throw error;
+  }
+
+  // Merge both result sets, keeping one entry per row
+  const rows = new Map<string, any>();
+  for (const row of [...(byFingerprint.data || []), ...(byUrl.data || [])]) {
+    rows.set(row.id, row);
+  }
+
+  return Array.from(rows.values());
+}
+
 function isValidUuid(value?: string | null): value is string {
   if (!value) return false;
   const uuidRegex =
@@ -0,0 +1,153 @@
+/**
+ * Job Offers Supabase Queries
+ *
+ * Handles database operations for the offers entered for jobs (one per job).
+ */
+
+import type { JobOffer } from "@/types/offer";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { OfferInput } from "@/lib/jobs/offers";
+
+/**
+ * Retrieves all offers of a user
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @returns Array of offers (empty array if none exist)
+ */
+export async function getOffers(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<JobOffer[]> {
+  try {
+    const { data, error } = await supabase
+      .from("job_offers")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching job offers from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToOffer);
+  } catch (error) {
+    console.error("Error fetching job offers from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Saves the offer for a job, replacing any offer entered before
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the job
+ * @param offer - Offer terms
+ * @returns The saved offer, or null if saving failed
+ */
+export async function saveOffer(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string,
+  offer: OfferInput
+): Promise<JobOffer | null> {
+  try {
+    const { data, error } = await supabase
+      .from("job_offers")
+      .upsert(
+        {
+          job_id: jobId,
+          user_id: userId,
+          currency: offer.currency,
+          base_salary: offer.baseSalary,
+          annual_bonus: offer.annualBonus,
+          sign_on_bonus: offer.signOnBonus,
+          equity_value: offer.equityValue,
+          vesting_schedule: offer.vestingSchedule,
+          cliff_months: offer.cliffMonths,
+          benefits: offer.benefits || null,
+          benefits_value: offer.benefitsValue,
+          start_date: offer.startDate ?? null,
+          deadline: offer.deadline ?? null,
+          factor_ratings: offer.factorRatings,
+          notes: offer.notes || null,
+        },
+        { onConflict: "job_id" }
+      )
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error saving job offer to Supabase:", error);
+      return null;
+    }
+
+    return mapDatabaseToOffer(data);
+  } catch (error) {
+    console.error("Error saving job offer to Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Deletes the offer of a job
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the job
+ * @returns true if deletion was successful, false otherwise
+ */
+export async function deleteOffer(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("job_offers")
+      .delete()
+      .eq("job_id", jobId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting job offer from Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error deleting job offer from Supabase:", error);
+    return false;
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Maps database row to JobOffer interface (NUMERIC columns arrive as strings)
+ */
+function mapDatabaseToOffer(data: any): JobOffer {
+  return {
+    id: data.id,
+    jobId: data.job_id,
+    currency: data.currency,
+    baseSalary: Number(data.base_salary),
+    annualBonus: Number(data.annual_bonus),
+    signOnBonus: Number(data.sign_on_bonus),
+    equityValue: Number(data.equity_value),
+    vestingSchedule: (data.vesting_schedule || []).map(Number),
+    cliffMonths: data.cliff_months,
+    benefits: data.benefits ?? undefined,
+    benefitsValue: Number(data.benefits_value),
+    startDate: data.start_date ?? undefined,
+    deadline: data.deadline ?? undefined,
+    factorRatings: data.factor_ratings || {},
+    notes: data.notes ?? undefined,
+    createdAt: data.created_at,
+    updatedAt: data.updated_at,
+  };
+}
@@ -47,6 +47,9 @@ export async function getProfile(
       preferredLocations: data.preferred_locations || [],
       jobPreferences: data.job_preferences || [],
       dealBreakers: data.deal_breakers || "",
+      dealBreakerRules: data.deal_breaker_rules || [],
+      companyBlocklist: data.company_blocklist || [],
+      companyAllowlist: data.company_allowlist || [],
       companyPreferences: data.company_preferences || undefined,
       scoringWeights: data.scoring_weights || {
         salaryMatch: 30,
@@ -55,6 +58,7 @@ export async function getProfile(
         roleMatch: 15,
         requirementsFit: 10,
       },
+      customCategories: data.custom_scoring_categories || [],
       updatedAt: data.updated_at,
       createdVia: data.created_via,
     };
@@ -92,8 +96,12 @@ export async function saveProfile(
         preferred_locations: profile.preferredLocations,
         job_preferences: profile.jobPreferences,
         deal_breakers: profile.dealBreakers,
+        deal_breaker_rules: profile.dealBreakerRules || [],
+        company_blocklist: profile.companyBlocklist || [],
+        company_allowlist: profile.companyAllowlist || [],
         company_preferences: profile.companyPreferences || null,
         scoring_weights: profile.scoringWeights,
+        custom_scoring_categories: profile.customCategories || [],
         created_via: profile.createdVia,
         updated_at: new Date().toISOString(),
       },
@@ -0,0 +1,336 @@
+/**
+ * Job Reminders Supabase Queries
+ *
+ * Handles database operations for follow-up reminders and the calendar feed
+ * that exports them.
+ */
+
+import type { ApplicationStatus } from "@/types/job";
+import type { JobReminder } from "@/types/reminder";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  getStatusReminders,
+  type ReminderInput,
+  type ReminderUpdate,
+} from "@/lib/jobs/reminders";
+
+/**
+ * Creates the reminders for a job that just entered a stage
+ *
+ * Open reminders created for the job's earlier stages are removed first;
+ * reminders the user completed are kept.
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param jobId - ID of the job
+ * @param status - The job's new status
+ * @param changedAt - ISO timestamp of the status change
+ * @returns true if the reminders were scheduled, false otherwise
+ */
+export async function scheduleStatusReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  jobId: string,
+  status: ApplicationStatus,
+  changedAt: string
+): Promise<boolean> {
+  try {
+    const { error: deleteError } = await supabase
+      .from("job_reminders")
+      .delete()
+      .eq("user_id", userId)
+      .eq("job_id", jobId)
+      .not("trigger", "is", null)
+      .is("completed_at", null);
+
+    if (deleteError) {
+      console.error("Error replacing job reminders in Supabase:", deleteError);
+      return false;
+    }
+
+    const drafts = getStatusReminders(status, changedAt);
+
+    if (drafts.length === 0) {
+      return true;
+    }
+
+    const { error } = await supabase.from("job_reminders").insert(
+      drafts.map((draft) => ({
+        job_id: jobId,
+        user_id: userId,
+        title: draft.title,
+        notes: draft.notes ?? null,
+        due_at: draft.dueAt,
+        trigger: draft.trigger ?? null,
+      }))
+    );
+
+    if (error) {
+      console.error("Error creating job reminders in Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error scheduling job reminders in Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Retrieves a user's reminders with their job details, soonest due first
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param includeCompleted - Also return completed reminders
+ * @returns Array of reminders (empty if none or on error)
+ */
+export async function getReminders(
+  supabase: SupabaseClient,
+  userId: string,
+  includeCompleted: boolean = false
+): Promise<JobReminder[]> {
+  try {
+    let query = supabase
+      .from("job_reminders")
+      .select("*, jobs(title, company, url)")
+      .eq("user_id", userId)
+      .order("due_at", { ascending: true });
+
+    if (!includeCompleted) {
+      query = query.is("completed_at", null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching job reminders from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToReminder);
+  } catch (error) {
+    console.error("Error fetching job reminders from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Creates a reminder added by the user (not tied to a status change, so it is
+ * kept when the job moves on)
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param reminder - Job, title, notes and due date
+ * @returns The created reminder, or null on error
+ */
+export async function createReminder(
+  supabase: SupabaseClient,
+  userId: string,
+  reminder: ReminderInput
+): Promise<JobReminder | null> {
+  try {
+    const { data, error } = await supabase
+      .from("job_reminders")
+      .insert({
+        job_id: reminder.jobId,
+        user_id: userId,
+        title: reminder.title,
+        notes: reminder.notes || null,
+        due_at: reminder.dueAt,
+        trigger: null,
+      })
+      .select("*, jobs(title, company, url)")
+      .single();
+
+    if (error) {
+      console.error("Error creating job reminder in Supabase:", error);
+      return null;
+    }
+
+    return mapDatabaseToReminder(data);
+  } catch (error) {
+    console.error("Error creating job reminder in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Updates a reminder (title, notes, due date or completion)
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param reminderId - ID of the reminder
+ * @param updates - Fields to change
+ * @returns The updated reminder, or null on error
+ */
+export async function updateReminder(
+  supabase: SupabaseClient,
+  userId: string,
+  reminderId: string,
+  updates: ReminderUpdate
+): Promise<JobReminder | null> {
+  try {
+    const record: Record<string, any> = {};
+    if (updates.title !== undefined) record.title = updates.title;
+    if (updates.notes !== undefined) record.notes = updates.notes || null;
+    if (updates.dueAt !== undefined) record.due_at = updates.dueAt;
+    if (updates.completed !== undefined) {
+      record.completed_at = updates.completed ? new Date().toISOString() : null;
+    }
+
+    const { data, error } = await supabase
+      .from("job_reminders")
+      .update(record)
+      .eq("id", reminderId)
+      .eq("user_id", userId)
+      .select("*, jobs(title, company, url)")
+      .single();
+
+    if (error) {
+      console.error("Error updating job reminder in Supabase:", error);
+      return null;
+    }
+
+    return mapDatabaseToReminder(data);
+  } catch (error) {
+    console.error("Error updating job reminder in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Deletes a reminder
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param reminderId - ID of the reminder
+ * @returns true if deletion was successful, false otherwise
+ */
+export async function deleteReminder(
+  supabase: SupabaseClient,
+  userId: string,
+  reminderId: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("job_reminders")
+      .delete()
+      .eq("id", reminderId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting job reminder from Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error deleting job reminder from Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Retrieves the secret token of a user's calendar feed, creating it if needed
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param rotate - Replace the existing token (old feed URLs stop working)
+ * @returns The feed token, or null on error
+ */
+export async function getCalendarFeedToken(
+  supabase: SupabaseClient,
+  userId: string,
+  rotate: boolean = false
+): Promise<string | null> {
+  try {
+    if (!rotate) {
+      const { data, error } = await supabase
+        .from("calendar_feeds")
+        .select("token")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching calendar feed from Supabase:", error);
+        return null;
+      }
+
+      if (data) {
+        return data.token;
+      }
+    }
+
+    const token = crypto.randomUUID().replace(/-/g, "");
+    const { error } = await supabase
+      .from("calendar_feeds")
+      .upsert({ user_id: userId, token, created_at: new Date().toISOString() });
+
+    if (error) {
+      console.error("Error saving calendar feed to Supabase:", error);
+      return null;
+    }
+
+    return token;
+  } catch (error) {
+    console.error("Error getting calendar feed token from Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Looks up the user a calendar feed token belongs to
+ *
+ * Feeds are fetched by calendar clients without a session, so this needs a
+ * service-role client.
+ *
+ * @param supabase - Supabase service-role client
+ * @param token - Feed token from the URL
+ * @returns The user ID, or null if the token is unknown
+ */
+export async function getCalendarFeedUserId(
+  supabase: SupabaseClient,
+  token: string
+): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching calendar feed from Supabase:", error);
+      return null;
+    }
+
+    return data?.user_id ?? null;
+  } catch (error) {
+    console.error("Error fetching calendar feed from Supabase:", error);
+    return null;
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Maps database row (with the joined job) to JobReminder interface
+ */
+function mapDatabaseToReminder(data: any): JobReminder {
+  return {
+    id: data.id,
+    jobId: data.job_id,
+    title: data.title,
+    notes: data.notes ?? undefined,
+    dueAt: data.due_at,
+    completedAt: data.completed_at ?? undefined,
+    trigger: data.trigger ?? undefined,
+    createdAt: data.created_at,
+    job: data.jobs
+      ? { title: data.jobs.title, company: data.jobs.company, url: data.jobs.url }
+      : undefined,
+  };
+}
@@ -7,18 +7,24 @@
 
 import type { Resume, ResumeFormat } from "@/types/resume";
 import type { SupabaseClient } from "@supabase/supabase-js";
-import { parseResumeSections } from "@/types/resume";
+import { isDocumentResumeFormat, parseResumeSections } from "@/types/resume";
 
 const STORAGE_BUCKET = "resumes";
 
+const DOCUMENT_CONTENT_TYPES = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
 /**
  * Uploads resume to Supabase Storage and saves metadata to database
  *
  * @param supabase - Supabase client instance
  * @param userId - User ID
  * @param name - Resume name
- * @param file - File object or content string
- * @param format - Resume format (markdown or text)
+ * @param file - File object or content string (for PDF and DOCX, the extracted markdown)
+ * @param format - Resume format (markdown, text, pdf or docx)
+ * @param originalFile - The uploaded PDF or DOCX file, kept alongside the extracted markdown
  * @returns Resume object if successful, null otherwise
  */
 export async function uploadResume(
@@ -26,11 +32,12 @@ export async function uploadResume(
   userId: string,
   name: string,
   file: File | string,
-  format: ResumeFormat
+  format: ResumeFormat,
+  originalFile?: File
 ): Promise<Resume | null> {
   try {
     const resumeId = crypto.randomUUID();
-    const extension = format === "markdown" ? "md" : "txt";
+    const extension = format === "text" ? "txt" : "md";
     const filePath = `${userId}/${resumeId}.${extension}`;
 
     // Upload file to Storage
@@ -38,7 +45,7 @@ export async function uploadResume(
     const { error: uploadError } = await supabase.storage
       .from(STORAGE_BUCKET)
       .upload(filePath, fileContent, {
-        contentType: format === "markdown" ? "text/markdown" : "text/plain",
+        contentType: format === "text" ? "text/plain" : "text/markdown",
         upsert: false,
       });
 
@@ -47,6 +54,30 @@ export async function uploadResume(
       return null;
     }
 
+    // Keep the original PDF or DOCX next to its extracted markdown
+    let originalFilePath: string | null = null;
+    if (isDocumentResumeFormat(format)) {
+      if (!originalFile) {
+        console.error("Missing original file for", format, "resume");
+        await supabase.storage.from(STORAGE_BUCKET).remove([filePath]);
+        return null;
+      }
+
+      originalFilePath = `${userId}/${resumeId}.${format}`;
+      const { error: originalError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(originalFilePath, originalFile, {
+          contentType: DOCUMENT_CONTENT_TYPES[format],
+          upsert: false,
+        });
+
+      if (originalError) {
+        console.error("Error uploading original resume file to Storage:", originalError);
+        await supabase.storage.from(STORAGE_BUCKET).remove([filePath]);
+        return null;
+      }
+    }
+
     // Calculate file size
     const fileSize = new Blob([fileContent]).size;
 
@@ -61,6 +92,7 @@ export async function uploadResume(
         user_id: userId,
         name,
         file_path: filePath,
+        original_file_path: originalFilePath,
         file_size: fileSize,
         format,
         is_master: true,
@@ -71,8 +103,10 @@ export async function uploadResume(
 
     if (dbError) {
       console.error("Error saving resume metadata to database:", dbError);
-      // Clean up uploaded file
-      await supabase.storage.from(STORAGE_BUCKET).remove([filePath]);
+      // Clean up uploaded files
+      await supabase.storage
+        .from(STORAGE_BUCKET)
+        .remove(originalFilePath ? [filePath, originalFilePath] : [filePath]);
       return null;
     }
 
@@ -329,7 +363,7 @@ export async function deleteResume(
     // Get file_path from database
     const { data: metadata, error: dbError } = await supabase
       .from("resumes")
-      .select("file_path")
+      .select("file_path, original_file_path")
       .eq("id", resumeId)
       .eq("user_id", userId)
       .single();
@@ -339,10 +373,14 @@ export async function deleteResume(
       return false;
     }
 
-    // Delete from Storage
+    // Delete from Storage (with the original PDF or DOCX, if any)
     const { error: storageError } = await supabase.storage
       .from(STORAGE_BUCKET)
-      .remove([metadata.file_path]);
+      .remove(
+        metadata.original_file_path
+          ? [metadata.file_path, metadata.original_file_path]
+          : [metadata.file_path]
+      );
 
     if (storageError) {
       console.error("Error deleting resume from Storage:", storageError);
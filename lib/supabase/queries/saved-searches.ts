@@ -0,0 +1,358 @@
+/**
+ * Saved Searches Supabase Queries
+ *
+ * Handles database operations for saved searches and their run history.
+ */
+
+import type { SavedSearch, SavedSearchRun } from "@/types/saved-search";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Saved search fields the user can set
+ */
+export type SavedSearchInput = Omit<SavedSearch, "id" | "lastRunAt" | "createdAt">;
+
+/**
+ * Retrieves all saved searches of a user (newest first)
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @returns Array of saved searches (empty array if none exist)
+ */
+export async function getSavedSearches(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<SavedSearch[]> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching saved searches from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToSavedSearch);
+  } catch (error) {
+    console.error("Error fetching saved searches from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Retrieves a single saved search
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param searchId - ID of the saved search
+ * @returns The saved search, or null if not found
+ */
+export async function getSavedSearchById(
+  supabase: SupabaseClient,
+  userId: string,
+  searchId: string
+): Promise<SavedSearch | null> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("id", searchId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching saved search from Supabase:", error);
+      return null;
+    }
+
+    return data ? mapDatabaseToSavedSearch(data) : null;
+  } catch (error) {
+    console.error("Error fetching saved search from Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Retrieves the enabled saved searches of every user, for scheduled runs
+ *
+ * Requires a service-role client (see lib/supabase/admin.ts), since row level
+ * security limits regular clients to the signed-in user's rows.
+ *
+ * @param supabase - Service-role Supabase client
+ * @returns Enabled saved searches with their owner's user ID (least recently run first)
+ */
+export async function getEnabledSavedSearches(
+  supabase: SupabaseClient
+): Promise<Array<{ userId: string; search: SavedSearch }>> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .select("*")
+      .eq("enabled", true)
+      .order("last_run_at", { ascending: true, nullsFirst: true });
+
+    if (error) {
+      console.error("Error fetching enabled saved searches from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map((row) => ({
+      userId: row.user_id,
+      search: mapDatabaseToSavedSearch(row),
+    }));
+  } catch (error) {
+    console.error("Error fetching enabled saved searches from Supabase:", error);
+    return [];
+  }
+}
+
+/**
+ * Creates a saved search
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param search - Saved search fields
+ * @returns The created saved search, or null if the insert failed
+ */
+export async function createSavedSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  search: SavedSearchInput
+): Promise<SavedSearch | null> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .insert({ ...mapSavedSearchToDatabase(search), user_id: userId })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error creating saved search in Supabase:", error);
+      return null;
+    }
+
+    return mapDatabaseToSavedSearch(data);
+  } catch (error) {
+    console.error("Error creating saved search in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Updates a saved search
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param searchId - ID of the saved search
+ * @param updates - Fields to change
+ * @returns The updated saved search, or null if the update failed
+ */
+export async function updateSavedSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  searchId: string,
+  updates: Partial<SavedSearchInput>
+): Promise<SavedSearch | null> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_searches")
+      .update(mapSavedSearchToDatabase(updates))
+      .eq("id", searchId)
+      .eq("user_id", userId)
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error updating saved search in Supabase:", error);
+      return null;
+    }
+
+    return mapDatabaseToSavedSearch(data);
+  } catch (error) {
+    console.error("Error updating saved search in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Deletes a saved search (its runs are deleted with it; jobs it found are kept)
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param searchId - ID of the saved search
+ * @returns true if deletion was successful, false otherwise
+ */
+export async function deleteSavedSearch(
+  supabase: SupabaseClient,
+  userId: string,
+  searchId: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabase
+      .from("saved_searches")
+      .delete()
+      .eq("id", searchId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error deleting saved search from Supabase:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error deleting saved search from Supabase:", error);
+    return false;
+  }
+}
+
+/**
+ * Records a run of a saved search and updates its last run time
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param run - Run outcome (without ID)
+ * @returns The recorded run, or null if the insert failed
+ */
+export async function recordSavedSearchRun(
+  supabase: SupabaseClient,
+  userId: string,
+  run: Omit<SavedSearchRun, "id">
+): Promise<SavedSearchRun | null> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_search_runs")
+      .insert({
+        saved_search_id: run.savedSearchId,
+        user_id: userId,
+        trigger: run.trigger,
+        found_count: run.foundCount,
+        filtered_count: run.filteredCount,
+        new_count: run.newCount,
+        already_seen_count: run.alreadySeenCount,
+        errors: run.errors,
+        started_at: run.startedAt,
+        finished_at: run.finishedAt,
+      })
+      .select("*")
+      .single();
+
+    if (error) {
+      console.error("Error recording saved search run in Supabase:", error);
+      return null;
+    }
+
+    const { error: updateError } = await supabase
+      .from("saved_searches")
+      .update({ last_run_at: run.startedAt })
+      .eq("id", run.savedSearchId)
+      .eq("user_id", userId);
+
+    if (updateError) {
+      console.error("Error updating saved search last run in Supabase:", updateError);
+    }
+
+    return mapDatabaseToSavedSearchRun(data);
+  } catch (error) {
+    console.error("Error recording saved search run in Supabase:", error);
+    return null;
+  }
+}
+
+/**
+ * Retrieves the most recent runs of a saved search (newest first)
+ *
+ * @param supabase - Supabase client instance
+ * @param userId - User ID
+ * @param searchId - ID of the saved search
+ * @param limit - Maximum number of runs (default 20)
+ * @returns Array of runs (empty array if none exist)
+ */
+export async function getSavedSearchRuns(
+  supabase: SupabaseClient,
+  userId: string,
+  searchId: string,
+  limit = 20
+): Promise<SavedSearchRun[]> {
+  try {
+    const { data, error } = await supabase
+      .from("saved_search_runs")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("saved_search_id", searchId)
+      .order("started_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error fetching saved search runs from Supabase:", error);
+      return [];
+    }
+
+    return (data || []).map(mapDatabaseToSavedSearchRun);
+  } catch (error) {
+    console.error("Error fetching saved search runs from Supabase:", error);
+    return [];
+  }
+}
+
+// =====================================================
+// HELPER FUNCTIONS
+// =====================================================
+
+/**
+ * Maps database row to SavedSearch interface
+ */
+function mapDatabaseToSavedSearch(data: any): SavedSearch {
+  return {
+    id: data.id,
+    name: data.name,
+    query: data.query,
+    location: data.location || undefined,
+    sources: data.sources || [],
+    filters: data.filters || {},
+    resultsCount: data.results_count,
+    frequency: data.frequency,
+    enabled: data.enabled,
+    lastRunAt: data.last_run_at || undefined,
+    createdAt: data.created_at,
+  };
+}
+
+/**
+ * Maps SavedSearch fields to database columns (only the fields present)
+ */
+function mapSavedSearchToDatabase(search: Partial<SavedSearchInput>): Record<string, any> {
+  const record: Record<string, any> = {};
+
+  if (search.name !== undefined) record.name = search.name;
+  if (search.query !== undefined) record.query = search.query;
+  if (search.location !== undefined) record.location = search.location || null;
+  if (search.sources !== undefined) record.sources = search.sources;
+  if (search.filters !== undefined) record.filters = search.filters;
+  if (search.resultsCount !== undefined) record.results_count = search.resultsCount;
+  if (search.frequency !== undefined) record.frequency = search.frequency;
+  if (search.enabled !== undefined) record.enabled = search.enabled;
+
+  return record;
+}
+
+/**
+ * Maps database row to SavedSearchRun interface
+ */
+function mapDatabaseToSavedSearchRun(data: any): SavedSearchRun {
+  return {
+    id: data.id,
+    savedSearchId: data.saved_search_id,
+    trigger: data.trigger,
+    foundCount: data.found_count,
+    filteredCount: data.filtered_count,
+    newCount: data.new_count,
+    alreadySeenCount: data.already_seen_count,
+    errors: data.errors || [],
+    startedAt: data.started_at,
+    finishedAt: data.finished_at,
+  };
+}
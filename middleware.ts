@@ -43,7 +43,9 @@ export async function middleware(request: NextRequest) {
   const protectedRoutes = [
     '/',          // Home/Chat page
     '/profile',   // Profile page
+    '/inbox',     // Job inbox
     '/jobs',      // Jobs dashboard
+    '/offers',    // Offer comparison
     '/resumes',   // Resume library
   ]
 
@@ -0,0 +1,75 @@
+-- Migration: Add contacts
+-- Date: 2026-10-19
+-- Description: Adds contacts (recruiters, hiring managers, referrals, ...) with their
+--              company, and contact_jobs linking them to specific jobs. A job shows
+--              the contacts linked to it and those at its company.
+
+-- Create contacts and contact_jobs tables
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Contact details
+  name TEXT NOT NULL,
+  role TEXT,
+  email TEXT,
+  linkedin_url TEXT,
+  relationship TEXT NOT NULL DEFAULT 'other' CHECK (relationship IN ('recruiter', 'hiring_manager', 'referral', 'interviewer', 'colleague', 'other')),
+  company TEXT, -- Matched against job companies and their aliases (see lib/jobs/contacts.ts)
+  notes TEXT,
+  last_contacted_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Jobs a contact is linked to
+CREATE TABLE IF NOT EXISTS contact_jobs (
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  PRIMARY KEY (contact_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_contacts_user ON contacts(user_id, name);
+CREATE INDEX IF NOT EXISTS idx_contact_jobs_job ON contact_jobs(job_id);
+
+-- Row level security
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contacts"
+  ON contacts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own contacts"
+  ON contacts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own contacts"
+  ON contacts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contacts"
+  ON contacts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- CONTACT JOBS POLICIES
+CREATE POLICY "Users can view their own contact job links"
+  ON contact_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own contact job links"
+  ON contact_jobs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contact job links"
+  ON contact_jobs FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
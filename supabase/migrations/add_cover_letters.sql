@@ -0,0 +1,6 @@
+-- Migration: Add cover letters
+-- Date: 2026-10-19
+-- Description: Adds cover_letter to jobs, the letter written by the Cover Letter Agent
+--              with its tone, length, addressed requirements, company facts and gaps.
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS cover_letter JSONB;
@@ -0,0 +1,21 @@
+-- Migration: Add structured deal-breaker rules
+-- Date: 2026-10-19
+-- Description: Adds deal_breaker_rules JSONB column to profiles holding structured
+--              deal breakers (on-site only, salary floor, clearance, company blocklist,
+--              contract roles, keywords) that are checked in code rather than by the
+--              agents. Adds deal_breaker_violations JSONB column to jobs recording the
+--              rules a job breaks; such jobs are hidden from discovery and capped at
+--              low priority. Existing jobs are re-evaluated the next time the rules
+--              are saved.
+
+-- Add deal_breaker_rules column to profiles table
+ALTER TABLE profiles
+ADD COLUMN deal_breaker_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Add deal_breaker_violations column to jobs table
+ALTER TABLE jobs
+ADD COLUMN deal_breaker_violations JSONB;
+
+-- Add comments to document the columns' purpose
+COMMENT ON COLUMN profiles.deal_breaker_rules IS 'Structured deal breakers: [{ type, ...params }], checked in code against every job';
+COMMENT ON COLUMN jobs.deal_breaker_violations IS 'Deal-breaker rules the job breaks: [{ rule, message }], NULL if none';
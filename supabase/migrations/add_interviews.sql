@@ -0,0 +1,57 @@
+-- Migration: Add interviews
+-- Date: 2026-10-19
+-- Description: Adds interviews, one row per interview round logged for a job: date,
+--              format, interviewers, questions asked (with answers), self-assessment
+--              and outcome. Past interviews are given to the Resume Generator and the
+--              interview prep assistant.
+
+-- Create interviews table
+CREATE TABLE IF NOT EXISTS interviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Round details
+  round TEXT, -- e.g. "Recruiter screen", "System design"
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  format TEXT NOT NULL DEFAULT 'video' CHECK (format IN ('phone', 'video', 'onsite', 'take_home', 'other')),
+  interviewers TEXT[] NOT NULL DEFAULT '{}',
+  questions JSONB NOT NULL DEFAULT '[]', -- [{question, answer?}]
+
+  -- How it went
+  self_assessment TEXT,
+  rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+  outcome TEXT NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'passed', 'rejected', 'cancelled')),
+  notes TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_interviews_job ON interviews(user_id, job_id, scheduled_at DESC);
+
+-- Row level security
+ALTER TABLE interviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own interviews"
+  ON interviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own interviews"
+  ON interviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own interviews"
+  ON interviews FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own interviews"
+  ON interviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_interviews_updated_at
+  BEFORE UPDATE ON interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
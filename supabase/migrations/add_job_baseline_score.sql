@@ -0,0 +1,13 @@
+-- Migration: Add baseline_score column to jobs table
+-- Date: 2026-10-19
+-- Description: Adds optional baseline_score JSONB column holding the deterministic
+--              rule-based score (salary, location and requirements sub-scores using the
+--              user's scoring weights) computed when a job is saved. Existing rows stay
+--              NULL; the Job Matching Agent recomputes baselines when scoring.
+
+-- Add baseline_score column to jobs table
+ALTER TABLE jobs
+ADD COLUMN baseline_score JSONB;
+
+-- Add comment to document the column's purpose
+COMMENT ON COLUMN jobs.baseline_score IS 'Rule-based baseline score: { score, scoreBreakdown, priority, computedCategories, notes, gaps, version, computedAt }';
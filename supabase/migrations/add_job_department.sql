@@ -0,0 +1,11 @@
+-- Migration: Add department column to jobs table
+-- Date: 2026-10-19
+-- Description: Adds optional department TEXT column populated by ATS job sources
+--              (Greenhouse departments, Lever department/team categories)
+
+-- Add department column to jobs table
+ALTER TABLE jobs
+ADD COLUMN department TEXT;
+
+-- Add comment to document the column's purpose
+COMMENT ON COLUMN jobs.department IS 'Department or team of the posting, as provided by ATS job sources';
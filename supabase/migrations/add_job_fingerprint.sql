@@ -0,0 +1,22 @@
+-- Migration: Add deduplication keys to jobs table
+-- Date: 2026-10-19
+-- Description: Adds fingerprint (normalized company|title|location) and canonical_url
+--              columns used by saveJobs to merge the same posting found via different
+--              sources. The unique index prevents concurrent saves from racing.
+--              Existing rows keep NULL keys (NULLs never conflict) and are not
+--              deduplicated retroactively.
+
+-- Add deduplication columns to jobs table
+ALTER TABLE jobs
+ADD COLUMN fingerprint TEXT,
+ADD COLUMN canonical_url TEXT;
+
+-- One row per posting per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_user_fingerprint ON jobs(user_id, fingerprint);
+
+-- Lookup by canonical posting URL
+CREATE INDEX IF NOT EXISTS idx_jobs_canonical_url ON jobs(user_id, canonical_url);
+
+-- Add comments to document the columns' purpose
+COMMENT ON COLUMN jobs.fingerprint IS 'Normalized company|title|location key used to deduplicate postings across sources';
+COMMENT ON COLUMN jobs.canonical_url IS 'Posting URL with tracking parameters stripped, used to deduplicate postings';
@@ -0,0 +1,20 @@
+-- Migration: Add posting liveness tracking
+-- Date: 2026-10-19
+-- Description: Saved job postings are re-fetched periodically by
+--              /api/cron/job-liveness. Adds closed_at and closed_reason, set when a
+--              posting returns 404, stops accepting applications or redirects to a
+--              general careers page, and liveness_checked_at for scheduling checks.
+
+-- Add liveness columns
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS closed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS closed_reason TEXT,
+ADD COLUMN IF NOT EXISTS liveness_checked_at TIMESTAMPTZ;
+
+-- Open postings, least recently checked first
+CREATE INDEX IF NOT EXISTS idx_jobs_liveness_due
+ON jobs(liveness_checked_at NULLS FIRST)
+WHERE closed_at IS NULL;
+
+COMMENT ON COLUMN jobs.closed_at IS 'When the liveness check found the posting closed or expired, NULL while open';
+COMMENT ON COLUMN jobs.closed_reason IS 'Why the posting is considered closed (e.g. "Posting returned 404")';
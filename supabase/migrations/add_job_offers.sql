@@ -0,0 +1,62 @@
+-- Migration: Add job offers
+-- Date: 2026-10-19
+-- Description: Adds job_offers, the offer terms entered for a job (base, bonus, equity
+--              with vesting schedule, sign-on, benefits, start date, deadline) and the
+--              user's ratings of its non-monetary factors, for the offer comparison.
+
+-- Create job_offers table
+CREATE TABLE IF NOT EXISTS job_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL UNIQUE REFERENCES jobs(id) ON DELETE CASCADE, -- One offer per job
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Compensation (in currency)
+  currency TEXT NOT NULL DEFAULT 'USD',
+  base_salary NUMERIC NOT NULL CHECK (base_salary >= 0),
+  annual_bonus NUMERIC NOT NULL DEFAULT 0 CHECK (annual_bonus >= 0),
+  sign_on_bonus NUMERIC NOT NULL DEFAULT 0 CHECK (sign_on_bonus >= 0),
+  equity_value NUMERIC NOT NULL DEFAULT 0 CHECK (equity_value >= 0), -- Total grant value
+  vesting_schedule NUMERIC[] NOT NULL DEFAULT '{25,25,25,25}', -- Percent of the grant vesting each year
+  cliff_months INTEGER NOT NULL DEFAULT 12 CHECK (cliff_months >= 0),
+  benefits TEXT,
+  benefits_value NUMERIC NOT NULL DEFAULT 0 CHECK (benefits_value >= 0), -- Estimated per year
+
+  -- Dates
+  start_date DATE,
+  deadline DATE,
+
+  -- User ratings (0-1) of non-monetary factors by scoring category: {"locationFit": 0.8, ...}
+  factor_ratings JSONB NOT NULL DEFAULT '{}',
+  notes TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_offers_user ON job_offers(user_id);
+
+-- Row level security
+ALTER TABLE job_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job offers"
+  ON job_offers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job offers"
+  ON job_offers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own job offers"
+  ON job_offers FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job offers"
+  ON job_offers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_job_offers_updated_at
+  BEFORE UPDATE ON job_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
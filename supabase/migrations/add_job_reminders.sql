@@ -0,0 +1,68 @@
+-- Migration: Add follow-up reminders
+-- Date: 2026-10-19
+-- Description: Adds job_reminders, created when a job's application status changes
+--              (e.g. "Follow up on your application" a week after applying) and
+--              editable by the user, and calendar_feeds, which holds the secret
+--              token of each user's iCalendar reminder feed.
+
+-- Create job_reminders and calendar_feeds tables
+CREATE TABLE IF NOT EXISTS job_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  notes TEXT,
+  due_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
+  trigger TEXT, -- Status change that created the reminder (NULL if added by the user)
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Secret feed URLs for subscribing to reminders in calendar clients
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_reminders_due ON job_reminders(user_id, due_at) WHERE completed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_reminders_job ON job_reminders(job_id);
+
+-- Row level security
+ALTER TABLE job_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job reminders"
+  ON job_reminders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job reminders"
+  ON job_reminders FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own job reminders"
+  ON job_reminders FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job reminders"
+  ON job_reminders FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- CALENDAR FEEDS POLICIES (feeds are served with the service role)
+CREATE POLICY "Users can view their own calendar feed"
+  ON calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own calendar feed"
+  ON calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own calendar feed"
+  ON calendar_feeds FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Add comments to document the tables' purpose
+COMMENT ON TABLE job_reminders IS 'Follow-up reminders per job; trigger is the status change that created the reminder';
+COMMENT ON TABLE calendar_feeds IS 'Secret tokens of the iCalendar reminder feeds (/api/calendar/:token.ics)';
@@ -0,0 +1,51 @@
+-- Migration: Add posting change detection
+-- Date: 2026-10-19
+-- Description: Adds a content hash of the watched posting fields (description,
+--              requirements, salary, location) to jobs, plus a job_revisions table
+--              recording every edit detected by the scheduled posting check.
+--              Existing jobs get their hash on the next save or check.
+
+-- Add change detection columns to jobs
+ALTER TABLE jobs
+  ADD COLUMN IF NOT EXISTS content_hash TEXT,
+  ADD COLUMN IF NOT EXISTS content_changed_at TIMESTAMPTZ;
+
+-- Create job_revisions table
+CREATE TABLE IF NOT EXISTS job_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Snapshot of the watched fields
+  content_hash TEXT NOT NULL,
+  description TEXT NOT NULL,
+  requirements TEXT[] DEFAULT '{}',
+  salary TEXT,
+  location TEXT NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}', -- fields changed since the previous revision (empty for the first)
+
+  -- Timestamps
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_revisions_job ON job_revisions(user_id, job_id, detected_at);
+
+-- Row level security (append-only: no UPDATE policy)
+ALTER TABLE job_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job revisions"
+  ON job_revisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job revisions"
+  ON job_revisions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job revisions"
+  ON job_revisions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Add comments to document the new columns and table
+COMMENT ON COLUMN jobs.content_hash IS 'Hash of the watched posting fields (see lib/jobs/revisions.ts)';
+COMMENT ON COLUMN jobs.content_changed_at IS 'When an edit to the posting was last detected';
+COMMENT ON TABLE job_revisions IS 'Append-only history of edits detected on saved postings; the first row is the posting as saved';
@@ -0,0 +1,31 @@
+-- Migration: Add parsed salary range columns to jobs table
+-- Date: 2026-10-19
+-- Description: Adds numeric salary columns parsed from the free-text salary
+--              (see lib/jobs/salary.ts) so salary match and salary sorting/filtering
+--              no longer depend on string formatting.
+--              Rows left NULL are parsed from the salary text when read.
+
+-- Add salary range columns to jobs table
+ALTER TABLE jobs
+ADD COLUMN salary_min NUMERIC,
+ADD COLUMN salary_max NUMERIC,
+ADD COLUMN salary_currency TEXT,
+ADD COLUMN salary_period TEXT CHECK (salary_period IN ('year', 'month', 'week', 'day', 'hour')),
+ADD COLUMN salary_source TEXT CHECK (salary_source IN ('posted', 'estimated'));
+
+-- Backfill the "$120,000 - $150,000" format produced by the Adzuna, Greenhouse and Lever tools
+UPDATE jobs
+SET
+  salary_min = REPLACE(SUBSTRING(salary FROM '^\$([0-9,]+) - '), ',', '')::NUMERIC,
+  salary_max = REPLACE(SUBSTRING(salary FROM ' - \$([0-9,]+)$'), ',', '')::NUMERIC,
+  salary_currency = 'USD',
+  salary_period = 'year',
+  salary_source = 'posted'
+WHERE salary ~ '^\$[0-9,]+ - \$[0-9,]+$';
+
+-- Add comments to document the columns' purpose
+COMMENT ON COLUMN jobs.salary_min IS 'Lower bound of the parsed salary, in salary_currency per salary_period';
+COMMENT ON COLUMN jobs.salary_max IS 'Upper bound of the parsed salary, in salary_currency per salary_period';
+COMMENT ON COLUMN jobs.salary_currency IS 'ISO 4217 currency code of the parsed salary (e.g., USD)';
+COMMENT ON COLUMN jobs.salary_period IS 'Pay period of the parsed salary: year, month, week, day or hour';
+COMMENT ON COLUMN jobs.salary_source IS 'posted (by the employer) or estimated (by the job source, e.g. Adzuna predictions)';
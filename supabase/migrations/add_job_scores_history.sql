@@ -0,0 +1,51 @@
+-- Migration: Add job_scores table for scoring history
+-- Date: 2026-10-19
+-- Description: Records every scoring run per job (agent or baseline) with the scoring
+--              weights snapshot, profile version and model, so re-scoring no longer
+--              loses previous scores. jobs.score keeps holding the latest run.
+--              Existing scores are copied in as the first history entry.
+
+-- Create job_scores table
+CREATE TABLE IF NOT EXISTS job_scores (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  score INTEGER NOT NULL,
+  score_breakdown JSONB,
+  reasoning TEXT,
+  gaps TEXT[] DEFAULT '{}',
+  priority TEXT CHECK (priority IN ('high', 'medium', 'low')),
+  method TEXT NOT NULL CHECK (method IN ('agent', 'baseline')),
+  model TEXT,
+  scoring_weights JSONB,
+  profile_version TIMESTAMPTZ,
+  scored_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_scores_job ON job_scores(user_id, job_id, scored_at DESC);
+
+-- Row level security (append-only: no UPDATE policy)
+ALTER TABLE job_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job scores"
+  ON job_scores FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job scores"
+  ON job_scores FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job scores"
+  ON job_scores FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Backfill: current scores become the first history entry (weights/model unknown)
+INSERT INTO job_scores (job_id, user_id, score, score_breakdown, reasoning, gaps, priority, method, scored_at)
+SELECT id, user_id, score, score_breakdown, reasoning, gaps, priority, 'agent', updated_at
+FROM jobs
+WHERE score IS NOT NULL;
+
+-- Add comments to document the table's purpose
+COMMENT ON TABLE job_scores IS 'Append-only history of scoring runs per job; jobs.score holds the latest run';
+COMMENT ON COLUMN job_scores.scoring_weights IS 'Snapshot of the scoring weights used for the run';
+COMMENT ON COLUMN job_scores.profile_version IS 'profiles.updated_at at the time of the run';
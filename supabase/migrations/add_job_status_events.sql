@@ -0,0 +1,51 @@
+-- Migration: Add application pipeline stages and status history
+-- Date: 2026-10-19
+-- Description: Extends the application statuses with screening, phone screen, onsite,
+--              offer negotiation, accepted, withdrawn and ghosted, and adds a
+--              job_status_events table recording every status change so the time
+--              spent in each stage can be measured. Existing statuses are copied in
+--              as each job's first event.
+
+-- Allow the new application statuses
+ALTER TABLE jobs
+DROP CONSTRAINT IF EXISTS jobs_application_status_check;
+
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_application_status_check
+CHECK (application_status IN ('inbox', 'dismissed', 'saved', 'applied', 'screening', 'phone_screen', 'interviewing', 'onsite', 'offer', 'offer_negotiation', 'accepted', 'rejected', 'withdrawn', 'ghosted'));
+
+-- Create job_status_events table
+CREATE TABLE IF NOT EXISTS job_status_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_status TEXT, -- NULL for the status a job was saved with
+  to_status TEXT NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_status_events_job ON job_status_events(user_id, job_id, changed_at);
+
+-- Row level security (append-only: no UPDATE policy)
+ALTER TABLE job_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job status events"
+  ON job_status_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job status events"
+  ON job_status_events FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job status events"
+  ON job_status_events FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Backfill: the current status becomes the first event (earlier changes are unknown)
+INSERT INTO job_status_events (job_id, user_id, from_status, to_status, changed_at)
+SELECT id, user_id, NULL, application_status, COALESCE(status_updated_at, created_at)
+FROM jobs
+WHERE application_status IS NOT NULL;
+
+-- Add comments to document the table's purpose
+COMMENT ON TABLE job_status_events IS 'Append-only history of application status changes; jobs.application_status holds the latest';
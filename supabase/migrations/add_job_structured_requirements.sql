@@ -0,0 +1,13 @@
+-- Migration: Add structured_requirements column to jobs table
+-- Date: 2026-10-19
+-- Description: Adds optional structured_requirements JSONB column holding requirements
+--              parsed from the posting (required vs. preferred items, years of experience,
+--              degree level, technologies). Existing rows stay NULL and are parsed on the fly
+--              when scored; they are backfilled the next time the same job is saved again.
+
+-- Add structured_requirements column to jobs table
+ALTER TABLE jobs
+ADD COLUMN structured_requirements JSONB;
+
+-- Add comment to document the column's purpose
+COMMENT ON COLUMN jobs.structured_requirements IS 'Requirements parsed from the posting: { required, preferred, yearsOfExperience, degreeLevel, technologies }';
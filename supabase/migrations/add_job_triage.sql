@@ -0,0 +1,21 @@
+-- Migration: Add job inbox triage
+-- Date: 2026-10-19
+-- Description: Jobs displayed by the Job Discovery Agent are now kept in the inbox
+--              (application_status 'inbox') until the user accepts, dismisses or
+--              snoozes them. Adds the 'dismissed' application status, which keeps
+--              rejected jobs out of future discovery results, and snoozed_until,
+--              which hides an inbox job until a later date.
+
+-- Allow the 'dismissed' application status
+ALTER TABLE jobs
+DROP CONSTRAINT IF EXISTS jobs_application_status_check;
+
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_application_status_check
+CHECK (application_status IN ('inbox', 'dismissed', 'saved', 'applied', 'interviewing', 'offer', 'rejected'));
+
+-- Add snoozed_until column
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN jobs.snoozed_until IS 'Inbox jobs are hidden from the inbox until this time';
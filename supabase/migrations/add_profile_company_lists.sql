@@ -0,0 +1,45 @@
+-- Migration: Add company allowlist and blocklist to profiles table
+-- Date: 2026-10-19
+-- Description: Adds company_allowlist and company_blocklist JSONB columns holding
+--              companies as { name, aliases } so a company is matched however it is
+--              spelled (e.g. "Meta" / "Facebook"). Blocklisted companies are removed
+--              before jobs reach the discovery carousel; allowlisted ones are searched
+--              first and get full Company Appeal. Replaces the company_blocklist
+--              deal-breaker rule: its companies move to company_blocklist and the
+--              rule and its job violations are removed.
+
+-- Add company list columns to profiles table
+ALTER TABLE profiles
+ADD COLUMN company_allowlist JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN company_blocklist JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Move companies of company_blocklist deal-breaker rules to the new column
+UPDATE profiles
+SET company_blocklist = (
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('name', company)), '[]'::jsonb)
+  FROM jsonb_array_elements(deal_breaker_rules) AS rule,
+       jsonb_array_elements_text(rule -> 'companies') AS company
+  WHERE rule ->> 'type' = 'company_blocklist'
+)
+WHERE deal_breaker_rules @> '[{"type": "company_blocklist"}]'::jsonb;
+
+UPDATE profiles
+SET deal_breaker_rules = (
+  SELECT COALESCE(jsonb_agg(rule), '[]'::jsonb)
+  FROM jsonb_array_elements(deal_breaker_rules) AS rule
+  WHERE rule ->> 'type' <> 'company_blocklist'
+)
+WHERE deal_breaker_rules @> '[{"type": "company_blocklist"}]'::jsonb;
+
+-- Drop company_blocklist violations (NULL when no other rule fired)
+UPDATE jobs
+SET deal_breaker_violations = (
+  SELECT jsonb_agg(violation)
+  FROM jsonb_array_elements(deal_breaker_violations) AS violation
+  WHERE violation ->> 'rule' <> 'company_blocklist'
+)
+WHERE deal_breaker_violations @> '[{"rule": "company_blocklist"}]'::jsonb;
+
+-- Add comments to document the columns' purpose
+COMMENT ON COLUMN profiles.company_allowlist IS 'Target companies: [{ name, aliases }], searched first and given full Company Appeal';
+COMMENT ON COLUMN profiles.company_blocklist IS 'Blocked companies: [{ name, aliases }], removed from discovery results';
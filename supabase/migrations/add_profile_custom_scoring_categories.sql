@@ -0,0 +1,14 @@
+-- Migration: Add custom_scoring_categories column to profiles table
+-- Date: 2026-10-19
+-- Description: Adds custom_scoring_categories JSONB column holding user-defined
+--              scoring categories ({ id, label, rubric }) such as visa sponsorship or
+--              tech stack. Their weights live in scoring_weights next to the built-in
+--              five, keyed by id, and the Job Matching Agent scores them using the rubric.
+--              Existing profiles start with no custom categories.
+
+-- Add custom_scoring_categories column to profiles table
+ALTER TABLE profiles
+ADD COLUMN custom_scoring_categories JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Add comment to document the column's purpose
+COMMENT ON COLUMN profiles.custom_scoring_categories IS 'User-defined scoring categories: [{ id, label, rubric }], weighted in scoring_weights by id';
@@ -0,0 +1,17 @@
+-- Migration: Add PDF and DOCX resume formats
+-- Date: 2026-10-19
+-- Description: Allows 'pdf' and 'docx' resumes. Their text is extracted to markdown
+--              (stored at file_path) and the uploaded file is kept in Storage at
+--              original_file_path.
+
+-- Allow the new formats
+ALTER TABLE resumes
+DROP CONSTRAINT IF EXISTS resumes_format_check;
+
+ALTER TABLE resumes
+ADD CONSTRAINT resumes_format_check CHECK (format IN ('markdown', 'text', 'pdf', 'docx'));
+
+-- Original PDF or DOCX file in Storage
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS original_file_path TEXT;
+
+COMMENT ON COLUMN resumes.original_file_path IS 'Path in Supabase Storage of the uploaded PDF or DOCX file (user_id/resume_id.{pdf,docx}); file_path holds its extracted markdown';
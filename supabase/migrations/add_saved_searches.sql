@@ -0,0 +1,90 @@
+-- Migration: Add saved searches with scheduled runs
+-- Date: 2026-10-19
+-- Description: Adds saved_searches (query, location, sources, filters, frequency) and
+--              saved_search_runs (counts per run) tables. Saved searches are re-run
+--              headlessly by /api/cron/saved-searches with the discovery agent's source
+--              tools; jobs the user has not seen are saved with the new 'inbox'
+--              application status, kept apart from 'saved' until reviewed.
+
+-- Allow the 'inbox' application status
+ALTER TABLE jobs
+DROP CONSTRAINT IF EXISTS jobs_application_status_check;
+
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_application_status_check
+CHECK (application_status IN ('inbox', 'saved', 'applied', 'interviewing', 'offer', 'rejected'));
+
+-- Create saved_searches table
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  location TEXT,
+  sources JSONB NOT NULL DEFAULT '[{"source": "adzuna"}]'::jsonb,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  results_count INTEGER NOT NULL DEFAULT 20 CHECK (results_count BETWEEN 1 AND 50),
+  frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create saved_search_runs table
+CREATE TABLE IF NOT EXISTS saved_search_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  found_count INTEGER NOT NULL DEFAULT 0,
+  filtered_count INTEGER NOT NULL DEFAULT 0,
+  new_count INTEGER NOT NULL DEFAULT 0,
+  already_seen_count INTEGER NOT NULL DEFAULT 0,
+  errors TEXT[] NOT NULL DEFAULT '{}',
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_enabled ON saved_searches(enabled, last_run_at);
+CREATE INDEX IF NOT EXISTS idx_saved_search_runs_search ON saved_search_runs(user_id, saved_search_id, started_at DESC);
+
+-- Row level security (scheduled runs use the service role)
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved searches"
+  ON saved_searches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved searches"
+  ON saved_searches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Runs are append-only: no UPDATE policy
+CREATE POLICY "Users can view their own saved search runs"
+  ON saved_search_runs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved search runs"
+  ON saved_search_runs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments to document the tables' purpose
+COMMENT ON TABLE saved_searches IS 'Discovery queries re-run on a schedule; new jobs are saved with application_status inbox';
+COMMENT ON TABLE saved_search_runs IS 'Append-only counts of every saved search run';
+COMMENT ON COLUMN saved_searches.sources IS 'Sources to search: [{ source: adzuna } | { source: greenhouse, boardToken } | { source: lever, companySlug }]';
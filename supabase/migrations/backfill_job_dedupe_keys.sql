@@ -0,0 +1,154 @@
+-- Migration: Backfill job deduplication keys
+-- Date: 2026-10-19
+-- Description: Computes fingerprint and canonical_url for jobs saved before
+--              add_job_fingerprint.sql, so saveJobs merges rediscovered postings
+--              into them. The functions below mirror lib/jobs/fingerprint.ts and only
+--              live for this session. Existing duplicates are kept, but only the
+--              oldest row of each group gets the key. Adds a unique partial index on
+--              (user_id, canonical_url) so concurrent saves cannot insert the same
+--              posting URL twice.
+
+-- normalizeText: lowercase, strip accents and punctuation, collapse whitespace
+CREATE FUNCTION pg_temp.normalize_job_text(value TEXT) RETURNS TEXT AS $$
+  SELECT btrim(regexp_replace(
+    replace(
+      regexp_replace(normalize(lower(coalesce(value, '')), NFKD), '[\u0300-\u036f]', '', 'g'),
+      '&', ' and '
+    ),
+    '[^a-z0-9+#]+', ' ', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- normalizeCompany: drop trailing legal suffixes ("Acme, Inc." -> "acme")
+CREATE FUNCTION pg_temp.normalize_job_company(company TEXT) RETURNS TEXT AS $$
+DECLARE
+  words TEXT[] := string_to_array(pg_temp.normalize_job_text(company), ' ');
+BEGIN
+  WHILE coalesce(array_length(words, 1), 0) > 1
+    AND words[array_length(words, 1)] = ANY (ARRAY[
+      'inc', 'incorporated', 'llc', 'ltd', 'limited', 'corp', 'corporation',
+      'co', 'company', 'gmbh', 'plc', 'lp', 'llp'
+    ])
+  LOOP
+    words := words[1:array_length(words, 1) - 1];
+  END LOOP;
+
+  RETURN coalesce(array_to_string(words, ' '), '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- normalizeTitle: drop (qualifiers) and [tags], expand abbreviations
+CREATE FUNCTION pg_temp.normalize_job_title(title TEXT) RETURNS TEXT AS $$
+  SELECT coalesce(string_agg(
+    CASE word
+      WHEN 'sr' THEN 'senior'
+      WHEN 'jr' THEN 'junior'
+      WHEN 'mgr' THEN 'manager'
+      WHEN 'eng' THEN 'engineer'
+      WHEN 'engr' THEN 'engineer'
+      WHEN 'dev' THEN 'developer'
+      ELSE word
+    END, ' ' ORDER BY position), '')
+  FROM unnest(string_to_array(
+    pg_temp.normalize_job_text(regexp_replace(title, '\([^)]*\)|\[[^]]*\]', ' ', 'g')),
+    ' '
+  )) WITH ORDINALITY AS words(word, position);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- normalizeLocation: "remote" for any remote posting, otherwise the city segment
+CREATE FUNCTION pg_temp.normalize_job_location(location TEXT) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN pg_temp.normalize_job_text(location) = '' THEN ''
+    WHEN pg_temp.normalize_job_text(location) ~ '\y(remote|anywhere|distributed)\y' THEN 'remote'
+    ELSE pg_temp.normalize_job_text((regexp_split_to_array(location, '[,|/;]|\s-\s'))[1])
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- canonicalizeUrl: https, lowercase host without www./port, no trailing slash,
+-- no fragment, tracking parameters removed and the rest sorted by name
+CREATE FUNCTION pg_temp.canonicalize_job_url(url TEXT) RETURNS TEXT AS $$
+DECLARE
+  trimmed TEXT := btrim(coalesce(url, ''));
+  parts TEXT[];
+  host TEXT;
+  query TEXT;
+BEGIN
+  parts := regexp_match(trimmed, '^[a-zA-Z][a-zA-Z0-9+.-]*://([^/?#]*)([^?#]*)(?:\?([^#]*))?');
+
+  IF parts IS NULL OR parts[1] = '' THEN
+    RETURN trimmed;
+  END IF;
+
+  host := regexp_replace(
+    regexp_replace(lower(regexp_replace(parts[1], '^.*@', '')), ':[0-9]*$', ''),
+    '^www\.', ''
+  );
+
+  SELECT string_agg(
+    CASE WHEN strpos(param, '=') > 0 THEN param ELSE param || '=' END,
+    '&' ORDER BY split_part(param, '=', 1) COLLATE "C", position
+  )
+  INTO query
+  FROM unnest(string_to_array(coalesce(parts[3], ''), '&')) WITH ORDINALITY AS params(param, position)
+  WHERE param <> ''
+    AND lower(split_part(param, '=', 1)) NOT LIKE 'utm\_%'
+    AND lower(split_part(param, '=', 1)) <> ALL (ARRAY[
+      'gclid', 'fbclid', 'msclkid', 'mc_cid', 'mc_eid', 'ref', 'referrer', 'source', 'src',
+      'trk', 'trackingid', 'gh_src', 'lever-source', 'lever-origin', 'se', 'v'
+    ]);
+
+  RETURN 'https://' || host || regexp_replace(parts[2], '/+$', '')
+    || CASE WHEN query IS NULL THEN '' ELSE '?' || query END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fingerprints: the oldest row of each group without a saved key gets it,
+-- unless another row already holds that fingerprint
+UPDATE jobs
+SET fingerprint = keyed.fingerprint
+FROM (
+  SELECT DISTINCT ON (user_id, fingerprint) id, user_id, fingerprint
+  FROM (
+    SELECT
+      id,
+      user_id,
+      created_at,
+      pg_temp.normalize_job_company(company) || '|' ||
+        pg_temp.normalize_job_title(title) || '|' ||
+        pg_temp.normalize_job_location(location) AS fingerprint
+    FROM jobs
+    WHERE fingerprint IS NULL
+  ) computed
+  ORDER BY user_id, fingerprint, created_at, id
+) keyed
+WHERE jobs.id = keyed.id
+  AND NOT EXISTS (
+    SELECT 1 FROM jobs other
+    WHERE other.user_id = keyed.user_id AND other.fingerprint = keyed.fingerprint
+  );
+
+UPDATE jobs
+SET canonical_url = pg_temp.canonicalize_job_url(url)
+WHERE canonical_url IS NULL;
+
+-- Only the oldest row of each user's posting URL keeps it
+UPDATE jobs
+SET canonical_url = NULL
+WHERE id IN (
+  SELECT id
+  FROM (
+    SELECT
+      id,
+      row_number() OVER (PARTITION BY user_id, canonical_url ORDER BY created_at, id) AS position
+    FROM jobs
+    WHERE canonical_url <> ''
+  ) ranked
+  WHERE position > 1
+);
+
+-- One row per posting URL per user (jobs without a URL store '')
+DROP INDEX IF EXISTS idx_jobs_canonical_url;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_user_canonical_url
+ON jobs(user_id, canonical_url)
+WHERE canonical_url <> '';
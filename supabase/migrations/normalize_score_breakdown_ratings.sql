@@ -0,0 +1,109 @@
+-- Migration: Store score breakdowns as normalized category ratings
+-- Date: 2026-10-19
+-- Description: score_breakdown held points per category out of the user's scoring
+--              weights at scoring time. It now holds 0-1 ratings (share of the
+--              category's weight earned), so scores can be recomputed instantly when
+--              the weights change. The new score_adjustment column keeps the points the
+--              agent added outside the categories (total score minus the weighted
+--              ratings), so re-weighting with unchanged weights reproduces the score.
+--              Existing rows are converted using the profile's current scoring weights
+--              (or the history entry's weights snapshot). Rows already converted have
+--              a non-NULL score_adjustment and are skipped, so the migration can be rerun.
+
+-- Add score_adjustment columns
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS score_adjustment INTEGER;
+
+ALTER TABLE job_scores
+ADD COLUMN IF NOT EXISTS score_adjustment INTEGER;
+
+-- Points per category divided by the category's weight, clamped to 0-1
+CREATE OR REPLACE FUNCTION pg_temp.points_to_ratings(points JSONB, weights JSONB)
+RETURNS JSONB AS $$
+  SELECT jsonb_object_agg(
+    category,
+    CASE
+      WHEN COALESCE((weights->>category)::numeric, 0) > 0
+        THEN LEAST(1, GREATEST(0, ROUND(COALESCE((points->>category)::numeric, 0) / (weights->>category)::numeric, 3)))
+      ELSE 0
+    END
+  )
+  FROM unnest(ARRAY['salaryMatch', 'locationFit', 'companyAppeal', 'roleMatch', 'requirementsFit']) AS category
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Rounded sum of ratings times weights (lib/jobs/scoring.ts computeWeightedScore)
+CREATE OR REPLACE FUNCTION pg_temp.weighted_score(ratings JSONB, weights JSONB)
+RETURNS INTEGER AS $$
+  SELECT ROUND(SUM(COALESCE((ratings->>category)::numeric, 0) * COALESCE((weights->>category)::numeric, 0)))::integer
+  FROM unnest(ARRAY['salaryMatch', 'locationFit', 'companyAppeal', 'roleMatch', 'requirementsFit']) AS category
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Convert current scores
+WITH converted AS (
+  SELECT
+    j.id,
+    pg_temp.points_to_ratings(j.score_breakdown, w.weights) AS ratings,
+    w.weights
+  FROM jobs j
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(
+      (SELECT p.scoring_weights FROM profiles p WHERE p.id = j.user_id),
+      '{"salaryMatch": 30, "locationFit": 20, "companyAppeal": 25, "roleMatch": 15, "requirementsFit": 10}'::jsonb
+    ) AS weights
+  ) w
+  WHERE j.score_breakdown IS NOT NULL AND j.score_adjustment IS NULL
+)
+UPDATE jobs
+SET
+  score_breakdown = converted.ratings,
+  score_adjustment = COALESCE(jobs.score, 0) - pg_temp.weighted_score(converted.ratings, converted.weights)
+FROM converted
+WHERE jobs.id = converted.id;
+
+-- Convert the scoring history, preferring the weights snapshot of each run
+WITH converted AS (
+  SELECT
+    s.id,
+    pg_temp.points_to_ratings(s.score_breakdown, w.weights) AS ratings,
+    w.weights
+  FROM job_scores s
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(
+      s.scoring_weights,
+      (SELECT p.scoring_weights FROM profiles p WHERE p.id = s.user_id),
+      '{"salaryMatch": 30, "locationFit": 20, "companyAppeal": 25, "roleMatch": 15, "requirementsFit": 10}'::jsonb
+    ) AS weights
+  ) w
+  WHERE s.score_breakdown IS NOT NULL AND s.score_adjustment IS NULL
+)
+UPDATE job_scores
+SET
+  score_breakdown = converted.ratings,
+  score_adjustment = job_scores.score - pg_temp.weighted_score(converted.ratings, converted.weights)
+FROM converted
+WHERE job_scores.id = converted.id;
+
+-- Convert baseline scores (version 1 stored points, version 2 stores ratings)
+UPDATE jobs
+SET baseline_score = jsonb_set(
+  jsonb_set(
+    baseline_score,
+    '{scoreBreakdown}',
+    pg_temp.points_to_ratings(
+      baseline_score->'scoreBreakdown',
+      COALESCE(
+        (SELECT p.scoring_weights FROM profiles p WHERE p.id = jobs.user_id),
+        '{"salaryMatch": 30, "locationFit": 20, "companyAppeal": 25, "roleMatch": 15, "requirementsFit": 10}'::jsonb
+      )
+    )
+  ),
+  '{version}',
+  '2'::jsonb
+)
+WHERE baseline_score IS NOT NULL AND (baseline_score->>'version')::int = 1;
+
+-- Add comments to document the columns' purpose
+COMMENT ON COLUMN jobs.score_breakdown IS 'Rating per category (0-1, share of the category weight earned); score = ratings x profiles.scoring_weights + score_adjustment';
+COMMENT ON COLUMN jobs.score_adjustment IS 'Points the agent added outside the categories (e.g. deal-breaker penalties), kept when re-weighting';
+COMMENT ON COLUMN job_scores.score_breakdown IS 'Rating per category (0-1) at the time of the run';
+COMMENT ON COLUMN job_scores.score_adjustment IS 'Points the agent added outside the categories at the time of the run';
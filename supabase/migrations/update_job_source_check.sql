@@ -0,0 +1,17 @@
+-- Migration: Allow the job sources of the application registry
+-- Date: 2026-10-19
+-- Description: Replaces the source IN ('firecrawl', 'adzuna', 'manual') CHECK on
+--              jobs with the sources registered in components/agent/sources
+--              (adds greenhouse and lever). Registering a new job source needs
+--              a migration like this one; components/agent/sources/index.test.ts
+--              fails until supabase/schema.sql lists it.
+
+-- Replace the source constraint with the registered sources
+ALTER TABLE jobs
+DROP CONSTRAINT IF EXISTS jobs_source_check;
+
+ALTER TABLE jobs
+ADD CONSTRAINT jobs_source_check CHECK (source IN ('firecrawl', 'adzuna', 'greenhouse', 'lever', 'manual'));
+
+-- Add comment to document the column's purpose
+COMMENT ON COLUMN jobs.source IS 'Identifier of a job source registered in components/agent/sources (e.g. adzuna, greenhouse, manual)';
@@ -18,6 +18,9 @@ CREATE TABLE IF NOT EXISTS profiles (
   preferred_locations TEXT[] NOT NULL DEFAULT '{}',
   job_preferences TEXT[] NOT NULL DEFAULT '{}',
   deal_breakers TEXT,
+  deal_breaker_rules JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ type, ...params }], checked in code (see lib/jobs/deal-breakers.ts)
+  company_allowlist JSONB NOT NULL DEFAULT '[]'::jsonb, -- target companies: [{ name, aliases }]
+  company_blocklist JSONB NOT NULL DEFAULT '[]'::jsonb, -- companies never shown: [{ name, aliases }]
   scoring_weights JSONB NOT NULL DEFAULT '{
     "salaryMatch": 30,
     "locationFit": 20,
@@ -25,6 +28,7 @@ CREATE TABLE IF NOT EXISTS profiles (
     "roleMatch": 15,
     "requirementsFit": 10
   }'::jsonb,
+  custom_scoring_categories JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ id, label, rubric }], weighted in scoring_weights by id
   created_via TEXT CHECK (created_via IN ('chat', 'form')),
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -43,27 +47,50 @@ CREATE TABLE IF NOT EXISTS jobs (
   company TEXT NOT NULL,
   location TEXT NOT NULL,
   salary TEXT,
+  salary_min NUMERIC, -- parsed from salary (see lib/jobs/salary.ts), in salary_currency per salary_period
+  salary_max NUMERIC,
+  salary_currency TEXT,
+  salary_period TEXT CHECK (salary_period IN ('year', 'month', 'week', 'day', 'hour')),
+  salary_source TEXT CHECK (salary_source IN ('posted', 'estimated')),
   description TEXT NOT NULL,
   requirements TEXT[] NOT NULL DEFAULT '{}',
   url TEXT NOT NULL,
-  source TEXT NOT NULL CHECK (source IN ('firecrawl', 'adzuna', 'manual')),
+  department TEXT,
+  structured_requirements JSONB, -- { required, preferred, yearsOfExperience, degreeLevel, technologies }
+  source TEXT NOT NULL CHECK (source IN ('firecrawl', 'adzuna', 'greenhouse', 'lever', 'manual')), -- the registry in components/agent/sources
   discovered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
 
   -- Scoring data (added by Job Matching Agent)
   score INTEGER,
-  score_breakdown JSONB,
+  score_breakdown JSONB, -- 0-1 rating per category; score = ratings x profile scoring_weights + score_adjustment
+  score_adjustment INTEGER, -- points the agent added outside the categories (e.g. deal-breaker penalties)
   reasoning TEXT,
   gaps TEXT[] DEFAULT '{}',
   priority TEXT CHECK (priority IN ('high', 'medium', 'low')),
+  baseline_score JSONB, -- deterministic rule-based score computed on save (see lib/jobs/baseline-score.ts)
+  deal_breaker_violations JSONB, -- [{ rule, message }] of the profile's deal_breaker_rules the job breaks (NULL if none)
 
   -- Application tracking
-  application_status TEXT CHECK (application_status IN ('saved', 'applied', 'interviewing', 'offer', 'rejected')),
+  application_status TEXT CHECK (application_status IN ('inbox', 'dismissed', 'saved', 'applied', 'screening', 'phone_screen', 'interviewing', 'onsite', 'offer', 'offer_negotiation', 'accepted', 'rejected', 'withdrawn', 'ghosted')), -- 'inbox': discovered, not reviewed yet; 'dismissed': rejected during triage; changes are logged in job_status_events
   status_updated_at TIMESTAMPTZ,
+  snoozed_until TIMESTAMPTZ, -- Inbox jobs are hidden from the inbox until this time
+  closed_at TIMESTAMPTZ, -- When the liveness check found the posting closed or expired
+  closed_reason TEXT,
+  liveness_checked_at TIMESTAMPTZ,
+  content_hash TEXT, -- Hash of description, requirements, salary and location (see lib/jobs/revisions.ts)
+  content_changed_at TIMESTAMPTZ, -- When an edit to the posting was last detected
   notes TEXT,
 
   -- Tailored resume (generated by Resume Generator Agent)
   tailored_resume JSONB,
 
+  -- Cover letter (generated by Cover Letter Agent)
+  cover_letter JSONB,
+
+  -- Deduplication keys (computed in lib/jobs/fingerprint.ts)
+  fingerprint TEXT, -- normalized "company|title|location"
+  canonical_url TEXT, -- posting URL without tracking params
+
   -- Timestamps
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -80,8 +107,9 @@ CREATE TABLE IF NOT EXISTS resumes (
   -- Resume metadata
   name TEXT NOT NULL,
   file_path TEXT NOT NULL, -- Path in Supabase Storage: user_id/resume_id.{ext}
+  original_file_path TEXT, -- Uploaded PDF or DOCX, kept alongside its extracted markdown
   file_size INTEGER NOT NULL, -- Size in bytes
-  format TEXT NOT NULL CHECK (format IN ('markdown', 'text')),
+  format TEXT NOT NULL CHECK (format IN ('markdown', 'text', 'pdf', 'docx')),
   is_master BOOLEAN NOT NULL DEFAULT true,
 
   -- Parsed sections (optional, for quick access)
@@ -92,6 +120,231 @@ CREATE TABLE IF NOT EXISTS resumes (
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- =====================================================
+-- JOB SCORES TABLE
+-- Append-only history of every scoring run per job
+-- =====================================================
+CREATE TABLE IF NOT EXISTS job_scores (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Score at the time of the run
+  score INTEGER NOT NULL,
+  score_breakdown JSONB, -- 0-1 rating per category
+  score_adjustment INTEGER,
+  reasoning TEXT,
+  gaps TEXT[] DEFAULT '{}',
+  priority TEXT CHECK (priority IN ('high', 'medium', 'low')),
+
+  -- Scoring context
+  method TEXT NOT NULL CHECK (method IN ('agent', 'baseline')),
+  model TEXT, -- e.g. 'gpt-5' (NULL for baseline runs)
+  scoring_weights JSONB, -- snapshot of profiles.scoring_weights used for the run
+  profile_version TIMESTAMPTZ, -- profiles.updated_at at the time of the run
+
+  -- Timestamps
+  scored_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- JOB REVISIONS TABLE
+-- Append-only history of edits detected on saved postings
+-- =====================================================
+CREATE TABLE IF NOT EXISTS job_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Snapshot of the watched fields
+  content_hash TEXT NOT NULL,
+  description TEXT NOT NULL,
+  requirements TEXT[] DEFAULT '{}',
+  salary TEXT,
+  location TEXT NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}', -- fields changed since the previous revision (empty for the first)
+
+  -- Timestamps
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- JOB STATUS EVENTS TABLE
+-- Append-only history of application status changes (see lib/jobs/pipeline.ts)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS job_status_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_status TEXT, -- NULL for the status a job was saved with
+  to_status TEXT NOT NULL,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- JOB REMINDERS TABLE
+-- Follow-up reminders, created on status changes (see lib/jobs/reminders.ts)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS job_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  notes TEXT,
+  due_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ,
+  trigger TEXT, -- Status change that created the reminder (NULL if added by the user)
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Secret feed URLs for subscribing to reminders in calendar clients
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- CONTACTS TABLE
+-- Recruiters, hiring managers and referrals, linked to companies and jobs
+-- =====================================================
+CREATE TABLE IF NOT EXISTS contacts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Contact details
+  name TEXT NOT NULL,
+  role TEXT,
+  email TEXT,
+  linkedin_url TEXT,
+  relationship TEXT NOT NULL DEFAULT 'other' CHECK (relationship IN ('recruiter', 'hiring_manager', 'referral', 'interviewer', 'colleague', 'other')),
+  company TEXT, -- Matched against job companies and their aliases (see lib/jobs/contacts.ts)
+  notes TEXT,
+  last_contacted_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Jobs a contact is linked to
+CREATE TABLE IF NOT EXISTS contact_jobs (
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  PRIMARY KEY (contact_id, job_id)
+);
+
+-- =====================================================
+-- INTERVIEWS TABLE
+-- Interview rounds logged for jobs (questions asked, self-assessment, outcome)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS interviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Round details
+  round TEXT, -- e.g. "Recruiter screen", "System design"
+  scheduled_at TIMESTAMPTZ NOT NULL,
+  format TEXT NOT NULL DEFAULT 'video' CHECK (format IN ('phone', 'video', 'onsite', 'take_home', 'other')),
+  interviewers TEXT[] NOT NULL DEFAULT '{}',
+  questions JSONB NOT NULL DEFAULT '[]', -- [{question, answer?}]
+
+  -- How it went
+  self_assessment TEXT,
+  rating INTEGER CHECK (rating BETWEEN 1 AND 5),
+  outcome TEXT NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'passed', 'rejected', 'cancelled')),
+  notes TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- JOB OFFERS TABLE
+-- Offer terms entered for jobs, compared side by side
+-- =====================================================
+CREATE TABLE IF NOT EXISTS job_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL UNIQUE REFERENCES jobs(id) ON DELETE CASCADE, -- One offer per job
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Compensation (in currency)
+  currency TEXT NOT NULL DEFAULT 'USD',
+  base_salary NUMERIC NOT NULL CHECK (base_salary >= 0),
+  annual_bonus NUMERIC NOT NULL DEFAULT 0 CHECK (annual_bonus >= 0),
+  sign_on_bonus NUMERIC NOT NULL DEFAULT 0 CHECK (sign_on_bonus >= 0),
+  equity_value NUMERIC NOT NULL DEFAULT 0 CHECK (equity_value >= 0), -- Total grant value
+  vesting_schedule NUMERIC[] NOT NULL DEFAULT '{25,25,25,25}', -- Percent of the grant vesting each year
+  cliff_months INTEGER NOT NULL DEFAULT 12 CHECK (cliff_months >= 0),
+  benefits TEXT,
+  benefits_value NUMERIC NOT NULL DEFAULT 0 CHECK (benefits_value >= 0), -- Estimated per year
+
+  -- Dates
+  start_date DATE,
+  deadline DATE,
+
+  -- User ratings (0-1) of non-monetary factors by scoring category: {"locationFit": 0.8, ...}
+  factor_ratings JSONB NOT NULL DEFAULT '{}',
+  notes TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- SAVED SEARCHES TABLE
+-- Discovery queries re-run on a schedule; new jobs go to the inbox
+-- =====================================================
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Search definition
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  location TEXT,
+  sources JSONB NOT NULL DEFAULT '[{"source": "adzuna"}]'::jsonb, -- [{ source, boardToken | companySlug, companyName }]
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb, -- { remoteOnly, salaryMin, excludeKeywords }
+  results_count INTEGER NOT NULL DEFAULT 20 CHECK (results_count BETWEEN 1 AND 50),
+
+  -- Schedule
+  frequency TEXT NOT NULL DEFAULT 'daily' CHECK (frequency IN ('daily', 'weekly')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_run_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =====================================================
+-- SAVED SEARCH RUNS TABLE
+-- Counts of every saved search run (scheduled or manual)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS saved_search_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  trigger TEXT NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+
+  -- Counts
+  found_count INTEGER NOT NULL DEFAULT 0, -- returned by the sources
+  filtered_count INTEGER NOT NULL DEFAULT 0, -- removed by company blocklist, deal breakers or filters
+  new_count INTEGER NOT NULL DEFAULT 0, -- added to the inbox
+  already_seen_count INTEGER NOT NULL DEFAULT 0, -- matched a job the user already had
+  errors TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Timestamps
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- =====================================================
 -- INDEXES FOR PERFORMANCE
 -- =====================================================
@@ -99,7 +352,22 @@ CREATE INDEX IF NOT EXISTS idx_jobs_user_id ON jobs(user_id);
 CREATE INDEX IF NOT EXISTS idx_jobs_application_status ON jobs(user_id, application_status);
 CREATE INDEX IF NOT EXISTS idx_jobs_priority ON jobs(user_id, priority);
 CREATE INDEX IF NOT EXISTS idx_jobs_score ON jobs(user_id, score DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_user_fingerprint ON jobs(user_id, fingerprint);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_user_canonical_url ON jobs(user_id, canonical_url) WHERE canonical_url <> '';
+CREATE INDEX IF NOT EXISTS idx_jobs_liveness_due ON jobs(liveness_checked_at NULLS FIRST) WHERE closed_at IS NULL;
 CREATE INDEX IF NOT EXISTS idx_resumes_user_id ON resumes(user_id);
+CREATE INDEX IF NOT EXISTS idx_job_scores_job ON job_scores(user_id, job_id, scored_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_revisions_job ON job_revisions(user_id, job_id, detected_at);
+CREATE INDEX IF NOT EXISTS idx_job_status_events_job ON job_status_events(user_id, job_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_job_reminders_due ON job_reminders(user_id, due_at) WHERE completed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_job_reminders_job ON job_reminders(job_id);
+CREATE INDEX IF NOT EXISTS idx_contacts_user ON contacts(user_id, name);
+CREATE INDEX IF NOT EXISTS idx_contact_jobs_job ON contact_jobs(job_id);
+CREATE INDEX IF NOT EXISTS idx_interviews_job ON interviews(user_id, job_id, scheduled_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_offers_user ON job_offers(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_enabled ON saved_searches(enabled, last_run_at);
+CREATE INDEX IF NOT EXISTS idx_saved_search_runs_search ON saved_search_runs(user_id, saved_search_id, started_at DESC);
 
 -- =====================================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
@@ -110,6 +378,17 @@ CREATE INDEX IF NOT EXISTS idx_resumes_user_id ON resumes(user_id);
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE resumes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_status_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_reminders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE interviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_runs ENABLE ROW LEVEL SECURITY;
 
 -- PROFILES POLICIES
 CREATE POLICY "Users can view their own profile"
@@ -162,6 +441,165 @@ CREATE POLICY "Users can delete their own resumes"
   ON resumes FOR DELETE
   USING (auth.uid() = user_id);
 
+-- JOB SCORES POLICIES (append-only: no UPDATE policy)
+CREATE POLICY "Users can view their own job scores"
+  ON job_scores FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job scores"
+  ON job_scores FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job scores"
+  ON job_scores FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- JOB REVISIONS POLICIES (append-only: no UPDATE policy; scheduled checks use the service role)
+CREATE POLICY "Users can view their own job revisions"
+  ON job_revisions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job revisions"
+  ON job_revisions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job revisions"
+  ON job_revisions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- JOB STATUS EVENTS POLICIES (append-only: no UPDATE policy)
+CREATE POLICY "Users can view their own job status events"
+  ON job_status_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job status events"
+  ON job_status_events FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job status events"
+  ON job_status_events FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- JOB REMINDERS POLICIES
+CREATE POLICY "Users can view their own job reminders"
+  ON job_reminders FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job reminders"
+  ON job_reminders FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own job reminders"
+  ON job_reminders FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job reminders"
+  ON job_reminders FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- CALENDAR FEEDS POLICIES (feeds are served with the service role)
+CREATE POLICY "Users can view their own calendar feed"
+  ON calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own calendar feed"
+  ON calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own calendar feed"
+  ON calendar_feeds FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- CONTACTS POLICIES
+CREATE POLICY "Users can view their own contacts"
+  ON contacts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own contacts"
+  ON contacts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own contacts"
+  ON contacts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contacts"
+  ON contacts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- CONTACT JOBS POLICIES
+CREATE POLICY "Users can view their own contact job links"
+  ON contact_jobs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own contact job links"
+  ON contact_jobs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contact job links"
+  ON contact_jobs FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- INTERVIEWS POLICIES
+CREATE POLICY "Users can view their own interviews"
+  ON interviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own interviews"
+  ON interviews FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own interviews"
+  ON interviews FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own interviews"
+  ON interviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- JOB OFFERS POLICIES
+CREATE POLICY "Users can view their own job offers"
+  ON job_offers FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job offers"
+  ON job_offers FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own job offers"
+  ON job_offers FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own job offers"
+  ON job_offers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- SAVED SEARCHES POLICIES (scheduled runs use the service role)
+CREATE POLICY "Users can view their own saved searches"
+  ON saved_searches FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved searches"
+  ON saved_searches FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON saved_searches FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON saved_searches FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- SAVED SEARCH RUNS POLICIES (append-only: no UPDATE policy)
+CREATE POLICY "Users can view their own saved search runs"
+  ON saved_search_runs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved search runs"
+  ON saved_search_runs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
 -- =====================================================
 -- TRIGGERS
 -- =====================================================
@@ -190,6 +628,26 @@ CREATE TRIGGER update_resumes_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_interviews_updated_at
+  BEFORE UPDATE ON interviews
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_job_offers_updated_at
+  BEFORE UPDATE ON job_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
 -- =====================================================
 -- AUTO-CREATE PROFILE ON USER SIGNUP
 -- =====================================================
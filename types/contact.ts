@@ -0,0 +1,56 @@
+/**
+ * How the user knows a contact
+ */
+export type ContactRelationship =
+  | "recruiter"
+  | "hiring_manager"
+  | "referral"
+  | "interviewer"
+  | "colleague"
+  | "other";
+
+/**
+ * Contact Interface
+ *
+ * A person the user deals with during the job search (recruiter, hiring
+ * manager, referral, ...). Contacts belong to a company and can be linked to
+ * specific jobs; a job shows the contacts linked to it and those at its
+ * company.
+ */
+export interface Contact {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** Full name */
+  name: string;
+
+  /** Job title (e.g., "Engineering Manager, Payments") */
+  role?: string;
+
+  /** Email address */
+  email?: string;
+
+  /** LinkedIn profile URL */
+  linkedinUrl?: string;
+
+  /** How the user knows the contact */
+  relationship: ContactRelationship;
+
+  /** Company the contact works at (matched against job companies and their aliases) */
+  company?: string;
+
+  /** IDs of the jobs the contact is linked to */
+  jobIds: string[];
+
+  /** User notes about the contact */
+  notes?: string;
+
+  /** ISO timestamp of when the user last reached out */
+  lastContactedAt?: string;
+
+  /** ISO timestamp of when the contact was added */
+  createdAt: string;
+
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
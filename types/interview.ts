@@ -0,0 +1,69 @@
+/**
+ * How an interview round was held
+ */
+export type InterviewFormat = "phone" | "video" | "onsite" | "take_home" | "other";
+
+/**
+ * Result of an interview round
+ */
+export type InterviewOutcome = "pending" | "passed" | "rejected" | "cancelled";
+
+/**
+ * A question asked during an interview, with how the user answered it
+ */
+export interface InterviewQuestion {
+  /** The question as asked */
+  question: string;
+
+  /** What the user answered (or would answer next time) */
+  answer?: string;
+}
+
+/**
+ * Interview Interface
+ *
+ * One interview round for a saved job: when it happened, who ran it, what
+ * was asked and how it went. Past interviews are given to the Resume
+ * Generator and the interview prep assistant so questions asked before are
+ * not faced blind again.
+ */
+export interface Interview {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** ID of the job the interview is for */
+  jobId: string;
+
+  /** Name of the round (e.g., "Recruiter screen", "System design") */
+  round?: string;
+
+  /** ISO timestamp of when the interview took place (or is scheduled) */
+  scheduledAt: string;
+
+  /** How the interview was held */
+  format: InterviewFormat;
+
+  /** Names (and roles) of the interviewers */
+  interviewers: string[];
+
+  /** Questions asked during the interview */
+  questions: InterviewQuestion[];
+
+  /** How the user thinks it went */
+  selfAssessment?: string;
+
+  /** Self-rating of the performance (1-5) */
+  rating?: number;
+
+  /** Result of the round */
+  outcome: InterviewOutcome;
+
+  /** Free-form notes */
+  notes?: string;
+
+  /** ISO timestamp of when the interview was logged */
+  createdAt: string;
+
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
@@ -1,3 +1,6 @@
+import type { JobSourceId } from "@/components/agent/sources";
+import type { DealBreakerRuleType } from "@/types/profile";
+
 /**
  * Job Interface
  *
@@ -20,17 +23,26 @@ export interface Job {
   /** Salary range (optional, may not be provided in posting) */
   salary?: string;
 
+  /** Salary parsed into a numeric range (see lib/jobs/salary.ts) */
+  salaryRange?: SalaryRange;
+
   /** Full job description */
   description: string;
 
   /** Array of job requirements/qualifications */
   requirements: string[];
 
+  /** Requirements parsed from the posting (see lib/jobs/requirements.ts) */
+  structuredRequirements?: JobRequirements;
+
   /** URL to job posting */
   url: string;
 
-  /** Source of job discovery */
-  source: "firecrawl" | "adzuna" | "manual";
+  /** Department or team (provided by ATS sources such as Greenhouse and Lever) */
+  department?: string;
+
+  /** Source of job discovery (see components/agent/sources for registered sources) */
+  source: JobSourceId;
 
   /** ISO timestamp when job was discovered */
   discoveredAt: string;
@@ -40,23 +52,15 @@ export interface Job {
   /** Overall job fit score (0-100) */
   score?: number;
 
-  /** Breakdown of score by category */
-  scoreBreakdown?: {
-    /** Points awarded for salary match */
-    salaryMatch: number;
-
-    /** Points awarded for location fit */
-    locationFit: number;
+  /**
+   * Rating per scoring category id (0-1, share of the category's weight earned),
+   * e.g. { salaryMatch: 1, locationFit: 0.5, visaSponsorship: 0 }. Points are the
+   * ratings times the user's scoring weights (see lib/jobs/scoring.ts).
+   */
+  scoreBreakdown?: Record<ScoreCategory, number>;
 
-    /** Points awarded for company appeal */
-    companyAppeal: number;
-
-    /** Points awarded for role match */
-    roleMatch: number;
-
-    /** Points awarded for requirements fit */
-    requirementsFit: number;
-  };
+  /** Points the agent added to the weighted ratings (e.g. deal-breaker penalties), kept when re-weighting */
+  scoreAdjustment?: number;
 
   /** Natural language explanation of the score */
   reasoning?: string;
@@ -67,10 +71,40 @@ export interface Job {
   /** Priority level based on score (high ≥85, medium 70-84, low <70) */
   priority?: "high" | "medium" | "low";
 
+  /** Deterministic rule-based score computed on save (see lib/jobs/baseline-score.ts) */
+  baselineScore?: BaselineScore;
+
+  /** Deal-breaker rules the job violates (see lib/jobs/deal-breakers.ts); caps it at low priority */
+  dealBreakerViolations?: DealBreakerViolation[];
+
+  /** True if the company is on the user's allowlist (set when displayed or scored, not stored) */
+  targetCompany?: boolean;
+
   // --- Application Tracking (added by user) ---
 
-  /** Current application status */
-  applicationStatus?: "saved" | "applied" | "interviewing" | "offer" | "rejected";
+  /**
+   * Current application status ("inbox" for discovered jobs the user has not
+   * decided on yet, "dismissed" for jobs the user rejected during triage).
+   * Every change is recorded in the job's status history (see JobStatusEvent).
+   */
+  applicationStatus?:
+    | "inbox"
+    | "dismissed"
+    | "saved"
+    | "applied"
+    | "screening"
+    | "phone_screen"
+    | "interviewing"
+    | "onsite"
+    | "offer"
+    | "offer_negotiation"
+    | "accepted"
+    | "rejected"
+    | "withdrawn"
+    | "ghosted";
+
+  /** ISO timestamp until which an inbox job is hidden from the inbox */
+  snoozedUntil?: string;
 
   /** ISO timestamp of last status update */
   statusUpdatedAt?: string;
@@ -78,6 +112,25 @@ export interface Job {
   /** User notes about the job or application */
   notes?: string;
 
+  // --- Posting Liveness (checked periodically, see lib/jobs/liveness.ts) ---
+
+  /** ISO timestamp of when the posting was found closed or expired */
+  closedAt?: string;
+
+  /** Why the posting is considered closed (e.g., "Posting returned 404") */
+  closedReason?: string;
+
+  /** ISO timestamp of the last liveness check */
+  livenessCheckedAt?: string;
+
+  // --- Posting Changes (see lib/jobs/revisions.ts) ---
+
+  /** Hash of the description, requirements, salary and location as last saved or fetched */
+  contentHash?: string;
+
+  /** ISO timestamp of when an edit to the posting was last detected */
+  contentChangedAt?: string;
+
   // --- Tailored Resume (generated by Resume Generator Agent) ---
 
   /** Tailored resume data for this specific job */
@@ -104,7 +157,267 @@ export interface Job {
       remainingGaps: string[];
       recommendations: string[];
     };
+
+    /** Check of the resume's factual claims against the master resume */
+    verification?: ResumeVerification;
+  };
+
+  // --- Cover Letter (generated by Cover Letter Agent) ---
+
+  /** Cover letter generated for this specific job */
+  coverLetter?: CoverLetter;
+}
+
+/**
+ * Kind of factual claim checked in a tailored resume
+ */
+export type ResumeClaimType = "employer" | "title" | "date_range" | "degree" | "metric";
+
+/**
+ * Claim in a tailored resume with no match in the master resume
+ */
+export interface UnverifiedResumeClaim {
+  type: ResumeClaimType;
+
+  /** The claim as written in the tailored resume */
+  claim: string;
+
+  /** Line of the tailored resume the claim appears on */
+  line: string;
+}
+
+/**
+ * Result of checking a tailored resume against its master resume
+ * (see lib/jobs/fabrication-guard.ts)
+ */
+export interface ResumeVerification {
+  /** Number of distinct claims checked */
+  checkedClaims: number;
+
+  /** Claims that could not be traced back to the master resume */
+  unverifiedClaims: UnverifiedResumeClaim[];
+
+  /** ISO timestamp when the check ran */
+  verifiedAt: string;
+}
+
+/**
+ * Voice of a generated cover letter
+ */
+export type CoverLetterTone = "professional" | "enthusiastic" | "conversational" | "formal";
+
+/**
+ * Length of a generated cover letter
+ */
+export type CoverLetterLength = "short" | "standard" | "detailed";
+
+/**
+ * Cover letter generated for a job by the Cover Letter Agent
+ */
+export interface CoverLetter {
+  /** Letter content in markdown format */
+  content: string;
+
+  /** Name of the master resume the letter draws on */
+  masterResumeName: string;
+
+  /** Tone the letter was written in */
+  tone: CoverLetterTone;
+
+  /** Length the letter was written at */
+  length: CoverLetterLength;
+
+  /** ISO timestamp when the letter was generated */
+  generatedAt: string;
+
+  /** Job requirements the letter addresses, with the resume experience used for each */
+  addressedRequirements: string[];
+
+  /** Facts about the company the letter refers to (from the posting or research) */
+  companyResearch: string[];
+
+  /** Requirements the master resume has no experience for (not claimed in the letter) */
+  remainingGaps: string[];
+}
+
+/**
+ * Scoring category id (keys of Job.scoreBreakdown and UserProfile.scoringWeights):
+ * one of the built-in categories or a user-defined one (see types/profile.ts)
+ */
+export type ScoreCategory = string;
+
+/**
+ * Rule-based baseline score of a job
+ */
+export interface BaselineScore {
+  /** Overall baseline score (0-100) */
+  score: number;
+
+  /** Rating per category (0-1) */
+  scoreBreakdown: NonNullable<Job["scoreBreakdown"]>;
+
+  /** Priority level based on the baseline score */
+  priority: "high" | "medium" | "low";
+
+  /** Categories computed from rules; the rest received a neutral share of their weight */
+  computedCategories: ScoreCategory[];
+
+  /** Human-readable explanations of the computed categories */
+  notes: string[];
+
+  /** Gaps found by the rules (missing technologies, salary shortfall, ...) */
+  gaps: string[];
+
+  /** Scorer version (BASELINE_SCORER_VERSION) */
+  version: number;
+
+  /** ISO timestamp when the baseline was computed */
+  computedAt: string;
+}
+
+/**
+ * A deal-breaker rule that fired for a job
+ */
+export interface DealBreakerViolation {
+  /** Type of the rule that fired */
+  rule: DealBreakerRuleType;
+
+  /** Why the rule fired (e.g., "Salary tops out at $90k, below your $120k floor") */
+  message: string;
+}
+
+/**
+ * Context of a scoring run, recorded with every score in the history
+ */
+export interface ScoringRun {
+  /** "agent" for Job Matching Agent runs, "baseline" for rule-based scores */
+  method: "agent" | "baseline";
+
+  /** Model used by the agent (e.g., "gpt-5") */
+  model?: string;
+
+  /** Snapshot of the user's scoring weights at the time of the run */
+  scoringWeights?: Record<ScoreCategory, number>;
+
+  /** Profile updatedAt at the time of the run */
+  profileVersion?: string;
+}
+
+/**
+ * One entry in a job's scoring history
+ */
+export interface JobScoreRecord extends ScoringRun {
+  id: string;
+  jobId: string;
+  score: number;
+  scoreBreakdown?: Job["scoreBreakdown"];
+  scoreAdjustment?: number;
+  reasoning?: string;
+  gaps: string[];
+  priority?: PriorityLevel;
+
+  /** ISO timestamp of the run */
+  scoredAt: string;
+}
+
+/**
+ * Posting fields watched for edits
+ */
+export type JobContentField = "description" | "requirements" | "salary" | "location";
+
+/**
+ * Snapshot of a posting's watched fields, recorded when an edit is detected
+ *
+ * A job's first revision is the posting as it was saved; each later one
+ * lists the fields that differ from the revision before it.
+ */
+export interface JobRevision {
+  id: string;
+  jobId: string;
+
+  /** Hash of the snapshot (see computeJobContentHash) */
+  contentHash: string;
+
+  description: string;
+  requirements: string[];
+  salary?: string;
+  location: string;
+
+  /** Fields changed since the previous revision (empty for the first one) */
+  changedFields: JobContentField[];
+
+  /** ISO timestamp of when the revision was detected */
+  detectedAt: string;
+}
+
+/**
+ * One change of a job's application status
+ */
+export interface JobStatusEvent {
+  id: string;
+  jobId: string;
+
+  /** Status before the change (undefined for the first recorded status) */
+  fromStatus?: ApplicationStatus;
+
+  /** Status after the change */
+  toStatus: ApplicationStatus;
+
+  /** ISO timestamp of the change */
+  changedAt: string;
+}
+
+/**
+ * Pay periods recognized in salary text
+ */
+export type SalaryPeriod = "year" | "month" | "week" | "day" | "hour";
+
+/**
+ * Numeric salary range parsed from a posting
+ */
+export interface SalaryRange {
+  /** Lower bound (omitted for "Up to $X") */
+  min?: number;
+
+  /** Upper bound (omitted for "$X+") */
+  max?: number;
+
+  /** ISO 4217 currency code (e.g., "USD") */
+  currency: string;
+
+  /** Pay period the amounts refer to */
+  period: SalaryPeriod;
+
+  /** "posted" by the employer or "estimated" by the job source */
+  source: "posted" | "estimated";
+}
+
+/**
+ * Degree levels recognized in job postings (lowest to highest)
+ */
+export type DegreeLevel = "associate" | "bachelor" | "master" | "phd";
+
+/**
+ * Structured requirements extracted from a job posting
+ */
+export interface JobRequirements {
+  /** Required qualifications */
+  required: string[];
+
+  /** Preferred / nice-to-have qualifications */
+  preferred: string[];
+
+  /** Years of professional experience asked for (e.g., { min: 5 } for "5+ years") */
+  yearsOfExperience?: {
+    min: number;
+    max?: number;
   };
+
+  /** Minimum degree level mentioned in the posting */
+  degreeLevel?: DegreeLevel;
+
+  /** Named technologies mentioned in the posting (e.g., ["Python", "AWS"]) */
+  technologies: string[];
 }
 
 /**
@@ -140,10 +453,22 @@ export function isJobScored(job: Job): boolean {
 }
 
 /**
- * Checks if a job is saved (has been explicitly saved by user)
+ * Checks if a job is saved (has been explicitly saved by user, not just
+ * waiting in the inbox or dismissed)
  */
 export function isJobSaved(job: Job): boolean {
-  return job.applicationStatus !== undefined;
+  return (
+    job.applicationStatus !== undefined &&
+    job.applicationStatus !== "inbox" &&
+    job.applicationStatus !== "dismissed"
+  );
+}
+
+/**
+ * Checks if an inbox job is snoozed (hidden from the inbox until a later date)
+ */
+export function isJobSnoozed(job: Job, now: Date = new Date()): boolean {
+  return !!job.snoozedUntil && new Date(job.snoozedUntil).getTime() > now.getTime();
 }
 
 /**
@@ -159,6 +484,7 @@ export function createJob(data: {
   url: string;
   source: JobSource;
   salary?: string;
+  department?: string;
 }): Job {
   return {
     ...data,
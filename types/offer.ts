@@ -0,0 +1,62 @@
+/**
+ * Job Offer Interface
+ *
+ * The terms of an offer received for a job, entered by the user to compare
+ * offers side by side (see lib/jobs/offers.ts for the compensation math).
+ * A job has at most one offer; amounts are in the offer's currency.
+ */
+export interface JobOffer {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** ID of the job the offer is for */
+  jobId: string;
+
+  /** ISO 4217 currency code of the amounts (e.g., "USD") */
+  currency: string;
+
+  /** Annual base salary */
+  baseSalary: number;
+
+  /** Target annual bonus */
+  annualBonus: number;
+
+  /** One-time sign-on bonus (paid in the first year) */
+  signOnBonus: number;
+
+  /** Total value of the equity grant at offer time */
+  equityValue: number;
+
+  /** Share of the grant vesting each year, in percent (e.g., [25, 25, 25, 25]) */
+  vestingSchedule: number[];
+
+  /** Months before anything vests; what accrued before the cliff vests at it */
+  cliffMonths: number;
+
+  /** Benefits in words (e.g., "401k 4% match, full health coverage") */
+  benefits?: string;
+
+  /** Estimated annual value of the benefits (counted in total compensation) */
+  benefitsValue: number;
+
+  /** ISO date of the proposed start date (YYYY-MM-DD) */
+  startDate?: string;
+
+  /** ISO date the offer must be answered by (YYYY-MM-DD) */
+  deadline?: string;
+
+  /**
+   * User ratings (0-1) of the non-monetary factors, keyed by scoring category.
+   * Categories without a rating fall back to the job's score breakdown.
+   */
+  factorRatings: Record<string, number>;
+
+  /** User notes about the offer */
+  notes?: string;
+
+  /** ISO timestamp of when the offer was entered */
+  createdAt: string;
+
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
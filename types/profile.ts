@@ -26,29 +26,30 @@ export interface UserProfile {
   /** Job type preferences (e.g., ["Full-time", "Remote", "Hybrid"]) */
   jobPreferences: string[];
 
-  /** Deal breakers or requirements that disqualify jobs */
+  /** Deal breakers or requirements that disqualify jobs (free text, read by the agents) */
   dealBreakers: string;
 
+  /** Deal breakers checked in code before display and scoring (see lib/jobs/deal-breakers.ts) */
+  dealBreakerRules?: DealBreakerRule[];
+
   /** Description of ideal company (industries, size, culture, values) - used for Company Fit scoring (optional) */
   companyPreferences?: string;
 
-  /** Weights for scoring categories (must sum to 100) */
-  scoringWeights: {
-    /** Weight for salary match (default 30) */
-    salaryMatch: number;
-
-    /** Weight for location fit (default 20) */
-    locationFit: number;
+  /** Companies whose jobs are never shown (e.g., staffing agencies) */
+  companyBlocklist?: CompanyListEntry[];
 
-    /** Weight for company appeal (default 25) */
-    companyAppeal: number;
+  /** Target companies: searched first during discovery and boosted in Company Appeal */
+  companyAllowlist?: CompanyListEntry[];
 
-    /** Weight for role match (default 15) */
-    roleMatch: number;
+  /**
+   * Weight per scoring category id (must sum to 100). Holds the built-in
+   * categories (salaryMatch, locationFit, companyAppeal, roleMatch,
+   * requirementsFit) plus any customCategories.
+   */
+  scoringWeights: Record<string, number>;
 
-    /** Weight for requirements fit (default 10) */
-    requirementsFit: number;
-  };
+  /** User-defined scoring categories (e.g., "Visa Sponsorship") with their rubric */
+  customCategories?: ScoringCategory[];
 
   /** ISO timestamp of last profile update */
   updatedAt: string;
@@ -57,6 +58,87 @@ export interface UserProfile {
   createdVia?: "chat" | "form";
 }
 
+/**
+ * Structured deal-breaker rule (at most one rule per type)
+ */
+export type DealBreakerRule =
+  /** Jobs that are neither remote nor hybrid */
+  | { type: "onsite_only" }
+  /** Jobs whose annualized USD salary tops out below the amount */
+  | { type: "salary_below"; amount: number }
+  /** Jobs asking for a security clearance */
+  | { type: "requires_clearance" }
+  /** Contract, freelance and temporary roles */
+  | { type: "contract_role" }
+  /** Jobs whose title or description mentions any of the keywords */
+  | { type: "keywords"; keywords: string[] };
+
+export type DealBreakerRuleType = DealBreakerRule["type"];
+
+/**
+ * Company on the user's blocklist or allowlist
+ */
+export interface CompanyListEntry {
+  /** Company name as the user entered it (e.g., "Meta") */
+  name: string;
+
+  /** Other names the company posts under (e.g., ["Facebook"]) */
+  aliases?: string[];
+}
+
+/**
+ * Scoring category: a key of scoringWeights and Job.scoreBreakdown
+ */
+export interface ScoringCategory {
+  /** Stable identifier (e.g., "salaryMatch", "visaSponsorship") */
+  id: string;
+
+  /** Display name (e.g., "Visa Sponsorship") */
+  label: string;
+
+  /** How the Job Matching Agent should award points in this category */
+  rubric: string;
+
+  /** True for the five categories every profile has */
+  builtIn?: boolean;
+}
+
+/**
+ * Built-in scoring categories (their full rubrics live in the matching prompt)
+ */
+export const BUILT_IN_SCORING_CATEGORIES: ScoringCategory[] = [
+  {
+    id: "salaryMatch",
+    label: "Salary Match",
+    rubric: "How well the salary meets the user's minimum and maximum",
+    builtIn: true,
+  },
+  {
+    id: "locationFit",
+    label: "Location Fit",
+    rubric: "How well the location and remote/hybrid setup match the user's preferences",
+    builtIn: true,
+  },
+  {
+    id: "companyAppeal",
+    label: "Company Appeal",
+    rubric: "How well the company matches the user's company preferences",
+    builtIn: true,
+  },
+  {
+    id: "roleMatch",
+    label: "Role Match",
+    rubric: "How well the title and level match the user's target roles and experience",
+    builtIn: true,
+  },
+  {
+    id: "requirementsFit",
+    label: "Requirements Fit",
+    rubric: "Share of the posting's requirements the user meets",
+    builtIn: true,
+  },
+];
+
 /**
  * Default scoring weights that sum to 100
  */
@@ -87,15 +169,58 @@ export function createDefaultProfile(): UserProfile {
 }
 
 /**
- * Validates that scoring weights sum to exactly 100
+ * Validates that every scoring category has a non-negative weight, that no
+ * weight belongs to an unknown category, and that the weights sum to exactly 100
+ */
+export function validateScoringWeights(
+  weights: UserProfile["scoringWeights"],
+  categories: ScoringCategory[] = BUILT_IN_SCORING_CATEGORIES
+): boolean {
+  const ids = new Set(categories.map((category) => category.id));
+
+  // Every category needs a non-negative weight, and no weight may belong to an unknown category
+  const hasValidKeys =
+    categories.every(
+      (category) => Number.isFinite(weights[category.id]) && weights[category.id] >= 0
+    ) && Object.keys(weights).every((id) => ids.has(id));
+
+  const sum = categories.reduce((total, category) => total + (weights[category.id] ?? 0), 0);
+
+  return hasValidKeys && sum === 100;
+}
+
+/**
+ * Returns the profile's scoring categories: the built-in five followed by its custom categories
+ */
+export function getScoringCategories(
+  profile: Pick<UserProfile, "customCategories"> | null | undefined
+): ScoringCategory[] {
+  return [...BUILT_IN_SCORING_CATEGORIES, ...(profile?.customCategories || [])];
+}
+
+/**
+ * Creates a camelCase category id from a label (e.g., "Visa sponsorship" -> "visaSponsorship"),
+ * suffixed with a number if it is already taken
  */
-export function validateScoringWeights(weights: UserProfile["scoringWeights"]): boolean {
-  const sum =
-    weights.salaryMatch +
-    weights.locationFit +
-    weights.companyAppeal +
-    weights.roleMatch +
-    weights.requirementsFit;
-
-  return sum === 100;
+export function createScoringCategoryId(label: string, existing: ScoringCategory[]): string {
+  const words = label
+    .normalize("NFKD")
+    .replace(/[^a-zA-Z0-9\s]/g, " ")
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const camelCase = words
+    .map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1)))
+    .join("");
+  // Ids start with a letter ("401k match" -> "custom401kMatch")
+  const base = /^[a-z]/.test(camelCase) ? camelCase : `custom${camelCase}`;
+  const taken = new Set(existing.map((category) => category.id));
+
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}${suffix}`;
+  }
+  return id;
 }
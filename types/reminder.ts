@@ -0,0 +1,51 @@
+import type { ApplicationStatus } from "./job";
+
+/**
+ * Job Reminder Interface
+ *
+ * A follow-up task for a saved job (e.g. "Follow up on application" a week
+ * after applying). Reminders are created automatically when a job's status
+ * changes (see REMINDER_RULES in lib/jobs/reminders.ts) and can be edited,
+ * completed or deleted by the user.
+ */
+export interface JobReminder {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** ID of the job the reminder is for */
+  jobId: string;
+
+  /** What to do (e.g., "Send a thank-you note") */
+  title: string;
+
+  /** Optional details */
+  notes?: string;
+
+  /** ISO timestamp of when the reminder is due */
+  dueAt: string;
+
+  /** ISO timestamp of when the user completed the reminder */
+  completedAt?: string;
+
+  /** Status change that created the reminder (undefined if added by the user) */
+  trigger?: ApplicationStatus;
+
+  /** ISO timestamp of when the reminder was created */
+  createdAt: string;
+
+  /** Title, company and URL of the job (included when listing reminders) */
+  job?: {
+    title: string;
+    company: string;
+    url: string;
+  };
+}
+
+/**
+ * Checks if a reminder is due (open and due before the end of the given day)
+ */
+export function isReminderDue(reminder: JobReminder, now: Date = new Date()): boolean {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return !reminder.completedAt && new Date(reminder.dueAt).getTime() <= endOfDay.getTime();
+}
@@ -31,14 +31,14 @@ export interface Resume {
   /** Resume name/title */
   name: string;
 
-  /** Resume content (markdown or plain text) */
+  /** Resume content (markdown or plain text; PDF and DOCX uploads are extracted to markdown) */
   content: string;
 
   /** ISO timestamp of when resume was uploaded */
   uploadedAt: string;
 
-  /** File format */
-  format: "markdown" | "text";
+  /** File format (of the uploaded file) */
+  format: "markdown" | "text" | "pdf" | "docx";
 
   /** Parsed sections from the resume (optional) */
   sections?: ResumeSections;
@@ -75,6 +75,21 @@ export function validateResumeSize(content: string): boolean {
   return sizeInBytes <= maxSizeInBytes;
 }
 
+/**
+ * Validates an uploaded PDF or DOCX file size (max 5MB)
+ */
+export function validateResumeFileSize(file: { size: number }): boolean {
+  const maxSizeInBytes = 5 * 1024 * 1024; // 5MB
+  return file.size <= maxSizeInBytes;
+}
+
+/**
+ * True for formats uploaded as documents and extracted to markdown
+ */
+export function isDocumentResumeFormat(format: ResumeFormat): format is "pdf" | "docx" {
+  return format === "pdf" || format === "docx";
+}
+
 /**
  * Gets file format from file extension
  */
@@ -85,6 +100,10 @@ export function getResumeFormat(filename: string): ResumeFormat {
     return "markdown";
   }
 
+  if (extension === "pdf" || extension === "docx") {
+    return extension;
+  }
+
   return "text";
 }
 
@@ -0,0 +1,129 @@
+/**
+ * Where a saved search looks for jobs
+ *
+ * Job boards are searched by keyword; ATS boards (Greenhouse, Lever) list one
+ * company's postings, which are filtered by the search's query and location.
+ */
+export type SavedSearchSource =
+  | { source: "adzuna" }
+  | { source: "greenhouse"; boardToken: string; companyName?: string }
+  | { source: "lever"; companySlug: string; companyName?: string };
+
+/**
+ * Filters applied to a saved search's results before they reach the inbox
+ */
+export interface SavedSearchFilters {
+  /** Only keep remote jobs */
+  remoteOnly?: boolean;
+
+  /** Drop jobs whose annualized USD salary tops out below this amount */
+  salaryMin?: number;
+
+  /** Drop jobs whose title or description mentions any of these */
+  excludeKeywords?: string[];
+}
+
+/**
+ * Saved Search Interface
+ *
+ * A discovery query the user wants re-run on a schedule. Runs use the same
+ * source tools as the Job Discovery Agent and put new jobs in the inbox
+ * (applicationStatus: "inbox") for the user to review.
+ */
+export interface SavedSearch {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** Display name (e.g., "Remote staff engineer roles") */
+  name: string;
+
+  /** Search keywords (e.g., "staff software engineer") */
+  query: string;
+
+  /** Location filter (e.g., "Remote", "New York") */
+  location?: string;
+
+  /** Sources to search */
+  sources: SavedSearchSource[];
+
+  /** Filters applied to the results */
+  filters: SavedSearchFilters;
+
+  /** Results requested per source (max 50) */
+  resultsCount: number;
+
+  /** How often the scheduled run picks the search up */
+  frequency: "daily" | "weekly";
+
+  /** Paused searches are skipped by scheduled runs */
+  enabled: boolean;
+
+  /** ISO timestamp of the last run */
+  lastRunAt?: string;
+
+  /** ISO timestamp of when the search was created */
+  createdAt: string;
+}
+
+/**
+ * Outcome of one run of a saved search
+ */
+export interface SavedSearchRun {
+  /** Unique identifier (UUID) */
+  id: string;
+
+  /** ID of the saved search */
+  savedSearchId: string;
+
+  /** What started the run */
+  trigger: "scheduled" | "manual";
+
+  /** Jobs returned by the sources */
+  foundCount: number;
+
+  /** Jobs removed by the company blocklist, deal breakers or the search's filters */
+  filteredCount: number;
+
+  /** Jobs added to the inbox */
+  newCount: number;
+
+  /** Jobs the user already had (saved, in the inbox or otherwise) */
+  alreadySeenCount: number;
+
+  /** Errors reported by sources (a run with errors may still add jobs) */
+  errors: string[];
+
+  /** ISO timestamp of when the run started */
+  startedAt: string;
+
+  /** ISO timestamp of when the run finished */
+  finishedAt: string;
+}
+
+/**
+ * Saved search frequency types
+ */
+export type SavedSearchFrequency = SavedSearch["frequency"];
+
+/**
+ * Minimum time between scheduled runs per frequency (hours)
+ */
+export const SAVED_SEARCH_INTERVAL_HOURS: Record<SavedSearchFrequency, number> = {
+  daily: 24,
+  weekly: 24 * 7,
+};
+
+/**
+ * Checks if a saved search is due for a scheduled run
+ *
+ * A small grace period keeps a daily search from drifting later each day
+ * when the scheduler fires slightly early.
+ */
+export function isSavedSearchDue(search: SavedSearch, now: Date = new Date()): boolean {
+  if (!search.enabled) return false;
+  if (!search.lastRunAt) return true;
+
+  const intervalMs = SAVED_SEARCH_INTERVAL_HOURS[search.frequency] * 60 * 60 * 1000;
+  const graceMs = 15 * 60 * 1000;
+  return now.getTime() - new Date(search.lastRunAt).getTime() >= intervalMs - graceMs;
+}